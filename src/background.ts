@@ -6,6 +6,8 @@ import {
 } from './background/japanese-analyzer-service'
 import { VocabLibraryService, type VocabRequest } from './background/vocab-library-service'
 import { storageService, migrationManager } from './lib/storage'
+import { i18n, t } from './lib/i18n'
+import { BUILTIN_SITES, isBuiltinSite, matchesSitePattern } from './lib/builtin-sites'
 
 // --- New State and Configuration ---
 // Tracks which tabs have been manually activated by the user clicking the icon.
@@ -17,7 +19,7 @@ const injectedTabs = new Set<number>()
 // Configuration loaded from user settings
 let activationSettings = {
   globalAutoEnable: false,
-  autoEnabledSites: ['*://*.netflix.com/*'],
+  autoEnabledSites: [...BUILTIN_SITES],
 }
 
 // Track if settings have been loaded to prevent race conditions
@@ -32,6 +34,9 @@ loadActivationSettings().then(() => {
   console.log('[Background] Initial settings load completed')
 })
 
+// 加载界面语言，返回给弹出窗口的错误信息随之切换
+i18n.init()
+
 // 启动数据迁移检查
 console.log('[Background] 开始启动迁移检查...')
 migrationManager
@@ -102,8 +107,8 @@ function setIcon(active: boolean, tabId: number): void {
  */
 async function hasPermissionForUrl(url: string): Promise<boolean> {
   try {
-    // Netflix is always allowed via host_permissions
-    if (url.includes('netflix.com')) {
+    // Built-in streaming sites are always allowed via host_permissions
+    if (isBuiltinSite(url)) {
       return true
     }
 
@@ -221,7 +226,7 @@ async function updateTabState(tab: chrome.tabs.Tab): Promise<void> {
   const isAutoEnabled =
     activationSettings.globalAutoEnable ||
     activationSettings.autoEnabledSites.some((pattern: string) =>
-      new URL(tab.url!).href.match(new RegExp(pattern.replace(/\*/g, '.*')))
+      matchesSitePattern(new URL(tab.url!).href, pattern)
     )
 
   console.log(
@@ -312,14 +317,14 @@ async function handleScreenshotRequest(
   // Ensure we have sender.tab object and tab.id
   if (sender.tab && sender.tab.id && sender.tab.url) {
     // For screenshot, try to use activeTab if available, or check optional permissions
-    const isNetflix = sender.tab.url.includes('netflix.com')
+    const isBuiltin = isBuiltinSite(sender.tab.url)
     const hasOptionalPermission = await chrome.permissions.contains({
       origins: ['*://*/*']
     })
     
-    // If it's not Netflix and we don't have optional permissions, 
+    // If it's not a built-in site and we don't have optional permissions, 
     // we'll try anyway as activeTab might be sufficient, but warn the user
-    if (!isNetflix && !hasOptionalPermission) {
+    if (!isBuiltin && !hasOptionalPermission) {
       console.warn('Screenshot attempt without optional permissions, relying on activeTab')
     }
 
@@ -359,14 +364,14 @@ async function handleVideoSelectionRequest(sendResponse: (response?: any) => voi
     const tabs = await chrome.tabs.query({ active: true, currentWindow: true })
 
     if (tabs.length === 0) {
-      sendResponse({ success: false, error: '无法找到当前标签页' })
+      sendResponse({ success: false, error: t('background.tabNotFound') })
       return
     }
 
     const activeTab = tabs[0]
 
     if (!activeTab.id) {
-      sendResponse({ success: false, error: '标签页ID无效' })
+      sendResponse({ success: false, error: t('background.invalidTabId') })
       return
     }
 
@@ -376,7 +381,7 @@ async function handleVideoSelectionRequest(sendResponse: (response?: any) => voi
       activeTab.url.startsWith('chrome://') ||
       activeTab.url.startsWith('chrome-extension://')
     ) {
-      sendResponse({ success: false, error: '当前页面不支持此功能' })
+      sendResponse({ success: false, error: t('background.pageNotSupported') })
       return
     }
 
@@ -386,7 +391,7 @@ async function handleVideoSelectionRequest(sendResponse: (response?: any) => voi
         console.error('Failed to send message to content script:', chrome.runtime.lastError)
         sendResponse({
           success: false,
-          error: '内容脚本未响应，请刷新页面后重试',
+          error: t('background.contentScriptNoResponse'),
         })
       } else {
         sendResponse({ success: true, data: response })
@@ -396,7 +401,9 @@ async function handleVideoSelectionRequest(sendResponse: (response?: any) => voi
     console.error('Error in handleVideoSelectionRequest:', error)
     sendResponse({
       success: false,
-      error: '启动失败：' + (error instanceof Error ? error.message : '未知错误'),
+      error: t('background.startFailed', {
+        error: error instanceof Error ? error.message : t('common.unknownError'),
+      }),
     })
   }
 }
@@ -420,7 +427,7 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
       if (!tab.url || tab.url.startsWith('chrome://') || tab.url.startsWith('chrome-extension://') || tab.url.startsWith('moz-extension://') || tab.url.startsWith('edge://')) {
         console.log(`[Background] Skipping activation on special URL: ${tab.url}`)
         setIcon(false, tabId)
-        sendResponse({ success: true, message: '当前页面不支持扩展功能' })
+        sendResponse({ success: true, message: t('background.extensionNotSupported') })
         return
       }
 
@@ -491,7 +498,7 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
         sendResponse({
           requestId: vocabRequest.requestId,
           success: false,
-          error: error instanceof Error ? error.message : '服务器内部错误',
+          error: error instanceof Error ? error.message : t('background.internalError'),
         })
       })
     return true // Keep sendResponse alive for async response
@@ -516,6 +523,23 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
       'GET_SCREENSHOT',
       'CLEAR_ALL_DATA',
       'MIGRATE_DATA',
+      'GET_DUE_REVIEWS',
+      'GET_REVIEW_SUMMARY',
+      'GRADE_CARD',
+      'GET_REVIEW_STATES',
+      'SAVE_REVIEW_STATES',
+      'SAVE_SUBTITLE_TRACK',
+      'GET_SUBTITLE_TRACK',
+      'GET_KNOWN_WORDS',
+      'ADD_KNOWN_WORDS',
+      'REMOVE_KNOWN_WORDS',
+      'GET_CUSTOM_LIBRARIES',
+      'SAVE_CUSTOM_LIBRARY',
+      'DELETE_CUSTOM_LIBRARY',
+      'GET_DICTIONARIES',
+      'IMPORT_DICTIONARY',
+      'DELETE_DICTIONARY',
+      'LOOKUP_DICTIONARY',
     ].includes(request.type)
   ) {
     console.log(
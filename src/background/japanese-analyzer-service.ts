@@ -4,6 +4,7 @@
  */
 
 import { analyze, type Word } from '@/lib/japanese-analyzer'
+import { t } from '@/lib/i18n'
 
 export interface AnalyzeRequest {
   requestId: string
@@ -89,7 +90,7 @@ export class JapaneseAnalyzerService {
       return {
         requestId: request.requestId,
         success: false,
-        error: error instanceof Error ? error.message : '未知错误'
+        error: error instanceof Error ? error.message : t('common.unknownError')
       }
     }
   }
@@ -106,7 +107,7 @@ export class JapaneseAnalyzerService {
       sendResponse({
         requestId: request.requestId,
         success: false,
-        error: error instanceof Error ? error.message : '服务器内部错误'
+        error: error instanceof Error ? error.message : t('background.internalError')
       })
     }
   }
@@ -11,6 +11,8 @@ import type {
   FlashCard,
 } from '@/types'
 import { storageService } from '@/lib/storage'
+import { buildFrequencyLibrary, getLibraryLevel, sortByFrequency } from '@/lib/frequency-library'
+import { t } from '@/lib/i18n'
 
 export interface VocabRequest {
   requestId: string
@@ -34,6 +36,8 @@ export class VocabLibraryService {
   }
   private isInitialized: boolean = false
   private initializationPromise: Promise<void> | null = null
+  // 自定义词库变化后重新加载，期间的请求需等待加载完成
+  private libraryReloadPromise: Promise<void> | null = null
 
   private constructor() {}
 
@@ -64,6 +68,7 @@ export class VocabLibraryService {
       
       await this.loadLibraries()
       await this.loadSettings()
+      this.setupStorageListener()
 
       this.isInitialized = true
       console.log('[VocabLibraryService] 中央化词库服务初始化完成')
@@ -94,15 +99,15 @@ export class VocabLibraryService {
 
       const jlptLibrary: VocabLibrary = {
         id: 'jlpt',
-        name: 'JLPT 日语能力考试',
-        description: '包含 N5 到 N1 的全部词汇',
+        name: t('library.jlpt.name'),
+        description: t('library.jlpt.description'),
         icon: '📚',
         data: jlptData,
         totalWords: jlptData.length,
         levels: jlptLevels,
       }
 
-      this.libraries = [jlptLibrary]
+      this.libraries = [jlptLibrary, buildFrequencyLibrary(jlptData)]
       console.log(`[VocabLibraryService] 成功加载JLPT词库: ${jlptData.length}个词汇`)
     } catch (error) {
       console.error('加载词库失败:', error)
@@ -110,8 +115,8 @@ export class VocabLibraryService {
       this.libraries = [
         {
           id: 'jlpt',
-          name: 'JLPT 日语能力考试',
-          description: '词库加载失败，请刷新页面重试',
+          name: t('library.jlpt.name'),
+          description: t('library.jlpt.loadFailed'),
           icon: '⚠️',
           data: [],
           totalWords: 0,
@@ -119,6 +124,22 @@ export class VocabLibraryService {
         },
       ]
     }
+
+    this.libraries.push(...(await this.loadCustomLibraries()))
+  }
+
+  /**
+   * 用户导入的自定义词库保存在 IndexedDB 中
+   */
+  private async loadCustomLibraries(): Promise<VocabLibrary[]> {
+    try {
+      const customLibraries = await storageService.getCustomLibraries()
+      console.log(`[VocabLibraryService] 加载自定义词库: ${customLibraries.length}个`)
+      return customLibraries
+    } catch (error) {
+      console.error('加载自定义词库失败:', error)
+      return []
+    }
   }
 
   private async loadSettings(): Promise<void> {
@@ -126,7 +147,9 @@ export class VocabLibraryService {
       const result = await chrome.storage.local.get(['vocabLibrarySettings'])
       if (result.vocabLibrarySettings) {
         this.settings = result.vocabLibrarySettings
-      } else {
+      }
+      // 首次使用或选中的自定义词库已被删除时回到 JLPT 词库
+      if (!result.vocabLibrarySettings || !this.getSelectedLibrary()) {
         // 初始化默认设置
         await this.initializeDefaultSettings()
       }
@@ -139,10 +162,22 @@ export class VocabLibraryService {
     const jlptLibrary = this.libraries.find((lib) => lib.id === 'jlpt')
     if (!jlptLibrary) return
 
+    this.settings = {
+      selectedLibraryId: 'jlpt',
+      levelSettings: this.buildLevelSettings(jlptLibrary),
+    }
+
+    await this.saveSettings()
+  }
+
+  /**
+   * 词库的所有等级默认启用
+   */
+  private buildLevelSettings(library: VocabLibrary): Record<string, LevelProgress> {
     const levelSettings: Record<string, LevelProgress> = {}
 
-    for (const level of jlptLibrary.levels) {
-      const wordsInLevel = jlptLibrary.data.filter((word) => word.Level === level)
+    for (const level of library.levels) {
+      const wordsInLevel = library.data.filter((word) => getLibraryLevel(word) === level)
       levelSettings[level] = {
         level,
         enabled: true,
@@ -151,24 +186,38 @@ export class VocabLibraryService {
       }
     }
 
-    this.settings = {
-      selectedLibraryId: 'jlpt',
-      levelSettings,
-    }
-
-    await this.saveSettings()
+    return levelSettings
   }
 
   async saveSettings(): Promise<void> {
     await chrome.storage.local.set({ vocabLibrarySettings: this.settings })
   }
 
+  /**
+   * 设置页切换词库、修改等级或导入/删除自定义词库后同步到后台
+   */
+  private setupStorageListener(): void {
+    chrome.storage.onChanged.addListener(async (changes) => {
+      if (changes.vocabLibrariesUpdatedAt) {
+        this.libraryReloadPromise = this.loadLibraries()
+        await this.libraryReloadPromise
+        this.libraryReloadPromise = null
+      }
+      if (changes.vocabLibrarySettings?.newValue) {
+        this.settings = changes.vocabLibrarySettings.newValue
+      }
+    })
+  }
+
   /**
    * 处理来自内容脚本的请求
    */
   async handleRequest(request: VocabRequest): Promise<VocabResponse> {
     try {
       await this.initialize()
+      if (this.libraryReloadPromise) {
+        await this.libraryReloadPromise
+      }
 
       let data: unknown
 
@@ -200,13 +249,14 @@ export class VocabLibraryService {
       return {
         requestId: request.requestId,
         success: false,
-        error: error instanceof Error ? error.message : '未知错误',
+        error: error instanceof Error ? error.message : t('common.unknownError'),
       }
     }
   }
 
   /**
-   * 获取当前激活的词汇列表
+   * 获取当前激活的词汇列表（排除用户标记为已掌握的词汇）
+   * 按词频从高到低排列，内容脚本据此优先高亮最常用的词汇
    */
   private async getActiveWordlist(): Promise<string[]> {
     const selectedLibrary = this.getSelectedLibrary()
@@ -218,9 +268,13 @@ export class VocabLibraryService {
 
     if (enabledLevels.length === 0) return []
 
-    const activeWords = selectedLibrary.data
-      .filter((word) => enabledLevels.includes(word.Level))
-      .map((word) => word.VocabKanji)
+    const knownWords = new Set((await storageService.getKnownWords()).map(known => known.word))
+
+    const activeWords = sortByFrequency(
+      selectedLibrary.data.filter(
+        word => enabledLevels.includes(getLibraryLevel(word)) && !knownWords.has(word.VocabKanji)
+      )
+    ).map(word => word.VocabKanji)
 
     return activeWords
   }
@@ -246,11 +300,16 @@ export class VocabLibraryService {
     try {
       const savedCards: FlashCard[] = await storageService.getAllCards()
 
+      // 卡片的 level 是 JLPT 等级，按词汇在当前词库中的分组统计
+      const wordLevels = new Map(
+        (this.getSelectedLibrary()?.data || []).map((word) => [word.VocabKanji, getLibraryLevel(word)])
+      )
       const learnedWordsCount: Record<string, number> = {}
 
       for (const card of savedCards) {
-        if (card.level) {
-          learnedWordsCount[card.level] = (learnedWordsCount[card.level] || 0) + 1
+        const level = wordLevels.get(card.word) || card.level
+        if (level) {
+          learnedWordsCount[level] = (learnedWordsCount[level] || 0) + 1
         }
       }
 
@@ -283,7 +342,7 @@ export class VocabLibraryService {
       .map(([level]) => level)
 
     const activeWordsCount = selectedLibrary
-      ? selectedLibrary.data.filter((word) => enabledLevels.includes(word.Level)).length
+      ? selectedLibrary.data.filter((word) => enabledLevels.includes(getLibraryLevel(word))).length
       : 0
 
     return {
@@ -3,14 +3,37 @@
  * 支持多字幕源架构的重构版本
  */
 
-import type { FlashCard, ExtensionSettings, Word } from '@/types'
+import type {
+  DefinitionLanguageSetting,
+  DictionaryEntry,
+  FlashCard,
+  ExtensionSettings,
+  SubtitleTrack,
+  Word,
+} from '@/types'
 import { CachedRemoteVocabLibraryManager } from '@/lib/vocab-library/cached-remote-vocab-library'
 import { SubtitleProcessor } from './subtitle-processor'
 import { SubtitleSourceRegistry, PageContextBuilder } from './subtitle-sources/registry'
 import { NetflixSubtitleSource } from './subtitle-sources/netflix-source'
+import { YouTubeSubtitleSource } from './subtitle-sources/youtube-source'
+import { PrimeVideoSubtitleSource } from './subtitle-sources/prime-video-source'
+import { CrunchyrollSubtitleSource } from './subtitle-sources/crunchyroll-source'
+import { DisneyPlusSubtitleSource } from './subtitle-sources/disney-plus-source'
+import { UNextSubtitleSource } from './subtitle-sources/unext-source'
 import { CustomSRTSubtitleSource } from './subtitle-sources/custom-srt-source'
-import type { ISubtitleSource, PageContext } from './subtitle-sources/types'
+import { TextTrackSubtitleSource } from './subtitle-sources/text-track-source'
+import { TranscriptPanel, type TranscriptPanelOptions } from './transcript-panel'
+import { StudyControls } from './study-controls'
+import { WordPopup, type WordPopupContent } from './word-popup'
+import type { ISubtitleSource, PageContext, SubtitleLoadOptions } from './subtitle-sources/types'
 import { storageService } from '@/lib/storage'
+import { t } from '@/lib/i18n'
+import { formatDictionaryGlosses, getDictionaryReading } from '@/lib/dictionary/common'
+import { resolveStudyHotkeys } from '@/lib/study-settings'
+import { resolveDefinitionLanguage, selectDefinition } from '@/lib/definition-settings'
+import { DEFAULT_MARK_KNOWN_HOTKEY, DEFAULT_TARGET_CYCLE_HOTKEY } from '@/lib/highlight-settings'
+import { EncodingDetector } from '@/lib/encoding-detector'
+import type { TextEncodingName } from '@/lib/encoding-detector'
 
 export class ImmersiveMemorize {
   private vocabLibraryManager: CachedRemoteVocabLibraryManager
@@ -18,12 +41,25 @@ export class ImmersiveMemorize {
   private sourceRegistry: SubtitleSourceRegistry
   private activeSource: ISubtitleSource | null = null
   private customSource: CustomSRTSubtitleSource
+  // 当前剧集的整集字幕轨道（目前由 Netflix 捕获）
+  private currentSubtitleTrack: SubtitleTrack | null = null
+  private transcriptPanel: TranscriptPanel | null = null
+  private studyControls: StudyControls
+  private wordPopup: WordPopup
 
   private learnedWords: Set<string> = new Set()
+  // 用户标记为已掌握的词汇（已由词库服务从激活词表中排除，这里用于查词弹窗显示状态）
+  private knownWords: Set<string> = new Set()
   private currentTargetWord: Word | null = null
   private currentTargetElement: HTMLElement | null = null
+  // 当前字幕中所有已高亮的目标词汇（"显示所有生词"模式下可切换当前目标）
+  private currentTargets: { word: Word; element: HTMLElement }[] = []
   private pageContextObserver: MutationObserver | null = null
+  private textTrackWatchers: { tracks: TextTrackList; handler: () => void }[] = []
   private hotkeyHandler: ((e: KeyboardEvent) => void) | null = null
+  private targetClickHandler: ((e: MouseEvent) => void) | null = null
+  private wordHoverHandler: ((e: MouseEvent) => void) | null = null
+  private wordLeaveHandler: ((e: MouseEvent) => void) | null = null
   private isHotkeyEnabled: boolean = false
   private heavyResourcesLoaded: boolean = false
 
@@ -34,8 +70,13 @@ export class ImmersiveMemorize {
   private isProcessing: boolean = false
 
   private captureHotkey: string = 's'
+  private targetCycleHotkey: string = DEFAULT_TARGET_CYCLE_HOTKEY
+  private markKnownHotkey: string = DEFAULT_MARK_KNOWN_HOTKEY
+  private highlightAllTargets: boolean = false
   private debugMode: boolean = true
   private enableScreenshot: boolean = false
+  // 保存卡片与查词弹窗优先使用的释义语言
+  private definitionLanguage: DefinitionLanguageSetting = 'auto'
 
   // Context-Aware 属性
   private isMainFrame: boolean
@@ -53,6 +94,19 @@ export class ImmersiveMemorize {
     this.vocabLibraryManager = new CachedRemoteVocabLibraryManager()
     this.sourceRegistry = new SubtitleSourceRegistry(this.debugMode)
     this.customSource = new CustomSRTSubtitleSource(this.debugMode)
+    this.studyControls = new StudyControls(
+      (message, type) => this.showNotification(message, type),
+      this.debugMode
+    )
+    this.wordPopup = new WordPopup(
+      {
+        onSave: (word, element) => this.captureData({ word, element }),
+        onMarkKnown: word => this.markWordKnown(word),
+        lookupDictionary: word => this.lookupDictionary(word),
+        getDefinitionLanguage: () => resolveDefinitionLanguage(this.definitionLanguage),
+      },
+      this.debugMode
+    )
     this.initializeSubtitleSources()
     this.setupMessageListeners()
   }
@@ -62,7 +116,25 @@ export class ImmersiveMemorize {
    */
   private initializeSubtitleSources(): void {
     // 注册Netflix字幕源
-    this.sourceRegistry.register('netflix.com', new NetflixSubtitleSource(this.debugMode))
+    const netflixSource = new NetflixSubtitleSource(this.debugMode)
+    netflixSource.onTrackCaptured(track => this.handleSubtitleTrackCaptured(track))
+    this.sourceRegistry.register('netflix.com', netflixSource)
+
+    // 注册YouTube字幕源
+    this.sourceRegistry.register('youtube.com', new YouTubeSubtitleSource(this.debugMode))
+
+    // 注册Prime Video字幕源（独立站点与亚马逊视频频道共用同一实例）
+    const primeVideoSource = new PrimeVideoSubtitleSource(this.debugMode)
+    this.sourceRegistry.register('primevideo.com', primeVideoSource)
+    this.sourceRegistry.register('amazon.', primeVideoSource)
+
+    // 注册其他流媒体平台字幕源
+    this.sourceRegistry.register('crunchyroll.com', new CrunchyrollSubtitleSource(this.debugMode))
+    this.sourceRegistry.register('disneyplus.com', new DisneyPlusSubtitleSource(this.debugMode))
+    this.sourceRegistry.register('unext.jp', new UNextSubtitleSource(this.debugMode))
+
+    // 注册HTML5 TextTrack字幕源（页面视频自带字幕轨道时使用）
+    this.sourceRegistry.register('*', new TextTrackSubtitleSource(this.debugMode))
 
     // 注册自定义字幕源（支持所有网站）
     this.sourceRegistry.register('*', this.customSource)
@@ -144,6 +216,11 @@ export class ImmersiveMemorize {
       await this.initializeActiveSource()
     }
 
+    // 播放器可能在播放开始后才通过 MSE 注入字幕轨道
+    if (!this.activeSource) {
+      this.watchForTextTracks(context)
+    }
+
     // 设置页面变化监听器
     this.setupPageContextObserver(context)
   }
@@ -168,6 +245,7 @@ export class ImmersiveMemorize {
       this.learnedWords,
       this.debugMode
     )
+    this.subtitleProcessor.setHighlightAll(this.highlightAllTargets)
 
     this.heavyResourcesLoaded = true
 
@@ -214,6 +292,7 @@ export class ImmersiveMemorize {
     this.activeSource.setupObserver((containers: HTMLElement[]) => {
       this.processSubtitleContainers(containers)
     })
+    this.studyControls.attach(this.activeSource)
   }
 
   /**
@@ -300,6 +379,7 @@ export class ImmersiveMemorize {
       this.clearAllHighlights()
       this.currentTargetWord = null
       this.currentTargetElement = null
+      this.currentTargets = []
 
       // 按优先级处理容器
       for (const container of containers) {
@@ -310,23 +390,29 @@ export class ImmersiveMemorize {
         container.dataset.imProcessed = ''
 
         // 尝试处理这个容器
-        const targetWord = await this.subtitleProcessor!.processAndHighlight(container)
+        const targetWords = await this.subtitleProcessor!.processAndHighlight(container)
+        if (targetWords.length === 0) continue
 
-        if (targetWord) {
-          this.currentTargetWord = targetWord
-          this.currentTargetElement = document.querySelector('.im-current-target')
-          container.dataset.imProcessed = 'true'
+        container.dataset.imProcessed = 'true'
+        container.querySelectorAll<HTMLElement>('.im-highlight').forEach(element => {
+          const word = targetWords.find(target => target.lemma === element.dataset.lemma)
+          if (word) this.currentTargets.push({ word, element })
+        })
 
-          if (this.debugMode) {
-            console.log(
-              `[ImmersiveMemorizeV2] 找到目标词汇: ${targetWord.word} (原形: ${targetWord.lemma})`
-            )
-          }
-          return // 找到目标词汇后停止处理
+        if (this.debugMode) {
+          console.log(
+            `[ImmersiveMemorizeV2] 找到目标词汇: ${targetWords.map(word => `${word.word} (原形: ${word.lemma})`).join(', ')}`
+          )
         }
+
+        // 单词模式下找到目标词汇后停止处理，"显示所有生词"模式下继续处理其余字幕行
+        if (!this.highlightAllTargets) break
       }
 
-      if (this.debugMode) {
+      if (this.currentTargets.length > 0) {
+        this.selectTarget(0)
+        this.studyControls.armAutoPause()
+      } else if (this.debugMode) {
         console.log('[ImmersiveMemorizeV2] 当前字幕无未学词汇')
       }
     } catch (error) {
@@ -336,6 +422,46 @@ export class ImmersiveMemorize {
     }
   }
 
+  /**
+   * 切换捕获快捷键保存的目标词汇
+   */
+  private selectTarget(index: number): void {
+    const target = this.currentTargets[index]
+    if (!target) return
+
+    this.currentTargetWord = target.word
+    this.currentTargetElement = target.element
+    this.subtitleProcessor?.markCurrentTarget(target.element)
+
+    if (this.debugMode && this.currentTargets.length > 1) {
+      console.log(
+        `[ImmersiveMemorizeV2] 当前目标词汇: ${target.word.word} (${index + 1}/${this.currentTargets.length})`
+      )
+    }
+  }
+
+  private cycleTarget(): void {
+    const currentIndex = this.currentTargets.findIndex(
+      target => target.element === this.currentTargetElement
+    )
+    this.selectTarget((currentIndex + 1) % this.currentTargets.length)
+  }
+
+  private findSubtitleWordElement(target: EventTarget | null): HTMLElement | null {
+    if (!(target instanceof Element)) return null
+    return target.closest<HTMLElement>('.im-word, .im-highlight')
+  }
+
+  private getWordPopupContent(word: Word, element: HTMLElement): WordPopupContent {
+    return {
+      word,
+      element,
+      entry: this.subtitleProcessor?.findVocabEntry(word.lemma) || null,
+      isSaved: this.learnedWords.has(word.lemma),
+      isKnown: this.knownWords.has(word.lemma),
+    }
+  }
+
   /**
    * 设置页面上下文观察器
    */
@@ -356,12 +482,105 @@ export class ImmersiveMemorize {
           this.activeSource.cleanup()
           this.activeSource = null
         }
+        this.studyControls.detach()
+        this.hideTranscriptPanel()
+
+        this.detectAndInitializeSubtitleSources()
+      }
+    })
+  }
 
+  /**
+   * 监听视频新增的字幕轨道，出现后重新检测字幕源
+   */
+  private watchForTextTracks(context: PageContext): void {
+    this.clearTextTrackWatchers()
+
+    context.videoElements.forEach(video => {
+      const handler = () => {
+        if (this.activeSource) return
+        if (this.debugMode) {
+          console.log('[ImmersiveMemorizeV2] 检测到新的字幕轨道，重新检测字幕源')
+        }
+        this.clearTextTrackWatchers()
         this.detectAndInitializeSubtitleSources()
       }
+      video.textTracks.addEventListener('addtrack', handler)
+      this.textTrackWatchers.push({ tracks: video.textTracks, handler })
     })
   }
 
+  private clearTextTrackWatchers(): void {
+    this.textTrackWatchers.forEach(({ tracks, handler }) => {
+      tracks.removeEventListener('addtrack', handler)
+    })
+    this.textTrackWatchers = []
+  }
+
+  /**
+   * 保存捕获到的整集字幕轨道，并在观看前统计本集词汇覆盖率
+   */
+  private async handleSubtitleTrackCaptured(track: SubtitleTrack): Promise<void> {
+    this.currentSubtitleTrack = track
+
+    try {
+      await this.ensureHeavyResourcesLoaded()
+      if (this.subtitleProcessor && track.language.toLowerCase().startsWith('ja')) {
+        track.coverage = await this.subtitleProcessor.computeCoverage(
+          track.entries.map(entry => entry.text)
+        )
+      }
+
+      await storageService.saveSubtitleTrack(track)
+
+      const video = this.activeSource?.getVideoElement?.() || document.querySelector('video')
+      if (video) {
+        this.showTranscriptPanel({
+          entries: track.entries,
+          video,
+          title: track.title,
+          seek: track.platform === 'netflix' ? time => NetflixSubtitleSource.seek(time) : undefined,
+        })
+      }
+
+      if (track.coverage) {
+        const percent = Math.round(track.coverage.coverage * 100)
+        this.showNotification(
+          t('content.trackCoverage', {
+            entries: track.entries.length,
+            targets: track.coverage.targetWords.length,
+            percent,
+          }),
+          'info'
+        )
+      }
+    } catch (error) {
+      console.error('[ImmersiveMemorizeV2] 处理字幕轨道失败:', error)
+    }
+  }
+
+  /**
+   * 显示字幕全文面板（替换已有面板）
+   */
+  private showTranscriptPanel(options: Omit<TranscriptPanelOptions, 'highlightLine'>): void {
+    this.hideTranscriptPanel()
+    if (options.entries.length === 0) return
+
+    this.transcriptPanel = new TranscriptPanel(
+      {
+        ...options,
+        highlightLine: async line => this.subtitleProcessor?.markAllTargetWords(line),
+      },
+      this.debugMode
+    )
+    this.transcriptPanel.mount()
+  }
+
+  private hideTranscriptPanel(): void {
+    this.transcriptPanel?.destroy()
+    this.transcriptPanel = null
+  }
+
   /**
    * 检查上下文是否有重大变化
    */
@@ -376,7 +595,11 @@ export class ImmersiveMemorize {
   /**
    * 切换到自定义字幕模式
    */
-  async switchToCustomSubtitleMode(srtFile: File, targetVideo: HTMLVideoElement): Promise<void> {
+  async switchToCustomSubtitleMode(
+    srtFile: File,
+    targetVideo: HTMLVideoElement,
+    options: SubtitleLoadOptions = {}
+  ): Promise<void> {
     try {
       // 确保重型资源已加载
       await this.ensureHeavyResourcesLoaded()
@@ -387,7 +610,7 @@ export class ImmersiveMemorize {
       }
 
       // 配置自定义字幕源
-      await this.customSource.loadSRTFile(srtFile)
+      await this.customSource.loadSRTFile(srtFile, options)
       this.customSource.setTargetVideo(targetVideo)
       await this.customSource.initialize()
 
@@ -401,10 +624,22 @@ export class ImmersiveMemorize {
         console.log('[ImmersiveMemorizeV2] 切换到自定义字幕模式:', stats)
       }
 
-      this.showNotification(`已加载 ${this.customSource.getStats().totalEntries} 条自定义字幕`)
+      this.showTranscriptPanel({
+        entries: this.customSource.getSubtitleEntries(),
+        video: targetVideo,
+        title: srtFile.name,
+        getTimeOffset: () => this.customSource.getTimeOffset(),
+      })
+
+      this.showNotification(
+        t('content.customLoaded', { count: this.customSource.getStats().totalEntries })
+      )
     } catch (error) {
       console.error('[ImmersiveMemorizeV2] 切换到自定义字幕模式失败:', error)
-      this.showNotification('自定义字幕加载失败: ' + (error as Error).message, 'error')
+      this.showNotification(
+        t('content.customLoadFailed', { error: (error as Error).message }),
+        'error'
+      )
       this.disableHotkeyListener()
     }
   }
@@ -423,6 +658,7 @@ export class ImmersiveMemorize {
       if (this.activeSource) {
         this.activeSource.cleanup()
       }
+      this.hideTranscriptPanel()
 
       // 切换到原生字幕源
       this.activeSource = nativeSources[0]
@@ -432,9 +668,9 @@ export class ImmersiveMemorize {
         console.log(`[ImmersiveMemorizeV2] 切换到原生字幕模式: ${this.activeSource.name}`)
       }
 
-      this.showNotification(`已切换到${this.activeSource.name}`)
+      this.showNotification(t('content.switchedToSource', { name: this.activeSource.name }))
     } else {
-      this.showNotification('当前网站不支持原生字幕', 'warning')
+      this.showNotification(t('content.noNativeSubtitles'), 'warning')
       this.disableHotkeyListener()
     }
   }
@@ -447,11 +683,25 @@ export class ImmersiveMemorize {
       'captureHotkey',
       'debugMode',
       'enableScreenshot',
+      'studyHotkeys',
+      'autoPauseOnTarget',
+      'highlightAllTargets',
+      'targetCycleHotkey',
+      'markKnownHotkey',
+      'definitionLanguage',
     ])) as Partial<ExtensionSettings>
 
     this.captureHotkey = result.captureHotkey || 's'
+    this.targetCycleHotkey = result.targetCycleHotkey || DEFAULT_TARGET_CYCLE_HOTKEY
+    this.markKnownHotkey = result.markKnownHotkey || DEFAULT_MARK_KNOWN_HOTKEY
+    this.highlightAllTargets = result.highlightAllTargets || false
     this.debugMode = result.debugMode !== false
     this.enableScreenshot = result.enableScreenshot || false
+    this.definitionLanguage = result.definitionLanguage || 'auto'
+    this.studyControls.updateSettings(
+      resolveStudyHotkeys(result.studyHotkeys),
+      result.autoPauseOnTarget || false
+    )
 
     // 加载已学词汇
     try {
@@ -461,6 +711,18 @@ export class ImmersiveMemorize {
       console.error('[ImmersiveMemorize] 加载已学词汇失败:', error)
       this.learnedWords = new Set()
     }
+
+    await this.loadKnownWords()
+  }
+
+  private async loadKnownWords(): Promise<void> {
+    try {
+      const knownWords = await storageService.getKnownWords()
+      this.knownWords = new Set(knownWords.map(known => known.word))
+    } catch (error) {
+      console.error('[ImmersiveMemorize] 加载已掌握词汇失败:', error)
+      this.knownWords = new Set()
+    }
   }
 
   /**
@@ -471,7 +733,7 @@ export class ImmersiveMemorize {
     this.hotkeyHandler = async (e: KeyboardEvent) => {
       if (e.key.toLowerCase() === this.captureHotkey.toLowerCase()) {
         if (!this.currentTargetWord) {
-          this.showNotification('当前无生词可学习', 'info')
+          this.showNotification(t('content.noTargetWord'), 'info')
           return
         }
 
@@ -480,6 +742,55 @@ export class ImmersiveMemorize {
         e.stopImmediatePropagation()
 
         await this.captureData()
+      } else if (e.key.toLowerCase() === this.markKnownHotkey.toLowerCase()) {
+        if (!this.currentTargetWord) return
+
+        e.preventDefault()
+        e.stopPropagation()
+        e.stopImmediatePropagation()
+
+        await this.markWordKnown(this.currentTargetWord)
+      } else if (
+        e.key.toLowerCase() === this.targetCycleHotkey.toLowerCase() &&
+        this.currentTargets.length > 1
+      ) {
+        e.preventDefault()
+        e.stopPropagation()
+        e.stopImmediatePropagation()
+
+        this.cycleTarget()
+      }
+    }
+
+    // 点击字幕词汇固定显示查词弹窗，点击高亮词汇同时将其设为当前目标（阻止播放器把点击当作暂停）
+    this.targetClickHandler = (e: MouseEvent) => {
+      const element = this.findSubtitleWordElement(e.target)
+      const word = element && this.subtitleProcessor?.getWordForElement(element)
+      if (!element || !word) return
+
+      e.preventDefault()
+      e.stopPropagation()
+      e.stopImmediatePropagation()
+
+      const index = this.currentTargets.findIndex(target => target.element === element)
+      if (index !== -1 && this.currentTargets.length > 1) {
+        this.selectTarget(index)
+      }
+      this.wordPopup.pin(this.getWordPopupContent(word, element))
+    }
+
+    // 悬停字幕词汇显示查词弹窗
+    this.wordHoverHandler = (e: MouseEvent) => {
+      const element = this.findSubtitleWordElement(e.target)
+      const word = element && this.subtitleProcessor?.getWordForElement(element)
+      if (!element || !word) return
+
+      this.wordPopup.hover(() => this.getWordPopupContent(word, element))
+    }
+    this.wordLeaveHandler = (e: MouseEvent) => {
+      const element = this.findSubtitleWordElement(e.target)
+      if (element && !element.contains(e.relatedTarget as Node | null)) {
+        this.wordPopup.leave()
       }
     }
 
@@ -496,6 +807,11 @@ export class ImmersiveMemorize {
 
     document.addEventListener('keydown', this.hotkeyHandler, true)
     window.addEventListener('keydown', this.hotkeyHandler, true)
+    if (this.targetClickHandler && this.wordHoverHandler && this.wordLeaveHandler) {
+      window.addEventListener('click', this.targetClickHandler, true)
+      window.addEventListener('mouseover', this.wordHoverHandler, true)
+      window.addEventListener('mouseout', this.wordLeaveHandler, true)
+    }
     this.isHotkeyEnabled = true
 
     if (this.debugMode) {
@@ -511,6 +827,11 @@ export class ImmersiveMemorize {
 
     document.removeEventListener('keydown', this.hotkeyHandler, true)
     window.removeEventListener('keydown', this.hotkeyHandler, true)
+    if (this.targetClickHandler && this.wordHoverHandler && this.wordLeaveHandler) {
+      window.removeEventListener('click', this.targetClickHandler, true)
+      window.removeEventListener('mouseover', this.wordHoverHandler, true)
+      window.removeEventListener('mouseout', this.wordLeaveHandler, true)
+    }
     this.isHotkeyEnabled = false
 
     if (this.debugMode) {
@@ -578,9 +899,11 @@ export class ImmersiveMemorize {
       console.log('[ImmersiveMemorizeV2] 收到字幕样式更新:', styles)
     }
 
-    // 检查当前是否使用自定义字幕源
-    if (this.activeSource && this.activeSource.name === 'Custom SRT') {
-      const customSource = this.activeSource as ISubtitleSource & { updateStyles: (styles: Record<string, string>) => void } // Cast to access custom methods
+    // 检查当前字幕源是否使用自定义覆盖层（自定义字幕、TextTrack）
+    if (this.activeSource) {
+      const customSource = this.activeSource as ISubtitleSource & {
+        updateStyles?: (styles: Record<string, string>) => void
+      } // Cast to access custom methods
       if (customSource.updateStyles) {
         customSource.updateStyles(styles)
         if (this.debugMode) {
@@ -715,14 +1038,14 @@ export class ImmersiveMemorize {
           </svg>
         </div>
         <div>
-          <div class="text-lg font-semibold mb-2">视频 ${index + 1}</div>
+          <div class="text-lg font-semibold mb-2">${t('content.video.label', { index: index + 1 })}</div>
           <div class="text-sm text-gray-300 space-y-1">
-            <div>尺寸: ${videoInfo.dimensions}</div>
-            <div>时长: ${videoInfo.duration}</div>
+            <div>${t('content.video.dimensions', { dimensions: videoInfo.dimensions })}</div>
+            <div>${t('content.video.duration', { duration: videoInfo.duration })}</div>
           </div>
         </div>
         <button class="bg-blue-500 hover:bg-blue-600 text-white font-medium py-2 px-6 rounded-lg transition-colors">
-          选择此视频
+          ${t('content.video.select')}
         </button>
       </div>
     `
@@ -767,7 +1090,7 @@ export class ImmersiveMemorize {
   private getVideoDisplayInfo(video: HTMLVideoElement): { dimensions: string; duration: string } {
     const dimensions = `${Math.round(video.videoWidth || video.clientWidth)}×${Math.round(video.videoHeight || video.clientHeight)}`
 
-    let duration = '未知'
+    let duration = t('content.video.unknownDuration')
     if (video.duration && !isNaN(video.duration)) {
       const mins = Math.floor(video.duration / 60)
       const secs = Math.floor(video.duration % 60)
@@ -793,7 +1116,10 @@ export class ImmersiveMemorize {
       this.showContextControlPanel(video)
     } catch (error) {
       console.error('[ImmersiveMemorizeV2] 处理视频选择失败:', error)
-      this.showNotification('视频选择失败: ' + (error as Error).message, 'error')
+      this.showNotification(
+        t('content.video.selectFailed', { error: (error as Error).message }),
+        'error'
+      )
     }
   }
 
@@ -814,7 +1140,7 @@ export class ImmersiveMemorize {
   private videoSelectionEscapeHandler = (e: KeyboardEvent): void => {
     if (e.key === 'Escape') {
       this.clearVideoSelectionOverlays()
-      this.showNotification('已取消视频选择', 'info')
+      this.showNotification(t('content.video.selectCancelled'), 'info')
     }
   }
 
@@ -840,7 +1166,10 @@ export class ImmersiveMemorize {
       console.log('[ImmersiveMemorizeV2] 上下文控制面板已显示')
     }
 
-    this.showNotification('请选择字幕文件 (.srt)', 'info')
+    this.showNotification(
+      t('content.subtitleFile.prompt', { extensions: this.getSupportedExtensionsLabel() }),
+      'info'
+    )
   }
 
   /**
@@ -873,8 +1202,8 @@ export class ImmersiveMemorize {
         <!-- Header -->
         <div style="display: flex; items-center: space-between; margin-bottom: 16px;">
           <div style="flex: 1;">
-            <h3 style="margin: 0; font-size: 18px; font-weight: 600; color: #1f2937;">关联字幕文件</h3>
-            <p style="margin: 4px 0 0 0; font-size: 14px; color: #6b7280;">视频尺寸: ${videoInfo.dimensions}</p>
+            <h3 style="margin: 0; font-size: 18px; font-weight: 600; color: #1f2937;">${t('content.subtitleFile.title')}</h3>
+            <p style="margin: 4px 0 0 0; font-size: 14px; color: #6b7280;">${t('content.subtitleFile.videoDimensions', { dimensions: videoInfo.dimensions })}</p>
           </div>
           <button class="im-close-panel" style="
             background: #f3f4f6;
@@ -888,7 +1217,7 @@ export class ImmersiveMemorize {
             cursor: pointer;
             color: #6b7280;
             transition: all 0.2s;
-          " title="关闭">
+          " title="${t('common.close')}">
             <svg style="width: 16px; height: 16px;" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" />
             </svg>
@@ -898,7 +1227,7 @@ export class ImmersiveMemorize {
         <!-- File Upload Area -->
         <div style="margin-bottom: 16px;">
           <label style="display: block; margin-bottom: 8px; font-size: 14px; font-weight: 500; color: #374151;">
-            选择字幕文件
+            ${t('content.subtitleFile.choose')}
           </label>
           <div class="im-file-upload-area" style="
             border: 2px dashed #d1d5db;
@@ -915,12 +1244,12 @@ export class ImmersiveMemorize {
               </svg>
             </div>
             <p style="margin: 0 0 4px 0; font-size: 14px; font-weight: 500; color: #374151;">
-              点击选择或拖拽文件到此处
+              ${t('content.subtitleFile.dropHint')}
             </p>
             <p style="margin: 0; font-size: 12px; color: #6b7280;">
-              支持 .srt, .vtt 格式
+              ${t('content.subtitleFile.supported', { extensions: this.getSupportedExtensionsLabel() })}
             </p>
-            <input type="file" class="im-file-input" accept=".srt,.vtt" style="display: none;" />
+            <input type="file" class="im-file-input" accept="${CustomSRTSubtitleSource.SUPPORTED_EXTENSIONS.join(',')}" style="display: none;" />
           </div>
         </div>
 
@@ -944,7 +1273,7 @@ export class ImmersiveMemorize {
               color: #6b7280;
               cursor: pointer;
               padding: 4px;
-            " title="移除文件">
+            " title="${t('content.subtitleFile.remove')}">
               <svg style="width: 16px; height: 16px;" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" />
               </svg>
@@ -952,6 +1281,45 @@ export class ImmersiveMemorize {
           </div>
         </div>
 
+        <!-- Encoding -->
+        <div class="im-encoding-section" style="display: none; margin-bottom: 16px;">
+          <label style="display: block; margin-bottom: 8px; font-size: 14px; font-weight: 500; color: #374151;">
+            ${t('content.subtitleFile.encoding')}
+          </label>
+          <select class="im-encoding-select" style="
+            width: 100%;
+            padding: 8px 10px;
+            border: 1px solid #d1d5db;
+            border-radius: 8px;
+            background: white;
+            color: #374151;
+            font-size: 14px;
+          ">
+            <option value="auto">${t('content.subtitleFile.autoDetect')}</option>
+            ${EncodingDetector.SUPPORTED_ENCODINGS.map(
+              item => `<option value="${item.value}">${item.label}</option>`
+            ).join('')}
+          </select>
+          <p class="im-encoding-preview" style="margin: 6px 0 0 0; font-size: 12px; color: #6b7280; word-break: break-all;"></p>
+        </div>
+
+        <!-- ASS/SSA Dialogue Styles -->
+        <div class="im-ass-style-section" style="display: none; margin-bottom: 16px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; font-weight: 500; color: #374151;">
+            ${t('content.subtitleFile.dialogueStyles')}
+          </label>
+          <p style="margin: 0 0 8px 0; font-size: 12px; color: #6b7280;">
+            ${t('content.subtitleFile.dialogueStylesHint')}
+          </p>
+          <div class="im-ass-style-list" style="
+            max-height: 160px;
+            overflow-y: auto;
+            border: 1px solid #e5e7eb;
+            border-radius: 8px;
+            padding: 8px;
+          "></div>
+        </div>
+
         <!-- Action Buttons -->
         <div style="display: flex; gap: 8px;">
           <button class="im-cancel-btn" style="
@@ -966,7 +1334,7 @@ export class ImmersiveMemorize {
             cursor: pointer;
             transition: all 0.2s;
           ">
-            取消
+            ${t('common.cancel')}
           </button>
           <button class="im-load-subtitle-btn" disabled style="
             flex: 2;
@@ -981,7 +1349,7 @@ export class ImmersiveMemorize {
             transition: all 0.2s;
             opacity: 0.5;
           ">
-            加载字幕
+            ${t('content.subtitleFile.load')}
           </button>
         </div>
       </div>
@@ -1026,6 +1394,7 @@ export class ImmersiveMemorize {
     const cancelBtn = panel.querySelector('.im-cancel-btn') as HTMLButtonElement
     const loadBtn = panel.querySelector('.im-load-subtitle-btn') as HTMLButtonElement
     const removeFileBtn = panel.querySelector('.im-remove-file') as HTMLButtonElement
+    const encodingSelect = panel.querySelector('.im-encoding-select') as HTMLSelectElement
 
     let selectedFile: File | null = null
 
@@ -1061,11 +1430,23 @@ export class ImmersiveMemorize {
       fileUploadArea.style.backgroundColor = '#f9fafb'
 
       const file = e.dataTransfer?.files[0]
-      if (file && (file.name.endsWith('.srt') || file.name.endsWith('.vtt'))) {
+      if (file && this.isValidSubtitleFile(file)) {
         this.handleFileSelection(file, panel)
         selectedFile = file
       } else {
-        this.showNotification('请选择 .srt 或 .vtt 格式的字幕文件', 'warning')
+        this.showNotification(
+          t('content.subtitleFile.invalidType', { extensions: this.getSupportedExtensionsLabel() }),
+          'warning'
+        )
+      }
+    })
+
+    // 手动切换编码后刷新预览和样式列表
+    encodingSelect.addEventListener('change', () => {
+      if (!selectedFile) return
+      this.updateEncodingPreview(selectedFile, panel)
+      if (this.isASSFile(selectedFile)) {
+        this.renderASSStyleOptions(selectedFile, panel)
       }
     })
 
@@ -1079,7 +1460,7 @@ export class ImmersiveMemorize {
 
     loadBtn.addEventListener('click', async () => {
       if (selectedFile) {
-        await this.handleSubtitleLoad(selectedFile, video)
+        await this.handleSubtitleLoad(selectedFile, video, this.getSubtitleLoadOptions(panel))
       }
     })
 
@@ -1118,8 +1499,11 @@ export class ImmersiveMemorize {
    * 处理文件选择
    */
   private handleFileSelection(file: File, panel: HTMLElement): void {
-    if (!file.name.endsWith('.srt') && !file.name.endsWith('.vtt')) {
-      this.showNotification('请选择 .srt 或 .vtt 格式的字幕文件', 'warning')
+    if (!this.isValidSubtitleFile(file)) {
+      this.showNotification(
+        t('content.subtitleFile.invalidType', { extensions: this.getSupportedExtensionsLabel() }),
+        'warning'
+      )
       return
     }
 
@@ -1142,6 +1526,94 @@ export class ImmersiveMemorize {
     if (this.debugMode) {
       console.log(`[ImmersiveMemorizeV2] 文件已选择: ${file.name} (${file.size} bytes)`)
     }
+
+    const encodingSection = panel.querySelector('.im-encoding-section') as HTMLElement
+    encodingSection.style.display = 'block'
+    this.updateEncodingPreview(file, panel)
+
+    if (this.isASSFile(file)) {
+      this.renderASSStyleOptions(file, panel)
+    }
+  }
+
+  private isASSFile(file: File): boolean {
+    const lowerName = file.name.toLowerCase()
+    return lowerName.endsWith('.ass') || lowerName.endsWith('.ssa')
+  }
+
+  /**
+   * 获取面板中手动选择的编码，自动检测时返回 undefined
+   */
+  private getSelectedEncoding(panel: HTMLElement): TextEncodingName | undefined {
+    const select = panel.querySelector('.im-encoding-select') as HTMLSelectElement | null
+    return !select || select.value === 'auto' ? undefined : (select.value as TextEncodingName)
+  }
+
+  /**
+   * 显示检测到的编码和首条字幕预览，方便用户判断是否乱码
+   */
+  private async updateEncodingPreview(file: File, panel: HTMLElement): Promise<void> {
+    const preview = panel.querySelector('.im-encoding-preview') as HTMLElement
+    const selectedEncoding = this.getSelectedEncoding(panel)
+
+    try {
+      const result = await this.customSource.inspectEncoding(file, selectedEncoding)
+      const label = EncodingDetector.getLabel(result.encoding)
+      const prefix = selectedEncoding
+        ? label
+        : t('content.subtitleFile.detected', { encoding: label })
+      preview.textContent = result.preview
+        ? t('content.subtitleFile.preview', { label: prefix, preview: result.preview })
+        : t('content.subtitleFile.noContent', { label: prefix })
+    } catch (error) {
+      console.error('[ImmersiveMemorizeV2] 编码检测失败:', error)
+      preview.textContent = t('content.subtitleFile.detectFailed')
+    }
+  }
+
+  /**
+   * 显示ASS/SSA样式列表，让用户选择哪些样式作为对白
+   */
+  private async renderASSStyleOptions(file: File, panel: HTMLElement): Promise<void> {
+    const section = panel.querySelector('.im-ass-style-section') as HTMLElement
+    const list = panel.querySelector('.im-ass-style-list') as HTMLElement
+
+    try {
+      const styles = await this.customSource.inspectASSStyles(file, this.getSelectedEncoding(panel))
+      if (styles.length === 0) return
+
+      list.innerHTML = styles
+        .map(
+          style => `
+        <label style="display: flex; align-items: center; gap: 8px; padding: 4px 0; font-size: 13px; color: #374151; cursor: pointer;">
+          <input type="checkbox" class="im-ass-style-checkbox" value="${this.escapeHtml(style.name)}" ${style.isLikelyDialogue ? 'checked' : ''} />
+          <span style="flex: 1; min-width: 0; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">${this.escapeHtml(style.name)}</span>
+          <span style="font-size: 12px; color: #9ca3af;">${t('content.subtitleFile.styleLines', { count: style.lineCount })}</span>
+        </label>
+      `
+        )
+        .join('')
+      section.style.display = 'block'
+    } catch (error) {
+      console.error('[ImmersiveMemorizeV2] 读取ASS样式失败:', error)
+    }
+  }
+
+  /**
+   * 从上下文面板读取字幕加载选项
+   */
+  private getSubtitleLoadOptions(panel: HTMLElement): SubtitleLoadOptions {
+    const options: SubtitleLoadOptions = { encoding: this.getSelectedEncoding(panel) }
+
+    const section = panel.querySelector('.im-ass-style-section') as HTMLElement | null
+    if (section && section.style.display !== 'none') {
+      const checkboxes = panel.querySelectorAll<HTMLInputElement>('.im-ass-style-checkbox')
+      options.dialogueStyles = Array.from(checkboxes)
+        .filter(checkbox => checkbox.checked)
+        .map(checkbox => checkbox.value)
+    }
+
+    return options
   }
 
   /**
@@ -1156,6 +1628,12 @@ export class ImmersiveMemorize {
     fileInfo.style.display = 'none'
     uploadArea.style.display = 'block'
 
+    const styleSection = panel.querySelector('.im-ass-style-section') as HTMLElement
+    styleSection.style.display = 'none'
+    ;(panel.querySelector('.im-encoding-section') as HTMLElement).style.display = 'none'
+    ;(panel.querySelector('.im-encoding-select') as HTMLSelectElement).value = 'auto'
+    ;(panel.querySelector('.im-ass-style-list') as HTMLElement).innerHTML = ''
+
     loadBtn.disabled = true
     loadBtn.style.opacity = '0.5'
     loadBtn.style.cursor = 'not-allowed'
@@ -1175,7 +1653,11 @@ export class ImmersiveMemorize {
   /**
    * 处理字幕加载（第四阶段）
    */
-  private async handleSubtitleLoad(file: File, video: HTMLVideoElement): Promise<void> {
+  private async handleSubtitleLoad(
+    file: File,
+    video: HTMLVideoElement,
+    options: SubtitleLoadOptions = {}
+  ): Promise<void> {
     try {
       // 显示加载状态
       this.updateLoadButtonState('loading')
@@ -1186,16 +1668,22 @@ export class ImmersiveMemorize {
 
       // 验证文件格式
       if (!this.isValidSubtitleFile(file)) {
-        throw new Error('不支持的文件格式，请选择 .srt 或 .vtt 文件')
+        throw new Error(
+          t('content.subtitleFile.unsupported', { extensions: this.getSupportedExtensionsLabel() })
+        )
+      }
+
+      if (options.dialogueStyles && options.dialogueStyles.length === 0) {
+        throw new Error(t('content.subtitleFile.noDialogueStyle'))
       }
 
       // 直接调用现有的字幕切换方法
       // 这会处理所有的文件读取、解析和集成逻辑
-      await this.switchToCustomSubtitleMode(file, video)
+      await this.switchToCustomSubtitleMode(file, video, options)
 
       // 成功处理
       this.clearContextControlPanel()
-      this.showNotification(`${file.name} 加载成功！现在可以学习字幕中的词汇了`, 'success')
+      this.showNotification(t('content.subtitleFile.loaded', { name: file.name }), 'success')
 
       if (this.debugMode) {
         console.log('[ImmersiveMemorizeV2] 字幕文件处理完成，流程结束')
@@ -1203,7 +1691,9 @@ export class ImmersiveMemorize {
     } catch (error) {
       console.error('[ImmersiveMemorizeV2] 字幕加载失败:', error)
       this.showNotification(
-        '字幕加载失败: ' + (error instanceof Error ? error.message : '未知错误'),
+        t('content.subtitleFile.loadFailed', {
+          error: error instanceof Error ? error.message : t('common.unknownError'),
+        }),
         'error'
       )
 
@@ -1216,9 +1706,24 @@ export class ImmersiveMemorize {
    * 验证字幕文件格式
    */
   private isValidSubtitleFile(file: File): boolean {
-    const validExtensions = ['.srt', '.vtt']
     const fileName = file.name.toLowerCase()
-    return validExtensions.some(ext => fileName.endsWith(ext))
+    return CustomSRTSubtitleSource.SUPPORTED_EXTENSIONS.some(ext => fileName.endsWith(ext))
+  }
+
+  /**
+   * 转义HTML特殊字符
+   */
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div')
+    div.textContent = text || ''
+    return div.innerHTML
+  }
+
+  /**
+   * 支持的字幕格式文本，如 ".srt, .vtt"
+   */
+  private getSupportedExtensionsLabel(): string {
+    return CustomSRTSubtitleSource.SUPPORTED_EXTENSIONS.join(', ')
   }
 
   /**
@@ -1243,7 +1748,7 @@ export class ImmersiveMemorize {
               border-radius: 50%; 
               animation: spin 1s linear infinite;
             "></div>
-            <span>加载中...</span>
+            <span>${t('common.loading')}</span>
           </div>
         `
         // 添加旋转动画
@@ -1264,14 +1769,14 @@ export class ImmersiveMemorize {
         loadBtn.disabled = false
         loadBtn.style.opacity = '1'
         loadBtn.style.cursor = 'pointer'
-        loadBtn.textContent = '加载字幕'
+        loadBtn.textContent = t('content.subtitleFile.load')
         break
 
       case 'disabled':
         loadBtn.disabled = true
         loadBtn.style.opacity = '0.5'
         loadBtn.style.cursor = 'not-allowed'
-        loadBtn.textContent = '加载字幕'
+        loadBtn.textContent = t('content.subtitleFile.load')
         break
     }
   }
@@ -1295,13 +1800,15 @@ export class ImmersiveMemorize {
     chrome.storage.onChanged.addListener(async changes => {
       let needsRefresh = false
 
-      // 只有当词库设置真正改变时才重新加载
-      if (changes.vocabLibrarySettings) {
+      // 只有当词库设置或自定义词库真正改变时才重新加载
+      if (changes.vocabLibrarySettings || changes.vocabLibrariesUpdatedAt) {
         if (this.debugMode) {
           console.log(`[ImmersiveMemorizeV2-${this.frameContext}] 词库设置变化，重新加载词库`)
         }
-        await this.vocabLibraryManager.init()
+        // init() 只会执行一次，需要强制刷新缓存才能拿到新的词库
+        await this.vocabLibraryManager.forceRefresh()
         await this.subtitleProcessor?.updateWordLists()
+        this.transcriptPanel?.refreshHighlights()
         needsRefresh = true
       }
 
@@ -1314,6 +1821,7 @@ export class ImmersiveMemorize {
         const learnedWords = await storageService.getLearnedWords()
         this.learnedWords = new Set(learnedWords)
         this.subtitleProcessor?.setLearnedWords(this.learnedWords)
+        this.transcriptPanel?.pruneHighlights(this.learnedWords)
         needsRefresh = true
       }
 
@@ -1321,6 +1829,41 @@ export class ImmersiveMemorize {
         this.captureHotkey = changes.captureHotkey.newValue || 's'
       }
 
+      // 已掌握词汇变化后重新获取激活词表（词库服务会排除这些词汇）
+      if (changes.knownWordsUpdatedAt) {
+        await this.loadKnownWords()
+        await this.vocabLibraryManager.forceRefresh()
+        await this.subtitleProcessor?.updateWordLists()
+        this.transcriptPanel?.refreshHighlights()
+        needsRefresh = true
+      }
+
+      if (changes.markKnownHotkey) {
+        this.markKnownHotkey = changes.markKnownHotkey.newValue || DEFAULT_MARK_KNOWN_HOTKEY
+      }
+
+      if (changes.targetCycleHotkey) {
+        this.targetCycleHotkey = changes.targetCycleHotkey.newValue || DEFAULT_TARGET_CYCLE_HOTKEY
+      }
+
+      if (changes.highlightAllTargets) {
+        this.highlightAllTargets = changes.highlightAllTargets.newValue || false
+        this.subtitleProcessor?.setHighlightAll(this.highlightAllTargets)
+        needsRefresh = true
+      }
+
+      if (changes.studyHotkeys || changes.autoPauseOnTarget) {
+        const result = await chrome.storage.local.get(['studyHotkeys', 'autoPauseOnTarget'])
+        this.studyControls.updateSettings(
+          resolveStudyHotkeys(result.studyHotkeys),
+          result.autoPauseOnTarget || false
+        )
+      }
+
+      if (changes.definitionLanguage) {
+        this.definitionLanguage = changes.definitionLanguage.newValue || 'auto'
+      }
+
       if (changes.debugMode) {
         this.debugMode = changes.debugMode.newValue !== false
       }
@@ -1356,28 +1899,38 @@ export class ImmersiveMemorize {
 
   /**
    * 捕获学习数据
+   * 默认保存当前目标词汇，也可以指定字幕中的任意词汇（查词弹窗），返回是否保存成功
    */
-  private async captureData(): Promise<void> {
-    if (!this.currentTargetWord || !this.currentTargetElement || !this.activeSource) return
+  private async captureData(target?: { word: Word; element: HTMLElement }): Promise<boolean> {
+    const word = target?.word || this.currentTargetWord
+    const targetElement = target?.element || this.currentTargetElement
+    if (!word || !targetElement || !this.activeSource) return false
 
     try {
-      const word = this.currentTargetWord
       const lemma = word.lemma
 
       // 检查是否已经学过
       if (this.learnedWords.has(lemma)) {
-        this.showNotification(`${lemma} 已存在`, 'warning')
-        return
+        this.showNotification(t('content.capture.exists', { lemma }), 'warning')
+        return false
       }
 
-      // 获取句子内容
-      const sentenceElement = this.currentTargetElement.closest(
-        '.player-timedtext-text-container, .im-custom-subtitle-overlay'
-      ) as HTMLElement | null
+      // 获取句子内容（优先使用当前字幕源识别的容器）
+      const sentenceElement =
+        this.activeSource
+          .detectSubtitleContainers()
+          .find(container => container.contains(targetElement)) ||
+        (targetElement.closest(
+          '.player-timedtext-text-container, .im-custom-subtitle-overlay'
+        ) as HTMLElement | null)
 
       let sentence = ''
       if (sentenceElement && this.activeSource) {
-        const parsedSubtitle = this.activeSource.parseSubtitleContent(sentenceElement)
+        // 卡片例句只保留所保存词汇的高亮
+        const sentenceClone = this.subtitleProcessor
+          ? this.subtitleProcessor.prepareCaptureSentence(sentenceElement, targetElement)
+          : sentenceElement
+        const parsedSubtitle = this.activeSource.parseSubtitleContent(sentenceClone)
         sentence = parsedSubtitle.displayHTML
       }
 
@@ -1386,7 +1939,8 @@ export class ImmersiveMemorize {
 
       // 获取时间戳
       let timestamp = 0
-      const videoElement = document.querySelector<HTMLVideoElement>('video')
+      const videoElement =
+        this.activeSource.getVideoElement?.() || document.querySelector<HTMLVideoElement>('video')
       if (videoElement) {
         timestamp = Math.floor(videoElement.currentTime)
       }
@@ -1401,6 +1955,10 @@ export class ImmersiveMemorize {
       const selectedLibrary = this.vocabLibraryManager.getSelectedLibrary()
       const vocabEntry = selectedLibrary?.data.find(entry => entry.VocabKanji === lemma)
 
+      // 离线词典补充释义与读音（词库之外的词汇只能从词典获取）
+      const dictionaryEntry = await this.lookupDictionary(word)
+      const glosses = dictionaryEntry ? formatDictionaryGlosses(dictionaryEntry) : undefined
+
       // 创建卡片数据
       const cardData: FlashCard = {
         id: Date.now(),
@@ -1411,12 +1969,20 @@ export class ImmersiveMemorize {
         sourceTitle: mediaInfo.fullTitle,
         createdAt: new Date().toISOString(),
         level: vocabEntry?.Level,
-        definition: vocabEntry?.VocabDefCN,
-        reading: vocabEntry?.VocabFurigana,
+        definition: selectDefinition(
+          [vocabEntry?.VocabDefCN, glosses],
+          resolveDefinitionLanguage(this.definitionLanguage)
+        ),
+        reading:
+          vocabEntry?.VocabFurigana ||
+          (dictionaryEntry ? getDictionaryReading(dictionaryEntry, word.extra.reading) : undefined),
+        glosses,
         showTitle: mediaInfo.showTitle,
         seasonNumber: mediaInfo.seasonNumber,
         episodeNumber: mediaInfo.episodeNumber,
         episodeTitle: mediaInfo.episodeTitle,
+        platform: mediaInfo.platform,
+        videoId: mediaInfo.videoId,
       }
 
       // 保存卡片
@@ -1425,23 +1991,64 @@ export class ImmersiveMemorize {
       // 更新已学词汇
       this.learnedWords.add(lemma)
       this.subtitleProcessor?.setLearnedWords(this.learnedWords)
+      this.transcriptPanel?.pruneHighlights(this.learnedWords)
 
       // 更新进度（仅内存中，不触发storage变化）
       await this.vocabLibraryManager.updateProgressFromCards()
 
-      this.showNotification(`${word.word} ( ${lemma} ) 已学习`)
+      this.showNotification(t('content.capture.saved', { word: word.word, lemma }))
 
       // 清除高亮并寻找下一个词汇
       this.clearAllHighlights()
       this.currentTargetWord = null
       this.currentTargetElement = null
+      this.currentTargets = []
 
       setTimeout(() => {
         this.refreshCurrentSubtitles()
       }, 100)
+      return true
     } catch (error) {
       console.error('[ImmersiveMemorizeV2] 捕获数据失败:', error)
-      this.showNotification('保存失败: ' + (error as Error).message, 'error')
+      this.showNotification(t('content.capture.failed', { error: (error as Error).message }), 'error')
+      return false
+    }
+  }
+
+  /**
+   * 在已导入的离线词典中查找词汇，未导入词典或查询失败时返回 null
+   */
+  private async lookupDictionary(word: Word): Promise<DictionaryEntry | null> {
+    try {
+      return await storageService.lookupDictionary(
+        word.lemma,
+        word.extra.reading,
+        resolveDefinitionLanguage(this.definitionLanguage)
+      )
+    } catch (error) {
+      console.error('[ImmersiveMemorizeV2] 查询词典失败:', error)
+      return null
+    }
+  }
+
+  /**
+   * 将词汇标记为已掌握：不生成卡片，之后不再作为目标词汇高亮
+   */
+  private async markWordKnown(word: Word): Promise<boolean> {
+    try {
+      const added = await storageService.addKnownWords([word.lemma], 'subtitle')
+      this.knownWords.add(word.lemma)
+
+      if (added > 0) {
+        this.showNotification(t('content.known.marked', { word: word.word, lemma: word.lemma }))
+      } else {
+        this.showNotification(t('content.known.exists', { lemma: word.lemma }), 'info')
+      }
+      return true
+    } catch (error) {
+      console.error('[ImmersiveMemorizeV2] 标记已掌握失败:', error)
+      this.showNotification(t('content.known.failed', { error: (error as Error).message }), 'error')
+      return false
     }
   }
 
@@ -1458,7 +2065,7 @@ export class ImmersiveMemorize {
         console.warn('[ImmersiveMemorizeV2] 截图失败:', response.error)
         // 如果是权限问题，显示提示给用户
         if (response.error.includes('permission')) {
-          this.showNotification('截图需要额外权限，请点击扩展图标授权', 'warning')
+          this.showNotification(t('content.screenshotPermission'), 'warning')
         }
         return ''
       }
@@ -1474,7 +2081,7 @@ export class ImmersiveMemorize {
    * 清除所有高亮
    */
   private clearAllHighlights(): void {
-    const highlights = document.querySelectorAll<HTMLElement>('.im-highlight')
+    const highlights = document.querySelectorAll<HTMLElement>('.im-highlight, .im-word')
     highlights.forEach(highlight => {
       const parent = highlight.parentNode
       if (parent) {
@@ -1560,6 +2167,7 @@ export class ImmersiveMemorize {
     console.log(`[ImmersiveMemorizeV2] 已学词汇: ${this.learnedWords.size} 个`)
     console.log(`[ImmersiveMemorizeV2] 当前字幕源: ${this.activeSource?.name || '无'}`)
     console.log(`[ImmersiveMemorizeV2] 捕获快捷键: ${this.captureHotkey.toUpperCase()}`)
+    console.log(`[ImmersiveMemorizeV2] 显示所有生词: ${this.highlightAllTargets ? '开启' : '关闭'}`)
   }
 
   /**
@@ -1612,8 +2220,14 @@ export class ImmersiveMemorize {
       this.pageContextObserver.disconnect()
     }
 
+    this.clearTextTrackWatchers()
     this.sourceRegistry.cleanup()
     this.clearAllHighlights()
+    this.currentTargets = []
+    this.wordPopup.hide()
+    this.studyControls.detach()
+    this.hideTranscriptPanel()
+    this.currentSubtitleTrack = null
 
     if (this.debugMode) {
       console.log('[ImmersiveMemorizeV2] 清理完成')
@@ -4,6 +4,7 @@
  */
 
 import { ImmersiveMemorize } from './immersive-memorize'
+import { i18n } from '@/lib/i18n'
 
 class Application {
   private immersiveMemorize: ImmersiveMemorize
@@ -19,6 +20,9 @@ class Application {
     try {
       console.log('[Application] 开始初始化 Immersive Memorize V2...')
 
+      // 先加载界面语言，页面上的提示与弹窗随之显示
+      await i18n.init()
+
       // 初始化主控制器
       await this.immersiveMemorize.init()
 
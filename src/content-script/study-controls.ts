@@ -0,0 +1,282 @@
+/**
+ * 逐句学习控制
+ * 基于字幕源提供的时间轴实现：含生词字幕结束时自动暂停、重播当前句、单句循环、上一句/下一句
+ */
+
+import type { StudyHotkeys } from '@/types'
+import { DEFAULT_STUDY_HOTKEYS } from '@/lib/study-settings'
+import { t } from '@/lib/i18n'
+import type { ISubtitleSource, SubtitleEntry } from './subtitle-sources/types'
+
+type StudyAction = keyof StudyHotkeys
+
+// 检查播放位置的间隔，timeupdate 事件约 250ms 一次，不够精确
+const WATCH_INTERVAL = 50
+// 跳转后等待播放器更新 currentTime 的时间
+const SEEK_SETTLE_TIME = 300
+
+export class StudyControls {
+  private source: ISubtitleSource | null = null
+  private video: HTMLVideoElement | null = null
+  private hotkeys: StudyHotkeys = { ...DEFAULT_STUDY_HOTKEYS }
+  private autoPauseOnTarget: boolean = false
+  private debugMode: boolean
+  private notify: (message: string, type?: 'success' | 'error' | 'warning' | 'info') => void
+
+  private loopEntry: SubtitleEntry | null = null
+  private pauseEntry: SubtitleEntry | null = null
+  private lastPausedEntry: SubtitleEntry | null = null
+  private lastSeekAt: number = 0
+  private watchTimer: number | null = null
+  private keydownHandler: ((e: KeyboardEvent) => void) | null = null
+
+  constructor(
+    notify: (message: string, type?: 'success' | 'error' | 'warning' | 'info') => void,
+    debugMode: boolean = false
+  ) {
+    this.notify = notify
+    this.debugMode = debugMode
+  }
+
+  updateSettings(hotkeys: StudyHotkeys, autoPauseOnTarget: boolean): void {
+    this.hotkeys = hotkeys
+    this.autoPauseOnTarget = autoPauseOnTarget
+    if (!autoPauseOnTarget) {
+      this.pauseEntry = null
+    }
+  }
+
+  /**
+   * 绑定到当前字幕源，开始监听快捷键
+   */
+  attach(source: ISubtitleSource): void {
+    this.detach()
+
+    this.source = source
+    this.video = source.getVideoElement?.() || document.querySelector('video')
+
+    // 字幕间隙时主快捷键监听器会被禁用，逐句控制需要独立监听
+    this.keydownHandler = (e: KeyboardEvent) => this.handleKeydown(e)
+    window.addEventListener('keydown', this.keydownHandler, true)
+  }
+
+  detach(): void {
+    if (this.keydownHandler) {
+      window.removeEventListener('keydown', this.keydownHandler, true)
+      this.keydownHandler = null
+    }
+
+    this.stopWatching()
+    this.source = null
+    this.video = null
+    this.loopEntry = null
+    this.pauseEntry = null
+    this.lastPausedEntry = null
+  }
+
+  /**
+   * 当前字幕中找到目标词汇时调用：在这句字幕结束时暂停
+   */
+  armAutoPause(): void {
+    if (!this.autoPauseOnTarget) return
+
+    const entry = this.getCurrentEntry()
+    if (!entry || this.isSameEntry(entry, this.lastPausedEntry) || this.loopEntry) return
+    if (this.getSubtitleTime() >= entry.endTime) return
+
+    this.pauseEntry = entry
+    this.startWatching()
+  }
+
+  private handleKeydown(e: KeyboardEvent): void {
+    if (e.ctrlKey || e.metaKey || e.altKey || this.isEditableTarget(e.target)) return
+
+    const key = e.key.toLowerCase()
+    const action = (Object.keys(this.hotkeys) as StudyAction[]).find(
+      name => this.hotkeys[name] === key
+    )
+    if (!action) return
+
+    // 没有时间轴的字幕源（例如 YouTube）不拦截按键，保留播放器自身的快捷键
+    if (this.getEntries().length === 0) {
+      if (this.debugMode) {
+        console.log('[StudyControls] 当前字幕源没有时间轴，忽略逐句控制快捷键')
+      }
+      return
+    }
+
+    e.preventDefault()
+    e.stopPropagation()
+    e.stopImmediatePropagation()
+
+    switch (action) {
+      case 'replay':
+        this.replayCurrent()
+        break
+      case 'loop':
+        this.toggleLoop()
+        break
+      case 'previous':
+        this.step(-1)
+        break
+      case 'next':
+        this.step(1)
+        break
+    }
+  }
+
+  private replayCurrent(): void {
+    const entry = this.getCurrentEntry()
+    if (!entry) return
+
+    this.lastPausedEntry = null
+    this.seekToEntry(entry)
+  }
+
+  private toggleLoop(): void {
+    if (this.loopEntry) {
+      this.loopEntry = null
+      this.notify(t('study.loopOff'), 'info')
+      return
+    }
+
+    const entry = this.getCurrentEntry()
+    if (!entry) return
+
+    this.loopEntry = entry
+    this.pauseEntry = null
+    this.startWatching()
+    this.notify(t('study.loopOn'), 'info')
+  }
+
+  private step(direction: 1 | -1): void {
+    const entries = this.getEntries()
+    const currentIndex = this.findEntryIndex(entries, this.getSubtitleTime())
+    const targetIndex = Math.min(entries.length - 1, Math.max(0, currentIndex + direction))
+    const entry = entries[targetIndex]
+    if (!entry) return
+
+    // 循环中切换句子时，循环跟随到新的句子
+    if (this.loopEntry) {
+      this.loopEntry = entry
+    }
+    this.pauseEntry = null
+    this.lastPausedEntry = null
+    this.seekToEntry(entry)
+  }
+
+  private seekToEntry(entry: SubtitleEntry): void {
+    if (!this.video) return
+
+    const time = Math.max(0, entry.startTime - this.getTimeOffset())
+    if (this.source?.seekTo) {
+      this.source.seekTo(time)
+    } else {
+      this.video.currentTime = time
+    }
+    this.lastSeekAt = Date.now()
+
+    if (this.video.paused) {
+      void this.video.play().catch(() => {})
+    }
+
+    if (this.debugMode) {
+      console.log(`[StudyControls] 跳转到第 ${entry.index} 句: ${time.toFixed(2)}s`)
+    }
+  }
+
+  private startWatching(): void {
+    if (this.watchTimer !== null) return
+    this.watchTimer = window.setInterval(() => this.checkPlayback(), WATCH_INTERVAL)
+  }
+
+  private stopWatching(): void {
+    if (this.watchTimer !== null) {
+      clearInterval(this.watchTimer)
+      this.watchTimer = null
+    }
+  }
+
+  /**
+   * 检查是否到达循环终点或自动暂停点
+   */
+  private checkPlayback(): void {
+    if (!this.video || (!this.loopEntry && !this.pauseEntry)) {
+      this.stopWatching()
+      return
+    }
+    if (Date.now() - this.lastSeekAt < SEEK_SETTLE_TIME) return
+
+    const time = this.getSubtitleTime()
+
+    if (this.loopEntry) {
+      if (time >= this.loopEntry.endTime) {
+        this.seekToEntry(this.loopEntry)
+      }
+      return
+    }
+
+    if (this.pauseEntry) {
+      // 用户跳回到这句之前，取消本次自动暂停
+      if (time < this.pauseEntry.startTime) {
+        this.pauseEntry = null
+      } else if (time >= this.pauseEntry.endTime) {
+        this.video.pause()
+        this.lastPausedEntry = this.pauseEntry
+        this.pauseEntry = null
+      }
+    }
+  }
+
+  private getEntries(): SubtitleEntry[] {
+    return this.source?.getSubtitleEntries?.() || []
+  }
+
+  private getTimeOffset(): number {
+    return this.source?.getTimeOffset?.() || 0
+  }
+
+  private getSubtitleTime(): number {
+    return (this.video?.currentTime || 0) + this.getTimeOffset()
+  }
+
+  private getCurrentEntry(): SubtitleEntry | null {
+    const entries = this.getEntries()
+    return entries[this.findEntryIndex(entries, this.getSubtitleTime())] || null
+  }
+
+  /**
+   * 已开始的最后一句（两句之间的空档视为仍在上一句）
+   */
+  private findEntryIndex(entries: SubtitleEntry[], time: number): number {
+    let low = 0
+    let high = entries.length - 1
+    let result = entries.length > 0 ? 0 : -1
+
+    while (low <= high) {
+      const mid = (low + high) >> 1
+      if (entries[mid].startTime <= time) {
+        result = mid
+        low = mid + 1
+      } else {
+        high = mid - 1
+      }
+    }
+    return result
+  }
+
+  // TextTrack 字幕源每次返回新的条目对象，按时间比较
+  private isSameEntry(a: SubtitleEntry, b: SubtitleEntry | null): boolean {
+    return b !== null && a.startTime === b.startTime && a.endTime === b.endTime
+  }
+
+  private isEditableTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false
+    return (
+      target.isContentEditable ||
+      target.tagName === 'INPUT' ||
+      target.tagName === 'TEXTAREA' ||
+      target.tagName === 'SELECT'
+    )
+  }
+}
@@ -2,14 +2,21 @@
 import { analyze, Word } from '@/lib/japanese-analyzer/remote-analyzer';
 import { CachedRemoteVocabLibraryManager } from '@/lib/vocab-library/cached-remote-vocab-library';
 import { SubtitleTextParser, type FuriganaMapping } from './subtitle-text-parser';
-import type { VocabEntry } from '@/types';
+import type { VocabCoverage, VocabEntry } from '@/types';
+import { DEFAULT_HIGHLIGHT_COLOR, getLevelColor } from '@/lib/highlight-settings';
 
 export class SubtitleProcessor {
   private vocabLibraryManager: CachedRemoteVocabLibraryManager;
   private learnedWords: Set<string>;
   private activeWordLemmas: Set<string>;
+  // 激活词表按词频排序，序号越小越常用
+  private targetPriority: Map<string, number> = new Map();
   private debugMode: boolean;
   private textParser: SubtitleTextParser;
+  // 显示字幕中的所有目标词汇（按 JLPT 等级着色），而不只是第一个
+  private highlightAll: boolean = false;
+  // 字幕中可查词的元素（高亮词与普通词）对应的分析结果
+  private wordElements: WeakMap<HTMLElement, Word> = new WeakMap();
 
   constructor(vocabLibraryManager: CachedRemoteVocabLibraryManager, learnedWords: Set<string>, debugMode: boolean = true) {
     this.vocabLibraryManager = vocabLibraryManager;
@@ -24,6 +31,7 @@ export class SubtitleProcessor {
     // Get the list of active, unlearned words (lemmas) from the library
     const activeList = await this.vocabLibraryManager.getActiveWordlist();
     this.activeWordLemmas = new Set(activeList);
+    this.targetPriority = new Map(activeList.map((lemma, index) => [lemma, index]));
     if (this.debugMode) {
       console.log(`[SubtitleProcessor] Word lists updated. ${this.activeWordLemmas.size} active lemmas to look for.`);
     }
@@ -33,13 +41,21 @@ export class SubtitleProcessor {
     this.learnedWords = learnedWords;
   }
 
-  public async processAndHighlight(container: HTMLElement): Promise<Word | null> {
+  public setHighlightAll(highlightAll: boolean): void {
+    this.highlightAll = highlightAll;
+  }
+
+  /**
+   * 分析字幕并高亮目标词汇，返回按词频排列（最常用的在前）的已高亮词汇
+   * 未开启"显示所有生词"时最多只返回一个
+   */
+  public async processAndHighlight(container: HTMLElement): Promise<Word[]> {
     try {
       // 使用新的解析器处理字幕，提取纯文本和Furigana映射
       const parsedText = this.textParser.parse(container);
       
       if (!parsedText.cleanText || parsedText.cleanText.trim() === '') {
-        return null;
+        return [];
       }
 
       if (this.debugMode) {
@@ -54,41 +70,192 @@ export class SubtitleProcessor {
       }
 
       // 寻找目标词汇，包含双重验证
-      const targetWord = this.findFirstTargetWord(analyzedWords, parsedText.furiganaMap);
+      const targetWords = this.findTargetWords(analyzedWords, parsedText.furiganaMap);
+      const wordsToHighlight = this.highlightAll ? targetWords : targetWords.slice(0, 1);
 
-      if (targetWord) {
-        this.highlightWord(container, targetWord);
-        return targetWord;
-      }
+      const highlightedWords = wordsToHighlight.filter(word => this.highlightWord(container, word));
+      this.wrapWords(container, analyzedWords);
 
-      return null;
+      return highlightedWords;
     } catch (error) {
       console.error('[Immersive Memorize] Error processing subtitles:', error);
-      return null;
+      return [];
     }
   }
 
-  private findFirstTargetWord(analyzedWords: Word[], furiganaMap: FuriganaMapping[]): Word | null {
-    for (const word of analyzedWords) {
-      const lemma = word.lemma;
-
-      // A word is a target if:
-      // 1. It's a learnable part of speech.
-      // 2. Its lemma is in our active vocabulary list.
-      // 3. Its lemma has not been learned yet.
-      // 4. 通过双重验证（如果有Furigana的话）
-      if (this.isLearnable(word) && 
-          this.activeWordLemmas.has(lemma) && 
-          !this.learnedWords.has(lemma) &&
-          this.validateWordWithFurigana(word, furiganaMap)) {
-        
-        if (this.debugMode) {
-          console.log(`[SubtitleProcessor] Found target word: ${word.word} (lemma: ${lemma})`);
+  /**
+   * 切换当前学习目标（捕获快捷键保存的词汇），其余高亮显示为等级颜色下划线
+   */
+  public markCurrentTarget(target: HTMLElement | null): void {
+    document.querySelectorAll<HTMLElement>('.im-highlight').forEach(highlight => {
+      highlight.classList.toggle('im-current-target', highlight === target);
+      this.applyHighlightStyle(highlight);
+    });
+  }
+
+  /**
+   * 获取字幕中词汇元素（.im-word 或 .im-highlight）对应的分析结果
+   */
+  public getWordForElement(element: HTMLElement): Word | null {
+    return this.wordElements.get(element) || null;
+  }
+
+  /**
+   * 从词汇库中查找词汇条目
+   */
+  public findVocabEntry(lemma: string): VocabEntry | null {
+    const selectedLibrary = this.vocabLibraryManager.getSelectedLibrary();
+    if (!selectedLibrary) return null;
+
+    return selectedLibrary.data.find(entry => entry.VocabKanji === lemma) || null;
+  }
+
+  /**
+   * 生成用于保存卡片的字幕副本：只高亮要保存的词汇，移除其余标记
+   */
+  public prepareCaptureSentence(sentenceElement: HTMLElement, target: HTMLElement): HTMLElement {
+    target.dataset.imCapture = 'true';
+    const clone = sentenceElement.cloneNode(true) as HTMLElement;
+    delete target.dataset.imCapture;
+
+    clone.querySelectorAll<HTMLElement>('.im-highlight, .im-word').forEach(element => {
+      if (element.dataset.imCapture) {
+        delete element.dataset.imCapture;
+        element.className = 'im-highlight im-current-target';
+        this.applyHighlightStyle(element);
+      } else {
+        element.replaceWith(document.createTextNode(element.textContent || ''));
+      }
+    });
+
+    return clone;
+  }
+
+  /**
+   * 标记容器中的所有目标词汇（用于字幕全文面板，不影响当前学习目标）
+   */
+  public async markAllTargetWords(container: HTMLElement): Promise<Word[]> {
+    try {
+      const parsedText = this.textParser.parse(container);
+      if (!parsedText.cleanText || parsedText.cleanText.trim() === '') {
+        return [];
+      }
+
+      const analyzedWords = await analyze(parsedText.cleanText);
+      const targetWords = analyzedWords.filter(word => this.isTargetWord(word, parsedText.furiganaMap));
+
+      const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+      const textNodes: Text[] = [];
+      let node;
+      while (node = walker.nextNode()) {
+        textNodes.push(node as Text);
+      }
+
+      // 按出现顺序逐个包裹，跳过注音（rt）中的文本
+      let nodeIndex = 0;
+      for (const word of targetWords) {
+        for (; nodeIndex < textNodes.length; nodeIndex++) {
+          const textNode = textNodes[nodeIndex];
+          if (textNode.parentElement?.closest('rt')) continue;
+
+          const wordIndex = (textNode.textContent || '').indexOf(word.word);
+          if (wordIndex === -1) continue;
+
+          const highlightNode = textNode.splitText(wordIndex);
+          const restNode = highlightNode.splitText(word.word.length);
+          const mark = document.createElement('mark');
+          mark.className = 'im-transcript-target';
+          mark.dataset.lemma = word.lemma;
+          highlightNode.replaceWith(mark);
+          mark.appendChild(highlightNode);
+
+          // 同一文本节点中剩余部分可能还有目标词
+          textNodes[nodeIndex] = restNode;
+          break;
         }
-        return word;
       }
+
+      return targetWords;
+    } catch (error) {
+      console.error('[SubtitleProcessor] Error marking target words:', error);
+      return [];
     }
-    return null;
+  }
+
+  /**
+   * 统计整集字幕的词汇覆盖率：可学习词汇中有多少不是未掌握的目标词
+   * 按批次合并字幕行后分析，减少与分析服务的往返次数
+   * 字幕行可能含 ruby 注音、样式标签和 HTML 实体，先提取纯文本，避免注音被计为额外词汇
+   */
+  public async computeCoverage(lines: string[], batchSize: number = 40): Promise<VocabCoverage> {
+    const targetCounts = new Map<string, number>();
+    let totalOccurrences = 0;
+    let targetOccurrences = 0;
+    const cleanLines = lines.map(line => this.textParser.parseMarkup(line).cleanText);
+
+    for (let i = 0; i < cleanLines.length; i += batchSize) {
+      const text = cleanLines.slice(i, i + batchSize).join('\n');
+      const analyzedWords = await analyze(text);
+
+      for (const word of analyzedWords) {
+        if (!this.isLearnable(word)) continue;
+        totalOccurrences++;
+
+        if (this.activeWordLemmas.has(word.lemma) && !this.learnedWords.has(word.lemma)) {
+          targetOccurrences++;
+          targetCounts.set(word.lemma, (targetCounts.get(word.lemma) || 0) + 1);
+        }
+      }
+    }
+
+    const targetWords = Array.from(targetCounts, ([lemma, count]) => ({ lemma, count }))
+      .sort((a, b) => b.count - a.count);
+
+    if (this.debugMode) {
+      console.log(`[SubtitleProcessor] Coverage: ${targetOccurrences}/${totalOccurrences} target occurrences, ${targetWords.length} unique target words`);
+    }
+
+    return {
+      totalOccurrences,
+      targetOccurrences,
+      coverage: totalOccurrences > 0 ? 1 - targetOccurrences / totalOccurrences : 1,
+      targetWords,
+      analyzedAt: new Date().toISOString(),
+    };
+  }
+
+  private findTargetWords(analyzedWords: Word[], furiganaMap: FuriganaMapping[]): Word[] {
+    const targetWords: Word[] = [];
+    const seenLemmas = new Set<string>();
+
+    for (const word of analyzedWords) {
+      // 同一词汇在一句中重复出现时只高亮一次
+      if (seenLemmas.has(word.lemma) || !this.isTargetWord(word, furiganaMap)) continue;
+
+      seenLemmas.add(word.lemma);
+      targetWords.push(word);
+      if (this.debugMode) {
+        console.log(`[SubtitleProcessor] Found target word: ${word.word} (lemma: ${word.lemma})`);
+      }
+    }
+
+    // 一句中有多个生词时优先最常用的，词频相同（或没有词频）时保持出现顺序
+    const priority = (word: Word) => this.targetPriority.get(word.lemma) ?? Infinity;
+    return targetWords.sort((a, b) => priority(a) - priority(b) || 0);
+  }
+
+  private isTargetWord(word: Word, furiganaMap: FuriganaMapping[]): boolean {
+    const lemma = word.lemma;
+
+    // A word is a target if:
+    // 1. It's a learnable part of speech.
+    // 2. Its lemma is in our active vocabulary list.
+    // 3. Its lemma has not been learned yet.
+    // 4. 通过双重验证（如果有Furigana的话）
+    return this.isLearnable(word) &&
+      this.activeWordLemmas.has(lemma) &&
+      !this.learnedWords.has(lemma) &&
+      this.validateWordWithFurigana(word, furiganaMap);
   }
 
   private isLearnable(word: Word): boolean {
@@ -147,16 +314,6 @@ export class SubtitleProcessor {
     return isMatched;
   }
 
-  /**
-   * 从词汇库中查找词汇条目
-   */
-  private findVocabEntry(lemma: string): VocabEntry | null {
-    const selectedLibrary = this.vocabLibraryManager.getSelectedLibrary();
-    if (!selectedLibrary) return null;
-
-    return selectedLibrary.data.find(entry => entry.VocabKanji === lemma) || null;
-  }
-
   /**
    * 比较两个读音是否匹配
    * 处理平假名/片假名转换、长音符等差异
@@ -227,13 +384,15 @@ export class SubtitleProcessor {
     return (maxLen - matrix[len1][len2]) / maxLen;
   }
 
-  private highlightWord(container: HTMLElement, wordToHighlight: Word): void {
-    // Security check: If there is already a highlight, do not process again
-    if (container.querySelector('.im-highlight')) {
+  private highlightWord(container: HTMLElement, wordToHighlight: Word): boolean {
+    // Security check: If this word is already highlighted, do not process again
+    const isHighlighted = Array.from(container.querySelectorAll<HTMLElement>('.im-highlight'))
+      .some(highlight => highlight.dataset.lemma === wordToHighlight.lemma);
+    if (isHighlighted) {
       if (this.debugMode) {
         console.log('[SubtitleProcessor] Highlight already exists, skipping.');
       }
-      return;
+      return false;
     }
     
     const surfaceForm = wordToHighlight.word;
@@ -241,8 +400,9 @@ export class SubtitleProcessor {
     let node;
     const nodesToProcess: Text[] = [];
 
-    // First, collect all text nodes
+    // First, collect all text nodes (skipping those already inside a highlight)
     while(node = walker.nextNode()) {
+        if (node.parentElement?.closest('.im-highlight')) continue;
         nodesToProcess.push(node as Text);
     }
 
@@ -261,20 +421,20 @@ export class SubtitleProcessor {
             const highlightText = text.substring(wordIndex, wordIndex + surfaceForm.length);
             const beforeText = text.substring(0, wordIndex);
 
-            // Create the highlight span
+            // Create the highlight span; the first highlighted word becomes the current target
             const highlightSpan = document.createElement('span');
-            highlightSpan.className = 'im-highlight im-current-target';
+            highlightSpan.className = 'im-highlight';
+            if (!container.querySelector('.im-current-target')) {
+                highlightSpan.classList.add('im-current-target');
+            }
+            highlightSpan.dataset.lemma = wordToHighlight.lemma;
+            const level = this.findVocabEntry(wordToHighlight.lemma)?.Level;
+            if (level) {
+                highlightSpan.dataset.level = level;
+            }
             highlightSpan.textContent = highlightText;
-            highlightSpan.style.cssText = `
-              background-color: #ff9800 !important;
-              color: #000 !important;
-              padding: 2px 4px !important;
-              border-radius: 4px !important;
-              font-weight: bold !important;
-              border: 2px solid #f57c00 !important;
-              box-shadow: 0 0 8px rgba(255, 152, 0, 0.6) !important;
-              animation: pulse 2s infinite !important;
-            `;
+            this.applyHighlightStyle(highlightSpan);
+            this.wordElements.set(highlightSpan, wordToHighlight);
 
             // Re-assemble the nodes
             if (afterText) {
@@ -287,9 +447,102 @@ export class SubtitleProcessor {
 
             parent.removeChild(textNode);
             // Since we found and highlighted the word, we can stop.
-            // This ensures only the first unlearned word in the subtitle block is highlighted.
-            return;
+            return true;
         }
     }
+    return false;
+  }
+
+  /**
+   * 把其余可学习词汇包裹为可悬停查词的元素，跳过已高亮的词汇和注音（rt）
+   */
+  private wrapWords(container: HTMLElement, analyzedWords: Word[]): void {
+    const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+    const textNodes: Text[] = [];
+    let node;
+    while (node = walker.nextNode()) {
+      if (node.parentElement?.closest('rt, .im-highlight, .im-word')) continue;
+      textNodes.push(node as Text);
+    }
+
+    const highlightedLemmas = new Set(
+      Array.from(container.querySelectorAll<HTMLElement>('.im-highlight')).map(highlight => highlight.dataset.lemma)
+    );
+
+    // 按出现顺序逐个包裹，与 markAllTargetWords 相同
+    let nodeIndex = 0;
+    for (const word of analyzedWords) {
+      if (!this.isLearnable(word) || highlightedLemmas.has(word.lemma)) continue;
+
+      for (let i = nodeIndex; i < textNodes.length; i++) {
+        const textNode = textNodes[i];
+        const wordIndex = (textNode.textContent || '').indexOf(word.word);
+        if (wordIndex === -1) continue;
+
+        const wordNode = textNode.splitText(wordIndex);
+        const restNode = wordNode.splitText(word.word.length);
+        const span = document.createElement('span');
+        span.className = 'im-word';
+        span.dataset.lemma = word.lemma;
+        wordNode.replaceWith(span);
+        span.appendChild(wordNode);
+        this.wordElements.set(span, word);
+
+        textNodes[i] = restNode;
+        nodeIndex = i;
+        break;
+      }
+    }
+
+    this.ensureWordStyles();
+  }
+
+  private ensureWordStyles(): void {
+    if (document.head.querySelector('#im-word-styles')) return;
+
+    // 字幕容器通常不响应鼠标事件，需要单独开启以便悬停查词
+    const style = document.createElement('style');
+    style.id = 'im-word-styles';
+    style.textContent = `
+      .im-word { pointer-events: auto; cursor: help; border-radius: 3px; }
+      .im-word:hover { background: rgba(255, 255, 255, 0.2); }
+      .im-highlight { pointer-events: auto; cursor: pointer; }
+    `;
+    document.head.appendChild(style);
+  }
+
+  private applyHighlightStyle(highlight: HTMLElement): void {
+    const isCurrent = highlight.classList.contains('im-current-target');
+
+    if (!this.highlightAll) {
+      highlight.style.cssText = `
+        background-color: ${DEFAULT_HIGHLIGHT_COLOR} !important;
+        color: #000 !important;
+        padding: 2px 4px !important;
+        border-radius: 4px !important;
+        font-weight: bold !important;
+        border: 2px solid #f57c00 !important;
+        box-shadow: 0 0 8px rgba(255, 152, 0, 0.6) !important;
+        animation: pulse 2s infinite !important;
+      `;
+      return;
+    }
+
+    const color = getLevelColor(highlight.dataset.level);
+    highlight.style.cssText = isCurrent
+      ? `
+        background-color: ${color} !important;
+        color: #000 !important;
+        padding: 2px 4px !important;
+        border-radius: 4px !important;
+        font-weight: bold !important;
+        border: 2px solid ${color} !important;
+        box-shadow: 0 0 8px ${color}99 !important;
+      `
+      : `
+        color: ${color} !important;
+        font-weight: bold !important;
+        border-bottom: 3px solid ${color} !important;
+      `;
   }
 }
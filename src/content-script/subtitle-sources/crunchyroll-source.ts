@@ -0,0 +1,65 @@
+/**
+ * Crunchyroll字幕源实现
+ * 处理Crunchyroll网页播放器中以DOM渲染的字幕
+ * 注意：部分番剧的ASS特效字幕由播放器绘制在canvas上，无法从DOM读取，此时请使用自定义字幕
+ */
+
+import type { MediaInfo } from './types'
+import { DomSubtitleSource, type SeriesInfo } from './dom-subtitle-source'
+
+export class CrunchyrollSubtitleSource extends DomSubtitleSource {
+  readonly name = 'Crunchyroll Native'
+
+  protected readonly logPrefix = '[CrunchyrollSubtitleSource]'
+  protected readonly hostnames = ['crunchyroll.com']
+  protected readonly subtitleSelectors = ['[data-testid="vilos-subtitles"]']
+  protected readonly videoSelectors = ['#player0', '#vilos video', 'video']
+  protected readonly observerRootSelector = '#vilos'
+
+  extractMediaInfo(): MediaInfo {
+    try {
+      return this.toMediaInfo(this.extractCrunchyrollInfo())
+    } catch (error) {
+      console.error('[CrunchyrollSubtitleSource] Failed to extract media info:', error)
+      return {
+        title: 'Unknown',
+        fullTitle: 'Unknown',
+      }
+    }
+  }
+
+  /**
+   * 检查是否存在Crunchyroll播放器
+   */
+  protected hasPlayer(): boolean {
+    return document.querySelector('#vilos, #player0, [data-testid="vilos-player"]') !== null
+  }
+
+  /**
+   * 剧名来自番剧链接，集标题形如 "E3 - 鉄骨娘" 或 "S2 E3 - Title"
+   */
+  private extractCrunchyrollInfo(): SeriesInfo {
+    const showTitle =
+      this.queryText([
+        '.show-title-link h4',
+        '[data-t="show-title-link"] h4',
+        'a.show-title-link',
+      ]) ||
+      document.title.replace(/\s*-\s*(?:Watch on )?Crunchyroll$/i, '').trim() ||
+      'Unknown'
+
+    const episodeHeading = this.queryText(['h1.title', '[data-t="episode-title"]'])
+    const episodeInfo = episodeHeading ? this.parseEpisodeInfo(episodeHeading) : {}
+
+    const info: SeriesInfo = {
+      showTitle,
+      ...episodeInfo,
+    }
+
+    if (this.debugMode) {
+      console.log('[CrunchyrollSubtitleSource] Extracted Info:', info)
+    }
+
+    return info
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { ASS_STYLE_FIXTURES } from '../test-fixtures/ass-style-fixtures'
+import { CustomSRTSubtitleSource } from './custom-srt-source'
+
+const EVENTS_HEADER = `[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text`
+
+const parseASS = (...dialogues: string[]) =>
+  new CustomSRTSubtitleSource(false).parseSubtitleFile(
+    'test.ass',
+    [EVENTS_HEADER, ...dialogues].join('\n')
+  )
+
+describe('parseASS', () => {
+  /**
+   * 每个样式与一行 Default 对白一起解析，检查该样式的行是否被保留
+   */
+  it.each(ASS_STYLE_FIXTURES)('样式 $style 是否为对白: $isDialogue', ({ style, isDialogue }) => {
+    const entries = parseASS(
+      'Dialogue: 0,0:00:01.00,0:00:03.00,Default,,0,0,0,,対白',
+      `Dialogue: 0,0:00:04.00,0:00:06.00,${style},,0,0,0,,テスト`
+    )
+
+    expect(entries.some(entry => entry.text === 'テスト')).toBe(isDialogue)
+  })
+
+  it('去除覆盖标签，保留斜体并转换换行', () => {
+    const entries = parseASS(
+      'Dialogue: 0,0:00:01.00,0:00:03.50,Default,,0,0,0,,{\\an8\\pos(640,40)\\fad(200,200)}{\\i1}ただいま{\\i0}\\N{\\c&H00FFFF&}おかえり'
+    )
+
+    expect(entries).toEqual([
+      {
+        index: 1,
+        startTime: 1,
+        endTime: 3.5,
+        text: '<i>ただいま</i>\nおかえり',
+        style: 'Default',
+      },
+    ])
+  })
+
+  it('丢弃 \\p 矢量绘图行', () => {
+    const entries = parseASS(
+      'Dialogue: 0,0:00:01.00,0:00:03.00,Default,,0,0,0,,{\\p1}m 0 0 l 100 0 100 100 0 100{\\p0}',
+      'Dialogue: 0,0:00:04.00,0:00:06.00,Default,,0,0,0,,本文'
+    )
+
+    expect(entries.map(entry => entry.text)).toEqual(['本文'])
+  })
+
+  it('多图层重复的同一行只保留一次', () => {
+    const entries = parseASS(
+      'Dialogue: 0,0:00:01.00,0:00:03.00,Default,,0,0,0,,{\\bord8\\blur4}行くぞ',
+      'Dialogue: 1,0:00:01.00,0:00:03.00,Default,,0,0,0,,{\\bord0}行くぞ'
+    )
+
+    expect(entries.map(entry => entry.text)).toEqual(['行くぞ'])
+  })
+
+  it('合并起止时间相同的行并按开始时间排序', () => {
+    const entries = parseASS(
+      'Dialogue: 0,0:00:05.00,0:00:07.00,Default,,0,0,0,,三行目',
+      'Dialogue: 0,0:00:01.00,0:00:03.00,Default,,0,0,0,,一行目',
+      'Dialogue: 0,0:00:01.00,0:00:03.00,Default,,0,0,0,,二行目'
+    )
+
+    expect(entries).toEqual([
+      { index: 1, startTime: 1, endTime: 3, text: '一行目\n二行目', style: 'Default' },
+      { index: 2, startTime: 5, endTime: 7, text: '三行目', style: 'Default' },
+    ])
+  })
+})
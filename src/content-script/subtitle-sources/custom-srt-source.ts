@@ -1,18 +1,50 @@
 /**
  * 自定义SRT字幕源实现
- * 支持用户上传SRT文件并在任何视频上显示字幕
+ * 支持用户上传SRT/ASS/SSA/WebVTT/TTML文件并在任何视频上显示字幕
  */
 
 import type {
+  ASSStyleInfo,
   ICustomSubtitleSource,
   PageContext,
   MediaInfo,
   ParsedSubtitle,
   SubtitleEntry,
+  SubtitleLoadOptions,
   SubtitleSourceCapabilities,
 } from './types'
+import { SubtitleTextParser } from '../subtitle-text-parser'
+import { encodingDetector } from '@/lib/encoding-detector'
+import type { DecodedText, TextEncodingName } from '@/lib/encoding-detector'
+
+/**
+ * ASS/SSA Dialogue 行的原始字段
+ */
+interface ASSDialogueLine {
+  startTime: number
+  endTime: number
+  style: string
+  rawText: string
+}
+
+// 常见的非对白样式名（屏幕文字、歌词、标题等），按样式名中的单词开头匹配
+const ASS_NON_DIALOGUE_WORD_PATTERN =
+  /^(sign|song|lyric|kara|title|logo|note|credit|staff|insert|(op|ed)\d*$)/i
+
+/**
+ * 样式名拆分为单词（分隔符与驼峰边界）后逐个匹配，
+ * 避免 "Top"、"Whispered"、"Subtitled" 这类对白样式因包含 op/ed/title 被误判
+ */
+function isLikelyNonDialogueStyle(name: string): boolean {
+  return name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .some(word => ASS_NON_DIALOGUE_WORD_PATTERN.test(word))
+}
 
 export class CustomSRTSubtitleSource implements ICustomSubtitleSource {
+  static readonly SUPPORTED_EXTENSIONS = ['.srt', '.vtt', '.ass', '.ssa', '.ttml', '.dfxp', '.xml']
+
   readonly name = 'Custom SRT'
   readonly priority = 1 // 低于原生字幕
   readonly capabilities: SubtitleSourceCapabilities = {
@@ -36,9 +68,11 @@ export class CustomSRTSubtitleSource implements ICustomSubtitleSource {
   private orientationHandler: (() => void) | null = null
   private updateTimer: number | null = null
   private forceFullscreenMode: boolean = false
+  private textParser: SubtitleTextParser
 
   constructor(debugMode: boolean = false) {
     this.debugMode = debugMode
+    this.textParser = new SubtitleTextParser()
   }
 
   canHandle(context: PageContext): boolean {
@@ -64,11 +98,12 @@ export class CustomSRTSubtitleSource implements ICustomSubtitleSource {
   }
 
   parseSubtitleContent(container: HTMLElement): ParsedSubtitle {
-    const text = container.textContent || ''
+    // WebVTT/TTML 字幕可能包含 ruby 注音，与 Netflix 一样构建 furiganaMap
+    const parsedText = this.textParser.parse(container)
     return {
-      cleanText: text,
-      displayHTML: container.innerHTML,
-      furiganaMap: [], // SRT字幕默认不包含Furigana信息
+      cleanText: parsedText.cleanText,
+      displayHTML: parsedText.displayHTML,
+      furiganaMap: parsedText.furiganaMap,
     }
   }
 
@@ -129,15 +164,17 @@ export class CustomSRTSubtitleSource implements ICustomSubtitleSource {
   }
 
   /**
-   * 加载SRT文件
+   * 加载字幕文件，根据扩展名和内容选择解析器
    */
-  async loadSRTFile(file: File): Promise<void> {
+  async loadSRTFile(file: File, options: SubtitleLoadOptions = {}): Promise<void> {
     try {
-      const content = await this.readFileAsText(file)
-      this.srtEntries = this.parseSRT(content)
+      const { text: content, encoding } = await this.readFileAsText(file, options.encoding)
+      this.srtEntries = this.parseSubtitleFile(file.name, content, options)
 
       if (this.debugMode) {
-        console.log(`[CustomSRTSubtitleSource] 成功解析 ${this.srtEntries.length} 条字幕`)
+        console.log(
+          `[CustomSRTSubtitleSource] 成功解析 ${this.srtEntries.length} 条字幕 (编码: ${encoding})`
+        )
       }
     } catch (error) {
       console.error('[CustomSRTSubtitleSource] SRT文件加载失败:', error)
@@ -569,6 +606,14 @@ export class CustomSRTSubtitleSource implements ICustomSubtitleSource {
     }
   }
 
+  /**
+   * 直接显示指定字幕条目（供外部时间轴驱动的字幕源复用覆盖层）
+   */
+  displayEntry(entry: SubtitleEntry | null): void {
+    this.currentSubtitle = entry
+    this.updateOverlayDisplay()
+  }
+
   /**
    * 获取当前时间的字幕
    */
@@ -609,14 +654,20 @@ export class CustomSRTSubtitleSource implements ICustomSubtitleSource {
   }
 
   /**
-   * 读取文件内容
+   * 读取文件内容，未指定编码时自动检测（BOM / UTF-16 / UTF-8 / Shift_JIS / EUC-JP）
    */
-  private readFileAsText(file: File): Promise<string> {
+  private readFileAsText(file: File, encoding?: TextEncodingName): Promise<DecodedText> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader()
-      reader.onload = () => resolve(reader.result as string)
+      reader.onload = () => {
+        try {
+          resolve(encodingDetector.decode(reader.result as ArrayBuffer, encoding))
+        } catch (error) {
+          reject(error)
+        }
+      }
       reader.onerror = () => reject(reader.error)
-      reader.readAsText(file, 'utf-8')
+      reader.readAsArrayBuffer(file)
     })
   }
 
@@ -663,6 +714,649 @@ export class CustomSRTSubtitleSource implements ICustomSubtitleSource {
     return entries.sort((a, b) => a.startTime - b.startTime)
   }
 
+  /**
+   * 统计ASS/SSA文件中的样式，并推测哪些样式是对白
+   */
+  async inspectASSStyles(file: File, encoding?: TextEncodingName): Promise<ASSStyleInfo[]> {
+    const { text: content } = await this.readFileAsText(file, encoding)
+    const lines = this.parseASSDialogueLines(content)
+    const stats = new Map<string, { lineCount: number; positionedCount: number }>()
+
+    for (const name of this.parseASSStyleNames(content)) {
+      stats.set(name, { lineCount: 0, positionedCount: 0 })
+    }
+
+    for (const line of lines) {
+      const stat = stats.get(line.style) || { lineCount: 0, positionedCount: 0 }
+      stat.lineCount++
+      if (/\\(pos|move)\s*\(/.test(line.rawText)) {
+        stat.positionedCount++
+      }
+      stats.set(line.style, stat)
+    }
+
+    return Array.from(stats.entries()).map(([name, stat]) => ({
+      name,
+      lineCount: stat.lineCount,
+      // 样式名像屏幕文字，或大部分行都带有绝对定位时，判定为非对白
+      isLikelyDialogue:
+        stat.lineCount > 0 &&
+        !isLikelyNonDialogueStyle(name) &&
+        stat.positionedCount / stat.lineCount < 0.5,
+    }))
+  }
+
+  /**
+   * 检测字幕文件编码，并返回首条字幕文本供用户确认是否乱码
+   */
+  async inspectEncoding(
+    file: File,
+    encoding?: TextEncodingName
+  ): Promise<{ encoding: TextEncodingName; preview: string }> {
+    const decoded = await this.readFileAsText(file, encoding)
+
+    let preview = ''
+    try {
+      const entries = this.parseSubtitleFile(file.name, decoded.text, {})
+      const firstText = entries.find(entry => entry.text.trim().length > 0)?.text || ''
+      preview = firstText
+        .replace(/<rt>.*?<\/rt>/g, '')
+        .replace(/<[^>]+>/g, '')
+        .replace(/\n/g, ' ')
+    } catch (error) {
+      if (this.debugMode) {
+        console.warn('[CustomSRTSubtitleSource] 预览解析失败:', error)
+      }
+    }
+
+    return { encoding: decoded.encoding, preview: preview.slice(0, 40) }
+  }
+
+  /**
+   * 根据扩展名和内容选择对应的解析器
+   */
+  parseSubtitleFile(
+    fileName: string,
+    content: string,
+    options: SubtitleLoadOptions = {}
+  ): SubtitleEntry[] {
+    const lowerName = fileName.toLowerCase()
+    const head = content.replace(/^\uFEFF/, '').trimStart()
+
+    if (this.isASSContent(fileName, content)) {
+      return this.parseASS(content, options.dialogueStyles)
+    }
+    if (lowerName.endsWith('.vtt') || head.startsWith('WEBVTT')) {
+      return this.parseVTT(content)
+    }
+    if (
+      lowerName.endsWith('.ttml') ||
+      lowerName.endsWith('.dfxp') ||
+      lowerName.endsWith('.xml') ||
+      /^(<\?xml[^>]*>\s*)?<(\w+:)?tt[\s>]/.test(head)
+    ) {
+      return this.parseTTML(content)
+    }
+    return this.parseSRT(content)
+  }
+
+  /**
+   * 解析WebVTT文件内容
+   * 忽略 NOTE/STYLE/REGION 块和 cue 设置（位置、对齐等）
+   */
+  private parseVTT(content: string): SubtitleEntry[] {
+    const entries: SubtitleEntry[] = []
+    const blocks = content
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .split(/\n\s*\n/)
+
+    for (const block of blocks) {
+      const lines = block.split('\n').filter(line => line.trim().length > 0)
+      if (lines.length === 0) continue
+      if (/^(WEBVTT|NOTE|STYLE|REGION)(\s|$)/.test(lines[0])) continue
+
+      // cue 标识符是可选的
+      const timingIndex = lines[0].includes('-->') ? 0 : 1
+      const timeMatch = lines[timingIndex]?.match(
+        /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{3})/
+      )
+      if (!timeMatch) continue
+
+      const text = this.convertVTTCueText(lines.slice(timingIndex + 1).join('\n'))
+      if (!text) continue
+
+      entries.push({
+        index: entries.length + 1,
+        startTime: this.parseClockTime(timeMatch[1]),
+        endTime: this.parseClockTime(timeMatch[2]),
+        text,
+      })
+    }
+
+    entries.sort((a, b) => a.startTime - b.startTime)
+    return this.mergeSimultaneousEntries(entries)
+  }
+
+  /**
+   * 转换WebVTT cue文本标记
+   * 保留 i/b/u 与 ruby，去掉 c/v/lang 等类名与说话人标记
+   */
+  convertVTTCueText(cueText: string): string {
+    // 去掉卡拉OK时间戳标签 <00:00:01.000>
+    const withoutTimestamps = cueText.replace(/<(?:\d+:)?\d{2}:\d{2}\.\d{3}>/g, '')
+    const template = document.createElement('template')
+    template.innerHTML = withoutTimestamps
+
+    return this.serializeCueNodes(Array.from(template.content.childNodes)).trim()
+  }
+
+  private serializeCueNodes(nodes: Node[]): string {
+    let result = ''
+
+    for (const node of nodes) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        result += this.escapeText(node.textContent || '')
+        continue
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) continue
+
+      const element = node as HTMLElement
+      const tagName = element.tagName.toLowerCase().split('.')[0]
+      const children = Array.from(element.childNodes)
+
+      if (tagName === 'ruby') {
+        result += this.serializeRuby(element)
+      } else if (tagName === 'i' || tagName === 'b' || tagName === 'u') {
+        result += `<${tagName}>${this.serializeCueNodes(children)}</${tagName}>`
+      } else if (tagName !== 'rt') {
+        result += this.serializeCueNodes(children)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * 将 <ruby>漢字<rt>かんじ</rt></ruby> 规范化为带 <rb> 的结构，便于 SubtitleTextParser 识别
+   */
+  private serializeRuby(ruby: HTMLElement): string {
+    let result = ''
+    let base = ''
+
+    for (const child of Array.from(ruby.childNodes)) {
+      if (child.nodeType === Node.ELEMENT_NODE && (child as HTMLElement).tagName === 'RT') {
+        const reading = this.escapeText((child.textContent || '').trim())
+        result += base ? `<ruby><rb>${base}</rb><rt>${reading}</rt></ruby>` : ''
+        base = ''
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        base += this.serializeCueNodes([child])
+      } else {
+        base += this.escapeText(child.textContent || '')
+      }
+    }
+
+    // 没有对应注音的剩余文字
+    return result + base
+  }
+
+  /**
+   * 解析TTML/DFXP文件内容（Netflix、Prime Video 等下载工具常用格式）
+   * 支持 tts:ruby 注音与 tts:fontStyle 斜体
+   */
+  private parseTTML(content: string): SubtitleEntry[] {
+    const doc = new DOMParser().parseFromString(content.replace(/^\uFEFF/, ''), 'application/xml')
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('TTML文件格式错误')
+    }
+
+    const root = doc.documentElement
+    const timing = {
+      tickRate: parseFloat(this.getTTMLAttribute(root, 'tickRate') || '') || 10000000,
+      frameRate: parseFloat(this.getTTMLAttribute(root, 'frameRate') || '') || 30,
+    }
+
+    // 收集 <styling> 中定义的样式，用于解析通过 style 引用的 ruby/斜体
+    const styles = new Map<string, Element>()
+    for (const style of Array.from(doc.getElementsByTagNameNS('*', 'style'))) {
+      const id = this.getTTMLAttribute(style, 'id')
+      if (id) styles.set(id, style)
+    }
+
+    const entries: SubtitleEntry[] = []
+    for (const paragraph of Array.from(doc.getElementsByTagNameNS('*', 'p'))) {
+      const range = this.resolveTTMLTiming(paragraph, timing)
+      if (!range) continue
+
+      const text = this.serializeTTMLNodes(Array.from(paragraph.childNodes), styles)
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+        .join('\n')
+      if (!text) continue
+
+      entries.push({
+        index: entries.length + 1,
+        startTime: range.startTime,
+        endTime: range.endTime,
+        text,
+      })
+    }
+
+    entries.sort((a, b) => a.startTime - b.startTime)
+    return this.mergeSimultaneousEntries(entries)
+  }
+
+  /**
+   * 计算 <p> 的起止时间，begin 需要累加祖先元素（div/body）的 begin
+   */
+  private resolveTTMLTiming(
+    paragraph: Element,
+    timing: { tickRate: number; frameRate: number }
+  ): { startTime: number; endTime: number } | null {
+    const begin = this.getTTMLAttribute(paragraph, 'begin')
+    if (!begin) return null
+
+    let offset = 0
+    for (let parent = paragraph.parentElement; parent; parent = parent.parentElement) {
+      const parentBegin = this.getTTMLAttribute(parent, 'begin')
+      if (parentBegin) {
+        offset += this.parseTTMLTime(parentBegin, timing) ?? 0
+      }
+    }
+
+    const startTime = this.parseTTMLTime(begin, timing)
+    if (startTime === null) return null
+
+    const end = this.getTTMLAttribute(paragraph, 'end')
+    const dur = this.getTTMLAttribute(paragraph, 'dur')
+    let endTime: number | null = null
+    if (end) {
+      endTime = this.parseTTMLTime(end, timing)
+    } else if (dur) {
+      const duration = this.parseTTMLTime(dur, timing)
+      endTime = duration === null ? null : startTime + duration
+    }
+    if (endTime === null) return null
+
+    return { startTime: startTime + offset, endTime: endTime + offset }
+  }
+
+  /**
+   * 解析TTML时间表达式：时钟时间 (hh:mm:ss.fff / hh:mm:ss:ff) 或偏移时间 (10.5s / 100t 等)
+   */
+  private parseTTMLTime(
+    value: string,
+    timing: { tickRate: number; frameRate: number }
+  ): number | null {
+    const trimmed = value.trim()
+
+    const clock = trimmed.match(/^(\d+):(\d{2}):(\d{2})(?:\.(\d+)|:(\d+(?:\.\d+)?))?$/)
+    if (clock) {
+      const fraction = clock[4] ? parseFloat(`0.${clock[4]}`) : 0
+      const frames = clock[5] ? parseFloat(clock[5]) / timing.frameRate : 0
+      return (
+        parseInt(clock[1]) * 3600 + parseInt(clock[2]) * 60 + parseInt(clock[3]) + fraction + frames
+      )
+    }
+
+    const offset = trimmed.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/)
+    if (!offset) return null
+
+    const amount = parseFloat(offset[1])
+    switch (offset[2]) {
+      case 'h':
+        return amount * 3600
+      case 'm':
+        return amount * 60
+      case 's':
+        return amount
+      case 'ms':
+        return amount / 1000
+      case 'f':
+        return amount / timing.frameRate
+      default:
+        return amount / timing.tickRate
+    }
+  }
+
+  private serializeTTMLNodes(nodes: Node[], styles: Map<string, Element>): string {
+    let result = ''
+
+    for (const node of nodes) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        // 默认 xml:space 行为：折叠空白
+        result += this.escapeText((node.textContent || '').replace(/\s+/g, ' '))
+        continue
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) continue
+
+      const element = node as Element
+      if (element.localName === 'br') {
+        result += '\n'
+        continue
+      }
+      if (element.localName !== 'span') continue
+
+      const ruby = this.getTTMLStyleValue(element, 'ruby', styles)
+      if (ruby === 'container') {
+        result += this.serializeTTMLRuby(element, styles)
+        continue
+      }
+
+      const inner = this.serializeTTMLNodes(Array.from(element.childNodes), styles)
+      result +=
+        this.getTTMLStyleValue(element, 'fontStyle', styles) === 'italic'
+          ? `<i>${inner}</i>`
+          : inner
+    }
+
+    return result
+  }
+
+  /**
+   * 处理 tts:ruby="container" 结构（base/text 或 baseContainer/textContainer）
+   */
+  private serializeTTMLRuby(container: Element, styles: Map<string, Element>): string {
+    let base = ''
+    let reading = ''
+
+    const collect = (element: Element) => {
+      for (const child of Array.from(element.children)) {
+        const role = this.getTTMLStyleValue(child, 'ruby', styles)
+        if (role === 'base') {
+          base += this.escapeText((child.textContent || '').trim())
+        } else if (role === 'text') {
+          reading += this.escapeText((child.textContent || '').trim())
+        } else if (role === 'baseContainer' || role === 'textContainer') {
+          collect(child)
+        }
+      }
+    }
+    collect(container)
+
+    if (!base) return ''
+    return reading ? `<ruby><rb>${base}</rb><rt>${reading}</rt></ruby>` : base
+  }
+
+  /**
+   * 读取样式属性，优先使用元素自身属性，其次是 style 引用的样式
+   */
+  private getTTMLStyleValue(
+    element: Element,
+    name: string,
+    styles: Map<string, Element>
+  ): string | null {
+    const inline = this.getTTMLAttribute(element, name)
+    if (inline) return inline
+
+    const styleRefs = (this.getTTMLAttribute(element, 'style') || '').split(/\s+/)
+    for (const ref of styleRefs) {
+      const style = ref ? styles.get(ref) : undefined
+      const value = style ? this.getTTMLAttribute(style, name) : null
+      if (value) return value
+    }
+    return null
+  }
+
+  /**
+   * 按本地名读取属性，忽略命名空间前缀（tts:/ttp:/xml: 在不同文件中可能不同）
+   */
+  private getTTMLAttribute(element: Element, localName: string): string | null {
+    for (const attribute of Array.from(element.attributes)) {
+      if (attribute.localName === localName) {
+        return attribute.value
+      }
+    }
+    return null
+  }
+
+  /**
+   * 解析 [hh:]mm:ss.fff 格式的时间
+   */
+  private parseClockTime(value: string): number {
+    const parts = value.replace(',', '.').split(':')
+    const seconds = parseFloat(parts.pop() || '0')
+    const minutes = parseInt(parts.pop() || '0')
+    const hours = parseInt(parts.pop() || '0')
+    return hours * 3600 + minutes * 60 + seconds
+  }
+
+  private escapeText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  }
+
+  /**
+   * 判断是否为ASS/SSA字幕
+   */
+  private isASSContent(fileName: string, content: string): boolean {
+    const lowerName = fileName.toLowerCase()
+    return (
+      lowerName.endsWith('.ass') ||
+      lowerName.endsWith('.ssa') ||
+      /^\s*\[Script Info\]/i.test(content)
+    )
+  }
+
+  /**
+   * 解析ASS/SSA文件内容
+   * dialogueStyles 未指定时，使用自动判断的对白样式
+   */
+  private parseASS(content: string, dialogueStyles?: string[]): SubtitleEntry[] {
+    const lines = this.parseASSDialogueLines(content)
+
+    let allowedStyles: Set<string> | null = null
+    if (dialogueStyles) {
+      allowedStyles = new Set(dialogueStyles)
+    } else {
+      const styleNames = new Set(lines.map(line => line.style))
+      const likelyDialogue = Array.from(styleNames).filter(
+        name => !isLikelyNonDialogueStyle(name)
+      )
+      // 如果全部被判定为非对白，则退回到使用所有样式
+      allowedStyles = new Set(likelyDialogue.length > 0 ? likelyDialogue : styleNames)
+    }
+
+    const entries: SubtitleEntry[] = []
+    const seen = new Set<string>()
+
+    for (const line of lines) {
+      if (!allowedStyles.has(line.style)) continue
+
+      const text = this.cleanASSText(line.rawText)
+      if (!text) continue
+
+      // 多图层重复的同一行只保留一次
+      const key = `${line.startTime}|${line.endTime}|${text}`
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      entries.push({
+        index: entries.length + 1,
+        startTime: line.startTime,
+        endTime: line.endTime,
+        text,
+        style: line.style,
+      })
+    }
+
+    entries.sort((a, b) => a.startTime - b.startTime)
+    return this.mergeSimultaneousEntries(entries)
+  }
+
+  /**
+   * 解析 [V4+ Styles] / [V4 Styles] 段中的样式名
+   */
+  private parseASSStyleNames(content: string): string[] {
+    const names: string[] = []
+    let section = ''
+    let nameIndex = 0
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim()
+      const sectionMatch = line.match(/^\[(.+)\]$/)
+      if (sectionMatch) {
+        section = sectionMatch[1].toLowerCase()
+        continue
+      }
+      if (!section.includes('styles')) continue
+
+      if (/^Format:/i.test(line)) {
+        const fields = this.splitASSFields(line.slice(line.indexOf(':') + 1))
+        nameIndex = Math.max(
+          0,
+          fields.findIndex(field => field.toLowerCase() === 'name')
+        )
+      } else if (/^Style:/i.test(line)) {
+        const values = line.slice(line.indexOf(':') + 1).split(',')
+        const name = values[nameIndex]?.trim()
+        if (name && !names.includes(name)) {
+          names.push(name)
+        }
+      }
+    }
+
+    return names
+  }
+
+  /**
+   * 解析 [Events] 段中的 Dialogue 行（忽略 Comment 行）
+   */
+  private parseASSDialogueLines(content: string): ASSDialogueLine[] {
+    const result: ASSDialogueLine[] = []
+    let inEvents = false
+    // SSA/ASS 默认字段顺序
+    let format = [
+      'layer',
+      'start',
+      'end',
+      'style',
+      'name',
+      'marginl',
+      'marginr',
+      'marginv',
+      'effect',
+      'text',
+    ]
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim()
+      const sectionMatch = line.match(/^\[(.+)\]$/)
+      if (sectionMatch) {
+        inEvents = sectionMatch[1].toLowerCase() === 'events'
+        continue
+      }
+      if (!inEvents) continue
+
+      if (/^Format:/i.test(line)) {
+        format = this.splitASSFields(line.slice(line.indexOf(':') + 1)).map(field =>
+          field.toLowerCase()
+        )
+        continue
+      }
+      if (!/^Dialogue:/i.test(line)) continue
+
+      // Text 为最后一个字段，本身可能包含逗号
+      const values = line.slice(line.indexOf(':') + 1).split(',')
+      const fields: Record<string, string> = {}
+      format.forEach((field, i) => {
+        fields[field] =
+          i === format.length - 1 ? values.slice(i).join(',') : (values[i] || '').trim()
+      })
+
+      const startTime = this.parseASSTime(fields.start)
+      const endTime = this.parseASSTime(fields.end)
+      if (startTime === null || endTime === null) continue
+
+      result.push({
+        startTime,
+        endTime,
+        style: (fields.style || 'Default').replace(/^\*/, ''),
+        rawText: fields.text || '',
+      })
+    }
+
+    return result
+  }
+
+  private splitASSFields(value: string): string[] {
+    return value.split(',').map(field => field.trim())
+  }
+
+  /**
+   * 解析 H:MM:SS.cc 格式的时间
+   */
+  private parseASSTime(value: string | undefined): number | null {
+    const match = value?.match(/(\d+):(\d{1,2}):(\d{1,2})[.,](\d{1,3})/)
+    if (!match) return null
+
+    const fraction = parseInt(match[4]) / Math.pow(10, match[4].length)
+    return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]) + fraction
+  }
+
+  /**
+   * 处理ASS覆盖标签，转换为纯文本（保留斜体/粗体/下划线）
+   */
+  private cleanASSText(rawText: string): string {
+    let result = ''
+    const open = { i: false, b: false, u: false }
+
+    for (const part of rawText.split(/(\{[^}]*\})/)) {
+      if (!part.startsWith('{')) {
+        result += part
+        continue
+      }
+
+      // 矢量绘图模式 (\p1 及以上) 的内容不是文字
+      if (/\\p[1-9]/.test(part)) return ''
+
+      for (const tag of ['i', 'b', 'u'] as const) {
+        const match = part.match(new RegExp(`\\\\${tag}(\\d+)`))
+        if (!match) continue
+        const enable = match[1] !== '0'
+        if (enable !== open[tag]) {
+          result += enable ? `<${tag}>` : `</${tag}>`
+          open[tag] = enable
+        }
+      }
+    }
+
+    for (const tag of ['u', 'b', 'i'] as const) {
+      if (open[tag]) result += `</${tag}>`
+    }
+
+    return result
+      .replace(/\\[Nn]/g, '\n')
+      .replace(/\\h/g, ' ')
+      .replace(/<(i|b|u)><\/\1>/g, '')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .join('\n')
+  }
+
+  /**
+   * 合并起止时间完全相同的字幕（如上下两行不同说话人）
+   */
+  private mergeSimultaneousEntries(entries: SubtitleEntry[]): SubtitleEntry[] {
+    const merged: SubtitleEntry[] = []
+
+    for (const entry of entries) {
+      const previous = merged[merged.length - 1]
+      if (
+        previous &&
+        previous.startTime === entry.startTime &&
+        previous.endTime === entry.endTime
+      ) {
+        previous.text = `${previous.text}\n${entry.text}`
+        continue
+      }
+      merged.push({ ...entry, index: merged.length + 1 })
+    }
+
+    return merged
+  }
+
   /**
    * 将时间字符串转换为秒数
    */
@@ -765,6 +1459,24 @@ export class CustomSRTSubtitleSource implements ICustomSubtitleSource {
     }
   }
 
+  /**
+   * 获取已加载的全部字幕条目
+   */
+  getSubtitleEntries(): SubtitleEntry[] {
+    return this.srtEntries
+  }
+
+  getVideoElement(): HTMLVideoElement | null {
+    return this.targetVideo
+  }
+
+  /**
+   * 获取字幕时间偏移（秒，正值表示字幕提前）
+   */
+  getTimeOffset(): number {
+    return this.timeOffset
+  }
+
   /**
    * 获取字幕统计信息
    */
@@ -0,0 +1,61 @@
+/**
+ * Disney+字幕源实现
+ * 处理Disney+网页播放器的字幕提取和解析
+ */
+
+import type { MediaInfo } from './types'
+import { DomSubtitleSource, type SeriesInfo } from './dom-subtitle-source'
+
+export class DisneyPlusSubtitleSource extends DomSubtitleSource {
+  readonly name = 'Disney+ Native'
+
+  protected readonly logPrefix = '[DisneyPlusSubtitleSource]'
+  protected readonly hostnames = ['disneyplus.com']
+  // 每个cue窗口可能包含多行字幕，合并为一个容器
+  protected readonly subtitleSelectors = ['.dss-subtitle-renderer-cue-window']
+  protected readonly videoSelectors = ['video.btm-media-client-element', '#hivePlayer', 'video']
+  protected readonly observerRootSelector = '.dss-subtitle-renderer-wrapper'
+
+  extractMediaInfo(): MediaInfo {
+    try {
+      return this.toMediaInfo(this.extractDisneyInfo())
+    } catch (error) {
+      console.error('[DisneyPlusSubtitleSource] Failed to extract media info:', error)
+      return {
+        title: 'Unknown',
+        fullTitle: 'Unknown',
+      }
+    }
+  }
+
+  /**
+   * 检查是否存在Disney+播放器
+   */
+  protected hasPlayer(): boolean {
+    return document.querySelector('.btm-media-player, .btm-media-client, #hudson-wrapper') !== null
+  }
+
+  /**
+   * 剧名在标题栏，副标题形如 "S1:E3 エピソード名"
+   */
+  private extractDisneyInfo(): SeriesInfo {
+    const showTitle =
+      this.queryText(['.title-field', '[data-testid="title-field"]']) ||
+      document.title.replace(/\s*\|\s*Disney\+$/i, '').trim() ||
+      'Unknown'
+
+    const subtitleText = this.queryText(['.subtitle-field', '[data-testid="subtitle-field"]'])
+    const episodeInfo = subtitleText ? this.parseEpisodeInfo(subtitleText) : {}
+
+    const info: SeriesInfo = {
+      showTitle,
+      ...episodeInfo,
+    }
+
+    if (this.debugMode) {
+      console.log('[DisneyPlusSubtitleSource] Extracted Info:', info)
+    }
+
+    return info
+  }
+}
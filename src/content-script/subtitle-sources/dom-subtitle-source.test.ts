@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { DOM_SOURCE_FIXTURES } from '../test-fixtures/dom-source-fixtures'
+import type { DomSourceKey } from '../test-fixtures/dom-source-fixtures'
+import { CrunchyrollSubtitleSource } from './crunchyroll-source'
+import { DisneyPlusSubtitleSource } from './disney-plus-source'
+import type { DomSubtitleSource } from './dom-subtitle-source'
+import { NetflixSubtitleSource } from './netflix-source'
+import { PrimeVideoSubtitleSource } from './prime-video-source'
+import type { PageContext } from './types'
+import { UNextSubtitleSource } from './unext-source'
+
+const DOM_SOURCE_FACTORIES: Record<DomSourceKey, () => DomSubtitleSource> = {
+  netflix: () => new NetflixSubtitleSource(false),
+  'prime-video': () => new PrimeVideoSubtitleSource(false),
+  crunchyroll: () => new CrunchyrollSubtitleSource(false),
+  'disney-plus': () => new DisneyPlusSubtitleSource(false),
+  unext: () => new UNextSubtitleSource(false),
+}
+
+describe.each(DOM_SOURCE_FIXTURES)('$name', fixture => {
+  let source: DomSubtitleSource
+  let sandbox: HTMLElement
+
+  /**
+   * 将HTML快照挂载到页面中，再创建对应的字幕源
+   */
+  const mount = (): PageContext => {
+    sandbox = document.createElement('div')
+    sandbox.innerHTML = fixture.html
+    document.body.appendChild(sandbox)
+    document.title = fixture.documentTitle
+    source = DOM_SOURCE_FACTORIES[fixture.source]()
+
+    return {
+      ...fixture.context,
+      hasVideo: true,
+      videoElements: Array.from(sandbox.querySelectorAll('video')),
+    }
+  }
+
+  afterEach(() => {
+    source.cleanup()
+    sandbox.remove()
+    document.title = ''
+  })
+
+  it('识别页面', () => {
+    const context = mount()
+    expect(source.canHandle(context)).toBe(true)
+  })
+
+  it('解析字幕容器', () => {
+    mount()
+    const subtitles = source
+      .detectSubtitleContainers()
+      .filter(container => sandbox.contains(container))
+      .map(container => source.parseSubtitleContent(container).cleanText.trim())
+
+    expect(subtitles).toEqual(fixture.expected.subtitles)
+  })
+
+  it('提取媒体信息', () => {
+    mount()
+    expect(source.extractMediaInfo()).toMatchObject(fixture.expected.mediaInfo)
+  })
+})
@@ -0,0 +1,321 @@
+/**
+ * 基于DOM的字幕源基类
+ * 封装"查找字幕容器、监听DOM变化、等待播放器就绪"等通用逻辑，
+ * 具体平台只需提供选择器与媒体信息提取
+ */
+
+import type {
+  ISubtitleSource,
+  PageContext,
+  MediaInfo,
+  ParsedSubtitle,
+  SubtitleSourceCapabilities,
+} from './types'
+import { SubtitleTextParser } from '../subtitle-text-parser'
+
+/**
+ * 剧集信息（用于拼接完整标题）
+ */
+export interface SeriesInfo {
+  showTitle: string
+  seasonNumber?: string
+  episodeNumber?: string
+  episodeTitle?: string
+}
+
+export abstract class DomSubtitleSource implements ISubtitleSource {
+  abstract readonly name: string
+  readonly priority: number = 0 // 平台原生字幕默认最高优先级
+  readonly capabilities: SubtitleSourceCapabilities = {
+    supportsNativeSubtitles: true,
+    supportsCustomSubtitles: false,
+    requiresUserInput: false,
+  }
+
+  // 日志前缀，例如 '[NetflixSubtitleSource]'
+  protected abstract readonly logPrefix: string
+  // 平台域名片段，页面 hostname 包含其一即视为匹配
+  protected abstract readonly hostnames: string[]
+  // 字幕容器选择器
+  protected abstract readonly subtitleSelectors: string[]
+  // 播放器视频元素选择器，按顺序尝试
+  protected readonly videoSelectors: string[] = ['video']
+  // 观察器根节点选择器，未找到时回退到字幕容器父级或document.body
+  protected readonly observerRootSelector: string | null = null
+  // 是否监听文本节点变化（字幕逐字更新的播放器）
+  protected readonly observeCharacterData: boolean = false
+
+  protected observer: MutationObserver | null = null
+  protected textParser: SubtitleTextParser
+  protected debugMode: boolean
+  protected isInitialized: boolean = false
+
+  constructor(debugMode: boolean = false) {
+    this.debugMode = debugMode
+    this.textParser = new SubtitleTextParser()
+  }
+
+  abstract extractMediaInfo(): MediaInfo
+
+  /**
+   * 检查播放器是否已出现在页面上
+   */
+  protected abstract hasPlayer(): boolean
+
+  canHandle(context: PageContext): boolean {
+    return this.matchesPage(context) && context.hasVideo && this.hasPlayer()
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return
+
+    try {
+      const playerReady = await this.waitForPlayer(10000)
+      if (!playerReady) {
+        throw new Error(`${this.name} player timed out`)
+      }
+
+      this.isInitialized = true
+
+      if (this.debugMode) {
+        console.log(`${this.logPrefix} Initialized successfully`)
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Initialization failed:`, error)
+      throw error
+    }
+  }
+
+  isReady(): boolean {
+    return this.isInitialized && this.hasPlayer()
+  }
+
+  detectSubtitleContainers(): HTMLElement[] {
+    const containers = new Set<HTMLElement>()
+
+    document.querySelectorAll<HTMLElement>(this.getSubtitleSelector()).forEach(element => {
+      containers.add(this.resolveContainer(element))
+    })
+
+    if (this.debugMode && containers.size > 0) {
+      console.log(`${this.logPrefix} 发现 ${containers.size} 个字幕容器`)
+    }
+
+    return Array.from(containers)
+  }
+
+  parseSubtitleContent(container: HTMLElement): ParsedSubtitle {
+    try {
+      const parsedText = this.textParser.parse(container)
+
+      if (this.debugMode) {
+        console.log(`${this.logPrefix} 解析字幕内容:`, {
+          cleanText: parsedText.cleanText,
+          furiganaCount: parsedText.furiganaMap.length,
+        })
+      }
+
+      return {
+        cleanText: parsedText.cleanText,
+        displayHTML: parsedText.displayHTML,
+        furiganaMap: parsedText.furiganaMap,
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} 解析字幕内容失败:`, error)
+      return {
+        cleanText: '',
+        displayHTML: '',
+        furiganaMap: [],
+      }
+    }
+  }
+
+  setupObserver(callback: (containers: HTMLElement[]) => void): void {
+    this.cleanup() // 清理现有的观察器
+
+    const subtitleSelector = this.getSubtitleSelector()
+
+    const handleMutation = (mutations: MutationRecord[]) => {
+      let hasSubtitleChanges = false
+
+      mutations.forEach(mutation => {
+        if (mutation.type === 'childList') {
+          mutation.addedNodes.forEach(node => {
+            if (node.nodeType === Node.ELEMENT_NODE) {
+              const element = node as HTMLElement
+
+              if (element.matches(subtitleSelector) || element.querySelector(subtitleSelector)) {
+                hasSubtitleChanges = true
+              }
+            }
+          })
+        } else if (mutation.type === 'characterData') {
+          if (mutation.target.parentElement?.closest(subtitleSelector)) {
+            hasSubtitleChanges = true
+          }
+        }
+      })
+
+      if (hasSubtitleChanges) {
+        const containers = this.detectSubtitleContainers()
+        callback(containers)
+      }
+    }
+
+    this.observer = new MutationObserver(handleMutation)
+
+    // 尝试找到更具体的观察目标
+    const initialCheck = () => {
+      const observerRoot =
+        (this.observerRootSelector && document.querySelector(this.observerRootSelector)) ||
+        document.querySelector(subtitleSelector)?.parentElement
+
+      if (this.debugMode) {
+        console.log(
+          `${this.logPrefix} 在${observerRoot ? '字幕区域' : 'document.body'}上设置观察器`
+        )
+      }
+
+      this.observer?.observe(observerRoot || document.body, {
+        childList: true,
+        subtree: true,
+        characterData: this.observeCharacterData,
+      })
+
+      // 立即检查现有字幕
+      const containers = this.detectSubtitleContainers()
+      if (containers.length > 0) {
+        callback(containers)
+      }
+    }
+
+    // 给页面一些时间加载
+    setTimeout(initialCheck, 1000)
+  }
+
+  cleanup(): void {
+    if (this.observer) {
+      this.observer.disconnect()
+      this.observer = null
+    }
+
+    if (this.debugMode) {
+      console.log(`${this.logPrefix} 清理完成`)
+    }
+  }
+
+  /**
+   * 获取播放器视频元素
+   */
+  getVideoElement(): HTMLVideoElement | null {
+    for (const selector of this.videoSelectors) {
+      const video = document.querySelector<HTMLVideoElement>(selector)
+      if (video) return video
+    }
+    return null
+  }
+
+  /**
+   * 获取视频时间戳
+   */
+  getCurrentTimestamp(): number {
+    const videoElement = this.getVideoElement()
+    return videoElement ? Math.floor(videoElement.currentTime) : 0
+  }
+
+  /**
+   * 检查当前页面是否属于该平台
+   */
+  protected matchesPage(context: PageContext): boolean {
+    return this.hostnames.some(hostname => context.hostname.includes(hostname))
+  }
+
+  /**
+   * 将匹配到的元素映射为字幕容器（例如把多行字幕片段合并到同一父级）
+   */
+  protected resolveContainer(element: HTMLElement): HTMLElement {
+    return element
+  }
+
+  protected getSubtitleSelector(): string {
+    return this.subtitleSelectors.join(', ')
+  }
+
+  /**
+   * 按顺序尝试选择器，返回第一个非空文本
+   */
+  protected queryText(selectors: string[]): string | null {
+    for (const selector of selectors) {
+      const element = document.querySelector(selector)
+      if (element?.textContent?.trim()) return element.textContent.trim()
+    }
+    return null
+  }
+
+  /**
+   * 从 "シーズン1、エピソード3 旅立ち"、"Season 1, Ep. 3 The Journey"、"S1:E3 Title"、
+   * "第2期 第5話" 等格式中拆分季数、集数与集标题
+   */
+  protected parseEpisodeInfo(
+    text: string
+  ): Pick<SeriesInfo, 'seasonNumber' | 'episodeNumber' | 'episodeTitle'> {
+    const seasonMatch = text.match(
+      /(?:シーズン|Season)\s*\d+|第\s*\d+\s*(?:期|季)|\bS\d+(?=\s*[:：]?\s*E\d)/i
+    )
+    const episodeMatch = text.match(
+      /(?:エピソード|Episode|Ep\.?)\s*\d+|第\s*\d+\s*(?:話|集)|\bE\d+\b/i
+    )
+
+    // 去掉季数与集数部分后剩下的即为集标题
+    const episodeTitle = text
+      .replace(seasonMatch?.[0] || '', '')
+      .replace(episodeMatch?.[0] || '', '')
+      .replace(/^[\s,，、:：.\-–]+/, '')
+      .trim()
+
+    return {
+      seasonNumber: seasonMatch ? seasonMatch[0].trim() : undefined,
+      episodeNumber: episodeMatch ? episodeMatch[0].trim() : undefined,
+      episodeTitle: episodeTitle || undefined,
+    }
+  }
+
+  /**
+   * 拼接 "剧名 季数 集数 "集标题"" 形式的完整标题
+   */
+  protected buildSeriesTitle(info: SeriesInfo): string {
+    const parts: string[] = []
+    if (info.showTitle && info.showTitle !== 'Unknown') parts.push(info.showTitle)
+    if (info.seasonNumber) parts.push(info.seasonNumber)
+    if (info.episodeNumber) parts.push(info.episodeNumber)
+    if (info.episodeTitle) parts.push(`"${info.episodeTitle}"`)
+    return parts.length > 0 ? parts.join(' ') : 'Unknown'
+  }
+
+  /**
+   * 将剧集信息转换为媒体信息
+   */
+  protected toMediaInfo(info: SeriesInfo): MediaInfo {
+    return {
+      title: info.showTitle,
+      fullTitle: this.buildSeriesTitle(info),
+      showTitle: info.showTitle,
+      seasonNumber: info.seasonNumber,
+      episodeNumber: info.episodeNumber,
+      episodeTitle: info.episodeTitle,
+    }
+  }
+
+  protected async waitForPlayer(timeout: number = 10000): Promise<boolean> {
+    const startTime = Date.now()
+    while (Date.now() - startTime < timeout) {
+      if (this.hasPlayer()) {
+        if (this.debugMode) console.log(`${this.logPrefix} ${this.name} player is ready.`)
+        return true
+      }
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+    if (this.debugMode) console.log(`${this.logPrefix} Wait for ${this.name} player timed out.`)
+    return false
+  }
+}
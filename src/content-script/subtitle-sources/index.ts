@@ -4,5 +4,12 @@
 
 export * from './types';
 export * from './registry';
+export * from './dom-subtitle-source';
 export * from './netflix-source';
-export * from './custom-srt-source';
\ No newline at end of file
+export * from './youtube-source';
+export * from './prime-video-source';
+export * from './crunchyroll-source';
+export * from './disney-plus-source';
+export * from './unext-source';
+export * from './custom-srt-source';
+export * from './text-track-source';
\ No newline at end of file
@@ -1,105 +1,69 @@
 /**
  * Netflix字幕源实现
- * 专门处理Netflix网站的字幕提取和解析
+ * 专门处理Netflix网站的字幕提取和解析，
+ * 并接收页面脚本捕获的整集字幕轨道（见 page-world/netflix-timedtext-hook）
  */
 
-import type {
-  ISubtitleSource,
-  PageContext,
-  MediaInfo,
-  ParsedSubtitle,
-  SubtitleSourceCapabilities,
-} from './types'
-import { SubtitleTextParser } from '../subtitle-text-parser'
-
-export class NetflixSubtitleSource implements ISubtitleSource {
+import type { MediaInfo, SubtitleEntry } from './types'
+import type { SubtitleTrack } from '@/types'
+import { DomSubtitleSource, type SeriesInfo } from './dom-subtitle-source'
+import { CustomSRTSubtitleSource } from './custom-srt-source'
+import {
+  CONTENT_SCRIPT_SOURCE,
+  PAGE_WORLD_SOURCE,
+  type NetflixTimedTextPayload,
+  type PageWorldMessage,
+} from '@/page-world/messages'
+
+export class NetflixSubtitleSource extends DomSubtitleSource {
   readonly name = 'Netflix Native'
   readonly priority = 0 // 最高优先级
-  readonly capabilities: SubtitleSourceCapabilities = {
-    supportsNativeSubtitles: true,
-    supportsCustomSubtitles: false,
-    requiresUserInput: false,
-  }
 
-  private observer: MutationObserver | null = null
-  private textParser: SubtitleTextParser
-  private debugMode: boolean
-  private isInitialized: boolean = false
+  protected readonly logPrefix = '[NetflixSubtitleSource]'
+  protected readonly hostnames = ['netflix.com']
+  protected readonly subtitleSelectors = ['.player-timedtext-text-container']
 
-  constructor(debugMode: boolean = false) {
-    this.debugMode = debugMode
-    this.textParser = new SubtitleTextParser()
-  }
+  // 复用自定义字幕的 TTML/WebVTT 解析器
+  private trackParser: CustomSRTSubtitleSource | null = null
+  private trackCaptureHandler: ((track: SubtitleTrack) => void) | null = null
+  private timedTextListener: ((event: MessageEvent) => void) | null = null
+  // 尚未播放到的剧集（例如播放器预加载的下一集），切换到该剧集时再处理
+  private pendingTimedText = new Map<string, NetflixTimedTextPayload>()
+  private lastCapturedMovieId: string | null = null
+  private capturedEntries: SubtitleEntry[] = []
 
-  canHandle(context: PageContext): boolean {
-    return context.hostname.includes('netflix.com') && context.hasVideo && this.hasNetflixPlayer()
+  /**
+   * 注册整集字幕轨道捕获回调
+   */
+  onTrackCaptured(handler: (track: SubtitleTrack) => void): void {
+    this.trackCaptureHandler = handler
   }
 
-  async initialize(): Promise<void> {
-    if (this.isInitialized) return
-
-    try {
-      const playerReady = await this._waitForNetflixPlayer(10000)
-      if (!playerReady) {
-        throw new Error('Netflix player timed out')
-      }
-
-      this.isInitialized = true
-
-      if (this.debugMode) {
-        console.log('[NetflixSubtitleSource] Initialized successfully')
-      }
-    } catch (error) {
-      console.error('[NetflixSubtitleSource] Initialization failed:', error)
-      throw error
-    }
+  setupObserver(callback: (containers: HTMLElement[]) => void): void {
+    super.setupObserver(containers => {
+      // Netflix 切换剧集不会刷新页面，在字幕变化时检查是否有该集的待处理轨道
+      this.flushPendingTimedText()
+      callback(containers)
+    })
+    this.startTrackCapture()
   }
 
-  isReady(): boolean {
-    return this.isInitialized && this.hasNetflixPlayer()
+  cleanup(): void {
+    this.stopTrackCapture()
+    super.cleanup()
   }
 
-  detectSubtitleContainers(): HTMLElement[] {
-    const selectors = ['.player-timedtext-text-container']
-
-    const containers: HTMLElement[] = []
-
-    for (const selector of selectors) {
-      const elements = document.querySelectorAll(selector) as NodeListOf<HTMLElement>
-      containers.push(...Array.from(elements))
-    }
-
-    if (this.debugMode && containers.length > 0) {
-      console.log(`[NetflixSubtitleSource] 发现 ${containers.length} 个字幕容器`)
-    }
-
-    return containers
+  /**
+   * 已捕获的当前剧集字幕（尚未捕获时为空）
+   */
+  getSubtitleEntries(): SubtitleEntry[] {
+    return NetflixSubtitleSource.getMovieId() === this.lastCapturedMovieId
+      ? this.capturedEntries
+      : []
   }
 
-  parseSubtitleContent(container: HTMLElement): ParsedSubtitle {
-    try {
-      const parsedText = this.textParser.parse(container)
-
-      if (this.debugMode) {
-        console.log('[NetflixSubtitleSource] 解析字幕内容:', {
-          cleanText: parsedText.cleanText,
-          furiganaCount: parsedText.furiganaMap.length,
-        })
-      }
-
-      return {
-        cleanText: parsedText.cleanText,
-        displayHTML: parsedText.displayHTML,
-        furiganaMap: parsedText.furiganaMap,
-      }
-    } catch (error) {
-      console.error('[NetflixSubtitleSource] 解析字幕内容失败:', error)
-      return {
-        cleanText: '',
-        displayHTML: '',
-        furiganaMap: [],
-      }
-    }
+  seekTo(time: number): void {
+    NetflixSubtitleSource.seek(time)
   }
 
   extractMediaInfo(): MediaInfo {
@@ -123,93 +87,103 @@ export class NetflixSubtitleSource implements ISubtitleSource {
     }
   }
 
-  setupObserver(callback: (containers: HTMLElement[]) => void): void {
-    this.cleanup() // 清理现有的观察器
-
-    const subtitleSelectors = ['.player-timedtext-text-container'].join(', ')
-
-    const handleMutation = (mutations: MutationRecord[]) => {
-      let hasSubtitleChanges = false
-
-      mutations.forEach(mutation => {
-        if (mutation.type === 'childList') {
-          mutation.addedNodes.forEach(node => {
-            if (node.nodeType === Node.ELEMENT_NODE) {
-              const element = node as HTMLElement
-
-              if (element.matches(subtitleSelectors) || element.querySelector(subtitleSelectors)) {
-                hasSubtitleChanges = true
-              }
-            }
-          })
-        }
-      })
-
-      if (hasSubtitleChanges) {
-        const containers = this.detectSubtitleContainers()
-        callback(containers)
-      }
-    }
+  /**
+   * 检查是否存在Netflix播放器
+   */
+  protected hasPlayer(): boolean {
+    const hasVideo = document.querySelector('video') !== null
+    const hasNetflixElements =
+      document.querySelector('[class*="player"]') !== null ||
+      document.querySelector('[data-uia*="player"]') !== null ||
+      document.querySelector('.video-title') !== null
 
-    this.observer = new MutationObserver(handleMutation)
-
-    // 尝试找到更具体的观察目标
-    const initialCheck = () => {
-      const subtitleParent = document.querySelector(subtitleSelectors)?.parentElement
-
-      if (subtitleParent) {
-        if (this.debugMode) {
-          console.log('[NetflixSubtitleSource] 在字幕容器父级上设置观察器')
-        }
-
-        this.observer?.observe(subtitleParent, {
-          childList: true,
-          subtree: true,
-        })
-      } else {
-        if (this.debugMode) {
-          console.log('[NetflixSubtitleSource] 在document.body上设置观察器')
-        }
-
-        this.observer?.observe(document.body, {
-          childList: true,
-          subtree: true,
-        })
-      }
+    return hasVideo && hasNetflixElements
+  }
 
-      // 立即检查现有字幕
-      const containers = this.detectSubtitleContainers()
-      if (containers.length > 0) {
-        callback(containers)
-      }
-    }
+  /**
+   * 监听页面脚本发来的字幕轨道，并请求页面脚本回传注入前已捕获的轨道
+   */
+  private startTrackCapture(): void {
+    if (this.timedTextListener) return
 
-    // 给页面一些时间加载
-    setTimeout(initialCheck, 1000)
-  }
+    this.timedTextListener = (event: MessageEvent) => {
+      if (event.source !== window) return
 
-  cleanup(): void {
-    if (this.observer) {
-      this.observer.disconnect()
-      this.observer = null
+      const message = event.data as PageWorldMessage | undefined
+      if (message?.source !== PAGE_WORLD_SOURCE || message.type !== 'NETFLIX_TIMEDTEXT') return
+
+      this.pendingTimedText.set(message.payload.movieId, message.payload)
+      this.flushPendingTimedText()
     }
+    window.addEventListener('message', this.timedTextListener)
 
-    if (this.debugMode) {
-      console.log('[NetflixSubtitleSource] 清理完成')
+    const request: PageWorldMessage = {
+      source: CONTENT_SCRIPT_SOURCE,
+      type: 'REQUEST_NETFLIX_TIMEDTEXT',
+    }
+    window.postMessage(request, window.location.origin)
+  }
+
+  private stopTrackCapture(): void {
+    if (this.timedTextListener) {
+      window.removeEventListener('message', this.timedTextListener)
+      this.timedTextListener = null
     }
   }
 
   /**
-   * 检查是否存在Netflix播放器
+   * 处理当前剧集的字幕轨道
    */
-  private hasNetflixPlayer(): boolean {
-    const hasVideo = document.querySelector('video') !== null
-    const hasNetflixElements =
-      document.querySelector('[class*="player"]') !== null ||
-      document.querySelector('[data-uia*="player"]') !== null ||
-      document.querySelector('.video-title') !== null
+  private flushPendingTimedText(): void {
+    const movieId = NetflixSubtitleSource.getMovieId()
+    if (!movieId || movieId === this.lastCapturedMovieId) return
 
-    return hasVideo && hasNetflixElements
+    const payload = this.pendingTimedText.get(movieId)
+    if (!payload) return
+
+    this.pendingTimedText.delete(movieId)
+    this.lastCapturedMovieId = movieId
+
+    try {
+      const track = this.buildSubtitleTrack(payload)
+      if (this.debugMode) {
+        console.log(
+          `[NetflixSubtitleSource] 捕获字幕轨道 ${track.id}: ${track.entries.length} 条 (${payload.format})`
+        )
+      }
+      this.trackCaptureHandler?.(track)
+    } catch (error) {
+      console.error('[NetflixSubtitleSource] 字幕轨道解析失败:', error)
+    }
+  }
+
+  private buildSubtitleTrack(payload: NetflixTimedTextPayload): SubtitleTrack {
+    if (!this.trackParser) {
+      this.trackParser = new CustomSRTSubtitleSource(this.debugMode)
+    }
+
+    // 解析器根据扩展名和内容判断格式
+    const extension = payload.format.startsWith('webvtt') ? '.vtt' : '.ttml'
+    this.capturedEntries = this.trackParser.parseSubtitleFile(
+      `${payload.movieId}${extension}`,
+      payload.content
+    )
+    const entries = this.capturedEntries.map(entry => ({
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      text: entry.text,
+    }))
+
+    return {
+      id: `netflix:${payload.movieId}:${payload.language}`,
+      platform: 'netflix',
+      mediaId: payload.movieId,
+      language: payload.language,
+      languageLabel: payload.languageLabel,
+      title: this.extractMediaInfo().fullTitle,
+      entries,
+      capturedAt: new Date().toISOString(),
+    }
   }
 
   // --- Start of integrated NetflixExtractor logic ---
@@ -218,8 +192,8 @@ export class NetflixSubtitleSource implements ISubtitleSource {
    * 提取Netflix页面的详细信息
    * @private
    */
-  private _extractNetflixInfo(): any {
-    const info: any = {
+  private _extractNetflixInfo(): SeriesInfo & { fullTitle: string } {
+    const info: SeriesInfo & { fullTitle: string } = {
       showTitle: 'Unknown',
       fullTitle: 'Unknown',
     }
@@ -235,7 +209,7 @@ export class NetflixSubtitleSource implements ISubtitleSource {
       info.seasonNumber = seasonNumber || undefined
       info.episodeNumber = episodeNumber || undefined
       info.episodeTitle = episodeTitle || undefined
-      info.fullTitle = this._buildFullTitle(info)
+      info.fullTitle = this.buildSeriesTitle(info)
 
       if (this.debugMode) {
         console.log('[NetflixSubtitleSource] Extracted Info:', info)
@@ -266,11 +240,7 @@ export class NetflixSubtitleSource implements ISubtitleSource {
       '.video-metadata .show-title',
       '.episode-metadata .show-title',
     ]
-    for (const selector of titleSelectors) {
-      const element = document.querySelector(selector)
-      if (element?.textContent?.trim()) return element.textContent.trim()
-    }
-    return null
+    return this.queryText(titleSelectors)
   }
 
   /**
@@ -345,56 +315,28 @@ export class NetflixSubtitleSource implements ISubtitleSource {
       '.episode-selector .selected .episode-title',
       '.episode-list .selected .title',
     ]
-    for (const selector of episodeTitleSelectors) {
-      const element = document.querySelector(selector)
-      if (element?.textContent?.trim()) return element.textContent.trim()
-    }
-    return null
-  }
-
-  /**
-   * @private
-   */
-  private _buildFullTitle(info: any): string {
-    let parts: string[] = []
-    if (info.showTitle && info.showTitle !== 'Unknown') parts.push(info.showTitle)
-    if (info.seasonNumber) parts.push(info.seasonNumber)
-    if (info.episodeNumber) parts.push(info.episodeNumber)
-    if (info.episodeTitle) parts.push(`"${info.episodeTitle}"`)
-    return parts.length > 0 ? parts.join(' ') : 'Unknown'
-  }
-
-  /**
-   * @private
-   */
-  private async _waitForNetflixPlayer(timeout: number = 10000): Promise<boolean> {
-    const startTime = Date.now()
-    while (Date.now() - startTime < timeout) {
-      if (this.hasNetflixPlayer()) {
-        if (this.debugMode) console.log('[NetflixSubtitleSource] Netflix player is ready.')
-        return true
-      }
-      await new Promise(resolve => setTimeout(resolve, 100))
-    }
-    if (this.debugMode) console.log('[NetflixSubtitleSource] Wait for Netflix player timed out.')
-    return false
+    return this.queryText(episodeTitleSelectors)
   }
 
   // --- End of integrated NetflixExtractor logic ---
 
   /**
-   * 获取当前视频元素
+   * 获取当前播放剧集的ID
    */
-  getVideoElement(): HTMLVideoElement | null {
-    return document.querySelector('video')
+  static getMovieId(): string | null {
+    return window.location.pathname.match(/\/watch\/(\d+)/)?.[1] || null
   }
 
   /**
-   * 获取视频时间戳
+   * 跳转到指定时间（秒），由页面脚本调用播放器 API 完成
    */
-  getCurrentTimestamp(): number {
-    const videoElement = this.getVideoElement()
-    return videoElement ? Math.floor(videoElement.currentTime) : 0
+  static seek(time: number): void {
+    const message: PageWorldMessage = {
+      source: CONTENT_SCRIPT_SOURCE,
+      type: 'SEEK_NETFLIX_PLAYER',
+      payload: { time },
+    }
+    window.postMessage(message, window.location.origin)
   }
 
   /**
@@ -0,0 +1,112 @@
+/**
+ * Amazon Prime Video字幕源实现
+ * 处理Prime Video网页播放器（primevideo.com 及亚马逊视频频道）的字幕提取和解析
+ */
+
+import type { MediaInfo, PageContext } from './types'
+import { DomSubtitleSource, type SeriesInfo } from './dom-subtitle-source'
+
+export class PrimeVideoSubtitleSource extends DomSubtitleSource {
+  readonly name = 'Prime Video Native'
+
+  protected readonly logPrefix = '[PrimeVideoSubtitleSource]'
+  protected readonly hostnames = ['primevideo.com']
+  protected readonly subtitleSelectors = ['.atvwebplayersdk-captions-text']
+  // 详情页可能还有预告片视频，只取播放器中的视频
+  protected readonly videoSelectors = [
+    '.webPlayerSDKContainer video',
+    '#dv-web-player video',
+    '.webPlayerContainer video',
+  ]
+  // Prime Video 在字幕变化时会替换整个字幕区域，因此观察其外层覆盖层
+  protected readonly observerRootSelector = '.atvwebplayersdk-captions-overlay'
+
+  extractMediaInfo(): MediaInfo {
+    try {
+      return this.toMediaInfo(this._extractPrimeInfo())
+    } catch (error) {
+      console.error('[PrimeVideoSubtitleSource] Failed to extract media info:', error)
+      return {
+        title: 'Unknown',
+        fullTitle: 'Unknown',
+      }
+    }
+  }
+
+  /**
+   * 检查是否存在Prime Video播放器
+   */
+  protected hasPlayer(): boolean {
+    return this.getVideoElement() !== null
+  }
+
+  protected matchesPage(context: PageContext): boolean {
+    return PrimeVideoSubtitleSource.isPrimeVideoHost(context)
+  }
+
+  /**
+   * 提取Prime Video页面的详细信息
+   * @private
+   */
+  private _extractPrimeInfo(): SeriesInfo {
+    const info: SeriesInfo = {
+      showTitle: 'Unknown',
+    }
+
+    try {
+      const documentTitle = document.title
+        .replace(/^(?:Prime Video|Amazon\.co\.jp)\s*[:：]\s*/i, '')
+        .replace(/\s*[-|]\s*Prime Video$/i, '')
+      const showTitle = this._extractShowTitle()
+      const subtitleText = this._extractSubtitleText()
+      const episodeInfo = subtitleText ? this.parseEpisodeInfo(subtitleText) : {}
+
+      info.showTitle = showTitle || documentTitle || 'Unknown'
+      info.seasonNumber = episodeInfo.seasonNumber
+      info.episodeNumber = episodeInfo.episodeNumber
+      info.episodeTitle = episodeInfo.episodeTitle
+
+      if (this.debugMode) {
+        console.log('[PrimeVideoSubtitleSource] Extracted Info:', info)
+      }
+    } catch (error) {
+      console.error('[PrimeVideoSubtitleSource] Failed to extract info:', error)
+      info.showTitle = document.title || 'Unknown'
+    }
+
+    return info
+  }
+
+  /**
+   * @private
+   */
+  private _extractShowTitle(): string | null {
+    const titleSelectors = [
+      '.atvwebplayersdk-title-text',
+      '[data-automation-id="title"]',
+      '.dv-node-dp-title',
+      'h1[data-automation-id="title"]',
+    ]
+    return this.queryText(titleSelectors)
+  }
+
+  /**
+   * 播放器副标题，例如 "シーズン1、エピソード3 旅立ち" 或 "Season 1, Ep. 3 The Journey"
+   * @private
+   */
+  private _extractSubtitleText(): string | null {
+    const element = document.querySelector('.atvwebplayersdk-subtitle-text')
+    return element?.textContent?.trim() || null
+  }
+
+  /**
+   * 检查是否为Prime Video页面（独立站点或亚马逊的视频频道）
+   */
+  static isPrimeVideoHost(context: Pick<PageContext, 'hostname' | 'pathname'>): boolean {
+    return (
+      context.hostname.includes('primevideo.com') ||
+      (/(^|\.)amazon\.(com|co\.jp)$/.test(context.hostname) &&
+        context.pathname.startsWith('/gp/video'))
+    )
+  }
+}
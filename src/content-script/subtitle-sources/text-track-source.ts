@@ -0,0 +1,299 @@
+/**
+ * HTML5 TextTrack字幕源实现
+ * 读取 <track> 元素或 MSE 注入的文本轨道，隐藏原生渲染并使用自定义覆盖层显示
+ */
+
+import type {
+  ISubtitleSource,
+  PageContext,
+  MediaInfo,
+  ParsedSubtitle,
+  SubtitleEntry,
+  SubtitleSourceCapabilities,
+} from './types'
+import { CustomSRTSubtitleSource } from './custom-srt-source'
+
+export class TextTrackSubtitleSource implements ISubtitleSource {
+  readonly name = 'HTML5 TextTrack'
+  readonly priority = 0.5 // 低于平台专用源，高于自定义字幕
+  readonly capabilities: SubtitleSourceCapabilities = {
+    supportsNativeSubtitles: true,
+    supportsCustomSubtitles: false,
+    requiresUserInput: false,
+  }
+
+  private targetVideo: HTMLVideoElement | null = null
+  private activeTrack: TextTrack | null = null
+  private originalMode: TextTrackMode | null = null
+  // 最近一次记录的各轨道模式，用于区分用户切换与本类自身修改模式触发的 change 事件
+  private knownModes = new Map<TextTrack, TextTrackMode>()
+  // 复用自定义字幕的覆盖层渲染（样式、定位、全屏处理）
+  private renderer: CustomSRTSubtitleSource
+  private observerCallback: ((containers: HTMLElement[]) => void) | null = null
+  private cueChangeHandler: (() => void) | null = null
+  private trackListChangeHandler: (() => void) | null = null
+  private trackModeChangeHandler: (() => void) | null = null
+  private debugMode: boolean
+  private isInitialized: boolean = false
+
+  constructor(debugMode: boolean = false) {
+    this.debugMode = debugMode
+    this.renderer = new CustomSRTSubtitleSource(debugMode)
+  }
+
+  canHandle(context: PageContext): boolean {
+    return (
+      context.hasVideo &&
+      context.videoElements.some(video => this.findSubtitleTrack(video) !== null)
+    )
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return
+
+    const video = Array.from(document.querySelectorAll('video')).find(
+      element => this.findSubtitleTrack(element) !== null
+    )
+    if (!video) {
+      throw new Error('未找到包含字幕轨道的视频')
+    }
+
+    this.targetVideo = video
+    this.renderer.setTargetVideo(video)
+    this.attachTrack(this.findSubtitleTrack(video)!)
+
+    // 用户通过原生菜单切换字幕轨道，或播放器通过 MSE 追加轨道时重新选择
+    this.trackListChangeHandler = () => this.handleTrackListChange()
+    this.trackModeChangeHandler = () => {
+      if (!this.hasExternalModeChange()) return
+      this.handleTrackListChange()
+    }
+    video.textTracks.addEventListener('change', this.trackModeChangeHandler)
+    video.textTracks.addEventListener('addtrack', this.trackListChangeHandler)
+
+    this.isInitialized = true
+
+    if (this.debugMode) {
+      console.log('[TextTrackSubtitleSource] 初始化完成:', {
+        label: this.activeTrack?.label,
+        language: this.activeTrack?.language,
+      })
+    }
+  }
+
+  isReady(): boolean {
+    return this.isInitialized && this.activeTrack !== null && this.targetVideo !== null
+  }
+
+  detectSubtitleContainers(): HTMLElement[] {
+    return this.renderer.detectSubtitleContainers()
+  }
+
+  parseSubtitleContent(container: HTMLElement): ParsedSubtitle {
+    return this.renderer.parseSubtitleContent(container)
+  }
+
+  extractMediaInfo(): MediaInfo {
+    const title = document.title || 'Unknown'
+    return {
+      title,
+      fullTitle: title,
+    }
+  }
+
+  setupObserver(callback: (containers: HTMLElement[]) => void): void {
+    this.observerCallback = callback
+    // 立即渲染当前正在显示的 cue
+    this.renderActiveCues()
+  }
+
+  cleanup(): void {
+    if (this.targetVideo && this.trackModeChangeHandler) {
+      this.targetVideo.textTracks.removeEventListener('change', this.trackModeChangeHandler)
+    }
+    if (this.targetVideo && this.trackListChangeHandler) {
+      this.targetVideo.textTracks.removeEventListener('addtrack', this.trackListChangeHandler)
+    }
+
+    // 恢复原生字幕显示状态
+    if (this.activeTrack && this.originalMode) {
+      this.activeTrack.mode = this.originalMode
+    }
+    this.detachTrack()
+    this.knownModes.clear()
+
+    this.renderer.cleanup()
+    this.trackListChangeHandler = null
+    this.trackModeChangeHandler = null
+    this.observerCallback = null
+    this.targetVideo = null
+    this.isInitialized = false
+
+    if (this.debugMode) {
+      console.log('[TextTrackSubtitleSource] 清理完成')
+    }
+  }
+
+  getVideoElement(): HTMLVideoElement | null {
+    return this.targetVideo
+  }
+
+  /**
+   * 当前轨道的全部 cue（MSE 注入的轨道可能只包含已缓冲部分）
+   */
+  getSubtitleEntries(): SubtitleEntry[] {
+    const cues = this.activeTrack?.cues
+    if (!cues) return []
+
+    return Array.from(cues)
+      .map(cue => this.buildEntry([cue]))
+      .filter((entry): entry is SubtitleEntry => entry !== null)
+      .map((entry, index) => ({ ...entry, index: index + 1 }))
+  }
+
+  /**
+   * 更新字幕样式（由弹窗的字幕样式设置触发）
+   */
+  updateStyles(styles: {
+    fontSize: number
+    verticalPosition: number
+    backgroundOpacity: number
+    timeOffset?: number
+  }): void {
+    this.renderer.updateStyles(styles)
+  }
+
+  /**
+   * 设置强制全屏模式
+   */
+  setForceFullscreenMode(enabled: boolean): void {
+    this.renderer.setForceFullscreenMode(enabled)
+  }
+
+  /**
+   * 选择字幕轨道：优先正在显示的轨道，其次日语轨道，最后第一个字幕轨道
+   */
+  private findSubtitleTrack(video: HTMLVideoElement): TextTrack | null {
+    const tracks = Array.from(video.textTracks).filter(
+      track => track.kind === 'subtitles' || track.kind === 'captions'
+    )
+    if (tracks.length === 0) return null
+
+    return (
+      tracks.find(track => track.mode === 'showing') ||
+      tracks.find(track => track.language.toLowerCase().startsWith('ja')) ||
+      tracks[0]
+    )
+  }
+
+  /**
+   * 监听轨道的 cue 变化，并隐藏浏览器原生渲染（hidden 模式下 cue 事件仍会触发）
+   */
+  private attachTrack(track: TextTrack): void {
+    this.detachTrack()
+
+    this.activeTrack = track
+    this.originalMode = track.mode
+    track.mode = 'hidden'
+    this.recordTrackModes()
+
+    this.cueChangeHandler = () => this.renderActiveCues()
+    track.addEventListener('cuechange', this.cueChangeHandler)
+  }
+
+  /**
+   * 停止监听当前轨道，不修改其模式（切换轨道时由调用方禁用，清理时由 cleanup 恢复）
+   */
+  private detachTrack(): void {
+    if (this.activeTrack && this.cueChangeHandler) {
+      this.activeTrack.removeEventListener('cuechange', this.cueChangeHandler)
+    }
+
+    this.activeTrack = null
+    this.originalMode = null
+    this.cueChangeHandler = null
+  }
+
+  private handleTrackListChange(): void {
+    if (!this.targetVideo) return
+
+    // 原生菜单选中其他轨道时会把它设为 showing
+    const candidate = this.findSubtitleTrack(this.targetVideo)
+    if (!candidate || candidate === this.activeTrack) {
+      this.recordTrackModes()
+      return
+    }
+    if (this.activeTrack && candidate.mode !== 'showing') {
+      this.recordTrackModes()
+      return
+    }
+
+    if (this.debugMode) {
+      console.log('[TextTrackSubtitleSource] 切换字幕轨道:', candidate.label || candidate.language)
+    }
+
+    // 旧轨道改为 disabled 而不是恢复为 showing，否则它会再次被选中，导致在两条轨道间来回切换；
+    // 新轨道由用户主动选择，清理时恢复为 showing
+    const previousTrack = this.activeTrack
+    this.detachTrack()
+    if (previousTrack) {
+      previousTrack.mode = 'disabled'
+    }
+    this.attachTrack(candidate)
+    this.renderActiveCues()
+  }
+
+  /**
+   * 记录当前所有轨道的模式
+   */
+  private recordTrackModes(): void {
+    this.knownModes.clear()
+    if (!this.targetVideo) return
+
+    for (const track of Array.from(this.targetVideo.textTracks)) {
+      this.knownModes.set(track, track.mode)
+    }
+  }
+
+  /**
+   * change 事件是异步派发的：若所有轨道的模式都与最近记录的一致，说明事件由本类自身修改模式引起
+   */
+  private hasExternalModeChange(): boolean {
+    if (!this.targetVideo) return false
+
+    return Array.from(this.targetVideo.textTracks).some(
+      track => this.knownModes.get(track) !== track.mode
+    )
+  }
+
+  /**
+   * 将当前激活的 cue 渲染到覆盖层并通知处理流程
+   */
+  private renderActiveCues(): void {
+    const cues = this.activeTrack?.activeCues
+    const entry = cues && cues.length > 0 ? this.buildEntry(Array.from(cues)) : null
+
+    this.renderer.displayEntry(entry)
+
+    if (entry && this.observerCallback) {
+      const containers = this.detectSubtitleContainers()
+      if (containers.length > 0) {
+        this.observerCallback(containers)
+      }
+    }
+  }
+
+  private buildEntry(cues: TextTrackCue[]): SubtitleEntry | null {
+    const texts = cues
+      .map(cue => this.renderer.convertVTTCueText((cue as VTTCue).text || ''))
+      .filter(text => text.length > 0)
+    if (texts.length === 0) return null
+
+    return {
+      index: 0,
+      startTime: Math.min(...cues.map(cue => cue.startTime)),
+      endTime: Math.max(...cues.map(cue => cue.endTime)),
+      text: texts.join('\n'),
+    }
+  }
+}
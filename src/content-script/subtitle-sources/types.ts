@@ -2,6 +2,8 @@
  * 字幕源核心接口和类型定义
  */
 
+import type { TextEncodingName } from '@/lib/encoding-detector';
+
 export interface PageContext {
   hostname: string;
   pathname: string;
@@ -16,6 +18,9 @@ export interface MediaInfo {
   seasonNumber?: string;
   episodeNumber?: string;
   episodeTitle?: string;
+  channelName?: string; // 频道名称（YouTube等视频网站）
+  platform?: string; // 视频所属平台（如 youtube），决定 videoId 的含义
+  videoId?: string; // 平台视频ID，用于生成带时间戳的链接
 }
 
 export interface ParsedSubtitle {
@@ -36,6 +41,24 @@ export interface SubtitleEntry {
   endTime: number;
   text: string;
   index: number;
+  style?: string; // ASS/SSA 样式名
+}
+
+/**
+ * 字幕文件加载选项
+ */
+export interface SubtitleLoadOptions {
+  dialogueStyles?: string[]; // ASS/SSA 中视为对白的样式，未指定时使用自动判断
+  encoding?: TextEncodingName; // 文件编码，未指定时自动检测
+}
+
+/**
+ * ASS/SSA 样式统计信息，用于让用户选择对白样式
+ */
+export interface ASSStyleInfo {
+  name: string;
+  lineCount: number;
+  isLikelyDialogue: boolean;
 }
 
 export interface SubtitleSourceCapabilities {
@@ -75,14 +98,26 @@ export interface ISubtitleSource {
   
   // 检查字幕源是否已就绪
   isReady(): boolean;
+
+  // 获取字幕对应的视频元素（页面存在多个视频时使用）
+  getVideoElement?(): HTMLVideoElement | null;
+
+  // 获取带时间轴的全部字幕条目（逐句学习控制使用，没有时间信息的字幕源不实现）
+  getSubtitleEntries?(): SubtitleEntry[];
+
+  // 字幕时间偏移（秒），字幕时间 = 视频时间 + 偏移
+  getTimeOffset?(): number;
+
+  // 跳转到指定视频时间（秒），平台不允许直接修改 currentTime 时实现
+  seekTo?(time: number): void;
 }
 
 /**
  * 自定义字幕源特有的接口
  */
 export interface ICustomSubtitleSource extends ISubtitleSource {
-  // 加载SRT文件
-  loadSRTFile(file: File): Promise<void>;
+  // 加载字幕文件（SRT/ASS/SSA）
+  loadSRTFile(file: File, options?: SubtitleLoadOptions): Promise<void>;
   
   // 设置目标视频元素
   setTargetVideo(video: HTMLVideoElement): void;
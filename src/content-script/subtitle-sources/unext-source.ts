@@ -0,0 +1,70 @@
+/**
+ * U-NEXT字幕源实现
+ * 处理U-NEXT网页播放器的字幕提取和解析
+ * U-NEXT使用带哈希后缀的CSS类名，因此按类名前缀匹配
+ */
+
+import type { MediaInfo } from './types'
+import { DomSubtitleSource, type SeriesInfo } from './dom-subtitle-source'
+
+export class UNextSubtitleSource extends DomSubtitleSource {
+  readonly name = 'U-NEXT Native'
+
+  protected readonly logPrefix = '[UNextSubtitleSource]'
+  protected readonly hostnames = ['unext.jp']
+  protected readonly subtitleSelectors = ['[class*="SubtitleText__"]', '[data-ucn="subtitle"]']
+  protected readonly videoSelectors = ['[class*="VideoPlayer__"] video', 'video']
+
+  extractMediaInfo(): MediaInfo {
+    try {
+      return this.toMediaInfo(this.extractUNextInfo())
+    } catch (error) {
+      console.error('[UNextSubtitleSource] Failed to extract media info:', error)
+      return {
+        title: 'Unknown',
+        fullTitle: 'Unknown',
+      }
+    }
+  }
+
+  /**
+   * 检查是否存在U-NEXT播放器
+   */
+  protected hasPlayer(): boolean {
+    return (
+      document.querySelector('[class*="VideoPlayer__"] video, #videoFullScreenWrapper') !== null
+    )
+  }
+
+  /**
+   * 播放器标题栏分为作品名与 "第3話 鉄骨娘" 形式的集信息，
+   * 缺失时从 "作品名 第3話 鉄骨娘 | アニメ | U-NEXT" 形式的页面标题中解析
+   */
+  private extractUNextInfo(): SeriesInfo {
+    const playerTitle = this.queryText(['[class*="TitleName__"]'])
+    const playerEpisode = this.queryText(['[class*="EpisodeName__"]'])
+
+    let showTitle = playerTitle
+    let episodeText = playerEpisode
+
+    if (!showTitle) {
+      const documentTitle = document.title.split(/\s*\|\s*/)[0].trim()
+      const episodeStart = documentTitle.search(/第\s*\d+\s*(?:期|話)|シーズン\s*\d+/)
+      showTitle = episodeStart > 0 ? documentTitle.slice(0, episodeStart).trim() : documentTitle
+      episodeText = episodeText || (episodeStart > 0 ? documentTitle.slice(episodeStart) : null)
+    }
+
+    const episodeInfo = episodeText ? this.parseEpisodeInfo(episodeText) : {}
+
+    const info: SeriesInfo = {
+      showTitle: showTitle || 'Unknown',
+      ...episodeInfo,
+    }
+
+    if (this.debugMode) {
+      console.log('[UNextSubtitleSource] Extracted Info:', info)
+    }
+
+    return info
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * YouTube字幕源实现
+ * 处理YouTube播放器内置字幕（自动生成字幕与手动上传字幕）
+ */
+
+import type { PageContext, MediaInfo } from './types'
+import { DomSubtitleSource } from './dom-subtitle-source'
+
+export class YouTubeSubtitleSource extends DomSubtitleSource {
+  readonly name = 'YouTube Captions'
+
+  protected readonly logPrefix = '[YouTubeSubtitleSource]'
+  protected readonly hostnames = ['youtube.com']
+  protected readonly subtitleSelectors = ['.ytp-caption-segment']
+  // 页面中可能还有首页预览等视频，只取主播放器
+  protected readonly videoSelectors = ['#movie_player video']
+  protected readonly observerRootSelector = '.ytp-caption-window-container'
+  // 自动生成字幕会在原有片段上逐词追加文本
+  protected readonly observeCharacterData = true
+
+  canHandle(context: PageContext): boolean {
+    // YouTube为单页应用，首页也存在预览视频，这里只判断站点，具体页面在isReady中检查
+    return this.matchesPage(context) && context.hasVideo
+  }
+
+  detectSubtitleContainers(): HTMLElement[] {
+    if (!YouTubeSubtitleSource.isWatchPage()) return []
+    return super.detectSubtitleContainers()
+  }
+
+  extractMediaInfo(): MediaInfo {
+    const title = this.extractVideoTitle() || 'Unknown'
+    const channelName = this.extractChannelName() || undefined
+    const videoId = YouTubeSubtitleSource.getVideoId() || undefined
+
+    const info: MediaInfo = {
+      title,
+      fullTitle: channelName ? `${title} (${channelName})` : title,
+      channelName,
+      platform: 'youtube',
+      videoId,
+    }
+
+    if (this.debugMode) {
+      console.log('[YouTubeSubtitleSource] 提取媒体信息:', info)
+    }
+
+    return info
+  }
+
+  /**
+   * 检查是否存在YouTube主播放器
+   */
+  protected hasPlayer(): boolean {
+    return this.getVideoElement() !== null
+  }
+
+  /**
+   * 同一字幕窗口中的多个片段（多行、逐词滚动的自动字幕）合并为一个容器
+   */
+  protected resolveContainer(element: HTMLElement): HTMLElement {
+    return element.closest<HTMLElement>('.captions-text') || element
+  }
+
+  private extractVideoTitle(): string | null {
+    const titleSelectors = [
+      'ytd-watch-metadata h1 yt-formatted-string',
+      'h1.ytd-watch-metadata',
+      '#title h1',
+      '.ytp-title-link',
+    ]
+    const title = this.queryText(titleSelectors)
+    if (title) return title
+
+    const documentTitle = document.title.replace(/^\(\d+\)\s*/, '').replace(/ - YouTube$/, '')
+    return documentTitle.trim() || null
+  }
+
+  private extractChannelName(): string | null {
+    const channelSelectors = [
+      'ytd-watch-metadata ytd-channel-name a',
+      '#owner #channel-name a',
+      'ytd-video-owner-renderer ytd-channel-name a',
+      '.ytp-ce-channel-title',
+    ]
+    return this.queryText(channelSelectors)
+  }
+
+  /**
+   * 获取当前视频ID
+   */
+  static getVideoId(): string | null {
+    if (!YouTubeSubtitleSource.isWatchPage()) return null
+    return new URLSearchParams(window.location.search).get('v')
+  }
+
+  /**
+   * 检查是否在YouTube观看页面
+   */
+  static isWatchPage(): boolean {
+    return window.location.hostname.includes('youtube.com') && window.location.pathname === '/watch'
+  }
+}
@@ -34,11 +34,51 @@ export class SubtitleTextParser {
     }
   }
 
+  /**
+   * 解析字幕文件中的 cue 文本（可能含 ruby、<i> 等标签与 HTML 实体）
+   * 使用 DOMParser 生成的惰性文档，避免字幕中的标签加载资源或执行事件
+   */
+  public parseMarkup(markup: string): ParsedSubtitleText {
+    const doc = new DOMParser().parseFromString(markup, 'text/html')
+
+    // 字幕文件中的 ruby 常省略 <rb> 或在一个 ruby 中包含多组注音，
+    // 拆成每组一个 <ruby><rb></rb><rt></rt></ruby> 后才能识别注音；<rp> 括号不属于字幕文本
+    doc.body.querySelectorAll('rp').forEach(rp => rp.remove())
+    doc.body.querySelectorAll('ruby').forEach(ruby => {
+      const groups: Node[] = []
+      let rb = doc.createElement('rb')
+
+      for (const child of Array.from(ruby.childNodes)) {
+        if (child.nodeName === 'RT') {
+          const group = doc.createElement('ruby')
+          group.append(rb, child)
+          groups.push(group)
+          rb = doc.createElement('rb')
+        } else if (child.nodeName === 'RB') {
+          rb.append(...Array.from(child.childNodes))
+        } else {
+          rb.appendChild(child)
+        }
+      }
+      // 末尾没有注音的文本原样保留
+      groups.push(...Array.from(rb.childNodes))
+
+      ruby.replaceWith(...groups)
+    })
+
+    return this.parse(doc.body)
+  }
+
   /**
    * Prepares the HTML for display.
    * Cleans up styles and classes but preserves all content, including highlights.
    */
   private prepareDisplayHTML(container: HTMLElement): string {
+    // 查词用的包裹元素不属于字幕内容
+    container.querySelectorAll('.im-word').forEach(word => {
+      word.replaceWith(document.createTextNode(word.textContent || ''))
+    })
+
     container.querySelectorAll('[style]').forEach(el => {
       if (!el.classList.contains('im-highlight')) {
         el.removeAttribute('style')
@@ -0,0 +1,24 @@
+/**
+ * ASS样式识别测试夹具
+ * 样式名与是否应被当作对白保留，由 custom-srt-source.test.ts 运行，
+ * 用于检查非对白样式的判定不会误伤普通对白
+ */
+
+export interface ASSStyleFixture {
+  style: string
+  isDialogue: boolean
+}
+
+export const ASS_STYLE_FIXTURES: ASSStyleFixture[] = [
+  { style: 'Top', isDialogue: true },
+  { style: 'Default - Top', isDialogue: true },
+  { style: 'Whispered', isDialogue: true },
+  { style: 'Subtitled', isDialogue: true },
+  { style: 'Flashback', isDialogue: true },
+  { style: 'Signs', isDialogue: false },
+  { style: 'OP', isDialogue: false },
+  { style: 'ED2', isDialogue: false },
+  { style: 'OP_Romaji', isDialogue: false },
+  { style: 'EpTitle', isDialogue: false },
+  { style: 'Karaoke', isDialogue: false },
+]
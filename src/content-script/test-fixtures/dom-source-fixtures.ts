@@ -0,0 +1,138 @@
+/**
+ * DOM字幕源测试夹具
+ * 按各平台字幕源所用选择器编写的播放器页面结构（仅保留字幕与标题相关部分），
+ * 由 dom-subtitle-source.test.ts 运行；更新选择器时请用实际保存的播放器页面替换对应HTML
+ */
+
+import type { MediaInfo, PageContext } from '../subtitle-sources/types'
+
+export type DomSourceKey = 'netflix' | 'prime-video' | 'crunchyroll' | 'disney-plus' | 'unext'
+
+export interface DomSourceFixture {
+  name: string
+  source: DomSourceKey
+  context: Pick<PageContext, 'hostname' | 'pathname'>
+  documentTitle: string
+  html: string
+  expected: {
+    subtitles: string[] // 每个字幕容器解析后的纯文本
+    mediaInfo: Partial<MediaInfo>
+  }
+}
+
+export const DOM_SOURCE_FIXTURES: DomSourceFixture[] = [
+  {
+    name: 'Netflix - 带注音的双行字幕',
+    source: 'netflix',
+    context: { hostname: 'www.netflix.com', pathname: '/watch/81234567' },
+    documentTitle: 'Netflix',
+    html: `
+      <div class="watch-video--player-view">
+        <div data-uia="video-canvas"><video src=""></video></div>
+        <div class="player-timedtext">
+          <div class="player-timedtext-text-container" style="display: block;"><span style="font-size: 28px;"><ruby><rb>呪</rb><rt>じゅ</rt></ruby>いの<ruby><rb>王</rb><rt>おう</rt></ruby>だ</span><br><span style="font-size: 28px;">気をつけろ</span></div>
+        </div>
+        <div data-uia="video-title"><h4 class="ellipsize-text">呪術廻戦</h4><span>第1話</span><span>両面宿儺</span></div>
+      </div>`,
+    expected: {
+      subtitles: ['呪いの王だ気をつけろ'],
+      mediaInfo: { showTitle: '呪術廻戦' },
+    },
+  },
+  {
+    name: 'Prime Video - 季数与集数',
+    source: 'prime-video',
+    context: { hostname: 'www.primevideo.com', pathname: '/detail/0ABCDEF/' },
+    documentTitle: 'Prime Video: 葬送のフリーレン',
+    html: `
+      <div id="dv-web-player">
+        <div class="webPlayerSDKContainer">
+          <div class="rendererContainer"><video src=""></video></div>
+          <div class="atvwebplayersdk-captions-overlay">
+            <div><div><span class="atvwebplayersdk-captions-text">魔王を倒した勇者一行の</span></div></div>
+            <div><div><span class="atvwebplayersdk-captions-text">その後の物語</span></div></div>
+          </div>
+          <div class="atvwebplayersdk-title-text">葬送のフリーレン</div>
+          <div class="atvwebplayersdk-subtitle-text">シーズン1、エピソード3 人を殺す魔法</div>
+        </div>
+      </div>`,
+    expected: {
+      subtitles: ['魔王を倒した勇者一行の', 'その後の物語'],
+      mediaInfo: {
+        showTitle: '葬送のフリーレン',
+        seasonNumber: 'シーズン1',
+        episodeNumber: 'エピソード3',
+        episodeTitle: '人を殺す魔法',
+      },
+    },
+  },
+  {
+    name: 'Crunchyroll - 剧集标题',
+    source: 'crunchyroll',
+    context: { hostname: 'www.crunchyroll.com', pathname: '/watch/GY8VEQ95Y/the-journeys-end' },
+    documentTitle: 'Watch Frieren: Beyond Journey’s End - Crunchyroll',
+    html: `
+      <div id="vilos">
+        <video id="player0" src=""></video>
+        <div data-testid="vilos-subtitles"><div class="vilos-subtitles-text">もう一度<br>旅に出よう</div></div>
+      </div>
+      <div class="erc-current-media-info">
+        <a class="show-title-link" href="/series/GG5H5XQX4/frieren"><h4>葬送のフリーレン</h4></a>
+        <h1 class="title">E1 - 冒険の終わり</h1>
+      </div>`,
+    expected: {
+      subtitles: ['もう一度旅に出よう'],
+      mediaInfo: {
+        showTitle: '葬送のフリーレン',
+        episodeNumber: 'E1',
+        episodeTitle: '冒険の終わり',
+      },
+    },
+  },
+  {
+    name: 'Disney+ - 多行cue窗口',
+    source: 'disney-plus',
+    context: { hostname: 'www.disneyplus.com', pathname: '/ja-jp/play/1a2b3c4d' },
+    documentTitle: 'Disney+ | ディズニープラス',
+    html: `
+      <div class="btm-media-player">
+        <div class="btm-media-client"><video class="btm-media-client-element" src=""></video></div>
+        <div class="dss-subtitle-renderer-wrapper">
+          <div class="dss-subtitle-renderer-cue-window"><div class="dss-subtitle-renderer-line"><span class="dss-subtitle-renderer-cue">何があっても</span></div><div class="dss-subtitle-renderer-line"><span class="dss-subtitle-renderer-cue">君を守る</span></div></div>
+        </div>
+        <div class="controls__header">
+          <div class="title-field">SHOGUN 将軍</div>
+          <div class="subtitle-field">S1:E2 二人の主</div>
+        </div>
+      </div>`,
+    expected: {
+      subtitles: ['何があっても君を守る'],
+      mediaInfo: {
+        showTitle: 'SHOGUN 将軍',
+        seasonNumber: 'S1',
+        episodeNumber: 'E2',
+        episodeTitle: '二人の主',
+      },
+    },
+  },
+  {
+    name: 'U-NEXT - 从页面标题解析集信息',
+    source: 'unext',
+    context: { hostname: 'video.unext.jp', pathname: '/play/SID0012345/ED00123456' },
+    documentTitle: '薬屋のひとりごと 第2期 第5話 壬氏と猫 | アニメ | U-NEXT',
+    html: `
+      <div class="VideoPlayer__Container-sc-1x2y3z">
+        <video src=""></video>
+        <div class="SubtitleText__Wrapper-sc-9f8e7d"><span>毒見役なら</span><span>お任せください</span></div>
+      </div>`,
+    expected: {
+      subtitles: ['毒見役ならお任せください'],
+      mediaInfo: {
+        showTitle: '薬屋のひとりごと',
+        seasonNumber: '第2期',
+        episodeNumber: '第5話',
+        episodeTitle: '壬氏と猫',
+      },
+    },
+  },
+]
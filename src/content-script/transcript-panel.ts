@@ -0,0 +1,359 @@
+/**
+ * 字幕全文面板
+ * 在视频旁显示整集字幕，随播放自动滚动，标记目标词汇，点击字幕行跳转到对应时间
+ */
+
+import type { SubtitleTrackEntry } from '@/types'
+import { t } from '@/lib/i18n'
+
+export interface TranscriptPanelOptions {
+  entries: SubtitleTrackEntry[]
+  video: HTMLVideoElement
+  title?: string
+  // 字幕时间偏移（秒），与 CustomSRTSubtitleSource 的 timeOffset 含义一致
+  getTimeOffset?: () => number
+  // 跳转到指定视频时间（秒），默认直接设置 video.currentTime
+  seek?: (time: number) => void
+  // 标记一行字幕中的目标词汇
+  highlightLine?: (line: HTMLElement) => Promise<unknown>
+}
+
+const PANEL_WIDTH = 320
+
+export class TranscriptPanel {
+  private options: TranscriptPanelOptions
+  private debugMode: boolean
+  private panel: HTMLElement | null = null
+  private list: HTMLElement | null = null
+  private lines: HTMLElement[] = []
+  private activeIndex: number = -1
+  private isCollapsed: boolean = false
+  // 用户手动滚动后暂停自动滚动，直到下一次点击或一段时间后恢复
+  private autoScrollPausedUntil: number = 0
+  // 递增以取消进行中的高亮任务
+  private highlightGeneration: number = 0
+  private timeUpdateHandler: (() => void) | null = null
+  private fullscreenHandler: (() => void) | null = null
+  private resizeHandler: (() => void) | null = null
+
+  constructor(options: TranscriptPanelOptions, debugMode: boolean = false) {
+    this.options = options
+    this.debugMode = debugMode
+  }
+
+  /**
+   * 创建面板并开始同步
+   */
+  mount(): void {
+    if (this.panel) return
+
+    this.panel = this.createPanel()
+    this.list = this.panel.querySelector('.im-transcript-list') as HTMLElement
+    this.renderLines()
+    this.attachToPage()
+    this.position()
+
+    this.timeUpdateHandler = () => this.sync()
+    this.options.video.addEventListener('timeupdate', this.timeUpdateHandler)
+    this.options.video.addEventListener('seeked', this.timeUpdateHandler)
+
+    // 全屏时只有全屏元素内的内容可见，需要把面板移入其中
+    this.fullscreenHandler = () => {
+      this.attachToPage()
+      this.position()
+    }
+    document.addEventListener('fullscreenchange', this.fullscreenHandler)
+
+    this.resizeHandler = () => this.position()
+    window.addEventListener('resize', this.resizeHandler)
+
+    this.sync()
+    void this.highlightLines()
+
+    if (this.debugMode) {
+      console.log(`[TranscriptPanel] 已显示字幕全文，共 ${this.lines.length} 行`)
+    }
+  }
+
+  destroy(): void {
+    this.highlightGeneration++
+
+    if (this.timeUpdateHandler) {
+      this.options.video.removeEventListener('timeupdate', this.timeUpdateHandler)
+      this.options.video.removeEventListener('seeked', this.timeUpdateHandler)
+      this.timeUpdateHandler = null
+    }
+    if (this.fullscreenHandler) {
+      document.removeEventListener('fullscreenchange', this.fullscreenHandler)
+      this.fullscreenHandler = null
+    }
+    if (this.resizeHandler) {
+      window.removeEventListener('resize', this.resizeHandler)
+      this.resizeHandler = null
+    }
+
+    this.panel?.remove()
+    this.panel = null
+    this.list = null
+    this.lines = []
+    this.activeIndex = -1
+  }
+
+  /**
+   * 移除已学会词汇的标记
+   */
+  pruneHighlights(learnedWords: Set<string>): void {
+    this.panel?.querySelectorAll<HTMLElement>('.im-transcript-target').forEach(mark => {
+      if (mark.dataset.lemma && learnedWords.has(mark.dataset.lemma)) {
+        mark.replaceWith(...Array.from(mark.childNodes))
+      }
+    })
+  }
+
+  /**
+   * 词库变化后重新标记所有字幕行
+   */
+  refreshHighlights(): void {
+    if (!this.panel) return
+    this.renderLines()
+    this.sync(true)
+    void this.highlightLines()
+  }
+
+  private createPanel(): HTMLElement {
+    const panel = document.createElement('div')
+    panel.className = 'im-transcript-panel'
+    panel.style.cssText = `
+      position: fixed;
+      width: ${PANEL_WIDTH}px;
+      display: flex;
+      flex-direction: column;
+      background: rgba(17, 24, 39, 0.92);
+      color: #f9fafb;
+      border-radius: 12px;
+      box-shadow: 0 10px 25px rgba(0, 0, 0, 0.4);
+      z-index: 2147483646;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+      overflow: hidden;
+    `
+
+    panel.innerHTML = `
+      <div class="im-transcript-header" style="
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 10px 12px;
+        border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+        cursor: pointer;
+        user-select: none;
+      ">
+        <span style="flex: 1; font-size: 14px; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;"></span>
+        <button class="im-transcript-toggle" title="${t('transcript.collapse')}" style="
+          background: rgba(255, 255, 255, 0.1);
+          border: none;
+          border-radius: 6px;
+          color: #f9fafb;
+          width: 28px;
+          height: 28px;
+          cursor: pointer;
+        ">−</button>
+      </div>
+      <div class="im-transcript-list" style="overflow-y: auto; padding: 6px 0; overscroll-behavior: contain;"></div>
+    `
+
+    const titleElement = panel.querySelector('.im-transcript-header span') as HTMLElement
+    titleElement.textContent = this.options.title
+      ? t('transcript.titleWithName', { title: this.options.title })
+      : t('transcript.title')
+
+    const header = panel.querySelector('.im-transcript-header') as HTMLElement
+    header.addEventListener('click', () => this.setCollapsed(!this.isCollapsed))
+
+    const list = panel.querySelector('.im-transcript-list') as HTMLElement
+    list.addEventListener('click', event => {
+      const line = (event.target as HTMLElement).closest<HTMLElement>('.im-transcript-line')
+      if (line?.dataset.index) {
+        this.seekToLine(parseInt(line.dataset.index))
+      }
+    })
+    list.addEventListener('wheel', () => {
+      this.autoScrollPausedUntil = Date.now() + 5000
+    })
+
+    // 面板内的按键和点击不应触发播放器快捷键（例如空格暂停）
+    panel.addEventListener('keydown', event => event.stopPropagation())
+
+    if (!document.head.querySelector('#im-transcript-styles')) {
+      const style = document.createElement('style')
+      style.id = 'im-transcript-styles'
+      style.textContent = `
+        .im-transcript-line { padding: 6px 14px; font-size: 15px; line-height: 1.6; cursor: pointer; opacity: 0.65; border-left: 3px solid transparent; }
+        .im-transcript-line:hover { background: rgba(255, 255, 255, 0.08); opacity: 1; }
+        .im-transcript-line.im-transcript-active { opacity: 1; background: rgba(255, 152, 0, 0.15); border-left-color: #ff9800; }
+        .im-transcript-time { display: block; font-size: 11px; color: #9ca3af; }
+        .im-transcript-target { background: transparent; color: #ffb74d; font-weight: 600; border-bottom: 2px solid #ff9800; }
+        .im-transcript-line rt { font-size: 0.6em; }
+      `
+      document.head.appendChild(style)
+    }
+
+    return panel
+  }
+
+  private renderLines(): void {
+    if (!this.list) return
+
+    this.highlightGeneration++
+    this.list.innerHTML = ''
+    this.lines = this.options.entries.map((entry, index) => {
+      const line = document.createElement('div')
+      line.className = 'im-transcript-line'
+      line.dataset.index = String(index)
+
+      const time = document.createElement('span')
+      time.className = 'im-transcript-time'
+      time.textContent = this.formatTime(entry.startTime)
+
+      const text = document.createElement('div')
+      text.className = 'im-transcript-text'
+      text.innerHTML = entry.text.replace(/\n/g, '<br>')
+
+      line.append(time, text)
+      return line
+    })
+    this.list.append(...this.lines)
+    this.activeIndex = -1
+  }
+
+  /**
+   * 逐行标记目标词汇，优先处理当前播放位置附近的字幕
+   */
+  private async highlightLines(): Promise<void> {
+    const highlightLine = this.options.highlightLine
+    if (!highlightLine) return
+
+    const generation = this.highlightGeneration
+    const start = Math.max(0, this.activeIndex)
+    const order = [...this.lines.slice(start), ...this.lines.slice(0, start)]
+
+    for (const line of order) {
+      if (generation !== this.highlightGeneration) return
+
+      const text = line.querySelector('.im-transcript-text') as HTMLElement | null
+      if (text) await highlightLine(text)
+    }
+  }
+
+  private sync(forceScroll: boolean = false): void {
+    if (this.lines.length === 0) return
+
+    const offset = this.options.getTimeOffset?.() || 0
+    const currentTime = this.options.video.currentTime + offset
+    const index = this.findLineIndex(currentTime)
+    if (index === this.activeIndex && !forceScroll) return
+
+    this.lines[this.activeIndex]?.classList.remove('im-transcript-active')
+    this.activeIndex = index
+
+    const activeLine = this.lines[index]
+    if (!activeLine) return
+    activeLine.classList.add('im-transcript-active')
+
+    if (!this.isCollapsed && this.list && Date.now() >= this.autoScrollPausedUntil) {
+      // 当前行保持在列表上方三分之一处，方便回看前几句
+      this.list.scrollTop = activeLine.offsetTop - this.list.clientHeight / 3
+    }
+  }
+
+  /**
+   * 找到已开始的最后一行字幕（两句之间的空档仍高亮上一句）
+   */
+  private findLineIndex(time: number): number {
+    const entries = this.options.entries
+    let low = 0
+    let high = entries.length - 1
+    let result = -1
+
+    while (low <= high) {
+      const mid = (low + high) >> 1
+      if (entries[mid].startTime <= time) {
+        result = mid
+        low = mid + 1
+      } else {
+        high = mid - 1
+      }
+    }
+    return result
+  }
+
+  private seekToLine(index: number): void {
+    const entry = this.options.entries[index]
+    if (!entry) return
+
+    const offset = this.options.getTimeOffset?.() || 0
+    const time = Math.max(0, entry.startTime - offset)
+    if (this.options.seek) {
+      this.options.seek(time)
+    } else {
+      this.options.video.currentTime = time
+    }
+
+    this.autoScrollPausedUntil = 0
+    if (this.debugMode) {
+      console.log(`[TranscriptPanel] 跳转到第 ${index + 1} 行: ${time.toFixed(2)}s`)
+    }
+  }
+
+  private setCollapsed(collapsed: boolean): void {
+    if (!this.panel || !this.list) return
+
+    this.isCollapsed = collapsed
+    this.list.style.display = collapsed ? 'none' : 'block'
+
+    const toggle = this.panel.querySelector('.im-transcript-toggle') as HTMLButtonElement
+    toggle.textContent = collapsed ? '+' : '−'
+    toggle.title = collapsed ? t('transcript.expand') : t('transcript.collapse')
+
+    if (!collapsed) this.sync(true)
+  }
+
+  private attachToPage(): void {
+    if (!this.panel) return
+
+    // 全屏元素为 video 本身时无法插入子元素，此时只能留在 body 中
+    const fullscreenElement = document.fullscreenElement
+    const container =
+      fullscreenElement && !(fullscreenElement instanceof HTMLVideoElement)
+        ? fullscreenElement
+        : document.body
+    if (this.panel.parentElement !== container) {
+      container.appendChild(this.panel)
+    }
+  }
+
+  /**
+   * 停靠在视频右侧内边缘，高度不超过视频
+   */
+  private position(): void {
+    if (!this.panel || !this.list) return
+
+    const rect = this.options.video.getBoundingClientRect()
+    const videoVisible = rect.width > 0 && rect.height > 0
+    const top = videoVisible ? Math.max(10, rect.top + 10) : 10
+    const right = videoVisible ? Math.max(10, window.innerWidth - rect.right + 10) : 10
+    const availableHeight = (videoVisible ? rect.bottom : window.innerHeight) - top - 80
+
+    this.panel.style.top = `${top}px`
+    this.panel.style.right = `${right}px`
+    this.list.style.maxHeight = `${Math.max(160, availableHeight)}px`
+  }
+
+  private formatTime(seconds: number): string {
+    const total = Math.floor(seconds)
+    const hours = Math.floor(total / 3600)
+    const minutes = Math.floor((total % 3600) / 60)
+    const secs = total % 60
+    const pad = (value: number) => value.toString().padStart(2, '0')
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * 字幕查词弹窗
+ * 悬停或点击字幕中的词汇时显示原形、读音、释义、音调、词性、JLPT 等级与是否已保存，
+ * 并可直接保存为卡片或标记为已掌握；导入了离线词典时补充词典释义
+ */
+
+import type { DefinitionLanguage, DictionaryEntry, VocabEntry, Word } from '@/types'
+import { getLevelColor } from '@/lib/highlight-settings'
+import { formatDictionaryGlosses, getDictionaryReading } from '@/lib/dictionary/common'
+import { t } from '@/lib/i18n'
+import { selectDefinition } from '@/lib/definition-settings'
+
+export interface WordPopupContent {
+  word: Word
+  element: HTMLElement
+  entry: VocabEntry | null
+  isSaved: boolean
+  isKnown: boolean
+}
+
+export interface WordPopupOptions {
+  // 保存词汇，与捕获快捷键走同一流程，返回是否保存成功
+  onSave: (word: Word, element: HTMLElement) => Promise<boolean>
+  // 标记为已掌握，返回是否成功
+  onMarkKnown: (word: Word) => Promise<boolean>
+  // 在离线词典中查找词汇，未找到时返回 null
+  lookupDictionary: (word: Word) => Promise<DictionaryEntry | null>
+  // 偏好的释义语言，词库与词典释义语言不同时优先显示该语言的释义
+  getDefinitionLanguage: () => DefinitionLanguage
+}
+
+// 悬停多久后显示，避免鼠标划过字幕时频繁弹出
+const SHOW_DELAY = 250
+// 离开词汇后延迟关闭，留出移动到弹窗上的时间
+const HIDE_DELAY = 300
+// 弹窗中最多显示的词典义项数
+const MAX_DICTIONARY_SENSES = 3
+
+export class WordPopup {
+  private options: WordPopupOptions
+  private debugMode: boolean
+  private popup: HTMLElement | null = null
+  private anchor: HTMLElement | null = null
+  // 点击打开的弹窗不会因鼠标离开而关闭
+  private isPinned: boolean = false
+  private showTimer: number | null = null
+  private hideTimer: number | null = null
+  private outsideClickHandler: ((e: MouseEvent) => void) | null = null
+
+  constructor(options: WordPopupOptions, debugMode: boolean = false) {
+    this.options = options
+    this.debugMode = debugMode
+  }
+
+  /**
+   * 鼠标悬停在词汇上时调用
+   */
+  hover(getContent: () => WordPopupContent): void {
+    this.cancelHide()
+    if (this.isPinned) return
+
+    this.cancelShow()
+    this.showTimer = window.setTimeout(() => {
+      this.showTimer = null
+      this.show(getContent(), false)
+    }, SHOW_DELAY)
+  }
+
+  /**
+   * 鼠标离开词汇时调用
+   */
+  leave(): void {
+    this.cancelShow()
+    if (!this.isPinned) this.scheduleHide()
+  }
+
+  /**
+   * 点击词汇时立即显示并固定弹窗
+   */
+  pin(content: WordPopupContent): void {
+    this.cancelShow()
+    this.cancelHide()
+    this.show(content, true)
+  }
+
+  hide(): void {
+    this.cancelShow()
+    this.cancelHide()
+
+    if (this.outsideClickHandler) {
+      window.removeEventListener('mousedown', this.outsideClickHandler, true)
+      this.outsideClickHandler = null
+    }
+
+    this.popup?.remove()
+    this.popup = null
+    this.anchor = null
+    this.isPinned = false
+  }
+
+  private show(content: WordPopupContent, pinned: boolean): void {
+    // 同一个词汇的弹窗已经打开时只更新固定状态
+    if (this.popup && this.anchor === content.element) {
+      this.isPinned = this.isPinned || pinned
+      return
+    }
+    if (!content.element.isConnected) return
+
+    this.hide()
+    this.anchor = content.element
+    this.isPinned = pinned
+    this.popup = this.createPopup(content)
+    this.attachToPage()
+    this.position()
+    this.loadDictionaryEntry(this.popup, content)
+
+    this.outsideClickHandler = (e: MouseEvent) => {
+      const target = e.target as Node
+      if (!this.popup?.contains(target) && !this.anchor?.contains(target)) {
+        this.hide()
+      }
+    }
+    window.addEventListener('mousedown', this.outsideClickHandler, true)
+
+    if (this.debugMode) {
+      console.log(`[WordPopup] 显示词汇: ${content.word.lemma}`)
+    }
+  }
+
+  private createPopup(content: WordPopupContent): HTMLElement {
+    const { word, entry, isSaved, isKnown } = content
+    const popup = document.createElement('div')
+    popup.className = 'im-word-popup'
+    popup.style.cssText = `
+      position: fixed;
+      width: 280px;
+      max-width: calc(100vw - 20px);
+      padding: 14px 16px;
+      background: rgba(17, 24, 39, 0.96);
+      color: #f9fafb;
+      border-radius: 12px;
+      box-shadow: 0 10px 25px rgba(0, 0, 0, 0.4);
+      z-index: 2147483647;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+      font-size: 14px;
+      line-height: 1.5;
+      text-align: left;
+      pointer-events: auto;
+    `
+
+    const reading = entry?.VocabFurigana || word.extra.reading
+    const level = entry?.Level
+    const levelColor = getLevelColor(level)
+
+    popup.innerHTML = `
+      <div style="display: flex; align-items: baseline; gap: 8px; flex-wrap: wrap;">
+        <span class="im-word-popup-lemma" style="font-size: 22px; font-weight: 700;"></span>
+        <span class="im-word-popup-reading" style="color: #d1d5db;"></span>
+        <span class="im-word-popup-pitch" style="color: #9ca3af; font-size: 12px;"></span>
+      </div>
+      <div style="display: flex; align-items: center; gap: 6px; margin-top: 6px; flex-wrap: wrap; font-size: 12px;">
+        <span class="im-word-popup-level" style="
+          display: ${level ? 'inline-block' : 'none'};
+          padding: 1px 6px;
+          border-radius: 4px;
+          background: ${levelColor};
+          color: #000;
+          font-weight: 600;
+        "></span>
+        <span class="im-word-popup-pos" style="color: #9ca3af;"></span>
+        <span class="im-word-popup-surface" style="color: #9ca3af;"></span>
+      </div>
+      <div class="im-word-popup-definition" style="margin-top: 8px; white-space: pre-wrap;"></div>
+      <div class="im-word-popup-glosses" style="
+        display: none;
+        margin-top: 6px;
+        color: #d1d5db;
+        font-size: 13px;
+        white-space: pre-wrap;
+      "></div>
+      <div style="display: flex; gap: 8px; margin-top: 12px;">
+        <button class="im-word-popup-save" style="
+          flex: 1;
+          padding: 6px 0;
+          border: none;
+          border-radius: 6px;
+          font-size: 13px;
+          font-weight: 600;
+          cursor: pointer;
+        "></button>
+        <button class="im-word-popup-known" style="
+          flex: 1;
+          padding: 6px 0;
+          border: 1px solid rgba(255, 255, 255, 0.2);
+          border-radius: 6px;
+          background: transparent;
+          font-size: 13px;
+          cursor: pointer;
+        "></button>
+      </div>
+    `
+
+    const setText = (selector: string, text: string) => {
+      const element = popup.querySelector(selector) as HTMLElement
+      element.textContent = text
+    }
+    setText('.im-word-popup-lemma', word.lemma)
+    setText('.im-word-popup-reading', reading && reading !== word.lemma ? reading : '')
+    setText('.im-word-popup-pitch', entry?.VocabPitch ? `[${entry.VocabPitch}]` : '')
+    setText('.im-word-popup-level', level || '')
+    setText('.im-word-popup-pos', entry?.VocabPoS || word.part_of_speech)
+    setText(
+      '.im-word-popup-surface',
+      word.word !== word.lemma ? t('wordPopup.surface', { word: word.word }) : ''
+    )
+    setText('.im-word-popup-definition', entry?.VocabDefCN || t('wordPopup.noDefinition'))
+
+    const definition = popup.querySelector('.im-word-popup-definition') as HTMLElement
+    if (!entry?.VocabDefCN) definition.style.color = '#9ca3af'
+
+    const saveButton = popup.querySelector('.im-word-popup-save') as HTMLButtonElement
+    this.setSaveButtonState(saveButton, isSaved ? 'saved' : 'ready')
+    saveButton.addEventListener('click', async event => {
+      event.stopPropagation()
+      if (saveButton.disabled) return
+
+      this.setSaveButtonState(saveButton, 'saving')
+      const saved = await this.options.onSave(word, content.element)
+      this.setSaveButtonState(saveButton, saved ? 'saved' : 'ready')
+    })
+
+    const knownButton = popup.querySelector('.im-word-popup-known') as HTMLButtonElement
+    this.setKnownButtonState(knownButton, isKnown ? 'known' : 'ready')
+    knownButton.addEventListener('click', async event => {
+      event.stopPropagation()
+      if (knownButton.disabled) return
+
+      this.setKnownButtonState(knownButton, 'saving')
+      const marked = await this.options.onMarkKnown(word)
+      this.setKnownButtonState(knownButton, marked ? 'known' : 'ready')
+    })
+
+    // 弹窗内的操作不应触发播放器（例如点击暂停、快捷键）
+    popup.addEventListener('click', event => event.stopPropagation())
+    popup.addEventListener('keydown', event => event.stopPropagation())
+    popup.addEventListener('mouseenter', () => this.cancelHide())
+    popup.addEventListener('mouseleave', () => {
+      if (!this.isPinned) this.scheduleHide()
+    })
+
+    return popup
+  }
+
+  /**
+   * 异步补充离线词典释义：词库中没有的词汇用词典的读音、词性与释义，
+   * 词库中已有释义时在下方附加词典释义；只有词典释义是偏好语言时两者互换位置
+   */
+  private async loadDictionaryEntry(popup: HTMLElement, content: WordPopupContent): Promise<void> {
+    const dictionaryEntry = await this.options.lookupDictionary(content.word)
+    // 查询期间弹窗可能已关闭或切换到其他词汇
+    if (!dictionaryEntry || this.popup !== popup) return
+
+    const glosses = formatDictionaryGlosses(dictionaryEntry, MAX_DICTIONARY_SENSES)
+    const { word, entry } = content
+
+    if (entry?.VocabDefCN) {
+      const preferGlosses =
+        selectDefinition([entry.VocabDefCN, glosses], this.options.getDefinitionLanguage()) ===
+        glosses
+      const definition = popup.querySelector('.im-word-popup-definition') as HTMLElement
+      definition.textContent = preferGlosses ? glosses : entry.VocabDefCN
+
+      const glossesElement = popup.querySelector('.im-word-popup-glosses') as HTMLElement
+      glossesElement.textContent = preferGlosses ? entry.VocabDefCN : glosses
+      glossesElement.style.display = 'block'
+    } else {
+      const reading =
+        entry?.VocabFurigana || getDictionaryReading(dictionaryEntry, word.extra.reading)
+      const readingElement = popup.querySelector('.im-word-popup-reading') as HTMLElement
+      readingElement.textContent = reading && reading !== word.lemma ? reading : ''
+
+      const partOfSpeech = dictionaryEntry.senses[0].partOfSpeech.join(', ')
+      if (!entry?.VocabPoS && partOfSpeech) {
+        const posElement = popup.querySelector('.im-word-popup-pos') as HTMLElement
+        posElement.textContent = partOfSpeech
+      }
+
+      const definition = popup.querySelector('.im-word-popup-definition') as HTMLElement
+      definition.textContent = glosses
+      definition.style.color = ''
+    }
+
+    // 内容变长后重新计算位置，避免超出屏幕
+    this.position()
+
+    if (this.debugMode) {
+      console.log(`[WordPopup] 词典释义: ${word.lemma} (${dictionaryEntry.dictionaryId})`)
+    }
+  }
+
+  private setSaveButtonState(button: HTMLButtonElement, state: 'ready' | 'saving' | 'saved'): void {
+    button.disabled = state !== 'ready'
+    button.textContent =
+      state === 'saved'
+        ? t('wordPopup.saved')
+        : state === 'saving'
+          ? t('wordPopup.saving')
+          : t('wordPopup.save')
+    button.style.background = state === 'saved' ? 'rgba(255, 255, 255, 0.1)' : '#ff9800'
+    button.style.color = state === 'saved' ? '#9ca3af' : '#000'
+    button.style.cursor = state === 'ready' ? 'pointer' : 'default'
+  }
+
+  private setKnownButtonState(
+    button: HTMLButtonElement,
+    state: 'ready' | 'saving' | 'known'
+  ): void {
+    button.disabled = state !== 'ready'
+    button.textContent =
+      state === 'known'
+        ? t('wordPopup.known')
+        : state === 'saving'
+          ? t('wordPopup.marking')
+          : t('wordPopup.markKnown')
+    button.style.color = state === 'ready' ? '#f9fafb' : '#9ca3af'
+    button.style.cursor = state === 'ready' ? 'pointer' : 'default'
+  }
+
+  private attachToPage(): void {
+    if (!this.popup) return
+
+    // 全屏时只有全屏元素内的内容可见
+    const fullscreenElement = document.fullscreenElement
+    const container =
+      fullscreenElement && !(fullscreenElement instanceof HTMLVideoElement)
+        ? fullscreenElement
+        : document.body
+    container.appendChild(this.popup)
+  }
+
+  /**
+   * 显示在词汇上方，空间不足时显示在下方
+   */
+  private position(): void {
+    if (!this.popup || !this.anchor) return
+
+    const anchorRect = this.anchor.getBoundingClientRect()
+    const popupRect = this.popup.getBoundingClientRect()
+    const margin = 10
+
+    const left = Math.min(
+      Math.max(margin, anchorRect.left + anchorRect.width / 2 - popupRect.width / 2),
+      window.innerWidth - popupRect.width - margin
+    )
+    const above = anchorRect.top - popupRect.height - margin
+    const top = above >= margin ? above : anchorRect.bottom + margin
+
+    this.popup.style.left = `${left}px`
+    this.popup.style.top = `${top}px`
+  }
+
+  private scheduleHide(): void {
+    this.cancelHide()
+    this.hideTimer = window.setTimeout(() => {
+      this.hideTimer = null
+      this.hide()
+    }, HIDE_DELAY)
+  }
+
+  private cancelShow(): void {
+    if (this.showTimer !== null) {
+      clearTimeout(this.showTimer)
+      this.showTimer = null
+    }
+  }
+
+  private cancelHide(): void {
+    if (this.hideTimer !== null) {
+      clearTimeout(this.hideTimer)
+      this.hideTimer = null
+    }
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * AnkiConnect 直接同步
+ * 通过本机 Anki 的 AnkiConnect 插件（HTTP API）添加笔记，截图以媒体文件上传；
+ * 已同步的卡片记录在 chrome.storage.local 的 ankiSyncedCards 中，再次同步时只发送新卡片
+ */
+
+import type { AnkiCardField, AnkiConnectSettings, FlashCard } from '@/types'
+import { CSVFormatter, CSVExportFormat } from '@/lib/csv-formatter'
+import { t, type MessageKey } from '@/lib/i18n'
+
+export const ANKI_CONNECT_SETTINGS_KEY = 'ankiConnectSettings'
+export const ANKI_SYNCED_CARDS_KEY = 'ankiSyncedCards'
+
+export const DEFAULT_ANKI_CONNECT_SETTINGS: AnkiConnectSettings = {
+  url: 'http://127.0.0.1:8765',
+  deckName: 'Immersive Memorize',
+  modelName: 'Basic',
+  fieldMapping: {},
+}
+
+// 卡片内容名称的消息 key，显示时经 t() 翻译
+export const ANKI_CARD_FIELD_LABELS: Record<AnkiCardField, MessageKey> = {
+  word: 'anki.field.word',
+  reading: 'anki.field.reading',
+  definition: 'anki.field.definition',
+  sentence: 'anki.field.sentence',
+  screenshot: 'anki.field.screenshot',
+  source: 'anki.field.source',
+  timestamp: 'anki.field.timestamp',
+  glosses: 'anki.field.glosses',
+  level: 'anki.field.level',
+}
+
+// 按笔记字段名猜测对应的卡片内容（小写比较）
+const FIELD_NAME_HINTS: Record<AnkiCardField, string[]> = {
+  word: ['word', 'front', 'expression', 'vocab', 'vocabulary', '単語', '词汇', '表面'],
+  reading: ['reading', 'furigana', 'kana', '読み', '读音'],
+  definition: ['definition', 'meaning', 'back', '意味', '释义'],
+  sentence: ['sentence', 'example', 'context', '例文', '例句'],
+  screenshot: ['screenshot', 'picture', 'image', 'photo', '画像', '截图'],
+  source: ['source', '出典', '来源'],
+  timestamp: ['timestamp', 'time'],
+  glosses: ['glosses', 'gloss', 'dictionary'],
+  level: ['level', 'jlpt'],
+}
+
+// 添加的笔记统一带上该标签，便于在 Anki 中筛选
+const NOTE_TAG = 'immersive-memorize'
+
+// 卡片 id → Anki 笔记 id；已存在于 Anki 中的重复笔记记为 0
+export type AnkiSyncedCards = Record<string, number>
+
+export interface AnkiSyncResult {
+  added: number
+  duplicates: number
+  failed: number
+  skipped: number // 此前已同步的卡片
+  errors: string[]
+}
+
+/**
+ * AnkiConnect HTTP API（version 6）
+ */
+export class AnkiConnectClient {
+  private url: string
+
+  constructor(url: string) {
+    this.url = url
+  }
+
+  async invoke<T>(action: string, params: Record<string, unknown> = {}): Promise<T> {
+    let response: Response
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        body: JSON.stringify({ action, version: 6, params }),
+      })
+    } catch (error) {
+      console.error('[AnkiConnect] 连接失败:', error)
+      throw new Error(t('anki.connectFailed', { url: this.url }))
+    }
+
+    if (!response.ok) {
+      throw new Error(t('anki.httpError', { status: response.status }))
+    }
+
+    const body = (await response.json()) as { result: T; error: string | null }
+    if (body.error) {
+      throw new Error(body.error)
+    }
+    return body.result
+  }
+
+  /**
+   * AnkiConnect 只接受 webCorsOriginList 中的来源，扩展首次连接时需由用户在 Anki 中允许
+   */
+  async requestPermission(): Promise<void> {
+    const result = await this.invoke<{ permission: 'granted' | 'denied' }>('requestPermission')
+    if (result.permission !== 'granted') {
+      throw new Error(t('anki.permissionDenied'))
+    }
+  }
+
+  version(): Promise<number> {
+    return this.invoke<number>('version')
+  }
+
+  deckNames(): Promise<string[]> {
+    return this.invoke<string[]>('deckNames')
+  }
+
+  modelNames(): Promise<string[]> {
+    return this.invoke<string[]>('modelNames')
+  }
+
+  modelFieldNames(modelName: string): Promise<string[]> {
+    return this.invoke<string[]>('modelFieldNames', { modelName })
+  }
+
+  createDeck(deck: string): Promise<number> {
+    return this.invoke<number>('createDeck', { deck })
+  }
+
+  /**
+   * 上传媒体文件（Base64），返回 Anki 中实际保存的文件名
+   */
+  storeMediaFile(filename: string, data: string): Promise<string> {
+    return this.invoke<string>('storeMediaFile', { filename, data })
+  }
+
+  addNote(
+    deckName: string,
+    modelName: string,
+    fields: Record<string, string>,
+    tags: string[]
+  ): Promise<number> {
+    return this.invoke<number>('addNote', {
+      note: { deckName, modelName, fields, tags, options: { allowDuplicate: false } },
+    })
+  }
+}
+
+export class AnkiSync {
+  private csvFormatter = new CSVFormatter()
+
+  async getSettings(): Promise<AnkiConnectSettings> {
+    const result = await chrome.storage.local.get(ANKI_CONNECT_SETTINGS_KEY)
+    return { ...DEFAULT_ANKI_CONNECT_SETTINGS, ...result[ANKI_CONNECT_SETTINGS_KEY] }
+  }
+
+  async saveSettings(settings: AnkiConnectSettings): Promise<void> {
+    await chrome.storage.local.set({ [ANKI_CONNECT_SETTINGS_KEY]: settings })
+  }
+
+  async getSyncedCards(): Promise<AnkiSyncedCards> {
+    const result = await chrome.storage.local.get(ANKI_SYNCED_CARDS_KEY)
+    return result[ANKI_SYNCED_CARDS_KEY] || {}
+  }
+
+  /**
+   * 清空同步记录，下次同步时重新发送全部卡片（Anki 中已有的会作为重复笔记跳过）
+   */
+  async clearSyncedCards(): Promise<void> {
+    await chrome.storage.local.remove(ANKI_SYNCED_CARDS_KEY)
+  }
+
+  /**
+   * 根据笔记类型的字段名生成默认映射，已有映射中仍存在的字段保留原设置
+   */
+  guessFieldMapping(
+    fieldNames: string[],
+    current: AnkiConnectSettings['fieldMapping'] = {}
+  ): AnkiConnectSettings['fieldMapping'] {
+    const mapping: AnkiConnectSettings['fieldMapping'] = {}
+    const used = new Set<AnkiCardField>()
+
+    for (const name of fieldNames) {
+      if (name in current) {
+        mapping[name] = current[name]
+        if (current[name]) used.add(current[name] as AnkiCardField)
+      }
+    }
+
+    for (const name of fieldNames) {
+      if (name in mapping) continue
+      const lowerName = name.toLowerCase()
+      const field = (Object.keys(FIELD_NAME_HINTS) as AnkiCardField[]).find(
+        candidate => !used.has(candidate) && FIELD_NAME_HINTS[candidate].includes(lowerName)
+      )
+      mapping[name] = field || ''
+      if (field) used.add(field)
+    }
+
+    // 没有任何字段能识别时，第一个字段放词汇，第二个放释义（对应 Basic 的正反面）
+    if (used.size === 0 && fieldNames.length > 0) {
+      mapping[fieldNames[0]] = 'word'
+      if (fieldNames.length > 1) mapping[fieldNames[1]] = 'definition'
+    }
+    return mapping
+  }
+
+  /**
+   * 将尚未同步的卡片添加到 Anki，每张卡片完成后记录同步状态，中途失败不影响已添加的卡片
+   * @param sentenceFormat 句子格式，与 CSV 导出格式设置相同
+   */
+  async syncCards(
+    cards: FlashCard[],
+    settings: AnkiConnectSettings,
+    sentenceFormat: CSVExportFormat,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<AnkiSyncResult> {
+    if (!Object.values(settings.fieldMapping).some(Boolean)) {
+      throw new Error(t('anki.noFieldMapping'))
+    }
+
+    const client = new AnkiConnectClient(settings.url)
+    await client.requestPermission()
+    await client.createDeck(settings.deckName)
+
+    const synced = await this.getSyncedCards()
+    const pending = cards.filter(card => !(String(card.id) in synced))
+    const result: AnkiSyncResult = {
+      added: 0,
+      duplicates: 0,
+      failed: 0,
+      skipped: cards.length - pending.length,
+      errors: [],
+    }
+
+    await this.csvFormatter.prepareReadings(pending, sentenceFormat)
+    for (const [index, card] of pending.entries()) {
+      try {
+        const fields = await this.buildFields(client, card, settings, sentenceFormat)
+        const noteId = await client.addNote(settings.deckName, settings.modelName, fields, [
+          NOTE_TAG,
+        ])
+        synced[card.id] = noteId
+        result.added++
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        if (/duplicate/i.test(message)) {
+          // Anki 中已有相同笔记（例如之前手动导入过 CSV），视为已同步
+          synced[card.id] = 0
+          result.duplicates++
+        } else {
+          console.error('[AnkiSync] 添加笔记失败:', card.word, error)
+          result.failed++
+          result.errors.push(`${card.word}: ${message}`)
+        }
+      }
+
+      await chrome.storage.local.set({ [ANKI_SYNCED_CARDS_KEY]: synced })
+      onProgress?.(index + 1, pending.length)
+    }
+
+    console.log('[AnkiSync] 同步完成:', result)
+    return result
+  }
+
+  private async buildFields(
+    client: AnkiConnectClient,
+    card: FlashCard,
+    settings: AnkiConnectSettings,
+    sentenceFormat: CSVExportFormat
+  ): Promise<Record<string, string>> {
+    const fields: Record<string, string> = {}
+    for (const [fieldName, cardField] of Object.entries(settings.fieldMapping)) {
+      fields[fieldName] = cardField
+        ? await this.formatField(client, card, cardField, sentenceFormat)
+        : ''
+    }
+    return fields
+  }
+
+  private async formatField(
+    client: AnkiConnectClient,
+    card: FlashCard,
+    field: AnkiCardField,
+    sentenceFormat: CSVExportFormat
+  ): Promise<string> {
+    switch (field) {
+      case 'word':
+        return card.word
+      case 'reading':
+        return card.reading || ''
+      case 'definition':
+        return card.definition || ''
+      case 'sentence':
+        return this.csvFormatter.formatSentence(card.sentence, sentenceFormat, card.word)
+      case 'screenshot':
+        return card.screenshot ? `<img src="${await this.uploadScreenshot(client, card)}">` : ''
+      case 'source':
+        return card.sourceTitle
+      case 'timestamp':
+        return this.csvFormatter.formatTimestamp(card.timestamp)
+      case 'glosses':
+        return card.glosses || ''
+      case 'level':
+        return card.level || ''
+    }
+  }
+
+  /**
+   * 截图以 data URL 保存，上传到 Anki 的媒体文件夹后在字段中引用文件名
+   */
+  private async uploadScreenshot(client: AnkiConnectClient, card: FlashCard): Promise<string> {
+    const match = card.screenshot.match(/^data:image\/(\w+);base64,(.*)$/)
+    if (!match) {
+      throw new Error(t('anki.invalidScreenshot'))
+    }
+
+    const extension = match[1] === 'jpeg' ? 'jpg' : match[1]
+    return client.storeMediaFile(`immersive-memorize-${card.id}.${extension}`, match[2])
+  }
+}
+
+export const ankiSync = new AnkiSync()
@@ -0,0 +1,18 @@
+// 内置支持的流媒体网站，与 manifest.json 中的 host_permissions 保持一致
+export const BUILTIN_SITES = [
+  '*://*.netflix.com/*',
+  '*://*.primevideo.com/*',
+  '*://*.amazon.com/gp/video/*',
+  '*://*.amazon.co.jp/gp/video/*',
+]
+
+/**
+ * 判断 URL 是否匹配站点规则（* 为通配符）
+ */
+export function matchesSitePattern(url: string, pattern: string): boolean {
+  return new RegExp(pattern.replace(/\*/g, '.*')).test(url)
+}
+
+export function isBuiltinSite(url: string): boolean {
+  return BUILTIN_SITES.some(pattern => matchesSitePattern(url, pattern))
+}
@@ -1,17 +1,39 @@
 import type { FlashCard } from '@/types'
+import { ZipWriter } from '@/lib/export/zip-writer'
+import { addScreenshotsToZip, getScreenshotFileName } from '@/lib/export/media'
+import { analyze } from '@/lib/japanese-analyzer/remote-analyzer'
+import { t } from '@/lib/i18n'
 
 export enum CSVExportFormat {
   PLAIN_TEXT = 'plain-text',      // 纯文本格式
   ANKI_HTML = 'anki-html',        // Anki兼容的HTML格式
-  RICH_TEXT = 'rich-text'         // 保留Ruby标签的富文本格式
+  RICH_TEXT = 'rich-text',        // 保留Ruby标签的富文本格式
+  ANKI_CLOZE = 'anki-cloze',      // Anki挖空格式：{{c1::目标词}}
+  ANKI_FURIGANA = 'anki-furigana' // Anki注音格式：漢字[かんじ]
 }
 
+// 分析器给出的词汇读音（片假名），用于字幕中没有Ruby标签的汉字
+export interface SentenceReading {
+  surface: string
+  reading: string
+}
+
+// 句子中的一段文本，Ruby标签对应的段落带有读音
+interface FuriganaSegment {
+  text: string
+  reading?: string
+}
+
+const KANJI_PATTERN = /[\u4e00-\u9fff\u3400-\u4dbf々]/
+
 export interface CSVExportOptions {
   format: CSVExportFormat
   separator: string
   includeScreenshots: boolean
   includeTimestamp: boolean
   includeSource: boolean
+  mediaAsFiles: boolean           // 截图以文件名引用，图片单独打包（ZIP 导出）
+  includeGlosses: boolean         // 在最后增加离线词典释义列
 }
 
 /**
@@ -19,7 +41,11 @@ export interface CSVExportOptions {
  * 解决HTML内容破坏CSV格式的问题
  */
 export class CSVFormatter {
-  
+  // 句子 HTML → 分析器读音，由 prepareReadings 预先取得
+  private sentenceReadings = new Map<string, SentenceReading[]>()
+  // 句子 + 词汇原形 → 句中的实际形态（活用形），由 prepareClozeTargets 预先取得
+  private clozeTargets = new Map<string, string>()
+
   /**
    * 导出记忆卡片为CSV格式
    */
@@ -46,14 +72,20 @@ export class CSVFormatter {
       separator: ';',
       includeScreenshots: true,
       includeTimestamp: true,
-      includeSource: true
+      includeSource: true,
+      mediaAsFiles: false,
+      includeGlosses: false
     }
   }
 
   /**
    * 根据字符串创建导出选项
    */
-  static createOptionsFromFormat(formatString: string): CSVExportOptions {
+  static createOptionsFromFormat(
+    formatString: string,
+    mediaAsFiles = false,
+    includeGlosses = false
+  ): CSVExportOptions {
     let format: CSVExportFormat
     switch (formatString) {
       case 'plain-text':
@@ -62,6 +94,12 @@ export class CSVFormatter {
       case 'rich-text':
         format = CSVExportFormat.RICH_TEXT
         break
+      case 'anki-cloze':
+        format = CSVExportFormat.ANKI_CLOZE
+        break
+      case 'anki-furigana':
+        format = CSVExportFormat.ANKI_FURIGANA
+        break
       case 'anki-html':
       default:
         format = CSVExportFormat.ANKI_HTML
@@ -72,10 +110,31 @@ export class CSVFormatter {
       separator: ';',
       includeScreenshots: true,
       includeTimestamp: true,
-      includeSource: true
+      includeSource: true,
+      mediaAsFiles,
+      includeGlosses
     }
   }
 
+  /**
+   * 导出为ZIP：CSV 与 images/ 文件夹，截图列只包含文件名引用，
+   * 将 images/ 中的文件复制到 Anki 的 collection.media 后即可显示
+   */
+  async exportFlashCardsZip(cards: FlashCard[], options: CSVExportOptions): Promise<Blob> {
+    const csvOptions = { ...options, mediaAsFiles: true }
+    await this.prepareReadings(cards, csvOptions.format)
+    const csvContent = this.exportFlashCards(cards, csvOptions)
+
+    const zip = new ZipWriter()
+    await zip.add('immersive-memorize.csv', csvContent)
+
+    if (csvOptions.includeScreenshots) {
+      await addScreenshotsToZip(zip, cards)
+    }
+
+    return zip.toBlob()
+  }
+
   /**
    * 构建CSV头部
    */
@@ -86,6 +145,9 @@ export class CSVFormatter {
     if (options.includeTimestamp) fields.push('Timestamp') 
     if (options.includeSource) fields.push('Source')
     
+    // 离线词典释义放在最后，不影响已有 Anki 笔记类型的字段顺序
+    if (options.includeGlosses) fields.push('Glosses')
+    
     return fields.join(options.separator)
   }
 
@@ -105,13 +167,13 @@ export class CSVFormatter {
     fields.push(this.escapeCSVField(card.definition || '', options.separator))
     
     // 句子（根据格式选项处理）
-    const formattedSentence = this.formatSentence(card.sentence, options.format)
+    const formattedSentence = this.formatSentence(card.sentence, options.format, card.word)
     fields.push(this.escapeCSVField(formattedSentence, options.separator))
     
     // 可选字段
     if (options.includeScreenshots) {
       const screenshot = card.screenshot ? 
-        this.formatScreenshot(card.screenshot, options.format) : ''
+        this.formatScreenshot(card, options) : ''
       fields.push(this.escapeCSVField(screenshot, options.separator))
     }
     
@@ -123,13 +185,88 @@ export class CSVFormatter {
       fields.push(this.escapeCSVField(card.sourceTitle, options.separator))
     }
     
+    // 词典释义
+    if (options.includeGlosses) {
+      fields.push(this.escapeCSVField(card.glosses || '', options.separator))
+    }
+    
     return fields.join(options.separator)
   }
 
+  /**
+   * 为Anki注音格式预先取得句子中没有Ruby标签的汉字的读音（通过后台的日语分析器），
+   * 其他格式或分析失败时只使用Ruby标签；挖空格式则预先定位目标词
+   */
+  async prepareReadings(cards: FlashCard[], format: CSVExportFormat): Promise<void> {
+    if (format === CSVExportFormat.ANKI_CLOZE) {
+      await this.prepareClozeTargets(cards)
+      return
+    }
+    if (format !== CSVExportFormat.ANKI_FURIGANA) return
+
+    for (const card of cards) {
+      if (!card.sentence || this.sentenceReadings.has(card.sentence)) continue
+
+      const segments = this.getFuriganaSegments(card.sentence)
+      // 所有汉字都已有Ruby标签时无需分析
+      if (!segments.some(segment => segment.reading === undefined && KANJI_PATTERN.test(segment.text))) {
+        continue
+      }
+
+      try {
+        const words = await analyze(segments.map(segment => segment.text).join(''))
+        this.sentenceReadings.set(
+          card.sentence,
+          words.map(word => ({ surface: word.word, reading: word.extra.reading }))
+        )
+      } catch (error) {
+        // 分析器不可用时不再逐句重试
+        console.warn('[CSVFormatter] 获取句子读音失败，只使用Ruby标签:', error)
+        return
+      }
+    }
+  }
+
+  /**
+   * 没有高亮标记、且句中不含词汇原形（例如动词、形容词的活用形）时，
+   * 通过日语分析器找到原形在句中的实际形态，供挖空与目标词标记使用
+   */
+  async prepareClozeTargets(cards: FlashCard[]): Promise<void> {
+    for (const card of cards) {
+      if (!card.sentence || !card.word || this.hasHighlight(card.sentence)) continue
+      if (this.findTargetText(card.sentence, card.word) !== null) continue
+
+      try {
+        const words = await analyze(this.convertToPlainText(card.sentence))
+        const match = words.find(word => word.lemma === card.word)
+        if (match) {
+          this.clozeTargets.set(this.getClozeKey(card.sentence, card.word), match.word)
+        }
+      } catch (error) {
+        // 分析器不可用时不再逐句重试
+        console.warn('[CSVFormatter] 分析句子失败，无法定位活用形的目标词:', error)
+        return
+      }
+    }
+  }
+
+  /**
+   * 句中找不到目标词、无法生成挖空的卡片（需先调用 prepareClozeTargets）
+   */
+  getUnclozableCards(cards: FlashCard[]): FlashCard[] {
+    return cards.filter(
+      card =>
+        card.sentence &&
+        !this.hasHighlight(card.sentence) &&
+        this.findTargetText(card.sentence, card.word) === null
+    )
+  }
+
   /**
    * 根据格式选项处理句子内容
+   * @param word 卡片词汇，句子中没有高亮标记时用于定位挖空位置
    */
-  private formatSentence(sentence: string, format: CSVExportFormat): string {
+  formatSentence(sentence: string, format: CSVExportFormat, word = ''): string {
     if (!sentence) return ''
 
     switch (format) {
@@ -141,12 +278,196 @@ export class CSVFormatter {
       
       case CSVExportFormat.RICH_TEXT:
         return this.cleanRichTextHTML(sentence)
+
+      case CSVExportFormat.ANKI_CLOZE:
+        return this.replaceTargetWord(sentence, word, text => `{{c1::${text}}}`)
+
+      case CSVExportFormat.ANKI_FURIGANA:
+        return this.convertToAnkiFurigana(sentence)
       
       default:
         return this.convertToPlainText(sentence)
     }
   }
 
+  /**
+   * 挖空句子：目标词（高亮部分）替换为空白，其余内容转为纯文本
+   * 没有高亮标记时（例如旧卡片），替换句中第一次出现的词汇原形
+   */
+  formatClozeSentence(sentence: string, word: string, blank = '____'): string {
+    if (!sentence) return ''
+    return this.replaceTargetWord(sentence, word, () => blank)
+  }
+
+  /**
+   * 将目标词（高亮部分）替换为 replacer 的结果，其余内容转为纯文本；
+   * 没有高亮标记时替换句中第一次出现的词汇原形或 prepareClozeTargets 找到的活用形，
+   * 都找不到时只输出纯文本（可用 getUnclozableCards 找出这些卡片）
+   */
+  replaceTargetWord(
+    sentence: string,
+    word: string,
+    replacer: (text: string) => string
+  ): string {
+    const tempDiv = document.createElement('div')
+    tempDiv.innerHTML = sentence
+
+    const highlights = tempDiv.querySelectorAll('.im-highlight')
+    if (highlights.length > 0) {
+      highlights.forEach(highlight => {
+        const text = this.convertToPlainText(highlight.innerHTML)
+        highlight.parentNode?.replaceChild(document.createTextNode(replacer(text)), highlight)
+      })
+      return this.convertToPlainText(tempDiv.innerHTML)
+    }
+
+    const plainText = this.convertToPlainText(sentence)
+    const target = this.findTargetText(sentence, word)
+    return target ? plainText.replace(target, replacer(target)) : plainText
+  }
+
+  private hasHighlight(sentence: string): boolean {
+    const tempDiv = document.createElement('div')
+    tempDiv.innerHTML = sentence
+    return tempDiv.querySelector('.im-highlight') !== null
+  }
+
+  /**
+   * 没有高亮标记的句子中目标词的文本：原形，或分析器找到的活用形
+   */
+  private findTargetText(sentence: string, word: string): string | null {
+    if (!word) return null
+    if (this.convertToPlainText(sentence).includes(word)) return word
+    return this.clozeTargets.get(this.getClozeKey(sentence, word)) ?? null
+  }
+
+  private getClozeKey(sentence: string, word: string): string {
+    return `${word}\u0000${sentence}`
+  }
+
+  /**
+   * 转换为Anki注音格式：漢字[かんじ]
+   * 每组注音前加空格以标明注音的范围（Anki 显示时会去掉该空格）；
+   * 优先使用字幕中的Ruby标签，其余汉字使用 prepareReadings 取得的分析器读音
+   */
+  private convertToAnkiFurigana(htmlContent: string): string {
+    const segments = this.getFuriganaSegments(htmlContent)
+    const readings = this.sentenceReadings.get(htmlContent) || []
+
+    // 分析器的分词结果按顺序对应到去掉注音后的文本中
+    const cleanText = segments.map(segment => segment.text).join('')
+    const tokens: Array<SentenceReading & { start: number; end: number }> = []
+    let cursor = 0
+    for (const reading of readings) {
+      const start = cleanText.indexOf(reading.surface, cursor)
+      if (!reading.surface || start < 0) continue
+      cursor = start + reading.surface.length
+      tokens.push({ ...reading, start, end: cursor })
+    }
+
+    let output = ''
+    let offset = 0
+    for (const segment of segments) {
+      const segmentEnd = offset + segment.text.length
+
+      if (segment.reading !== undefined) {
+        output = this.appendFurigana(output, segment.text, segment.reading)
+      } else {
+        let position = offset
+        for (const token of tokens) {
+          if (token.start < position || token.end > segmentEnd) continue
+          output += cleanText.slice(position, token.start)
+          output = this.appendFurigana(output, token.surface, this.toHiragana(token.reading), true)
+          position = token.end
+        }
+        output += cleanText.slice(position, segmentEnd)
+      }
+
+      offset = segmentEnd
+    }
+
+    return output.replace(/\s+/g, ' ').trim()
+  }
+
+  /**
+   * 将句子拆分为普通文本与Ruby段落，高亮等其他标签只保留文本
+   */
+  private getFuriganaSegments(htmlContent: string): FuriganaSegment[] {
+    const tempDiv = document.createElement('div')
+    tempDiv.innerHTML = htmlContent
+
+    const segments: FuriganaSegment[] = []
+    const collect = (node: Node) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        segments.push({ text: node.textContent || '' })
+        return
+      }
+      if (!(node instanceof Element)) return
+
+      if (node.tagName === 'RUBY') {
+        const rt = node.querySelector('rt')
+        const base = node.cloneNode(true) as Element
+        base.querySelectorAll('rt, rp').forEach(element => element.remove())
+        segments.push({
+          text: this.extractTextContent(base),
+          reading: rt ? this.extractTextContent(rt) : ''
+        })
+      } else if (node.tagName === 'BR') {
+        segments.push({ text: ' ' })
+      } else {
+        node.childNodes.forEach(collect)
+      }
+    }
+    tempDiv.childNodes.forEach(collect)
+
+    return segments
+  }
+
+  /**
+   * 添加一组注音，trimOkurigana 时去掉与读音相同的前后假名（食べる[たべる] → 食[た]べる）
+   */
+  private appendFurigana(
+    output: string,
+    base: string,
+    reading: string,
+    trimOkurigana = false
+  ): string {
+    if (!reading || !KANJI_PATTERN.test(base)) return output + base
+
+    let prefix = ''
+    let suffix = ''
+    if (trimOkurigana) {
+      let start = 0
+      let end = base.length
+      let readingStart = 0
+      let readingEnd = reading.length
+      while (end > start && readingEnd > readingStart && this.toHiragana(base[end - 1]) === reading[readingEnd - 1]) {
+        end--
+        readingEnd--
+      }
+      while (start < end && readingStart < readingEnd && this.toHiragana(base[start]) === reading[readingStart]) {
+        start++
+        readingStart++
+      }
+      prefix = base.slice(0, start)
+      suffix = base.slice(end)
+      base = base.slice(start, end)
+      reading = reading.slice(readingStart, readingEnd)
+      if (!reading) return output + prefix + base + suffix
+    }
+
+    output += prefix
+    const separator = output && !output.endsWith(' ') ? ' ' : ''
+    return `${output}${separator}${base}[${reading}]${suffix}`
+  }
+
+  /**
+   * 片假名转平假名
+   */
+  private toHiragana(text: string): string {
+    return text.replace(/[\u30a1-\u30f6]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60))
+  }
+
   /**
    * 转换为纯文本格式
    */
@@ -272,17 +593,20 @@ export class CSVFormatter {
   /**
    * 格式化截图
    */
-  private formatScreenshot(screenshot: string, format: CSVExportFormat): string {
-    if (format === CSVExportFormat.PLAIN_TEXT) {
-      return '[截图]' // 纯文本模式下用占位符
+  private formatScreenshot(card: FlashCard, options: CSVExportOptions): string {
+    // 单独打包时引用文件名，而不是内联 base64
+    const source = options.mediaAsFiles ? getScreenshotFileName(card) : card.screenshot
+
+    if (options.format === CSVExportFormat.PLAIN_TEXT) {
+      return options.mediaAsFiles ? source : t('export.screenshotPlaceholder') // 纯文本模式下用文件名或占位符
     }
-    return `<img src="${screenshot}">` // HTML模式下用img标签
+    return `<img src="${source}">` // HTML模式下用img标签
   }
 
   /**
    * 格式化时间戳
    */
-  private formatTimestamp(seconds: number): string {
+  formatTimestamp(seconds: number): string {
     const mins = Math.floor(seconds / 60)
     const secs = seconds % 60
     return `${mins}:${secs.toString().padStart(2, '0')}`
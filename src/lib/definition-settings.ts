@@ -0,0 +1,51 @@
+import type { DefinitionLanguage, DefinitionLanguageSetting, DictionaryInfo } from '@/types'
+import { i18n, type MessageKey } from '@/lib/i18n'
+
+export const DEFINITION_LANGUAGE_STORAGE_KEY = 'definitionLanguage'
+
+// 释义语言名称的消息 key，显示时经 t() 翻译
+export const DEFINITION_LANGUAGE_LABELS: Record<DefinitionLanguage, MessageKey> = {
+  zh: 'definition.language.zh',
+  en: 'definition.language.en',
+  ja: 'definition.language.ja',
+}
+
+const KANA_PATTERN = /[぀-ヿ]/
+const HAN_PATTERN = /[一-鿿]/
+
+/**
+ * 将设置解析为实际使用的释义语言，auto 时与界面语言相同
+ */
+export function resolveDefinitionLanguage(setting?: DefinitionLanguageSetting): DefinitionLanguage {
+  if (setting === 'zh' || setting === 'en' || setting === 'ja') return setting
+
+  const uiLanguage = i18n.getLanguage()
+  return uiLanguage === 'zh-CN' ? 'zh' : uiLanguage
+}
+
+/**
+ * 根据释义文本判断语言：含假名为日文，含汉字为中文，其余视为英文
+ */
+export function detectDefinitionLanguage(text: string): DefinitionLanguage {
+  if (KANA_PATTERN.test(text)) return 'ja'
+  if (HAN_PATTERN.test(text)) return 'zh'
+  return 'en'
+}
+
+/**
+ * 词典的释义语言，旧版本导入的词典按英文处理（当时只支持 JMdict 英文释义）
+ */
+export function getDictionaryLanguage(info: DictionaryInfo): DefinitionLanguage {
+  return info.language ?? 'en'
+}
+
+/**
+ * 从多个来源的释义中选择：优先与偏好语言一致的，否则按传入顺序取第一个非空释义
+ */
+export function selectDefinition(
+  candidates: Array<string | undefined>,
+  language: DefinitionLanguage
+): string | undefined {
+  const available = candidates.filter((text): text is string => !!text)
+  return available.find(text => detectDefinitionLanguage(text) === language) ?? available[0]
+}
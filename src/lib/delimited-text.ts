@@ -0,0 +1,70 @@
+/**
+ * CSV / TSV 等分隔文本解析
+ * 支持双引号包裹的字段、"" 转义以及引号内的换行
+ */
+
+const DELIMITER_CANDIDATES = ['\t', ',', ';']
+
+/**
+ * 根据第一行推测分隔符（拆分出字段最多的候选）
+ */
+export function detectDelimiter(firstLine: string): string {
+  return DELIMITER_CANDIDATES.reduce((best, delimiter) =>
+    splitDelimitedRow(firstLine, delimiter).length > splitDelimitedRow(firstLine, best).length
+      ? delimiter
+      : best
+  )
+}
+
+/**
+ * 拆分单行（字段中不含换行时使用）
+ */
+export function splitDelimitedRow(row: string, delimiter: string): string[] {
+  return parseDelimitedText(row, delimiter)[0] || ['']
+}
+
+/**
+ * 解析整段文本为行列表，忽略空行；未指定分隔符时自动推测
+ */
+export function parseDelimitedText(text: string, delimiter?: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '')
+  const resolvedDelimiter = delimiter || detectDelimiter(source.split(/\r?\n/, 1)[0])
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0].trim().length > 0) rows.push(row)
+    row = []
+    field = ''
+  }
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field.length === 0) {
+      inQuotes = true
+    } else if (char === resolvedDelimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+  if (field.length > 0 || row.length > 0) endRow()
+
+  return rows
+}
@@ -0,0 +1,30 @@
+import type { DictionaryEntry } from '@/types'
+
+// 解析器输出的词条，写入 IndexedDB 时再补上 id 与所属词典
+export type ParsedDictionaryEntry = Omit<DictionaryEntry, 'id' | 'dictionaryId'>
+
+/**
+ * 片假名转平假名，用于比较分词器读音（片假名）与词典读音
+ */
+export function toHiragana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60))
+}
+
+/**
+ * 将词条的义项格式化为文本，多个义项时逐行编号
+ * @param maxSenses 最多保留的义项数，不传则全部保留
+ */
+export function formatDictionaryGlosses(entry: DictionaryEntry, maxSenses?: number): string {
+  const senses = entry.senses.slice(0, maxSenses ?? entry.senses.length)
+  if (senses.length === 1) return senses[0].glosses.join('; ')
+
+  return senses.map((sense, index) => `${index + 1}. ${sense.glosses.join('; ')}`).join('\n')
+}
+
+/**
+ * 词条中与分词器读音一致的读音，找不到时返回第一个读音
+ */
+export function getDictionaryReading(entry: DictionaryEntry, readingHint?: string): string {
+  const hint = readingHint ? toHiragana(readingHint) : ''
+  return entry.readings.find(reading => toHiragana(reading) === hint) || entry.readings[0] || ''
+}
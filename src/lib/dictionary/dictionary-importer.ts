@@ -0,0 +1,112 @@
+/**
+ * 离线词典导入
+ * 根据文件内容识别 Yomitan 词典 ZIP、gzip 压缩的 JMdict 或 JMdict XML，
+ * 分批输出解析后的词条，由调用方写入 IndexedDB
+ */
+
+import type { DefinitionLanguage, DictionaryInfo } from '@/types'
+import { detectDefinitionLanguage } from '@/lib/definition-settings'
+import { t } from '@/lib/i18n'
+import type { ParsedDictionaryEntry } from './common'
+import { JMdictParser } from './jmdict-parser'
+import { YomitanParser } from './yomitan-parser'
+import { ZipReader, isZipData } from './zip-reader'
+
+export interface ParsedDictionary {
+  title: string
+  format: DictionaryInfo['format']
+  language: DefinitionLanguage
+}
+
+// 每批写入的词条数
+const BATCH_SIZE = 2000
+// 判断释义语言时抽样的词条数
+const LANGUAGE_SAMPLE_SIZE = 200
+
+export class DictionaryImporter {
+  async read(
+    file: Blob,
+    onEntries: (entries: ParsedDictionaryEntry[]) => Promise<void>
+  ): Promise<ParsedDictionary> {
+    const signature = new Uint8Array(await file.slice(0, 4).arrayBuffer())
+
+    if (isZipData(signature)) {
+      return this.readYomitan(file, onEntries)
+    }
+
+    // JMdict 官方提供 .gz 压缩包，可直接导入
+    const isGzip = signature[0] === 0x1f && signature[1] === 0x8b
+    const stream = isGzip
+      ? file.stream().pipeThrough(new DecompressionStream('gzip'))
+      : file.stream()
+    return this.readJMdict(stream, onEntries)
+  }
+
+  private async readJMdict(
+    stream: ReadableStream<Uint8Array>,
+    onEntries: (entries: ParsedDictionaryEntry[]) => Promise<void>
+  ): Promise<ParsedDictionary> {
+    const parser = new JMdictParser()
+    const reader = stream.pipeThrough(new TextDecoderStream('utf-8')).getReader()
+    let batch: ParsedDictionaryEntry[] = []
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      batch.push(...parser.push(value))
+      if (batch.length >= BATCH_SIZE) {
+        await onEntries(batch)
+        batch = []
+      }
+    }
+
+    parser.finish()
+    if (batch.length > 0) await onEntries(batch)
+
+    // 只保留了英文释义
+    return { title: parser.getTitle(), format: 'jmdict', language: 'en' }
+  }
+
+  private async readYomitan(
+    file: Blob,
+    onEntries: (entries: ParsedDictionaryEntry[]) => Promise<void>
+  ): Promise<ParsedDictionary> {
+    const parser = new YomitanParser(new ZipReader(await file.arrayBuffer()))
+    const title = await parser.readTitle()
+
+    const bankNames = parser.getTermBankNames()
+    if (bankNames.length === 0) {
+      throw new Error(t('dictionary.yomitanNoTermBanks'))
+    }
+
+    let language = parser.getTargetLanguage()
+    for (const name of bankNames) {
+      const entries = await parser.parseTermBank(name)
+      // 未声明释义语言时根据第一个词条文件中的释义判断
+      if (!language) language = this.detectLanguage(entries)
+      for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+        await onEntries(entries.slice(i, i + BATCH_SIZE))
+      }
+    }
+
+    return { title, format: 'yomitan', language: language ?? 'en' }
+  }
+
+  /**
+   * 取前若干词条的释义逐条判断语言，以多数为准（英文释义中偶尔夹带日文）
+   */
+  private detectLanguage(entries: ParsedDictionaryEntry[]): DefinitionLanguage {
+    const counts: Record<DefinitionLanguage, number> = { en: 0, zh: 0, ja: 0 }
+    for (const entry of entries.slice(0, LANGUAGE_SAMPLE_SIZE)) {
+      for (const sense of entry.senses) {
+        sense.glosses.forEach(gloss => counts[detectDefinitionLanguage(gloss)]++)
+      }
+    }
+    return (Object.keys(counts) as DefinitionLanguage[]).reduce((best, language) =>
+      counts[language] > counts[best] ? language : best
+    )
+  }
+}
+
+export const dictionaryImporter = new DictionaryImporter()
@@ -0,0 +1,121 @@
+/**
+ * JMdict / JMdict_e XML 解析
+ * 文件较大（数十 MB），按块输入并只解析已完整接收的 <entry>，避免一次性读入整个文档
+ */
+
+import type { DictionarySense } from '@/types'
+import { t } from '@/lib/i18n'
+import type { ParsedDictionaryEntry } from './common'
+
+// 找不到根元素时允许缓存的最大长度（JMdict 的 DTD 约 30KB）
+const MAX_HEADER_LENGTH = 1024 * 1024
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+}
+
+export class JMdictParser {
+  private buffer = ''
+  private inBody = false
+  // DTD 中声明的实体，例如 &n; → noun (common) (futsuumeishi)
+  private entities: Record<string, string> = { ...XML_ENTITIES }
+  private createdDate = ''
+
+  /**
+   * 输入一块文本，返回其中已完整的词条
+   */
+  push(chunk: string): ParsedDictionaryEntry[] {
+    this.buffer += chunk
+
+    if (!this.inBody) {
+      const rootMatch = this.buffer.match(/<JMdict[\s>]/)
+      if (!rootMatch || rootMatch.index === undefined) {
+        if (this.buffer.length > MAX_HEADER_LENGTH) {
+          throw new Error(t('dictionary.invalidJMdict'))
+        }
+        return []
+      }
+
+      this.parseHeader(this.buffer.slice(0, rootMatch.index))
+      this.buffer = this.buffer.slice(rootMatch.index)
+      this.inBody = true
+    }
+
+    const end = this.buffer.lastIndexOf('</entry>')
+    if (end === -1) return []
+
+    const complete = this.buffer.slice(0, end + '</entry>'.length)
+    this.buffer = this.buffer.slice(end + '</entry>'.length)
+
+    const entries: ParsedDictionaryEntry[] = []
+    for (const match of complete.matchAll(/<entry>([\s\S]*?)<\/entry>/g)) {
+      const entry = this.parseEntry(match[1])
+      if (entry) entries.push(entry)
+    }
+    return entries
+  }
+
+  /**
+   * 输入结束时调用，检查文件是否为 JMdict
+   */
+  finish(): void {
+    if (!this.inBody) {
+      throw new Error(t('dictionary.invalidJMdict'))
+    }
+    this.buffer = ''
+  }
+
+  getTitle(): string {
+    return this.createdDate ? `JMdict (${this.createdDate})` : 'JMdict'
+  }
+
+  private parseHeader(header: string): void {
+    for (const match of header.matchAll(/<!ENTITY\s+([\w.-]+)\s+"([^"]*)">/g)) {
+      this.entities[match[1]] = match[2]
+    }
+    this.createdDate = header.match(/JMdict created:\s*([\d-]+)/)?.[1] || ''
+  }
+
+  private parseEntry(xml: string): ParsedDictionaryEntry | null {
+    const terms = this.matchAll(xml, 'keb')
+    const readings = this.matchAll(xml, 'reb')
+    const priorities = new Set([...this.matchAll(xml, 'ke_pri'), ...this.matchAll(xml, 're_pri')])
+
+    const senses: DictionarySense[] = []
+    // 义项未标注词性时沿用上一个义项的词性
+    let partOfSpeech: string[] = []
+    for (const match of xml.matchAll(/<sense>([\s\S]*?)<\/sense>/g)) {
+      const sensePos = this.matchAll(match[1], 'pos')
+      if (sensePos.length > 0) partOfSpeech = sensePos
+
+      const glosses: string[] = []
+      for (const gloss of match[1].matchAll(/<gloss(\s[^>]*)?>([^<]*)<\/gloss>/g)) {
+        // 完整版 JMdict 含多种语言，只保留英文释义
+        const lang = gloss[1]?.match(/xml:lang="([^"]*)"/)?.[1]
+        if (!lang || lang === 'eng') glosses.push(this.decode(gloss[2]))
+      }
+      if (glosses.length > 0) senses.push({ partOfSpeech, glosses })
+    }
+
+    if (readings.length === 0 || senses.length === 0) return null
+
+    return { terms, readings, senses, score: priorities.size }
+  }
+
+  private matchAll(xml: string, tag: string): string[] {
+    const pattern = new RegExp(`<${tag}>([^<]*)</${tag}>`, 'g')
+    return Array.from(xml.matchAll(pattern), match => this.decode(match[1]))
+  }
+
+  private decode(text: string): string {
+    return text
+      .replace(/&#x([\da-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+      .replace(/&([\w.-]+);/g, (entity, name) => this.entities[name] ?? entity)
+      .trim()
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Yomitan（Yomichan）词典 ZIP 解析
+ * 读取 index.json 中的标题与 term_bank_*.json 中的词条，
+ * 释义支持纯文本与 structured-content（按块级元素拆分为多条释义）
+ */
+
+import type { DefinitionLanguage, DictionarySense } from '@/types'
+import { t } from '@/lib/i18n'
+import type { ParsedDictionaryEntry } from './common'
+import type { ZipReader } from './zip-reader'
+
+// structured-content 中会另起一行的元素
+const BLOCK_TAGS = ['div', 'li', 'ol', 'ul', 'table', 'tr', 'details', 'summary', 'br']
+
+interface YomitanIndex {
+  title?: string
+  format?: number
+  version?: number
+  targetLanguage?: string // 释义语言（ISO 639 代码），较新的词典才有
+}
+
+export class YomitanParser {
+  private zip: ZipReader
+  private format = 3
+  private targetLanguage = ''
+
+  constructor(zip: ZipReader) {
+    this.zip = zip
+  }
+
+  async readTitle(): Promise<string> {
+    const indexEntry = this.zip.find('index.json')
+    if (!indexEntry) {
+      throw new Error(t('dictionary.yomitanMissingIndex'))
+    }
+
+    const index: YomitanIndex = JSON.parse(await this.zip.readText(indexEntry))
+    this.format = index.format ?? index.version ?? 3
+    this.targetLanguage = (index.targetLanguage || '').toLowerCase()
+    return index.title || 'Yomitan 词典'
+  }
+
+  /**
+   * index.json 中声明的释义语言，未声明或不是中文、英文、日文时返回 null
+   */
+  getTargetLanguage(): DefinitionLanguage | null {
+    const language = this.targetLanguage.split('-')[0]
+    return language === 'zh' || language === 'en' || language === 'ja' ? language : null
+  }
+
+  /**
+   * 按编号顺序列出词条文件（term_bank_1.json、term_bank_2.json……）
+   */
+  getTermBankNames(): string[] {
+    const bankNumber = (name: string) => Number(name.match(/term_bank_(\d+)\.json$/)?.[1])
+    return this.zip.entries
+      .map(entry => entry.name)
+      .filter(name => !Number.isNaN(bankNumber(name)))
+      .sort((a, b) => bankNumber(a) - bankNumber(b))
+  }
+
+  /**
+   * 解析一个词条文件，同一写法与读音的多行合并为一个词条
+   */
+  async parseTermBank(name: string): Promise<ParsedDictionaryEntry[]> {
+    const entry = this.zip.find(name)
+    if (!entry) return []
+
+    const rows: unknown[][] = JSON.parse(await this.zip.readText(entry))
+    const merged = new Map<string, ParsedDictionaryEntry>()
+
+    for (const row of rows) {
+      if (!Array.isArray(row) || typeof row[0] !== 'string') continue
+
+      const term = row[0]
+      const reading = typeof row[1] === 'string' && row[1] ? row[1] : term
+      // 第 1 版格式的释义直接跟在第 6 列之后
+      const glossary = this.format === 1 ? row.slice(5) : row[5]
+      const glosses = Array.isArray(glossary) ? this.flattenGlossary(glossary) : []
+      if (glosses.length === 0) continue
+
+      const sense: DictionarySense = {
+        partOfSpeech: typeof row[2] === 'string' ? row[2].split(/\s+/).filter(Boolean) : [],
+        glosses,
+      }
+      const score = typeof row[4] === 'number' ? row[4] : 0
+
+      const key = `${term}\u0000${reading}`
+      const existing = merged.get(key)
+      if (existing) {
+        existing.senses.push(sense)
+        existing.score = Math.max(existing.score, score)
+      } else {
+        merged.set(key, {
+          terms: term === reading ? [] : [term],
+          readings: [reading],
+          senses: [sense],
+          score,
+        })
+      }
+    }
+
+    return Array.from(merged.values())
+  }
+
+  private flattenGlossary(glossary: unknown[]): string[] {
+    const glosses: string[] = []
+    for (const item of glossary) {
+      if (typeof item === 'string') {
+        glosses.push(item)
+      } else if (item && typeof item === 'object' && !Array.isArray(item)) {
+        const definition = item as { type?: string; text?: string; content?: unknown }
+        if (definition.type === 'text' && definition.text) {
+          glosses.push(definition.text)
+        } else if (definition.type === 'structured-content') {
+          glosses.push(...this.flattenStructuredContent(definition.content).split('\n'))
+        }
+        // 图片与变形规则（[原形, 规则]）不作为释义
+      }
+    }
+    return glosses.map(gloss => gloss.trim()).filter(gloss => gloss.length > 0)
+  }
+
+  private flattenStructuredContent(content: unknown): string {
+    if (typeof content === 'string') return content
+    if (Array.isArray(content)) {
+      return content.map(item => this.flattenStructuredContent(item)).join('')
+    }
+    if (!content || typeof content !== 'object') return ''
+
+    const node = content as { tag?: string; content?: unknown }
+    if (node.tag === 'img' || node.tag === 'rt' || node.tag === 'rp') return ''
+
+    const text = this.flattenStructuredContent(node.content)
+    return node.tag && BLOCK_TAGS.includes(node.tag) ? `\n${text}\n` : text
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * 最小化的 ZIP 读取器
+ * 只读取中央目录并按需解压单个文件，支持 stored 与 deflate 两种压缩方式（不支持 ZIP64 与加密）
+ */
+
+import { t } from '@/lib/i18n'
+
+export interface ZipEntry {
+  name: string
+  compressionMethod: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+export class ZipReader {
+  private view: DataView
+  private bytes: Uint8Array
+  readonly entries: ZipEntry[]
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer)
+    this.bytes = new Uint8Array(buffer)
+    this.entries = this.readCentralDirectory()
+  }
+
+  find(name: string): ZipEntry | undefined {
+    return this.entries.find(entry => entry.name === name)
+  }
+
+  async readText(entry: ZipEntry): Promise<string> {
+    return new TextDecoder('utf-8').decode(await this.read(entry))
+  }
+
+  async read(entry: ZipEntry): Promise<Uint8Array> {
+    const offset = entry.localHeaderOffset
+    if (this.view.getUint32(offset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(t('dictionary.zip.corruptHeader', { name: entry.name }))
+    }
+
+    // 本地文件头中的扩展字段长度可能与中央目录不同，需以本地文件头为准
+    const nameLength = this.view.getUint16(offset + 26, true)
+    const extraLength = this.view.getUint16(offset + 28, true)
+    const dataStart = offset + 30 + nameLength + extraLength
+    const data = this.bytes.subarray(dataStart, dataStart + entry.compressedSize)
+
+    if (entry.compressionMethod === METHOD_STORED) return data
+    if (entry.compressionMethod !== METHOD_DEFLATE) {
+      throw new Error(
+        t('dictionary.zip.unsupportedCompression', {
+          method: entry.compressionMethod,
+          name: entry.name,
+        })
+      )
+    }
+
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  }
+
+  private readCentralDirectory(): ZipEntry[] {
+    const endOffset = this.findEndOfCentralDirectory()
+    const entryCount = this.view.getUint16(endOffset + 10, true)
+    let offset = this.view.getUint32(endOffset + 16, true)
+
+    if (entryCount === 0xffff || offset === 0xffffffff) {
+      throw new Error(t('dictionary.zip.zip64'))
+    }
+
+    const decoder = new TextDecoder('utf-8')
+    const entries: ZipEntry[] = []
+    for (let i = 0; i < entryCount; i++) {
+      if (this.view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error(t('dictionary.zip.corruptDirectory'))
+      }
+
+      const nameLength = this.view.getUint16(offset + 28, true)
+      const extraLength = this.view.getUint16(offset + 30, true)
+      const commentLength = this.view.getUint16(offset + 32, true)
+
+      entries.push({
+        name: decoder.decode(this.bytes.subarray(offset + 46, offset + 46 + nameLength)),
+        compressionMethod: this.view.getUint16(offset + 10, true),
+        compressedSize: this.view.getUint32(offset + 20, true),
+        localHeaderOffset: this.view.getUint32(offset + 42, true),
+      })
+      offset += 46 + nameLength + extraLength + commentLength
+    }
+    return entries
+  }
+
+  /**
+   * 从文件末尾向前查找中央目录结束记录（其后最多跟 65535 字节的注释）
+   */
+  private findEndOfCentralDirectory(): number {
+    const minOffset = Math.max(0, this.bytes.length - 22 - 0xffff)
+    for (let offset = this.bytes.length - 22; offset >= minOffset; offset--) {
+      if (this.view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset
+    }
+    throw new Error(t('dictionary.zip.invalid'))
+  }
+}
+
+/**
+ * ZIP 文件以 "PK\x03\x04" 开头
+ */
+export function isZipData(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04
+}
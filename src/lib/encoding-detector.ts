@@ -0,0 +1,150 @@
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'shift_jis' | 'euc-jp'
+
+export interface EncodingDetectionResult {
+  encoding: TextEncodingName
+  source: 'bom' | 'heuristic' // 由BOM确定或由启发式推测
+}
+
+export interface DecodedText {
+  text: string
+  encoding: TextEncodingName
+}
+
+// 启发式检测时只采样文件开头部分，避免大文件重复解码
+const SAMPLE_SIZE = 64 * 1024
+
+/**
+ * 文本编码检测器
+ * 支持 BOM、UTF-16 无BOM、UTF-8 校验以及 Shift_JIS / EUC-JP 的启发式判断
+ */
+export class EncodingDetector {
+  static readonly SUPPORTED_ENCODINGS: { value: TextEncodingName; label: string }[] = [
+    { value: 'utf-8', label: 'UTF-8' },
+    { value: 'shift_jis', label: 'Shift_JIS' },
+    { value: 'euc-jp', label: 'EUC-JP' },
+    { value: 'utf-16le', label: 'UTF-16 LE' },
+    { value: 'utf-16be', label: 'UTF-16 BE' },
+  ]
+
+  /**
+   * 检测字节序列的编码
+   */
+  detect(bytes: Uint8Array): EncodingDetectionResult {
+    const bomEncoding = this.detectBOM(bytes)
+    if (bomEncoding) {
+      return { encoding: bomEncoding, source: 'bom' }
+    }
+
+    const sample = bytes.subarray(0, SAMPLE_SIZE)
+
+    const utf16Encoding = this.detectUTF16WithoutBOM(sample)
+    if (utf16Encoding) {
+      return { encoding: utf16Encoding, source: 'heuristic' }
+    }
+
+    if (this.isValidUTF8(sample)) {
+      return { encoding: 'utf-8', source: 'heuristic' }
+    }
+
+    const sjisScore = this.scoreJapaneseText(this.decodeWith(sample, 'shift_jis'))
+    const eucScore = this.scoreJapaneseText(this.decodeWith(sample, 'euc-jp'))
+    return { encoding: eucScore > sjisScore ? 'euc-jp' : 'shift_jis', source: 'heuristic' }
+  }
+
+  /**
+   * 解码字节序列，未指定编码时自动检测
+   */
+  decode(buffer: ArrayBuffer, encoding?: TextEncodingName): DecodedText {
+    const bytes = new Uint8Array(buffer)
+    const resolvedEncoding = encoding || this.detect(bytes).encoding
+
+    // TextDecoder 默认会去掉与编码匹配的 BOM
+    return {
+      text: this.decodeWith(bytes, resolvedEncoding),
+      encoding: resolvedEncoding,
+    }
+  }
+
+  static getLabel(encoding: TextEncodingName): string {
+    return (
+      EncodingDetector.SUPPORTED_ENCODINGS.find(item => item.value === encoding)?.label || encoding
+    )
+  }
+
+  private detectBOM(bytes: Uint8Array): TextEncodingName | null {
+    if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+      return 'utf-8'
+    }
+    if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+      return 'utf-16le'
+    }
+    if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+      return 'utf-16be'
+    }
+    return null
+  }
+
+  /**
+   * 字幕文件包含大量ASCII（序号、时间轴、换行），UTF-16 编码时会在奇数或偶数位产生大量 0x00
+   */
+  private detectUTF16WithoutBOM(bytes: Uint8Array): TextEncodingName | null {
+    if (bytes.length < 4) return null
+
+    let evenZeros = 0
+    let oddZeros = 0
+    for (let i = 0; i < bytes.length; i++) {
+      if (bytes[i] !== 0) continue
+      if (i % 2 === 0) {
+        evenZeros++
+      } else {
+        oddZeros++
+      }
+    }
+
+    const half = bytes.length / 2
+    if (oddZeros / half > 0.2 && evenZeros / half < 0.05) return 'utf-16le'
+    if (evenZeros / half > 0.2 && oddZeros / half < 0.05) return 'utf-16be'
+    return null
+  }
+
+  private isValidUTF8(bytes: Uint8Array): boolean {
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+      return true
+    } catch {
+      // 采样可能截断在多字节字符中间，只允许末尾不完整
+      try {
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true })
+        return bytes.length === SAMPLE_SIZE
+      } catch {
+        return false
+      }
+    }
+  }
+
+  /**
+   * 为解码结果打分：假名与汉字加分，替换字符与半角片假名（典型乱码）扣分
+   */
+  private scoreJapaneseText(text: string): number {
+    let score = 0
+    for (const char of text) {
+      const code = char.codePointAt(0) || 0
+      if (code === 0xfffd) {
+        score -= 10
+      } else if (code >= 0xff61 && code <= 0xff9f) {
+        score -= 2
+      } else if ((code >= 0x3040 && code <= 0x30ff) || code === 0x3001 || code === 0x3002) {
+        score += 2
+      } else if (code >= 0x4e00 && code <= 0x9fff) {
+        score += 1
+      }
+    }
+    return score
+  }
+
+  private decodeWith(bytes: Uint8Array, encoding: TextEncodingName): string {
+    return new TextDecoder(encoding).decode(bytes)
+  }
+}
+
+export const encodingDetector = new EncodingDetector()
@@ -0,0 +1,310 @@
+/**
+ * Anki 牌组包（.apkg）导出
+ * .apkg 是包含 collection.anki2（SQLite 数据库）、media（媒体文件映射）与媒体文件的 ZIP；
+ * 笔记类型固定为 Word / Reading / Definition / Sentence / Screenshot / Source 六个字段，
+ * 截图以单独的 JPEG 媒体文件保存，不再内联为 base64
+ */
+
+import type { FlashCard } from '@/types'
+import { CSVFormatter, CSVExportFormat } from '@/lib/csv-formatter'
+import { getScreenshotFileName, screenshotToJpeg } from './media'
+import { SQLiteWriter, type SQLiteRow } from './sqlite-writer'
+import { ZipWriter } from './zip-writer'
+
+// 笔记类型与牌组使用固定 id，重复导入时 Anki 会沿用已有的笔记类型与牌组
+const MODEL_ID = 1735689600000
+const DECK_ID = 1735689600001
+const DEFAULT_DECK_NAME = 'Immersive Memorize'
+
+const NOTE_FIELDS = ['Word', 'Reading', 'Definition', 'Sentence', 'Screenshot', 'Source']
+const NOTE_TAG = 'immersive-memorize'
+
+// 输出 HTML 的句子格式，其余格式为纯文本
+const HTML_SENTENCE_FORMATS = [CSVExportFormat.ANKI_HTML, CSVExportFormat.RICH_TEXT]
+
+const FRONT_TEMPLATE = `<div class="sentence">{{furigana:Sentence}}</div>
+<div class="word">{{Word}}</div>`
+
+const BACK_TEMPLATE = `{{FrontSide}}
+<hr id="answer">
+<div class="reading">{{Reading}}</div>
+<div class="definition">{{Definition}}</div>
+<div class="screenshot">{{Screenshot}}</div>
+<div class="source">{{Source}}</div>`
+
+const CARD_CSS = `.card {
+  font-family: "Hiragino Sans", "Noto Sans JP", sans-serif;
+  font-size: 20px;
+  text-align: center;
+  color: #1f2937;
+  background-color: #ffffff;
+}
+.sentence { font-size: 24px; margin-bottom: 16px; }
+.word { font-size: 32px; font-weight: bold; }
+.reading { font-size: 20px; color: #6b7280; }
+.definition { margin: 12px 0; white-space: pre-line; }
+.screenshot img { max-width: 100%; border-radius: 8px; }
+.source { font-size: 14px; color: #9ca3af; margin-top: 8px; }`
+
+// Anki 2.1 旧版（schema 11）集合的表结构
+const SCHEMA: Array<[string, string]> = [
+  [
+    'col',
+    'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)',
+  ],
+  [
+    'notes',
+    'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)',
+  ],
+  [
+    'cards',
+    'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)',
+  ],
+  [
+    'revlog',
+    'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)',
+  ],
+  [
+    'graves',
+    'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)',
+  ],
+]
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export interface ApkgExportOptions {
+  deckName?: string
+  // 句子格式，默认为 Anki 注音格式（漢字[かんじ]），由模板中的 furigana 过滤器显示
+  sentenceFormat?: CSVExportFormat
+}
+
+export class ApkgExporter {
+  private csvFormatter = new CSVFormatter()
+
+  async export(cards: FlashCard[], options: ApkgExportOptions = {}): Promise<Blob> {
+    if (cards.length === 0) {
+      throw new Error('没有卡片可导出')
+    }
+
+    const deckName = options.deckName || DEFAULT_DECK_NAME
+    const sentenceFormat = options.sentenceFormat ?? CSVExportFormat.ANKI_FURIGANA
+    const zip = new ZipWriter()
+    const media: Record<string, string> = {}
+    const noteRows: SQLiteRow[] = []
+    const cardRows: SQLiteRow[] = []
+    const now = Math.floor(Date.now() / 1000)
+
+    await this.csvFormatter.prepareReadings(cards, sentenceFormat)
+
+    // 笔记与卡片的 rowid 需升序写入
+    const sortedCards = [...cards].sort((a, b) => a.id - b.id)
+    for (const [index, card] of sortedCards.entries()) {
+      let screenshotField = ''
+      if (card.screenshot) {
+        const fileName = getScreenshotFileName(card)
+        const mediaIndex = String(Object.keys(media).length)
+        await zip.add(mediaIndex, await screenshotToJpeg(card.screenshot), false)
+        media[mediaIndex] = fileName
+        screenshotField = `<img src="${fileName}">`
+      }
+
+      const sentence = this.csvFormatter.formatSentence(card.sentence, sentenceFormat, card.word)
+
+      // Anki 按 HTML 渲染字段：除截图的 img 标签与 HTML 句子格式外，其余内容均为纯文本，需要转义
+      const fields = [
+        escapeHtml(card.word),
+        escapeHtml(card.reading || ''),
+        escapeHtml(card.definition || ''),
+        HTML_SENTENCE_FORMATS.includes(sentenceFormat) ? sentence : escapeHtml(sentence),
+        screenshotField,
+        escapeHtml(card.sourceTitle),
+      ]
+
+      noteRows.push({
+        rowid: card.id,
+        values: [
+          null,
+          // guid 由卡片 id 生成，重复导入同一张卡片时 Anki 会更新而不是新建笔记
+          `im-${card.id}`,
+          MODEL_ID,
+          now,
+          -1,
+          ` ${NOTE_TAG} `,
+          fields.join('\x1f'),
+          card.word,
+          await this.fieldChecksum(card.word),
+          0,
+          '',
+        ],
+      })
+      cardRows.push({
+        rowid: card.id,
+        // 新卡片：type 与 queue 为 0，due 为新卡片顺序
+        values: [null, card.id, DECK_ID, 0, now, -1, 0, 0, index + 1, 0, 0, 0, 0, 0, 0, 0, 0, ''],
+      })
+    }
+
+    const sqlite = new SQLiteWriter()
+    const rowsByTable: Record<string, SQLiteRow[]> = {
+      col: [this.buildCollectionRow(deckName, now)],
+      notes: noteRows,
+      cards: cardRows,
+    }
+    for (const [name, sql] of SCHEMA) {
+      sqlite.addTable(name, sql, rowsByTable[name])
+    }
+
+    await zip.add('collection.anki2', sqlite.build())
+    await zip.add('media', JSON.stringify(media))
+    return zip.toBlob()
+  }
+
+  private buildCollectionRow(deckName: string, now: number): SQLiteRow {
+    const nowMs = now * 1000
+    const dayStart = new Date()
+    dayStart.setHours(4, 0, 0, 0)
+
+    const conf = {
+      activeDecks: [1],
+      curDeck: 1,
+      newSpread: 0,
+      collapseTime: 1200,
+      timeLim: 0,
+      estTimes: true,
+      dueCounts: true,
+      curModel: MODEL_ID,
+      nextPos: 1,
+      sortType: 'noteFld',
+      sortBackwards: false,
+      addToCur: true,
+    }
+
+    const model = {
+      id: MODEL_ID,
+      name: 'Immersive Memorize',
+      type: 0,
+      mod: now,
+      usn: -1,
+      sortf: 0,
+      did: DECK_ID,
+      tmpls: [
+        {
+          name: 'Card 1',
+          ord: 0,
+          qfmt: FRONT_TEMPLATE,
+          afmt: BACK_TEMPLATE,
+          did: null,
+          bqfmt: '',
+          bafmt: '',
+        },
+      ],
+      flds: NOTE_FIELDS.map((name, ord) => ({
+        name,
+        ord,
+        sticky: false,
+        rtl: false,
+        font: 'Arial',
+        size: 20,
+        media: [],
+      })),
+      css: CARD_CSS,
+      latexPre:
+        '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+      latexPost: '\\end{document}',
+      latexsvg: false,
+      // 卡片 1 只要 Word 字段非空即生成
+      req: [[0, 'any', [0]]],
+      tags: [],
+      vers: [],
+    }
+
+    const deck = (id: number, name: string) => ({
+      id,
+      name,
+      mod: now,
+      usn: -1,
+      desc: '',
+      dyn: 0,
+      conf: 1,
+      collapsed: false,
+      browserCollapsed: false,
+      extendNew: 0,
+      extendRev: 0,
+      newToday: [0, 0],
+      revToday: [0, 0],
+      lrnToday: [0, 0],
+      timeToday: [0, 0],
+    })
+
+    const deckConfig = {
+      id: 1,
+      name: 'Default',
+      mod: 0,
+      usn: 0,
+      maxTaken: 60,
+      autoplay: true,
+      timer: 0,
+      replayq: true,
+      dyn: false,
+      new: {
+        bury: false,
+        delays: [1, 10],
+        initialFactor: 2500,
+        ints: [1, 4, 0],
+        order: 1,
+        perDay: 20,
+      },
+      rev: {
+        bury: false,
+        ease4: 1.3,
+        ivlFct: 1,
+        maxIvl: 36500,
+        perDay: 200,
+        hardFactor: 1.2,
+      },
+      lapse: {
+        delays: [10],
+        leechAction: 1,
+        leechFails: 8,
+        minInt: 1,
+        mult: 0,
+      },
+    }
+
+    return {
+      rowid: 1,
+      values: [
+        null,
+        Math.floor(dayStart.getTime() / 1000),
+        nowMs,
+        nowMs,
+        11,
+        0,
+        0,
+        0,
+        JSON.stringify(conf),
+        JSON.stringify({ [MODEL_ID]: model }),
+        JSON.stringify({ 1: deck(1, 'Default'), [DECK_ID]: deck(DECK_ID, deckName) }),
+        JSON.stringify({ 1: deckConfig }),
+        '{}',
+      ],
+    }
+  }
+
+  /**
+   * Anki 用第一个字段（去除 HTML 后）SHA-1 的前 8 位十六进制作为重复检测的校验和
+   */
+  private async fieldChecksum(field: string): Promise<number> {
+    const text = field.replace(/<[^>]*>/g, '')
+    const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text))
+    return new DataView(digest).getUint32(0)
+  }
+}
+
+export const apkgExporter = new ApkgExporter()
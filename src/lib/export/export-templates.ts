@@ -0,0 +1,329 @@
+/**
+ * 自定义导出模板
+ * 模板决定导出的列及其顺序、分隔符、引号规则与文件编码；多个模板以命名预设保存在
+ * chrome.storage.local 的 exportTemplates 中，activeExportTemplateId 记录当前选中的模板
+ */
+
+import type { ExportEncoding, ExportField, ExportTemplate, FlashCard } from '@/types'
+import { CSVFormatter, CSVExportFormat } from '@/lib/csv-formatter'
+import { t, type MessageKey } from '@/lib/i18n'
+import type { ExportFile } from './types'
+import { ZipWriter } from './zip-writer'
+import { addScreenshotsToZip, getScreenshotFileName } from './media'
+
+export const EXPORT_TEMPLATES_KEY = 'exportTemplates'
+export const ACTIVE_EXPORT_TEMPLATE_KEY = 'activeExportTemplateId'
+
+// 列名称的消息 key，显示时经 t() 翻译
+export const EXPORT_FIELD_LABELS: Record<ExportField, MessageKey> = {
+  word: 'export.field.word',
+  reading: 'export.field.reading',
+  definition: 'export.field.definition',
+  glosses: 'export.field.glosses',
+  sentence: 'export.field.sentence',
+  sentenceFurigana: 'export.field.sentenceFurigana',
+  sentenceCloze: 'export.field.sentenceCloze',
+  screenshot: 'export.field.screenshot',
+  source: 'export.field.source',
+  showTitle: 'export.field.showTitle',
+  season: 'export.field.season',
+  episode: 'export.field.episode',
+  episodeTitle: 'export.field.episodeTitle',
+  level: 'export.field.level',
+  timestamp: 'export.field.timestamp',
+  createdAt: 'export.field.createdAt',
+}
+
+// 表头使用固定的英文列名，便于在 Anki 等工具中按列名映射字段，不随界面语言变化
+const EXPORT_FIELD_HEADERS: Record<ExportField, string> = {
+  word: 'Word',
+  reading: 'Reading',
+  definition: 'Definition',
+  glosses: 'Glosses',
+  sentence: 'Sentence',
+  sentenceFurigana: 'SentenceFurigana',
+  sentenceCloze: 'SentenceCloze',
+  screenshot: 'Screenshot',
+  source: 'Source',
+  showTitle: 'Show',
+  season: 'Season',
+  episode: 'Episode',
+  episodeTitle: 'EpisodeTitle',
+  level: 'Level',
+  timestamp: 'Timestamp',
+  createdAt: 'CreatedAt',
+}
+
+// 默认模板与原有的 Anki CSV 导出列一致
+export const DEFAULT_EXPORT_TEMPLATE: ExportTemplate = {
+  id: 'default',
+  name: 'Anki CSV',
+  fields: ['word', 'reading', 'definition', 'sentence', 'screenshot', 'timestamp', 'source'],
+  separator: ';',
+  quoting: 'auto',
+  encoding: 'utf-8',
+  includeHeader: true,
+  sentenceFormat: 'anki-html',
+  mediaAsFiles: false,
+}
+
+export interface ExportPreview {
+  header: string[]
+  rows: string[][]
+}
+
+export class ExportTemplateManager {
+  private csvFormatter = new CSVFormatter()
+
+  async getTemplates(): Promise<ExportTemplate[]> {
+    const result = await chrome.storage.local.get(EXPORT_TEMPLATES_KEY)
+    const templates: ExportTemplate[] = result[EXPORT_TEMPLATES_KEY] || []
+    // 旧版本保存的模板可能缺少后来新增的设置，以默认值补齐
+    return templates.length > 0
+      ? templates.map(template => ({ ...DEFAULT_EXPORT_TEMPLATE, ...template }))
+      : [DEFAULT_EXPORT_TEMPLATE]
+  }
+
+  async getActiveTemplate(): Promise<ExportTemplate> {
+    const [templates, result] = await Promise.all([
+      this.getTemplates(),
+      chrome.storage.local.get(ACTIVE_EXPORT_TEMPLATE_KEY),
+    ])
+    return (
+      templates.find(template => template.id === result[ACTIVE_EXPORT_TEMPLATE_KEY]) || templates[0]
+    )
+  }
+
+  async setActiveTemplate(id: string): Promise<void> {
+    await chrome.storage.local.set({ [ACTIVE_EXPORT_TEMPLATE_KEY]: id })
+  }
+
+  /**
+   * 保存模板（同 id 则覆盖）并设为当前模板
+   */
+  async saveTemplate(template: ExportTemplate): Promise<void> {
+    const templates = await this.getTemplates()
+    const index = templates.findIndex(existing => existing.id === template.id)
+    if (index >= 0) {
+      templates[index] = template
+    } else {
+      templates.push(template)
+    }
+
+    await chrome.storage.local.set({
+      [EXPORT_TEMPLATES_KEY]: templates,
+      [ACTIVE_EXPORT_TEMPLATE_KEY]: template.id,
+    })
+  }
+
+  /**
+   * 删除模板，删除最后一个模板后恢复为默认模板
+   */
+  async deleteTemplate(id: string): Promise<void> {
+    const templates = (await this.getTemplates()).filter(template => template.id !== id)
+    await chrome.storage.local.set({
+      [EXPORT_TEMPLATES_KEY]: templates,
+      [ACTIVE_EXPORT_TEMPLATE_KEY]: templates[0]?.id || DEFAULT_EXPORT_TEMPLATE.id,
+    })
+  }
+
+  /**
+   * 以现有模板为基础创建新模板（尚未保存）
+   */
+  createTemplate(name: string, base: ExportTemplate = DEFAULT_EXPORT_TEMPLATE): ExportTemplate {
+    return { ...base, fields: [...base.fields], id: `template-${Date.now()}`, name }
+  }
+
+  /**
+   * 生成预览：表头与前几行的单元格内容（未转义）
+   */
+  async preview(cards: FlashCard[], template: ExportTemplate, limit = 5): Promise<ExportPreview> {
+    const previewCards = cards.slice(0, limit)
+    await this.prepareReadings(previewCards, template)
+    return {
+      header: template.fields.map(field => EXPORT_FIELD_HEADERS[field]),
+      rows: previewCards.map(card => this.buildRow(card, template)),
+    }
+  }
+
+  /**
+   * 注音句子需要预先取得分析器读音、挖空句子需要定位活用形，导出前调用
+   */
+  async prepareReadings(cards: FlashCard[], template: ExportTemplate): Promise<void> {
+    const usesFurigana =
+      template.fields.includes('sentenceFurigana') ||
+      (template.fields.includes('sentence') && template.sentenceFormat === 'anki-furigana')
+    if (usesFurigana) {
+      await this.csvFormatter.prepareReadings(cards, CSVExportFormat.ANKI_FURIGANA)
+    }
+    if (this.usesCloze(template)) {
+      await this.csvFormatter.prepareClozeTargets(cards)
+    }
+  }
+
+  /**
+   * 按模板生成导出文本（注音句子需先调用 prepareReadings）
+   */
+  formatText(cards: FlashCard[], template: ExportTemplate): string {
+    if (cards.length === 0) {
+      throw new Error('没有卡片可导出')
+    }
+    if (template.fields.length === 0) {
+      throw new Error('导出模板没有选择任何列')
+    }
+
+    const rows = cards.map(card => this.buildRow(card, template))
+    if (template.includeHeader) {
+      rows.unshift(template.fields.map(field => EXPORT_FIELD_HEADERS[field]))
+    }
+
+    return rows
+      .map(row => row.map(value => this.quoteField(value, template)).join(template.separator))
+      .join('\n')
+  }
+
+  /**
+   * 生成导出文件；截图单独打包时导出为包含表格与 images/ 文件夹的 ZIP
+   */
+  async export(cards: FlashCard[], template: ExportTemplate): Promise<ExportFile> {
+    await this.prepareReadings(cards, template)
+    const data = this.encode(this.formatText(cards, template), template.encoding)
+    const extension = this.getFileExtension(template)
+    const warnings = this.getWarnings(cards, template)
+
+    if (template.mediaAsFiles && template.fields.includes('screenshot')) {
+      const zip = new ZipWriter()
+      await zip.add(`immersive-memorize.${extension}`, data)
+      await addScreenshotsToZip(zip, cards)
+      return { blob: zip.toBlob(), extension: 'zip', warnings }
+    }
+
+    const mimeType = extension === 'tsv' ? 'text/tab-separated-values' : 'text/csv'
+    const charset = template.encoding === 'utf-16le' ? 'utf-16le' : 'utf-8'
+    return {
+      blob: new Blob([data], { type: `${mimeType};charset=${charset}` }),
+      extension,
+      warnings,
+    }
+  }
+
+  getFileExtension(template: ExportTemplate): string {
+    return template.separator === '\t' ? 'tsv' : 'csv'
+  }
+
+  private usesCloze(template: ExportTemplate): boolean {
+    return (
+      template.fields.includes('sentenceCloze') ||
+      (template.fields.includes('sentence') && template.sentenceFormat === 'anki-cloze')
+    )
+  }
+
+  private getWarnings(cards: FlashCard[], template: ExportTemplate): string[] {
+    if (!this.usesCloze(template)) return []
+    const count = this.csvFormatter.getUnclozableCards(cards).length
+    return count > 0 ? [t('export.clozeMissing', { count })] : []
+  }
+
+  private buildRow(card: FlashCard, template: ExportTemplate): string[] {
+    return template.fields.map(field => this.formatField(card, field, template))
+  }
+
+  private formatField(card: FlashCard, field: ExportField, template: ExportTemplate): string {
+    switch (field) {
+      case 'word':
+        return card.word
+      case 'reading':
+        return card.reading || ''
+      case 'definition':
+        return card.definition || ''
+      case 'glosses':
+        return card.glosses || ''
+      case 'sentence':
+        return this.csvFormatter.formatSentence(
+          card.sentence,
+          CSVFormatter.createOptionsFromFormat(template.sentenceFormat).format,
+          card.word
+        )
+      case 'sentenceFurigana':
+        return this.csvFormatter.formatSentence(
+          card.sentence,
+          CSVExportFormat.ANKI_FURIGANA,
+          card.word
+        )
+      case 'sentenceCloze':
+        return this.csvFormatter.formatClozeSentence(card.sentence, card.word)
+      case 'screenshot':
+        return this.formatScreenshot(card, template)
+      case 'source':
+        return card.sourceTitle
+      case 'showTitle':
+        return card.showTitle || ''
+      case 'season':
+        return card.seasonNumber || ''
+      case 'episode':
+        return card.episodeNumber || ''
+      case 'episodeTitle':
+        return card.episodeTitle || ''
+      case 'level':
+        return card.level || ''
+      case 'timestamp':
+        return this.csvFormatter.formatTimestamp(card.timestamp)
+      case 'createdAt':
+        return card.createdAt
+    }
+  }
+
+  private formatScreenshot(card: FlashCard, template: ExportTemplate): string {
+    if (!card.screenshot) return ''
+
+    const source = template.mediaAsFiles ? getScreenshotFileName(card) : card.screenshot
+    // 纯文本格式下不输出 HTML，内联截图无法以纯文本表示
+    if (template.sentenceFormat === 'plain-text') {
+      return template.mediaAsFiles ? source : ''
+    }
+    return `<img src="${source}">`
+  }
+
+  /**
+   * auto：仅在包含分隔符、引号或换行时加引号；always：所有字段加引号；
+   * never：不加引号，换行替换为空格以免破坏行结构
+   */
+  private quoteField(value: string, template: ExportTemplate): string {
+    switch (template.quoting) {
+      case 'always':
+        return `"${value.replace(/"/g, '""')}"`
+      case 'never':
+        return value.replace(/\r?\n/g, ' ')
+      case 'auto':
+      default: {
+        const needsQuoting =
+          value.includes(template.separator) || /["\r\n]/.test(value) || value !== value.trim()
+        return needsQuoting ? `"${value.replace(/"/g, '""')}"` : value
+      }
+    }
+  }
+
+  /**
+   * 带 BOM 的编码便于 Excel 正确识别中日文
+   */
+  private encode(text: string, encoding: ExportEncoding): Uint8Array {
+    switch (encoding) {
+      case 'utf-16le': {
+        const bytes = new Uint8Array(2 + text.length * 2)
+        const view = new DataView(bytes.buffer)
+        view.setUint16(0, 0xfeff, true)
+        for (let i = 0; i < text.length; i++) {
+          view.setUint16(2 + i * 2, text.charCodeAt(i), true)
+        }
+        return bytes
+      }
+      case 'utf-8-bom':
+        return new TextEncoder().encode(`\ufeff${text}`)
+      case 'utf-8':
+      default:
+        return new TextEncoder().encode(text)
+    }
+  }
+}
+
+export const exportTemplateManager = new ExportTemplateManager()
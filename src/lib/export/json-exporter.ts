@@ -0,0 +1,95 @@
+/**
+ * JSON 导出：完整保存卡片的所有字段（含截图）与复习进度，可通过设置页重新导入
+ */
+
+import type { FlashCard, ReviewState } from '@/types'
+import { storageService } from '@/lib/storage'
+import { t } from '@/lib/i18n'
+import type { CardExporter, ExportFile } from './types'
+
+const JSON_EXPORT_FORMAT = 'immersive-memorize-cards'
+// 版本 2 起每张卡片附带复习进度（review），版本 1 的文件仍可导入
+const JSON_EXPORT_VERSION = 2
+
+export interface ExportedCard extends FlashCard {
+  review?: ReviewState // 从未复习过的卡片没有复习进度
+}
+
+export interface ImportedCard {
+  card: FlashCard
+  review?: ReviewState
+}
+
+interface CardsJSON {
+  format: typeof JSON_EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  cards: ExportedCard[]
+}
+
+export class JsonExporter implements CardExporter {
+  readonly id = 'json'
+  readonly label = 'export.format.json' as const
+  readonly description = 'export.format.jsonDescription' as const
+
+  async export(cards: FlashCard[]): Promise<ExportFile> {
+    const reviews = new Map(
+      (await storageService.getAllReviewStates()).map(review => [review.cardId, review])
+    )
+
+    const data: CardsJSON = {
+      format: JSON_EXPORT_FORMAT,
+      version: JSON_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      cards: cards.map(card => ({ ...card, review: reviews.get(card.id) })),
+    }
+    return {
+      blob: new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }),
+      extension: 'json',
+    }
+  }
+
+  /**
+   * 解析导出的 JSON，缺少必要字段的卡片会被忽略，无效的复习进度按未复习处理
+   */
+  parse(text: string): ImportedCard[] {
+    let data: Partial<CardsJSON>
+    try {
+      data = JSON.parse(text)
+    } catch {
+      throw new Error(t('export.json.invalidJson'))
+    }
+
+    if (data.format !== JSON_EXPORT_FORMAT || !Array.isArray(data.cards)) {
+      throw new Error(t('export.json.notCardsFile'))
+    }
+
+    return data.cards
+      .filter(
+        card =>
+          card &&
+          typeof card.id === 'number' &&
+          typeof card.word === 'string' &&
+          typeof card.sentence === 'string'
+      )
+      .map(({ review, ...card }) => ({
+        card,
+        review: this.isValidReview(review, card.id) ? review : undefined,
+      }))
+  }
+
+  private isValidReview(review: ReviewState | undefined, cardId: number): review is ReviewState {
+    return (
+      !!review &&
+      review.cardId === cardId &&
+      typeof review.due === 'string' &&
+      !Number.isNaN(Date.parse(review.due)) &&
+      typeof review.interval === 'number' &&
+      typeof review.ease === 'number' &&
+      typeof review.repetitions === 'number' &&
+      typeof review.lapses === 'number'
+    )
+  }
+}
+
+export const jsonExporter = new JsonExporter()
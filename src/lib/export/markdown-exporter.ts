@@ -0,0 +1,97 @@
+/**
+ * Markdown 学习笔记：按剧集（作品 / 季 / 集）分组，每个词汇列出读音、释义与高亮的例句
+ */
+
+import type { FlashCard } from '@/types'
+import { CSVFormatter } from '@/lib/csv-formatter'
+import type { CardExporter, ExportFile } from './types'
+
+export class MarkdownExporter implements CardExporter {
+  readonly id = 'markdown'
+  readonly label = 'export.format.markdown' as const
+  readonly description = 'export.format.markdownDescription' as const
+
+  private csvFormatter = new CSVFormatter()
+
+  async export(cards: FlashCard[]): Promise<ExportFile> {
+    // 例句没有高亮标记时，借助分析器定位活用形以便加粗
+    await this.csvFormatter.prepareClozeTargets(cards)
+    const lines = ['# Immersive Memorize', '']
+
+    for (const [show, showCards] of this.groupBy(
+      cards,
+      card => card.showTitle || card.sourceTitle
+    )) {
+      lines.push(`## ${this.escape(show)}`, '')
+
+      for (const [episode, episodeCards] of this.groupBy(showCards, card =>
+        this.getEpisodeTitle(card)
+      )) {
+        if (episode) lines.push(`### ${this.escape(episode)}`, '')
+
+        for (const card of [...episodeCards].sort((a, b) => a.timestamp - b.timestamp)) {
+          lines.push(...this.formatCard(card), '')
+        }
+      }
+    }
+
+    return {
+      blob: new Blob([lines.join('\n')], { type: 'text/markdown;charset=utf-8' }),
+      extension: 'md',
+    }
+  }
+
+  private formatCard(card: FlashCard): string[] {
+    const heading = card.reading ? `${card.word}（${card.reading}）` : card.word
+    const lines = [`- **${this.escape(heading)}**${card.level ? ` \`${card.level}\`` : ''}`]
+
+    const definition = card.definition || card.glosses
+    if (definition) {
+      lines.push(`  - ${this.escape(definition.replace(/\s*\n\s*/g, '; '))}`)
+    }
+
+    if (card.sentence) {
+      // 例句中的目标词加粗
+      const sentence = this.csvFormatter.replaceTargetWord(
+        card.sentence,
+        card.word,
+        text => `**${this.escape(text)}**`
+      )
+      lines.push(`  - > ${sentence}`)
+    }
+
+    lines.push(`  - ${this.csvFormatter.formatTimestamp(card.timestamp)}`)
+    return lines
+  }
+
+  private getEpisodeTitle(card: FlashCard): string {
+    const parts: string[] = []
+    if (card.seasonNumber) parts.push(`S${card.seasonNumber}`)
+    if (card.episodeNumber) parts.push(`E${card.episodeNumber}`)
+
+    const number = parts.join('')
+    if (number && card.episodeTitle) return `${number} ${card.episodeTitle}`
+    return number || card.episodeTitle || ''
+  }
+
+  /**
+   * 按 key 分组，保持各组第一次出现的顺序
+   */
+  private groupBy(cards: FlashCard[], key: (card: FlashCard) => string): Map<string, FlashCard[]> {
+    const groups = new Map<string, FlashCard[]>()
+    for (const card of cards) {
+      const value = key(card)
+      groups.set(value, [...(groups.get(value) || []), card])
+    }
+    return groups
+  }
+
+  /**
+   * 转义会被解析为 Markdown 语法的字符
+   */
+  private escape(text: string): string {
+    return text.replace(/([\\`*_[\]#<>|])/g, '\\$1')
+  }
+}
+
+export const markdownExporter = new MarkdownExporter()
@@ -0,0 +1,56 @@
+/**
+ * 导出时的截图媒体文件
+ * 截图以 data URL 保存在卡片中，导出为单独文件时统一转换为 JPEG，
+ * 文件名由卡片 id 生成，可直接放入 Anki 的 collection.media 文件夹
+ */
+
+import type { FlashCard } from '@/types'
+import type { ZipWriter } from './zip-writer'
+
+// 截图转换为 JPEG 时的质量
+const JPEG_QUALITY = 0.85
+
+export function getScreenshotFileName(card: FlashCard): string {
+  return `im_${card.id}.jpg`
+}
+
+/**
+ * 读取截图数据，非 JPEG 格式时重新编码
+ */
+export async function screenshotToJpeg(dataUrl: string): Promise<Uint8Array> {
+  const blob = await (await fetch(dataUrl)).blob()
+  if (blob.type === 'image/jpeg') {
+    return new Uint8Array(await blob.arrayBuffer())
+  }
+
+  const bitmap = await createImageBitmap(blob)
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+  const context = canvas.getContext('2d')!
+  // JPEG 不支持透明，先铺白色背景
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, bitmap.width, bitmap.height)
+  context.drawImage(bitmap, 0, 0)
+  bitmap.close()
+
+  const jpeg = await canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY })
+  return new Uint8Array(await jpeg.arrayBuffer())
+}
+
+/**
+ * 将卡片截图以 <folder>/im_<卡片id>.jpg 添加到 ZIP
+ */
+export async function addScreenshotsToZip(
+  zip: ZipWriter,
+  cards: FlashCard[],
+  folder = 'images'
+): Promise<void> {
+  for (const card of cards) {
+    if (!card.screenshot) continue
+    // JPEG 已经压缩，直接存储
+    await zip.add(
+      `${folder}/${getScreenshotFileName(card)}`,
+      await screenshotToJpeg(card.screenshot),
+      false
+    )
+  }
+}
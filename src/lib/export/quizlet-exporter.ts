@@ -0,0 +1,34 @@
+/**
+ * Quizlet 导出：每行一张卡片，词语与释义之间用制表符分隔（Quizlet 导入的默认格式）
+ */
+
+import type { FlashCard } from '@/types'
+import type { CardExporter, ExportFile } from './types'
+
+export class QuizletExporter implements CardExporter {
+  readonly id = 'quizlet'
+  readonly label = 'export.format.quizlet' as const
+  readonly description = 'export.format.quizletDescription' as const
+
+  async export(cards: FlashCard[]): Promise<ExportFile> {
+    const lines = cards.map(card => {
+      const term =
+        card.reading && card.reading !== card.word ? `${card.word} (${card.reading})` : card.word
+      return `${this.clean(term)}\t${this.clean(card.definition || card.glosses || '')}`
+    })
+
+    return {
+      blob: new Blob([lines.join('\n')], { type: 'text/plain;charset=utf-8' }),
+      extension: 'txt',
+    }
+  }
+
+  /**
+   * 制表符与换行会破坏 Quizlet 的行列结构
+   */
+  private clean(text: string): string {
+    return text.replace(/[\t\r\n]+/g, ' ').trim()
+  }
+}
+
+export const quizletExporter = new QuizletExporter()
@@ -0,0 +1,38 @@
+/**
+ * 导出器注册表
+ * 新的导出格式只需实现 CardExporter 并在这里注册，设置页会自动列出
+ */
+
+import type { CardExporter } from './types'
+import { jsonExporter } from './json-exporter'
+import { markdownExporter } from './markdown-exporter'
+import { quizletExporter } from './quizlet-exporter'
+import { sentenceCardExporter } from './sentence-card-exporter'
+
+export class ExporterRegistry {
+  private exporters = new Map<string, CardExporter>()
+
+  register(exporter: CardExporter): void {
+    if (this.exporters.has(exporter.id)) {
+      console.warn(`[ExporterRegistry] 导出器已注册，将被替换: ${exporter.id}`)
+    }
+    this.exporters.set(exporter.id, exporter)
+  }
+
+  get(id: string): CardExporter | undefined {
+    return this.exporters.get(id)
+  }
+
+  /**
+   * 按注册顺序返回所有导出器
+   */
+  getAll(): CardExporter[] {
+    return Array.from(this.exporters.values())
+  }
+}
+
+export const exporterRegistry = new ExporterRegistry()
+exporterRegistry.register(jsonExporter)
+exporterRegistry.register(markdownExporter)
+exporterRegistry.register(quizletExporter)
+exporterRegistry.register(sentenceCardExporter)
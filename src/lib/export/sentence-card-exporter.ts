@@ -0,0 +1,91 @@
+/**
+ * 句子卡片导出（Yomitan / Migaku 风格）
+ * 列名与 Yomitan 的 Anki 字段标记对应，句子使用 漢字[かんじ] 注音格式（Migaku 使用相同语法），
+ * 并将句子按目标词拆为挖空前、挖空词与挖空后三列；有截图时与 images/ 文件夹一起打包为 ZIP
+ */
+
+import type { FlashCard } from '@/types'
+import { CSVFormatter, CSVExportFormat } from '@/lib/csv-formatter'
+import { t } from '@/lib/i18n'
+import type { CardExporter, ExportFile } from './types'
+import { ZipWriter } from './zip-writer'
+import { addScreenshotsToZip, getScreenshotFileName } from './media'
+
+const COLUMNS = [
+  'Expression',
+  'Reading',
+  'Glossary',
+  'Sentence',
+  'ClozePrefix',
+  'ClozeBody',
+  'ClozeSuffix',
+  'Picture',
+  'DocumentTitle',
+]
+
+const CLOZE_PATTERN = /^([\s\S]*?)\{\{c1::([\s\S]*?)\}\}([\s\S]*)$/
+
+export class SentenceCardExporter implements CardExporter {
+  readonly id = 'sentence-cards'
+  readonly label = 'export.format.sentenceCards' as const
+  readonly description = 'export.format.sentenceCardsDescription' as const
+
+  private csvFormatter = new CSVFormatter()
+
+  async export(cards: FlashCard[]): Promise<ExportFile> {
+    await this.csvFormatter.prepareReadings(cards, CSVExportFormat.ANKI_FURIGANA)
+    await this.csvFormatter.prepareClozeTargets(cards)
+    const unclozable = this.csvFormatter.getUnclozableCards(cards).length
+    const warnings = unclozable > 0 ? [t('export.clozeMissing', { count: unclozable })] : []
+
+    const rows = cards.map(card =>
+      this.buildRow(card)
+        .map(value => this.clean(value))
+        .join('\t')
+    )
+    const content = [COLUMNS.join('\t'), ...rows].join('\n')
+
+    if (!cards.some(card => card.screenshot)) {
+      return {
+        blob: new Blob([content], { type: 'text/tab-separated-values;charset=utf-8' }),
+        extension: 'tsv',
+        warnings,
+      }
+    }
+
+    const zip = new ZipWriter()
+    await zip.add('sentence-cards.tsv', content)
+    await addScreenshotsToZip(zip, cards)
+    return { blob: zip.toBlob(), extension: 'zip', warnings }
+  }
+
+  private buildRow(card: FlashCard): string[] {
+    const cloze = this.csvFormatter.formatSentence(
+      card.sentence,
+      CSVExportFormat.ANKI_CLOZE,
+      card.word
+    )
+    const [, prefix = cloze, body = '', suffix = ''] = cloze.match(CLOZE_PATTERN) || []
+
+    return [
+      card.word,
+      card.reading || '',
+      (card.definition || card.glosses || '').replace(/\r?\n/g, '<br>'),
+      this.csvFormatter.formatSentence(card.sentence, CSVExportFormat.ANKI_FURIGANA, card.word),
+      prefix,
+      body,
+      suffix,
+      card.screenshot ? `<img src="${getScreenshotFileName(card)}">` : '',
+      card.sourceTitle,
+    ]
+  }
+
+  /**
+   * 制表符与换行会破坏 TSV 的行列结构
+   */
+  private clean(text: string): string {
+    return text.replace(/[\t\r\n]+/g, ' ')
+  }
+}
+
+export const sentenceCardExporter = new SentenceCardExporter()
@@ -0,0 +1,324 @@
+/**
+ * 最小化的 SQLite 数据库文件写入器
+ * 按 SQLite 文件格式（https://www.sqlite.org/fileformat.html）一次性生成只含普通表的数据库，
+ * 用于在浏览器中生成 Anki 的 collection.anki2，不需要引入 WebAssembly 版 SQLite。
+ * 不生成索引，行需按 rowid 升序传入
+ */
+
+export type SQLiteValue = null | number | string | Uint8Array
+
+export interface SQLiteRow {
+  rowid: number
+  // INTEGER PRIMARY KEY 列是 rowid 的别名，对应位置应传入 null
+  values: SQLiteValue[]
+}
+
+interface SQLiteTable {
+  name: string
+  sql: string
+  rows: SQLiteRow[]
+}
+
+// B-tree 页中的一个单元及其 rowid
+interface BTreeCell {
+  rowid: number
+  bytes: Uint8Array
+}
+
+const PAGE_SIZE = 4096
+const DATABASE_HEADER_SIZE = 100
+const LEAF_TABLE_PAGE = 0x0d
+const INTERIOR_TABLE_PAGE = 0x05
+const LEAF_HEADER_SIZE = 8
+const INTERIOR_HEADER_SIZE = 12
+
+// 单元内容超过该长度时溢出到溢出页
+const MAX_LOCAL_PAYLOAD = PAGE_SIZE - 35
+const MIN_LOCAL_PAYLOAD = Math.floor(((PAGE_SIZE - 12) * 32) / 255) - 23
+
+export class SQLiteWriter {
+  private tables: SQLiteTable[] = []
+  private pages: Uint8Array[] = []
+  private encoder = new TextEncoder()
+
+  addTable(name: string, sql: string, rows: SQLiteRow[] = []): void {
+    this.tables.push({ name, sql, rows })
+  }
+
+  build(): Uint8Array {
+    // 第 1 页固定为 sqlite_master 的根页，先占位
+    this.pages = [new Uint8Array(PAGE_SIZE)]
+
+    const masterRows: SQLiteRow[] = this.tables.map((table, index) => ({
+      rowid: index + 1,
+      values: ['table', table.name, table.name, this.writeTable(table.rows), table.sql],
+    }))
+    this.writeTable(masterRows, 1)
+    this.writeDatabaseHeader()
+
+    const file = new Uint8Array(this.pages.length * PAGE_SIZE)
+    this.pages.forEach((page, index) => file.set(page, index * PAGE_SIZE))
+    return file
+  }
+
+  /**
+   * 写入一个表的 B-tree，返回根页号
+   * @param rootPage 指定根页（sqlite_master 必须位于第 1 页）
+   */
+  private writeTable(rows: SQLiteRow[], rootPage?: number): number {
+    let cells: BTreeCell[] = rows.map(row => ({
+      rowid: row.rowid,
+      bytes: this.encodeLeafCell(row),
+    }))
+    let pageType = LEAF_TABLE_PAGE
+
+    for (;;) {
+      const rootOffset = rootPage === 1 ? DATABASE_HEADER_SIZE : 0
+      if (this.fitsInPage(cells, pageType, rootOffset)) {
+        const page = rootPage ?? this.allocatePage()
+        this.writeBTreePage(page, pageType, cells)
+        return page
+      }
+
+      // 一页放不下时拆分为多页，再为这些页生成上一层内部页
+      const children = this.writeLevel(cells, pageType)
+      cells = children.map(child => ({
+        rowid: child.maxRowid,
+        bytes: this.encodeInteriorCell(child.page, child.maxRowid),
+      }))
+      pageType = INTERIOR_TABLE_PAGE
+    }
+  }
+
+  /**
+   * 将单元依次装入多个同类型的页，返回每页的页号与最大 rowid
+   */
+  private writeLevel(
+    cells: BTreeCell[],
+    pageType: number
+  ): Array<{ page: number; maxRowid: number }> {
+    const children: Array<{ page: number; maxRowid: number }> = []
+    let start = 0
+
+    while (start < cells.length) {
+      let end = start + 1
+      while (end < cells.length && this.fitsInPage(cells.slice(start, end + 1), pageType, 0)) {
+        end++
+      }
+
+      const page = this.allocatePage()
+      this.writeBTreePage(page, pageType, cells.slice(start, end))
+      children.push({ page, maxRowid: cells[end - 1].rowid })
+      start = end
+    }
+    return children
+  }
+
+  /**
+   * 内部页的最后一个子页不占单元，而是写入页头的最右指针
+   */
+  private fitsInPage(cells: BTreeCell[], pageType: number, offset: number): boolean {
+    const isLeaf = pageType === LEAF_TABLE_PAGE
+    const stored = isLeaf ? cells : cells.slice(0, -1)
+    const headerSize = isLeaf ? LEAF_HEADER_SIZE : INTERIOR_HEADER_SIZE
+    const contentSize = stored.reduce((sum, cell) => sum + cell.bytes.length + 2, 0)
+    return offset + headerSize + contentSize <= PAGE_SIZE
+  }
+
+  private writeBTreePage(pageNumber: number, pageType: number, cells: BTreeCell[]): void {
+    const page = this.pages[pageNumber - 1]
+    const view = new DataView(page.buffer)
+    const offset = pageNumber === 1 ? DATABASE_HEADER_SIZE : 0
+    const isLeaf = pageType === LEAF_TABLE_PAGE
+    const stored = isLeaf ? cells : cells.slice(0, -1)
+
+    // 单元内容从页尾向前写，单元指针数组紧跟页头
+    let contentStart = PAGE_SIZE
+    stored.forEach((cell, index) => {
+      contentStart -= cell.bytes.length
+      page.set(cell.bytes, contentStart)
+      const pointerOffset = offset + (isLeaf ? LEAF_HEADER_SIZE : INTERIOR_HEADER_SIZE) + index * 2
+      view.setUint16(pointerOffset, contentStart)
+    })
+
+    view.setUint8(offset, pageType)
+    view.setUint16(offset + 1, 0) // 没有空闲块
+    view.setUint16(offset + 3, stored.length)
+    view.setUint16(offset + 5, contentStart)
+    view.setUint8(offset + 7, 0)
+    if (!isLeaf) {
+      // 最右子页的页号保存在最后一个单元中
+      const rightMost = cells[cells.length - 1].bytes
+      view.setUint32(offset + 8, new DataView(rightMost.buffer, rightMost.byteOffset).getUint32(0))
+    }
+  }
+
+  private encodeInteriorCell(childPage: number, rowid: number): Uint8Array {
+    const rowidBytes = this.encodeVarint(rowid)
+    const cell = new Uint8Array(4 + rowidBytes.length)
+    new DataView(cell.buffer).setUint32(0, childPage)
+    cell.set(rowidBytes, 4)
+    return cell
+  }
+
+  /**
+   * 叶子单元：负载长度、rowid、记录；记录过长时本页只保留前一部分，其余写入溢出页链
+   */
+  private encodeLeafCell(row: SQLiteRow): Uint8Array {
+    const payload = this.encodeRecord(row.values)
+    const prefix = this.concat([this.encodeVarint(payload.length), this.encodeVarint(row.rowid)])
+
+    if (payload.length <= MAX_LOCAL_PAYLOAD) {
+      return this.concat([prefix, payload])
+    }
+
+    const surplus = MIN_LOCAL_PAYLOAD + ((payload.length - MIN_LOCAL_PAYLOAD) % (PAGE_SIZE - 4))
+    const localSize = surplus <= MAX_LOCAL_PAYLOAD ? surplus : MIN_LOCAL_PAYLOAD
+    const firstOverflowPage = this.writeOverflowPages(payload.subarray(localSize))
+
+    const pointer = new Uint8Array(4)
+    new DataView(pointer.buffer).setUint32(0, firstOverflowPage)
+    return this.concat([prefix, payload.subarray(0, localSize), pointer])
+  }
+
+  /**
+   * 溢出页：前 4 字节为下一溢出页的页号（最后一页为 0），其余为数据
+   */
+  private writeOverflowPages(data: Uint8Array): number {
+    const chunkSize = PAGE_SIZE - 4
+    const pageNumbers: number[] = []
+    for (let start = 0; start < data.length; start += chunkSize) {
+      pageNumbers.push(this.allocatePage())
+    }
+
+    pageNumbers.forEach((pageNumber, index) => {
+      const page = this.pages[pageNumber - 1]
+      new DataView(page.buffer).setUint32(0, pageNumbers[index + 1] ?? 0)
+      page.set(data.subarray(index * chunkSize, (index + 1) * chunkSize), 4)
+    })
+    return pageNumbers[0]
+  }
+
+  /**
+   * 记录格式：头部（头部长度 + 各列的类型码）后接各列的值
+   */
+  private encodeRecord(values: SQLiteValue[]): Uint8Array {
+    const serialTypes: number[] = []
+    const bodies: Uint8Array[] = []
+
+    for (const value of values) {
+      if (value === null) {
+        serialTypes.push(0)
+      } else if (typeof value === 'number') {
+        if (!Number.isInteger(value)) {
+          const body = new Uint8Array(8)
+          new DataView(body.buffer).setFloat64(0, value)
+          serialTypes.push(7)
+          bodies.push(body)
+        } else if (value === 0 || value === 1) {
+          // 类型码 8 与 9 表示常量 0 与 1，不占内容空间
+          serialTypes.push(value === 0 ? 8 : 9)
+        } else {
+          const [serialType, size] = this.integerSerialType(value)
+          serialTypes.push(serialType)
+          bodies.push(this.encodeInteger(value, size))
+        }
+      } else if (typeof value === 'string') {
+        const body = this.encoder.encode(value)
+        serialTypes.push(body.length * 2 + 13)
+        bodies.push(body)
+      } else {
+        serialTypes.push(value.length * 2 + 12)
+        bodies.push(value)
+      }
+    }
+
+    const typeBytes = serialTypes.map(serialType => this.encodeVarint(serialType))
+    const typesLength = typeBytes.reduce((sum, bytes) => sum + bytes.length, 0)
+    // 头部长度包含自身
+    let headerLength = typesLength + 1
+    if (this.encodeVarint(headerLength).length > 1) headerLength = typesLength + 2
+
+    return this.concat([this.encodeVarint(headerLength), ...typeBytes, ...bodies])
+  }
+
+  private integerSerialType(value: number): [number, number] {
+    const sizes: Array<[number, number]> = [
+      [1, 1],
+      [2, 2],
+      [3, 3],
+      [4, 4],
+      [5, 6],
+      [6, 8],
+    ]
+    for (const [serialType, size] of sizes) {
+      const limit = 2 ** (size * 8 - 1)
+      if (value >= -limit && value < limit) return [serialType, size]
+    }
+    return [6, 8]
+  }
+
+  /**
+   * 大端序补码整数
+   */
+  private encodeInteger(value: number, size: number): Uint8Array {
+    const bytes = new Uint8Array(size)
+    let remaining = BigInt.asUintN(size * 8, BigInt(value))
+    for (let i = size - 1; i >= 0; i--) {
+      bytes[i] = Number(remaining & BigInt(0xff))
+      remaining >>= BigInt(8)
+    }
+    return bytes
+  }
+
+  /**
+   * SQLite 变长整数：大端序，每字节 7 位，最高位表示后面还有字节（本写入器只需处理非负数）
+   */
+  private encodeVarint(value: number): Uint8Array {
+    if (value < 0x80) return Uint8Array.of(value)
+
+    const bytes: number[] = []
+    let remaining = BigInt(value)
+    while (remaining > BigInt(0)) {
+      bytes.unshift(Number(remaining & BigInt(0x7f)))
+      remaining >>= BigInt(7)
+    }
+    return Uint8Array.from(bytes, (byte, index) => (index < bytes.length - 1 ? byte | 0x80 : byte))
+  }
+
+  private allocatePage(): number {
+    this.pages.push(new Uint8Array(PAGE_SIZE))
+    return this.pages.length
+  }
+
+  private writeDatabaseHeader(): void {
+    const header = this.pages[0]
+    const view = new DataView(header.buffer)
+
+    header.set(this.encoder.encode('SQLite format 3\0'), 0)
+    view.setUint16(16, PAGE_SIZE)
+    view.setUint8(18, 1) // 文件格式写入版本（回滚日志）
+    view.setUint8(19, 1) // 文件格式读取版本
+    view.setUint8(20, 0) // 每页保留字节数
+    view.setUint8(21, 64) // 最大内嵌负载比例
+    view.setUint8(22, 32) // 最小内嵌负载比例
+    view.setUint8(23, 32) // 叶子负载比例
+    view.setUint32(24, 1) // 文件修改计数
+    view.setUint32(28, this.pages.length) // 数据库页数
+    view.setUint32(40, 1) // schema cookie
+    view.setUint32(44, 4) // schema 格式
+    view.setUint32(56, 1) // 文本编码 UTF-8
+    view.setUint32(92, 1) // 与文件修改计数一致，表示页数有效
+    view.setUint32(96, 3045000) // 写入该文件的 SQLite 版本号
+  }
+
+  private concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+    let offset = 0
+    for (const part of parts) {
+      result.set(part, offset)
+      offset += part.length
+    }
+    return result
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * 卡片导出器
+ * 每种导出格式实现 CardExporter 并在 registry 中注册，设置页按注册顺序列出所有格式
+ */
+
+import type { FlashCard } from '@/types'
+import type { MessageKey } from '@/lib/i18n'
+
+export interface ExportFile {
+  blob: Blob
+  extension: string
+  warnings?: string[] // 导出完成但需要告知用户的问题（已翻译）
+}
+
+export interface CardExporter {
+  readonly id: string // 也用于导出文件名
+  readonly label: MessageKey // 格式名称的消息 key
+  readonly description: MessageKey
+
+  export(cards: FlashCard[]): Promise<ExportFile>
+}
@@ -0,0 +1,149 @@
+/**
+ * 最小化的 ZIP 写入器
+ * 在浏览器中生成 ZIP 文件，支持 stored 与 deflate 两种压缩方式（不支持 ZIP64，单个压缩包需小于 4GB）
+ */
+
+interface ZipWriterEntry {
+  name: Uint8Array
+  data: Uint8Array
+  crc: number
+  size: number
+  method: number
+  offset: number
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+// 通用标志位第 11 位：文件名使用 UTF-8 编码
+const FLAG_UTF8 = 0x0800
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+export class ZipWriter {
+  private entries: ZipWriterEntry[] = []
+  private offset = 0
+  private encoder = new TextEncoder()
+  // 所有文件使用同一个修改时间（MS-DOS 格式）
+  private dosTime: number
+  private dosDate: number
+
+  constructor(date: Date = new Date()) {
+    this.dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1)
+    this.dosDate =
+      ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate()
+  }
+
+  /**
+   * 添加文件
+   * @param compress 是否使用 deflate 压缩，JPEG 等已压缩的数据直接存储即可
+   */
+  async add(name: string, content: Uint8Array | string, compress = true): Promise<void> {
+    const data = typeof content === 'string' ? this.encoder.encode(content) : content
+    const compressed = compress ? await this.deflate(data) : data
+    // 压缩后反而变大时改为直接存储
+    const useDeflate = compress && compressed.length < data.length
+
+    const entry: ZipWriterEntry = {
+      name: this.encoder.encode(name),
+      data: useDeflate ? compressed : data,
+      crc: crc32(data),
+      size: data.length,
+      method: useDeflate ? METHOD_DEFLATE : METHOD_STORED,
+      offset: this.offset,
+    }
+    this.entries.push(entry)
+    this.offset += 30 + entry.name.length + entry.data.length
+  }
+
+  /**
+   * 生成 ZIP 文件：依次写入各文件的本地文件头与数据，最后写入中央目录
+   */
+  toBlob(): Blob {
+    const parts: BlobPart[] = []
+    for (const entry of this.entries) {
+      parts.push(this.buildLocalHeader(entry), entry.data)
+    }
+
+    const centralDirectory = this.entries.map(entry => this.buildCentralDirectoryHeader(entry))
+    const centralDirectorySize = centralDirectory.reduce((sum, header) => sum + header.length, 0)
+    parts.push(...centralDirectory, this.buildEndOfCentralDirectory(centralDirectorySize))
+
+    return new Blob(parts, { type: 'application/zip' })
+  }
+
+  private async deflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  }
+
+  private buildLocalHeader(entry: ZipWriterEntry): Uint8Array {
+    const header = new Uint8Array(30 + entry.name.length)
+    const view = new DataView(header.buffer)
+    view.setUint32(0, LOCAL_FILE_HEADER, true)
+    view.setUint16(4, 20, true) // 解压所需版本 2.0
+    view.setUint16(6, FLAG_UTF8, true)
+    view.setUint16(8, entry.method, true)
+    view.setUint16(10, this.dosTime, true)
+    view.setUint16(12, this.dosDate, true)
+    view.setUint32(14, entry.crc, true)
+    view.setUint32(18, entry.data.length, true)
+    view.setUint32(22, entry.size, true)
+    view.setUint16(26, entry.name.length, true)
+    header.set(entry.name, 30)
+    return header
+  }
+
+  private buildCentralDirectoryHeader(entry: ZipWriterEntry): Uint8Array {
+    const header = new Uint8Array(46 + entry.name.length)
+    const view = new DataView(header.buffer)
+    view.setUint32(0, CENTRAL_DIRECTORY_HEADER, true)
+    view.setUint16(4, 20, true) // 创建版本
+    view.setUint16(6, 20, true) // 解压所需版本
+    view.setUint16(8, FLAG_UTF8, true)
+    view.setUint16(10, entry.method, true)
+    view.setUint16(12, this.dosTime, true)
+    view.setUint16(14, this.dosDate, true)
+    view.setUint32(16, entry.crc, true)
+    view.setUint32(20, entry.data.length, true)
+    view.setUint32(24, entry.size, true)
+    view.setUint16(28, entry.name.length, true)
+    view.setUint32(42, entry.offset, true)
+    header.set(entry.name, 46)
+    return header
+  }
+
+  private buildEndOfCentralDirectory(centralDirectorySize: number): Uint8Array {
+    const record = new Uint8Array(22)
+    const view = new DataView(record.buffer)
+    view.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+    view.setUint16(8, this.entries.length, true)
+    view.setUint16(10, this.entries.length, true)
+    view.setUint32(12, centralDirectorySize, true)
+    view.setUint32(16, this.offset, true)
+    return record
+  }
+}
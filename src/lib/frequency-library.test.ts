@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import type { VocabEntry, VocabLibrary } from '@/types'
+import { t } from '@/lib/i18n'
+import { FREQUENCY_LIBRARY_ID, getLevelLabel } from './frequency-library'
+
+const createLibrary = (id: string, data: Partial<VocabEntry>[] = []): VocabLibrary => ({
+  id,
+  name: id,
+  description: '',
+  icon: '',
+  data: data as VocabEntry[],
+  totalWords: data.length,
+  levels: [],
+})
+
+describe('getLevelLabel', () => {
+  it('翻译高频核心词库的词频段', () => {
+    const library = createLibrary(FREQUENCY_LIBRARY_ID)
+
+    expect(getLevelLabel(library, '1-1000')).toBe(t('library.frequency.top', { count: '1000' }))
+    expect(getLevelLabel(library, '1001-2000')).toBe(
+      t('library.frequency.range', { from: '1001', to: '2000' })
+    )
+    expect(getLevelLabel(library, '10001+')).toBe(t('library.frequency.rest', { count: 10000 }))
+  })
+
+  it('翻译带 FrequencyBand 的词汇所在的词频段', () => {
+    const library = createLibrary('custom', [{ Level: 'N5', FrequencyBand: '1-1000' }])
+
+    expect(getLevelLabel(library, '1-1000')).toBe(t('library.frequency.top', { count: '1000' }))
+  })
+
+  it('自定义词库中形似词频段的等级名保持不变', () => {
+    const library = createLibrary('custom', [{ Level: '1-10' }, { Level: '3000+' }])
+
+    expect(getLevelLabel(library, '1-10')).toBe('1-10')
+    expect(getLevelLabel(library, '3000+')).toBe('3000+')
+  })
+})
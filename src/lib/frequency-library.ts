@@ -0,0 +1,85 @@
+/**
+ * 高频核心词库
+ * 按 jlpt.json 中的 Frequency（语料词频排名，数字越小越常用）排序后划分词频段，
+ * 作为另一种"等级"：最常用的 1000 词、1001-2000、2001-5000……
+ * 词频段保存在 FrequencyBand 中，Level 仍为 JLPT 等级
+ */
+
+import type { VocabEntry, VocabLibrary } from '@/types'
+import { t } from '@/lib/i18n'
+
+export const FREQUENCY_LIBRARY_ID = 'jlpt-frequency'
+
+// 各词频段的累计词数上限，超出最后一段的词汇归入"以后"
+const FREQUENCY_BANDS = [1000, 2000, 5000, 10000]
+
+// 词频数据中用 999999 表示缺失
+const MISSING_FREQUENCY = 999999
+
+/**
+ * 词频排名，缺失或无效时返回 Infinity
+ */
+export function getFrequencyRank(entry: VocabEntry): number {
+  const rank = Number(entry.Frequency)
+  return Number.isInteger(rank) && rank > 0 && rank < MISSING_FREQUENCY ? rank : Infinity
+}
+
+/**
+ * 按词频从高到低排序，没有词频的词汇保持原有顺序排在最后
+ */
+export function sortByFrequency<T extends VocabEntry>(entries: T[]): T[] {
+  return entries
+    .map((entry, index) => ({ entry, index, rank: getFrequencyRank(entry) }))
+    .sort((a, b) => (a.rank === b.rank ? a.index - b.index : a.rank < b.rank ? -1 : 1))
+    .map(item => item.entry)
+}
+
+// 词频段以排名范围为 ID（如 1-1000、10001+），作为等级设置的键，不随界面语言变化
+const FREQUENCY_BAND_PATTERN = /^(\d+)-(\d+)$|^(\d+)\+$/
+
+function getBandId(bandIndex: number): string {
+  if (bandIndex === FREQUENCY_BANDS.length) return `${FREQUENCY_BANDS[bandIndex - 1] + 1}+`
+  const from = bandIndex === 0 ? 1 : FREQUENCY_BANDS[bandIndex - 1] + 1
+  return `${from}-${FREQUENCY_BANDS[bandIndex]}`
+}
+
+/**
+ * 等级的显示名称：词频段翻译为当前界面语言，其余等级原样返回
+ * 只有高频核心词库或带 FrequencyBand 的词汇才按词频段处理，自定义词库中的 "1-10" 等等级名保持不变
+ */
+export function getLevelLabel(library: VocabLibrary, level: string): string {
+  const isFrequencyBand =
+    library.id === FREQUENCY_LIBRARY_ID || library.data.some(entry => entry.FrequencyBand === level)
+  const match = isFrequencyBand ? level.match(FREQUENCY_BAND_PATTERN) : null
+  if (!match) return level
+  if (match[3]) return t('library.frequency.rest', { count: Number(match[3]) - 1 })
+  if (match[1] === '1') return t('library.frequency.top', { count: match[2] })
+  return t('library.frequency.range', { from: match[1], to: match[2] })
+}
+
+/**
+ * 词汇在所属词库中的分组：高频核心词库按词频段，其余词库按 Level
+ */
+export function getLibraryLevel(entry: VocabEntry): string {
+  return entry.FrequencyBand || entry.Level
+}
+
+export function buildFrequencyLibrary(jlptData: VocabEntry[]): VocabLibrary {
+  const data = sortByFrequency(jlptData).map((entry, index) => {
+    const bandIndex = FREQUENCY_BANDS.findIndex(limit => index < limit)
+    return {
+      ...entry,
+      FrequencyBand: getBandId(bandIndex === -1 ? FREQUENCY_BANDS.length : bandIndex),
+    }
+  })
+
+  return {
+    id: FREQUENCY_LIBRARY_ID,
+    name: t('library.frequency.name'),
+    description: t('library.frequency.description'),
+    icon: '📈',
+    data,
+    totalWords: data.length,
+    levels: Array.from(new Set(data.map(getLibraryLevel))),
+  }
+}
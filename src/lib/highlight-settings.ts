@@ -0,0 +1,18 @@
+export const DEFAULT_TARGET_CYCLE_HOTKEY = 'q'
+export const DEFAULT_MARK_KNOWN_HOTKEY = 'x'
+
+// 单词模式下的高亮颜色，也用于没有等级信息的词汇
+export const DEFAULT_HIGHLIGHT_COLOR = '#ff9800'
+
+// "显示所有生词"模式下按 JLPT 等级区分颜色
+export const JLPT_LEVEL_COLORS: Record<string, string> = {
+  N5: '#4caf50',
+  N4: '#03a9f4',
+  N3: '#ff9800',
+  N2: '#e91e63',
+  N1: '#ab47bc',
+}
+
+export function getLevelColor(level?: string): string {
+  return (level && JLPT_LEVEL_COLORS[level.toUpperCase()]) || DEFAULT_HIGHLIGHT_COLOR
+}
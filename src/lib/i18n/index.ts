@@ -0,0 +1,122 @@
+/**
+ * 界面多语言
+ * chrome.i18n 只能跟随浏览器语言且无法在运行时切换，因此使用内置消息目录，
+ * 用户选择的界面语言保存在 chrome.storage.local 的 uiLanguage 中
+ */
+
+import { zhCN, type MessageKey } from './messages/zh-CN'
+import { en } from './messages/en'
+import { ja } from './messages/ja'
+
+export type { MessageKey }
+
+export type UILanguage = 'zh-CN' | 'en' | 'ja'
+export type UILanguageSetting = UILanguage | 'auto'
+
+export const UI_LANGUAGE_STORAGE_KEY = 'uiLanguage'
+
+// 语言名称始终以该语言本身显示
+export const UI_LANGUAGE_LABELS: Record<UILanguage, string> = {
+  'zh-CN': '简体中文',
+  en: 'English',
+  ja: '日本語',
+}
+
+const CATALOGUES: Record<UILanguage, Record<MessageKey, string>> = {
+  'zh-CN': zhCN,
+  en,
+  ja,
+}
+
+/**
+ * 将设置解析为实际使用的语言，auto 时跟随浏览器语言，无法匹配时使用英文
+ */
+export function resolveUILanguage(setting?: UILanguageSetting): UILanguage {
+  if (setting && setting !== 'auto') return setting
+
+  const browserLanguage = (
+    (typeof chrome !== 'undefined' && chrome.i18n?.getUILanguage?.()) ||
+    (typeof navigator !== 'undefined' ? navigator.language : '') ||
+    ''
+  ).toLowerCase()
+
+  if (browserLanguage.startsWith('zh')) return 'zh-CN'
+  if (browserLanguage.startsWith('ja')) return 'ja'
+  return 'en'
+}
+
+export class I18n {
+  private setting: UILanguageSetting = 'auto'
+  private language: UILanguage = resolveUILanguage('auto')
+  private listeners: Array<(language: UILanguage) => void> = []
+  private initialized = false
+
+  /**
+   * 读取界面语言设置，并在其他页面修改设置时同步切换
+   */
+  async init(): Promise<void> {
+    if (this.initialized) return
+    this.initialized = true
+
+    try {
+      const result = await chrome.storage.local.get([UI_LANGUAGE_STORAGE_KEY])
+      this.applySetting(result[UI_LANGUAGE_STORAGE_KEY])
+    } catch (error) {
+      console.warn('[I18n] 读取界面语言设置失败:', error)
+    }
+
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && changes[UI_LANGUAGE_STORAGE_KEY]) {
+        this.applySetting(changes[UI_LANGUAGE_STORAGE_KEY].newValue)
+      }
+    })
+  }
+
+  getSetting(): UILanguageSetting {
+    return this.setting
+  }
+
+  getLanguage(): UILanguage {
+    return this.language
+  }
+
+  async setSetting(setting: UILanguageSetting): Promise<void> {
+    this.applySetting(setting)
+    await chrome.storage.local.set({ [UI_LANGUAGE_STORAGE_KEY]: setting })
+  }
+
+  /**
+   * 界面语言变化时回调，用于重新渲染已显示的界面
+   */
+  onChange(listener: (language: UILanguage) => void): void {
+    this.listeners.push(listener)
+  }
+
+  /**
+   * 取出当前语言的消息，{name} 形式的占位符以 params 中的同名值替换
+   */
+  t(key: MessageKey, params?: Record<string, string | number>): string {
+    const message = CATALOGUES[this.language][key] ?? zhCN[key] ?? key
+    if (!params) return message
+    return message.replace(/\{(\w+)\}/g, (placeholder, name) =>
+      name in params ? String(params[name]) : placeholder
+    )
+  }
+
+  private applySetting(value: unknown): void {
+    const setting: UILanguageSetting =
+      value === 'zh-CN' || value === 'en' || value === 'ja' ? value : 'auto'
+    const language = resolveUILanguage(setting)
+    const changed = language !== this.language
+
+    this.setting = setting
+    this.language = language
+    if (changed) this.listeners.forEach(listener => listener(language))
+  }
+}
+
+export const i18n = new I18n()
+
+export function t(key: MessageKey, params?: Record<string, string | number>): string {
+  return i18n.t(key, params)
+}
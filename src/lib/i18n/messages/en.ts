@@ -0,0 +1,594 @@
+import type { MessageKey } from './zh-CN'
+
+/**
+ * 英文界面消息
+ */
+export const en: Record<MessageKey, string> = {
+  // 通用
+  'common.unknownError': 'Unknown error',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.save': 'Save',
+  'common.loading': 'Loading...',
+  'common.settingsSaved': 'Settings saved',
+  'common.saveFailed': 'Save failed',
+  'common.deleteFailed': 'Delete failed',
+  'common.pressLetterKey': 'Click the field, then press the letter key you want',
+  'common.pressAnyLetter': 'Press any letter key...',
+  'common.listSeparator': ', ',
+  'common.noDefinition': 'No definition',
+  'common.readingLabel': 'Reading: {reading}',
+  'common.posLabel': 'Part of speech: {pos}',
+  'common.frequencyLabel': 'Frequency: {frequency}',
+  'common.pitchLabel': 'Pitch: {pitch}',
+  'common.wordCount': '{count} words',
+  'common.loadFailed': 'Failed to load',
+  'common.reloadHint': 'Reload the page and try again',
+  'common.deleteCard': 'Delete card',
+  'common.importFailed': 'Import failed',
+
+  // 弹出窗口
+  'popup.tab.cards': 'Flashcards',
+  'popup.tab.subtitle': 'Subtitles',
+  'popup.settings': 'Settings',
+  'popup.stats.title': 'View detailed statistics',
+  'popup.stats.count': '{count} flashcards',
+  'popup.cards.loadFailed': 'Failed to load cards',
+  'popup.cards.emptyTitle': 'No cards saved yet',
+  'popup.cards.emptyHint1': 'While watching Japanese content on Netflix,',
+  'popup.cards.emptyHint2': 'press {key} to save the highlighted word',
+  'popup.cards.reading': 'Reading: {reading}',
+  'popup.cards.delete': 'Delete card',
+  'popup.cards.confirmDelete': 'Delete this card?',
+  'popup.cards.deleted': 'Card deleted',
+  'popup.pageInfo': 'Page {page} / {total}',
+  'popup.subtitle.custom': 'Custom subtitles',
+  'popup.subtitle.load': 'Load custom subtitles',
+  'popup.subtitle.styles': 'Style',
+  'popup.subtitle.fontSize': 'Font size',
+  'popup.subtitle.verticalPosition': 'Vertical position',
+  'popup.subtitle.top': 'Top',
+  'popup.subtitle.bottom': 'Bottom',
+  'popup.subtitle.backgroundOpacity': 'Background opacity',
+  'popup.subtitle.transparent': 'Clear',
+  'popup.subtitle.opaque': 'Opaque',
+  'popup.subtitle.timeOffset': 'Time offset',
+  'popup.subtitle.forceFullscreen': 'Force fullscreen subtitle position',
+  'popup.subtitle.forceFullscreenHint':
+    'If subtitles are misplaced or not shown,<br>enable this to show them at the bottom of the screen',
+  'popup.subtitle.reset': 'Reset to defaults',
+  'popup.subtitle.resetDone': 'Subtitle style reset',
+  'popup.subtitle.fullscreenEnabled': 'Fullscreen subtitle mode enabled',
+  'popup.subtitle.fullscreenDisabled': 'Fullscreen subtitle mode disabled',
+  'popup.selection.noUrl': 'Could not read the current page URL',
+  'popup.selection.permissionNeeded': 'Extra permission is needed to use this site',
+  'popup.selection.permissionDenied': 'Permission denied, cannot run on this site',
+  'popup.selection.permissionGranted': 'Permission granted',
+  'popup.selection.starting': 'Starting video selection...',
+  'popup.selection.failed': 'Failed to start: {error}',
+  'popup.selection.notVideoPage': 'Failed to start: make sure you are on a video page',
+
+  // 后台错误信息
+  'background.tabNotFound': 'Could not find the current tab',
+  'background.invalidTabId': 'Invalid tab ID',
+  'background.pageNotSupported': 'This page does not support this feature',
+  'background.contentScriptNoResponse':
+    'The page script did not respond. Reload the page and try again',
+  'background.startFailed': 'Failed to start: {error}',
+  'background.extensionNotSupported': 'The extension is not available on this page',
+  'background.internalError': 'Internal error',
+
+  // 查词弹窗
+  'wordPopup.surface': 'In subtitle: {word}',
+  'wordPopup.noDefinition': 'No definition in the library',
+  'wordPopup.save': 'Save as card',
+  'wordPopup.saving': 'Saving...',
+  'wordPopup.saved': 'Saved as card',
+  'wordPopup.markKnown': 'Mark as known',
+  'wordPopup.marking': 'Marking...',
+  'wordPopup.known': 'Known',
+
+  // 字幕全文面板
+  'transcript.title': 'Transcript',
+  'transcript.titleWithName': 'Transcript · {title}',
+  'transcript.collapse': 'Collapse transcript',
+  'transcript.expand': 'Expand transcript',
+
+  // 逐句学习
+  'study.loopOff': 'Sentence loop off',
+  'study.loopOn': 'Sentence loop on',
+  'study.hotkey.replay': 'Replay sentence',
+  'study.hotkey.loop': 'Loop sentence',
+  'study.hotkey.previous': 'Previous sentence',
+  'study.hotkey.next': 'Next sentence',
+
+  // 页面内提示与字幕文件面板
+  'content.trackCoverage':
+    'Loaded {entries} subtitle lines for this episode: {targets} new words, {percent}% vocabulary coverage',
+  'content.customLoaded': 'Loaded {count} custom subtitle lines',
+  'content.customLoadFailed': 'Failed to load custom subtitles: {error}',
+  'content.switchedToSource': 'Switched to {name}',
+  'content.noNativeSubtitles': 'This site has no supported native subtitles',
+  'content.noTargetWord': 'No new word to learn right now',
+  'content.video.label': 'Video {index}',
+  'content.video.dimensions': 'Size: {dimensions}',
+  'content.video.duration': 'Duration: {duration}',
+  'content.video.select': 'Select this video',
+  'content.video.unknownDuration': 'Unknown',
+  'content.video.selectFailed': 'Video selection failed: {error}',
+  'content.video.selectCancelled': 'Video selection cancelled',
+  'content.subtitleFile.prompt': 'Choose a subtitle file ({extensions})',
+  'content.subtitleFile.title': 'Attach subtitle file',
+  'content.subtitleFile.videoDimensions': 'Video size: {dimensions}',
+  'content.subtitleFile.choose': 'Subtitle file',
+  'content.subtitleFile.dropHint': 'Click to choose or drop a file here',
+  'content.subtitleFile.supported': 'Supports {extensions}',
+  'content.subtitleFile.remove': 'Remove file',
+  'content.subtitleFile.encoding': 'Text encoding',
+  'content.subtitleFile.autoDetect': 'Auto-detect',
+  'content.subtitleFile.dialogueStyles': 'Dialogue styles',
+  'content.subtitleFile.dialogueStylesHint':
+    'Only checked styles are shown as subtitles; uncheck signs, lyrics and similar styles',
+  'content.subtitleFile.load': 'Load subtitles',
+  'content.subtitleFile.invalidType': 'Choose a {extensions} subtitle file',
+  'content.subtitleFile.detected': 'Detected {encoding}',
+  'content.subtitleFile.preview': '{label}: "{preview}"',
+  'content.subtitleFile.noContent': '{label} (no subtitles could be parsed, try another encoding)',
+  'content.subtitleFile.detectFailed': 'Encoding detection failed, choose an encoding manually',
+  'content.subtitleFile.styleLines': '{count} lines',
+  'content.subtitleFile.unsupported': 'Unsupported file format, choose a {extensions} file',
+  'content.subtitleFile.noDialogueStyle': 'Select at least one dialogue style',
+  'content.subtitleFile.loaded': '{name} loaded! You can now study the words in its subtitles',
+  'content.subtitleFile.loadFailed': 'Failed to load subtitles: {error}',
+  'content.capture.exists': '{lemma} is already saved',
+  'content.capture.saved': '{word} ( {lemma} ) saved',
+  'content.capture.failed': 'Save failed: {error}',
+  'content.known.marked': '{word} ( {lemma} ) marked as known',
+  'content.known.exists': '{lemma} is already in the known list',
+  'content.known.failed': 'Failed to mark: {error}',
+  'content.screenshotPermission':
+    'Screenshots need extra permission, click the extension icon to grant it',
+
+  // 设置页
+  'options.pageTitle': 'Immersive Memorize - Settings',
+  'options.breadcrumb.settings': 'Settings',
+  'options.breadcrumb.learnedWords': 'Learned words',
+  'options.breadcrumb.review': 'Review',
+  'options.breadcrumb.knownWords': 'Known words',
+  'options.breadcrumb.dictionary': 'Offline dictionaries',
+  'options.breadcrumb.libraries': 'Vocabulary libraries',
+  'options.breadcrumb.libraryImport': 'Import library',
+  'options.breadcrumb.library': 'Library',
+  'options.breadcrumb.activation': 'Activation behavior',
+  'options.settingsLoadFailed': 'Failed to load settings',
+  'options.overview.libraries.title': 'Vocabulary libraries',
+  'options.overview.libraries.description': 'Choose a vocabulary library and configure its levels',
+  'options.overview.libraries.current': 'Current: {name}',
+  'options.overview.review.title': 'Review',
+  'options.overview.review.description': 'Review saved flashcards with spaced repetition',
+  'options.overview.knownWords.title': 'Known words',
+  'options.overview.knownWords.description':
+    'Manage words you no longer need to study: search, unmark, or bulk import from Anki or word lists',
+  'options.overview.dictionary.title': 'Offline dictionaries',
+  'options.overview.dictionary.description':
+    'Import JMdict or Yomitan dictionaries for readings and definitions of words outside your library',
+  'options.overview.activation.title': 'Activation behavior',
+  'options.overview.activation.description':
+    'Choose which sites enable the extension automatically or manually',
+  'options.overview.language.title': 'Language',
+  'options.overview.language.ui': 'Interface language',
+  'options.overview.language.auto': 'Follow browser',
+  'options.overview.language.definition': 'Definition language',
+  'options.overview.language.definitionAuto': 'Same as interface',
+  'options.overview.language.definitionHint':
+    'Cards and the word popup prefer definitions in this language from your library or offline dictionaries, and fall back to other languages',
+  'options.hotkeys.title': 'Hotkeys',
+  'options.hotkeys.capture': 'Capture hotkey:',
+  'options.hotkeys.hint': 'Click the field, then press any letter key to use as the hotkey',
+  'options.hotkeys.study': 'Sentence study',
+  'options.hotkeys.autoPause': 'Pause automatically after subtitles that contain new words',
+  'options.hotkeys.studyHint':
+    "Sentence controls need timed subtitles (custom subtitles, the page's own text tracks, or Netflix once the episode's subtitles are loaded)",
+  'options.hotkeys.targetCycle': 'Switch target word',
+  'options.hotkeys.markKnown': 'Mark as known',
+  'options.highlight.title': 'New word highlighting',
+  'options.highlight.all': 'Highlight every new word in subtitles',
+  'options.highlight.hint':
+    'When enabled, every new word in each subtitle is colored by level; press the switch key or click a word to choose what the capture hotkey saves',
+  'options.highlight.markKnownHint':
+    'Press the mark-as-known key and the current target word is no longer highlighted or listed for study',
+  'options.screenshot.title': 'Screenshots',
+  'options.screenshot.enable': 'Capture a screenshot for each flashcard',
+  'options.screenshot.hint': 'Saves the current video frame to the card while studying on Netflix',
+  'options.screenshot.compatibility': '⚠️ Compatibility:',
+  'options.screenshot.blackScreen':
+    'If screenshots are black, try turning off "hardware acceleration" in Chrome settings',
+  'options.csv.title': 'CSV export',
+  'options.csv.format': 'Format:',
+  'options.csv.ankiHtml': 'Anki HTML (recommended)',
+  'options.csv.plainText': 'Plain text',
+  'options.csv.richText': 'Rich text (keeps highlighting)',
+  'options.csv.ankiHtmlHint': 'Converts ruby to kanji[reading], suited to Anki import',
+  'options.csv.plainTextHint': 'Removes all HTML tags',
+  'options.csv.richTextHint': 'Keeps ruby tags and highlighting, for tools that support HTML',
+  'options.debug.title': 'Debugging',
+  'options.debug.enable': 'Enable debug mode (verbose console logs)',
+  'options.csv.plainTextShort': 'Plain text:',
+  'options.csv.richTextShort': 'Rich text:',
+  'options.hotkeys.captureName': 'Capture hotkey',
+  'options.hotkeys.letterOnly': 'Press a letter key (A-Z)',
+  'options.hotkeys.conflict': '{key} is already used by {name}',
+  'options.hotkeys.set': '{name} hotkey set to {key}',
+  'options.overview.knownWords.summary': '{count} words',
+  'options.overview.dictionary.summary': 'Imported: {titles}',
+  'options.overview.dictionary.none': 'None imported',
+  'options.overview.review.summary': 'Due today: {due} ({new} new)',
+  'options.libraries.title': 'Choose a vocabulary library',
+  'options.libraries.description': 'Choose the library to study, then configure its levels',
+  'options.libraries.selected': 'Selected',
+  'options.libraries.importTitle': 'Import custom library',
+  'options.libraries.importDescription': 'Import your own word list from a CSV, TSV or JSON file',
+  'options.libraries.selectedNotice': 'Selected {name}',
+  'options.libraries.confirmDelete': 'Delete the library "{name}"?',
+  'options.libraries.deleted': 'Deleted {name}',
+  'options.libraryImport.description':
+    'CSV, TSV and JSON files are supported; the first row (or the JSON object keys) names the columns',
+  'options.libraryImport.name': 'Library name',
+  'options.libraryImport.mapping': 'Column mapping',
+  'options.libraryImport.mappingHint':
+    'The word column is required and should hold dictionary forms; the level / group column lets you enable words by group',
+  'options.libraryImport.preview': 'Preview',
+  'options.libraryImport.submit': 'Import library',
+  'options.libraryImport.summary': '{count} words in {levelCount} levels / groups: {levels}',
+  'options.libraryImport.more': '{list} and more',
+  'options.libraryImport.skipColumn': "Don't import",
+  'options.libraryImport.columnN': 'Column {index}',
+  'options.libraryImport.parseFailed': 'Could not parse the file, check its format',
+  'options.libraryImport.empty': 'No words found in the file',
+  'options.libraryImport.noEntries': 'Nothing to import, check the column mapping',
+  'options.levels.description': 'Choose the levels to study; click a level to see its words',
+  'options.levels.progress': '{percent}% done',
+  'options.levels.include': "Include this level's words while studying",
+
+  // 词汇库
+  'library.field.VocabKanji': 'Word',
+  'library.field.VocabFurigana': 'Reading',
+  'library.field.VocabDefCN': 'Definition',
+  'library.field.Level': 'Level / group',
+  'library.field.VocabPitch': 'Pitch',
+  'library.field.VocabPoS': 'Part of speech',
+  'library.field.Frequency': 'Frequency',
+
+  // 设置页
+  'options.vocabList.title': '{level} words',
+  'options.vocabList.summary': '{count} words, {learned} learned',
+  'options.vocabList.learned': 'Learned',
+  'options.learned.otherLevel': 'Other',
+  'options.learned.unknownDate': 'Unknown',
+  'options.learned.title': 'Learned words',
+  'options.learned.summary': 'You have learned {count} words. Keep it up!',
+  'options.learned.export': 'Export Anki CSV',
+  'options.learned.clearAll': 'Delete all flashcards',
+  'options.learned.levelHeading': '{level} ({count} words)',
+  'options.learned.viewScreenshot': 'View screenshot',
+  'options.learned.learnedAt': 'Learned: {date}',
+  'options.learned.source': 'Source: {source}',
+  'options.learned.emptyTitle': 'No words learned yet',
+  'options.learned.emptyHint':
+    'Press the hotkey while watching Japanese content on Netflix to start learning!',
+  'options.known.source.subtitle': 'Marked in subtitles',
+  'options.known.source.manual': 'Added manually',
+  'options.known.source.import': 'Bulk import',
+  'options.known.title': 'Known words',
+  'options.known.summary':
+    '{count} words. These are never highlighted in subtitles or picked as study targets',
+  'options.known.importTitle': 'Bulk import',
+  'options.known.importDescription':
+    'Import an Anki deck or word list. Words are reduced to dictionary form and matched against the current library, and only marked as known after you confirm the preview',
+  'options.known.format': 'File format',
+  'options.known.formatWordList': 'One word per line',
+  'options.known.formatAnki': 'Anki plain text export (Notes in Plain Text)',
+  'options.known.column': 'Word column',
+  'options.known.header': 'First row is a header',
+  'options.known.inputPlaceholder': 'Choose a file, or paste the content',
+  'options.known.preview': 'Preview matches',
+  'options.known.search': 'Search words, readings or definitions',
+  'options.known.noMatch': 'No matching words',
+  'options.known.empty':
+    'No known words yet. Press the hotkey in subtitles or use the button in the word popup to mark one',
+  'options.known.unmark': 'Unmark',
+  'options.known.unmarked': 'Removed {word} from the known list',
+  'options.known.actionFailed': 'Action failed',
+  'options.known.readFailed': 'Failed to read the file',
+  'options.known.noLibrary': 'Choose a vocabulary library first',
+  'options.known.noEntries': 'No words to import, check the format and column settings',
+  'options.known.matching': 'Matching {done}/{total}...',
+  'options.known.matchFailed': 'Matching failed, try again later',
+  'options.known.previewLimit': '…{count} in total, showing the first {limit}',
+  'options.known.matchedSummary': '{matched} matched{alreadyKnown}, {unmatched} unmatched',
+  'options.known.alreadyKnown': ' ({count} already known)',
+  'options.known.matched': 'Matched',
+  'options.known.unmatched': 'Unmatched (not in the current library, or no dictionary form found)',
+  'options.known.commit': 'Mark {count} words as known',
+  'options.known.imported': 'Imported {count} known words',
+  'options.dictionary.formatYomitan': 'Yomitan dictionary',
+  'options.dictionary.title': 'Offline dictionaries',
+  'options.dictionary.description':
+    'With a full dictionary imported, any word in the subtitles gets a reading and definition in the word popup, flashcards and exports',
+  'options.dictionary.importTitle': 'Import a dictionary',
+  'options.dictionary.importDescription':
+    'Supports JMdict / JMdict_e XML (the .gz archive can be chosen directly) and Yomitan dictionary ZIPs. Import once: the dictionary is indexed in the background and stored locally, and you can close this page while it imports',
+  'options.dictionary.imported': 'Imported dictionaries',
+  'options.dictionary.empty':
+    'No dictionaries yet; the word popup only shows definitions from your library',
+  'options.dictionary.entryCount': '{count} entries',
+  'options.dictionary.importedFrom': 'Imported {date} from {fileName}',
+  'options.dictionary.lookup': 'Look up',
+  'options.dictionary.lookupPlaceholder': 'Type a dictionary form and press Enter, e.g. 食べる',
+  'options.dictionary.importStarted': 'The dictionary is importing in the background',
+  'options.dictionary.importFailed': 'Import failed: {error}',
+  'options.dictionary.confirmDelete': 'Delete the dictionary "{title}"?',
+  'options.dictionary.deleted': 'Deleted {title}',
+  'options.dictionary.notFound': 'Not found in the dictionaries',
+  'options.dictionary.lookupFailed': 'Lookup failed',
+  'options.dictionary.status.importing': 'Importing {fileName}: {count} entries written…',
+  'options.dictionary.status.interrupted': 'Importing {fileName} was interrupted, import it again',
+  'options.dictionary.status.error': 'Importing {fileName} failed: {error}',
+  'options.dictionary.status.done': '{fileName} imported, {count} entries',
+  'options.dictionary.done': 'Dictionary imported, {count} entries',
+  'options.dictionary.failed': 'Dictionary import failed: {error}',
+  'options.export.noCards': 'No cards to export',
+  'options.export.done': 'Exported {count} cards ({format} format)',
+  'options.export.failed': 'Export failed: {error}',
+  'options.cards.confirmClear': 'Delete all cards? This cannot be undone.',
+  'options.cards.cleared': 'All cards deleted',
+  'options.cards.clearFailed': 'Failed to delete cards',
+
+  // 复习
+  'review.complete': "Today's review is complete",
+  'review.reviewedCount': 'Reviewed {count} cards this session',
+  'review.noneDue': 'No cards are due',
+  'review.rating.again': 'Again',
+  'review.rating.hard': 'Hard',
+  'review.rating.good': 'Good',
+  'review.rating.easy': 'Easy',
+  'review.remaining': '{count} left',
+  'review.reviewed': '{count} reviewed',
+  'review.screenshotAlt': 'Screenshot',
+  'review.hotkey': 'Shortcut: {key}',
+  'review.space': 'Space',
+  'review.showAnswer': 'Show answer',
+  'review.gradeFailed': 'Failed to record the review',
+  'review.interval.minutes': '<10 min',
+  'review.interval.days': '{count}d',
+  'review.interval.months': '{count}mo',
+  'review.interval.years': '{count}y',
+
+  // 设置页
+  'options.screenshot.loadFailed': 'Failed to load screenshot',
+  'options.screenshot.corrupted': 'The image data may be corrupted',
+  'options.activation.title': 'Activation behavior',
+  'options.activation.description':
+    'Choose sites where the extension starts automatically, or enable it everywhere',
+  'options.activation.global': 'Global',
+  'options.activation.globalLabel': 'Enable automatically on all sites',
+  'options.activation.globalHint': 'The extension loads on every site without clicking the icon',
+  'options.activation.sites': 'Sites enabled automatically',
+  'options.activation.addSite': 'Add site',
+  'options.activation.sitesHint':
+    'The extension starts automatically on these sites. Wildcards are supported, e.g. *://*.example.com/* matches every subdomain of example.com',
+  'options.activation.empty': 'No sites enabled automatically',
+  'options.activation.emptyHint': 'Click "Add site" to get started',
+  'options.activation.usage': 'How it works',
+  'options.activation.autoLabel': 'Automatic:',
+  'options.activation.autoHint': 'The extension loads on the listed sites and its icon turns blue',
+  'options.activation.manualLabel': 'Manual:',
+  'options.activation.manualHint':
+    'On other sites the icon is grey; click it to enable the extension',
+  'options.activation.patternLabel': 'URL patterns:',
+  'options.activation.patternHint': 'Use * to match any characters, for example:',
+  'options.activation.patternNetflix': 'Every Netflix page',
+  'options.activation.patternPrime': 'Every Prime Video page',
+  'options.activation.patternHttps': 'Every HTTPS page on example.com',
+  'options.activation.patternSubdomain': 'Every video.xxx.com domain',
+  'options.activation.globalEnabled': 'Enabled on all sites',
+  'options.activation.globalDisabled': 'Disabled on all sites',
+  'options.activation.placeholder': 'e.g. *://*.example.com/*',
+  'options.activation.confirmDelete': 'Remove this site?',
+  'options.activation.deleted': 'Site removed',
+
+  // 释义语言
+  'definition.language.zh': 'Chinese',
+  'definition.language.en': 'English',
+  'definition.language.ja': 'Japanese',
+
+  // Anki 同步
+  'anki.connectFailed':
+    'Could not reach AnkiConnect ({url}). Make sure Anki is running with the AnkiConnect add-on installed',
+  'anki.httpError': 'AnkiConnect returned HTTP {status}',
+  'anki.permissionDenied':
+    'Anki refused the connection. Allow this extension in the dialog shown by Anki',
+  'anki.noFieldMapping': 'Map at least one note field to card content first',
+  'anki.invalidScreenshot': 'Invalid screenshot data',
+  'anki.field.word': 'Word',
+  'anki.field.reading': 'Reading',
+  'anki.field.definition': 'Definition',
+  'anki.field.sentence': 'Sentence',
+  'anki.field.screenshot': 'Screenshot',
+  'anki.field.source': 'Source',
+  'anki.field.timestamp': 'Timestamp',
+  'anki.field.glosses': 'Dictionary glosses',
+  'anki.field.level': 'Level',
+
+  // 设置页
+  'options.breadcrumb.ankiSync': 'Anki sync',
+  'options.overview.ankiSync.title': 'Anki sync',
+  'options.overview.ankiSync.description':
+    'Add cards straight to a running Anki through AnkiConnect, without importing a CSV',
+  'options.overview.ankiSync.summary': '{synced} of {total} cards synced',
+  'options.anki.title': 'Anki sync',
+  'options.anki.description':
+    'Install the AnkiConnect add-on (code 2055492159) and keep Anki running to add cards straight to a deck',
+  'options.anki.connection': 'Connection',
+  'options.anki.url': 'AnkiConnect URL',
+  'options.anki.connect': 'Connect',
+  'options.anki.connecting': 'Connecting...',
+  'options.anki.connected': 'Connected to AnkiConnect (version {version})',
+  'options.anki.notConnected': 'Not connected. Click "Connect" to load decks and note types',
+  'options.anki.invalidUrl': 'Invalid AnkiConnect URL',
+  'options.anki.permissionNeeded': 'Permission to access {origin} is required',
+  'options.anki.note': 'Note settings',
+  'options.anki.deck': 'Deck',
+  'options.anki.deckHint': 'The deck is created if it does not exist',
+  'options.anki.model': 'Note type',
+  'options.anki.fields': 'Field mapping',
+  'options.anki.fieldsHint':
+    'Sentences use the CSV export format setting; screenshots are uploaded to Anki as media files',
+  'options.anki.fieldsEmpty': 'Connect to show the fields of the selected note type',
+  'options.anki.fieldEmpty': '(leave empty)',
+  'options.anki.sync': 'Sync',
+  'options.anki.syncNew': 'Sync new cards',
+  'options.anki.syncing': 'Syncing {done}/{total}...',
+  'options.anki.syncHint':
+    'Only cards that have not been synced are sent; notes already in Anki are skipped',
+  'options.anki.resetSync': 'Reset sync history',
+  'options.anki.confirmReset':
+    'Reset the sync history? All cards will be sent again on the next sync',
+  'options.anki.resetDone': 'Sync history reset',
+  'options.anki.noNewCards': 'No new cards to sync',
+  'options.anki.syncDone': 'Added {added} cards to Anki',
+  'options.anki.syncDuplicates': ', {count} already existed',
+  'options.anki.syncFailedCount': ', {count} failed',
+  'options.anki.syncFailed': 'Sync failed: {error}',
+  'options.learned.syncAnki': 'Sync to Anki',
+  'options.learned.exportApkg': 'Export Anki deck (.apkg)',
+  'options.export.apkgExporting': 'Building .apkg...',
+  'options.export.apkgDone': 'Exported {count} cards to an Anki deck package',
+  'options.csv.mediaAsFiles':
+    'Package screenshots separately (export a ZIP with the CSV and an images folder)',
+  'options.csv.mediaAsFilesHint':
+    'The CSV only keeps <img src="im_cardId.jpg"> references, which makes it much smaller; after importing into Anki, copy the images into collection.media',
+
+  // 导出
+  'export.field.word': 'Word',
+  'export.field.reading': 'Reading',
+  'export.field.definition': 'Definition',
+  'export.field.glosses': 'Dictionary glosses',
+  'export.field.sentence': 'Sentence',
+  'export.field.sentenceFurigana': 'Sentence with furigana (kanji[reading])',
+  'export.field.sentenceCloze': 'Cloze sentence',
+  'export.field.screenshot': 'Screenshot',
+  'export.field.source': 'Source',
+  'export.field.showTitle': 'Show',
+  'export.field.season': 'Season',
+  'export.field.episode': 'Episode',
+  'export.field.episodeTitle': 'Episode title',
+  'export.field.level': 'Level',
+  'export.field.timestamp': 'Timestamp',
+  'export.field.createdAt': 'Created at',
+
+  // 设置页
+  'options.overview.exportTemplates.title': 'Export templates',
+  'options.overview.exportTemplates.description':
+    'Choose export columns, order, separator and encoding, and save them as named templates',
+  'options.breadcrumb.exportTemplates': 'Export templates',
+  'options.exportTemplates.title': 'Export templates',
+  'options.exportTemplates.description':
+    'Pick the columns and their order, preview, then download with the template',
+  'options.exportTemplates.template': 'Template',
+  'options.exportTemplates.name': 'Name',
+  'options.exportTemplates.new': 'New',
+  'options.exportTemplates.copyName': '{name} copy',
+  'options.exportTemplates.confirmDelete': 'Delete the template "{name}"?',
+  'options.exportTemplates.columns': 'Columns',
+  'options.exportTemplates.noColumns': 'No columns selected yet',
+  'options.exportTemplates.addColumn': 'Add column',
+  'options.exportTemplates.moveUp': 'Move up',
+  'options.exportTemplates.moveDown': 'Move down',
+  'options.exportTemplates.remove': 'Remove',
+  'options.exportTemplates.clozeHint':
+    "The cloze sentence replaces the target word with ____; the furigana sentence uses Anki's kanji[reading] format",
+  'options.exportTemplates.format': 'File format',
+  'options.exportTemplates.separator': 'Separator',
+  'options.exportTemplates.separatorSemicolon': 'Semicolon (;)',
+  'options.exportTemplates.separatorComma': 'Comma (,)',
+  'options.exportTemplates.separatorTab': 'Tab (TSV)',
+  'options.exportTemplates.separatorPipe': 'Pipe (|)',
+  'options.exportTemplates.quoting': 'Quoting',
+  'options.exportTemplates.quotingAuto': 'Only when needed',
+  'options.exportTemplates.quotingAlways': 'All fields',
+  'options.exportTemplates.quotingNever': 'Never (line breaks become spaces)',
+  'options.exportTemplates.encoding': 'Encoding',
+  'options.exportTemplates.encodingUtf8': 'UTF-8',
+  'options.exportTemplates.encodingUtf8Bom': 'UTF-8 with BOM (Excel)',
+  'options.exportTemplates.encodingUtf16': 'UTF-16 LE',
+  'options.exportTemplates.sentenceFormat': 'Sentence format',
+  'options.exportTemplates.includeHeader': 'Write column names in the first row',
+  'options.exportTemplates.preview': 'Preview (first {count} cards)',
+  'options.exportTemplates.previewEmpty': 'No cards to preview yet',
+  'options.exportTemplates.download': 'Export with template',
+  'options.exportTemplates.done': 'Exported {count} cards with the template "{name}"',
+  'options.csv.ankiCloze': 'Anki cloze ({{c1::target}})',
+  'options.csv.ankiFurigana': 'Anki furigana (漢字[かんじ])',
+  'options.csv.ankiClozeShort': 'Cloze:',
+  'options.csv.ankiFuriganaShort': 'Furigana:',
+  'options.csv.ankiClozeHint':
+    "Wraps the highlighted target word in {{c1::…}} with the rest as plain text, for Anki's Cloze note type",
+  'options.csv.ankiFuriganaHint':
+    "Uses the subtitle's ruby first and fills in other kanji with analyzer readings; display with {{furigana:Field}} in Anki templates",
+
+  // 导出
+  'export.format.json': 'JSON (full backup, re-importable)',
+  'export.format.jsonDescription':
+    'Contains every card field and screenshot; restore it on this page with "Import JSON"',
+  'export.format.markdown': 'Markdown study notes',
+  'export.format.markdownDescription':
+    'Grouped by show and episode, with readings, definitions and example sentences (target word in bold)',
+  'export.format.quizlet': 'Quizlet (term / definition)',
+  'export.format.quizletDescription':
+    "One card per line with the term and definition separated by a tab; paste it into Quizlet's import box",
+  'export.format.sentenceCards': 'Sentence cards (Yomitan / Migaku)',
+  'export.format.sentenceCardsDescription':
+    "TSV columns match Yomitan's Anki fields, with 漢字[かんじ] furigana and a split cloze; exported as a ZIP with an images folder when cards have screenshots",
+
+  // 设置页
+  'options.exporters.export': 'Export in this format',
+  'options.exporters.importJson': 'Import JSON',
+  'options.exporters.done': 'Exported {count} cards ({format})',
+  'options.exporters.importDone': 'Imported {added} cards and skipped {skipped} that already exist',
+  'options.exporters.importFailed': 'Import failed: {error}',
+  'options.csv.includeGlosses':
+    'Export offline dictionary glosses (adds a Glosses column at the end)',
+
+  // 词汇库
+  'library.jlpt.name': 'JLPT (Japanese-Language Proficiency Test)',
+  'library.jlpt.description': 'All vocabulary from N5 to N1',
+  'library.jlpt.loadFailed': 'Failed to load the library. Reload the page and try again',
+  'library.frequency.name': 'JLPT high-frequency core vocabulary',
+  'library.frequency.description':
+    'Groups JLPT vocabulary into frequency bands (top 1000, 2000, 5000, 10000…) so the most common words come first',
+  'library.frequency.top': 'Top {count}',
+  'library.frequency.range': '{from}–{to}',
+  'library.frequency.rest': 'Beyond {count}',
+
+  // 导出
+  'export.screenshotPlaceholder': '[Screenshot]',
+  'export.clozeMissing':
+    'Could not find the target word in the sentence of {count} card(s); those cards have no cloze',
+  'export.json.invalidJson': 'Not a valid JSON file',
+  'export.json.notCardsFile': 'Not a card file exported by Immersive Memorize',
+
+  // 词典导入
+  'dictionary.invalidJMdict': 'Not a valid JMdict XML file',
+  'dictionary.yomitanMissingIndex': 'Not a valid Yomitan dictionary: index.json is missing',
+  'dictionary.yomitanNoTermBanks': 'The Yomitan dictionary has no term files (term_bank_*.json)',
+  'dictionary.zip.corruptHeader': 'Corrupt ZIP file header: {name}',
+  'dictionary.zip.unsupportedCompression': 'Unsupported ZIP compression method ({method}): {name}',
+  'dictionary.zip.zip64': 'ZIP64 archives are not supported',
+  'dictionary.zip.corruptDirectory': 'Corrupt ZIP central directory',
+  'dictionary.zip.invalid': 'Not a valid ZIP file',
+  'dictionary.stagedFileMissing': 'The dictionary file to import could not be found',
+  'dictionary.noEntries': 'No entries found in the file',
+  'dictionary.importBusy': 'Another dictionary is importing; try again when it finishes',
+}
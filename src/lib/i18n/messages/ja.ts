@@ -0,0 +1,604 @@
+import type { MessageKey } from './zh-CN'
+
+/**
+ * 日文界面消息
+ */
+export const ja: Record<MessageKey, string> = {
+  // 通用
+  'common.unknownError': '不明なエラー',
+  'common.cancel': 'キャンセル',
+  'common.close': '閉じる',
+  'common.delete': '削除',
+  'common.save': '保存',
+  'common.loading': '読み込み中...',
+  'common.settingsSaved': '設定を保存しました',
+  'common.saveFailed': '保存に失敗しました',
+  'common.deleteFailed': '削除に失敗しました',
+  'common.pressLetterKey': '入力欄をクリックして、使いたい英字キーを押してください',
+  'common.pressAnyLetter': '英字キーを押してください...',
+  'common.listSeparator': '、',
+  'common.noDefinition': '意味なし',
+  'common.readingLabel': '読み: {reading}',
+  'common.posLabel': '品詞: {pos}',
+  'common.frequencyLabel': '頻度: {frequency}',
+  'common.pitchLabel': 'アクセント: {pitch}',
+  'common.wordCount': '{count} 語',
+  'common.loadFailed': '読み込みに失敗しました',
+  'common.reloadHint': 'ページを再読み込みしてください',
+  'common.deleteCard': 'カードを削除',
+  'common.importFailed': 'インポートに失敗しました',
+
+  // 弹出窗口
+  'popup.tab.cards': '単語カード',
+  'popup.tab.subtitle': '字幕設定',
+  'popup.settings': '設定',
+  'popup.stats.title': '詳しい統計を表示',
+  'popup.stats.count': '単語カード {count} 枚',
+  'popup.cards.loadFailed': 'カードの読み込みに失敗しました',
+  'popup.cards.emptyTitle': 'まだカードが保存されていません',
+  'popup.cards.emptyHint1': 'Netflix で日本語の作品を見ているときに',
+  'popup.cards.emptyHint2': '{key} キーでハイライトされた単語を保存できます',
+  'popup.cards.reading': '読み: {reading}',
+  'popup.cards.delete': 'カードを削除',
+  'popup.cards.confirmDelete': 'このカードを削除しますか？',
+  'popup.cards.deleted': 'カードを削除しました',
+  'popup.pageInfo': '{page} / {total} ページ',
+  'popup.subtitle.custom': 'カスタム字幕',
+  'popup.subtitle.load': 'カスタム字幕を読み込む',
+  'popup.subtitle.styles': 'スタイル設定',
+  'popup.subtitle.fontSize': '文字サイズ',
+  'popup.subtitle.verticalPosition': '縦位置',
+  'popup.subtitle.top': '上',
+  'popup.subtitle.bottom': '下',
+  'popup.subtitle.backgroundOpacity': '背景の不透明度',
+  'popup.subtitle.transparent': '透明',
+  'popup.subtitle.opaque': '不透明',
+  'popup.subtitle.timeOffset': 'タイミング調整',
+  'popup.subtitle.forceFullscreen': '全画面用の字幕位置を強制',
+  'popup.subtitle.forceFullscreenHint':
+    '字幕の位置がずれる、または表示されない場合は、<br>有効にすると画面下部に字幕を表示します',
+  'popup.subtitle.reset': '初期値に戻す',
+  'popup.subtitle.resetDone': '字幕スタイルをリセットしました',
+  'popup.subtitle.fullscreenEnabled': '全画面字幕モードを有効にしました',
+  'popup.subtitle.fullscreenDisabled': '全画面字幕モードを無効にしました',
+  'popup.selection.noUrl': '現在のページの URL を取得できません',
+  'popup.selection.permissionNeeded': 'このサイトで使うには追加の権限が必要です',
+  'popup.selection.permissionDenied': '権限が拒否されたため、このサイトでは使えません',
+  'popup.selection.permissionGranted': '権限を付与しました',
+  'popup.selection.starting': '動画の選択を開始しています...',
+  'popup.selection.failed': '起動に失敗しました: {error}',
+  'popup.selection.notVideoPage': '起動に失敗しました: 動画ページで使用してください',
+
+  // 后台错误信息
+  'background.tabNotFound': '現在のタブが見つかりません',
+  'background.invalidTabId': 'タブ ID が無効です',
+  'background.pageNotSupported': 'このページではこの機能を使えません',
+  'background.contentScriptNoResponse':
+    'ページのスクリプトが応答しません。ページを再読み込みしてから再試行してください',
+  'background.startFailed': '起動に失敗しました: {error}',
+  'background.extensionNotSupported': 'このページでは拡張機能を使えません',
+  'background.internalError': '内部エラー',
+
+  // 查词弹窗
+  'wordPopup.surface': '字幕中: {word}',
+  'wordPopup.noDefinition': '単語帳に意味がありません',
+  'wordPopup.save': 'カードに保存',
+  'wordPopup.saving': '保存中...',
+  'wordPopup.saved': 'カードに保存済み',
+  'wordPopup.markKnown': '習得済みにする',
+  'wordPopup.marking': '登録中...',
+  'wordPopup.known': '習得済み',
+
+  // 字幕全文面板
+  'transcript.title': '字幕全文',
+  'transcript.titleWithName': '字幕全文 · {title}',
+  'transcript.collapse': '字幕全文を折りたたむ',
+  'transcript.expand': '字幕全文を展開',
+
+  // 逐句学习
+  'study.loopOff': '一文ループをオフにしました',
+  'study.loopOn': '一文ループをオンにしました',
+  'study.hotkey.replay': '現在の文を再生',
+  'study.hotkey.loop': '一文ループ',
+  'study.hotkey.previous': '前の文',
+  'study.hotkey.next': '次の文',
+
+  // 页面内提示与字幕文件面板
+  'content.trackCoverage':
+    'このエピソードの字幕 {entries} 文を取得しました。未習得語 {targets} 語、語彙カバー率 {percent}%',
+  'content.customLoaded': 'カスタム字幕を {count} 件読み込みました',
+  'content.customLoadFailed': 'カスタム字幕の読み込みに失敗しました: {error}',
+  'content.switchedToSource': '{name} に切り替えました',
+  'content.noNativeSubtitles': 'このサイトのネイティブ字幕には対応していません',
+  'content.noTargetWord': '学習できる未習得語がありません',
+  'content.video.label': '動画 {index}',
+  'content.video.dimensions': 'サイズ: {dimensions}',
+  'content.video.duration': '長さ: {duration}',
+  'content.video.select': 'この動画を選択',
+  'content.video.unknownDuration': '不明',
+  'content.video.selectFailed': '動画の選択に失敗しました: {error}',
+  'content.video.selectCancelled': '動画の選択をキャンセルしました',
+  'content.subtitleFile.prompt': '字幕ファイルを選択してください ({extensions})',
+  'content.subtitleFile.title': '字幕ファイルを関連付ける',
+  'content.subtitleFile.videoDimensions': '動画サイズ: {dimensions}',
+  'content.subtitleFile.choose': '字幕ファイルを選択',
+  'content.subtitleFile.dropHint': 'クリックして選択するか、ここにファイルをドロップ',
+  'content.subtitleFile.supported': '{extensions} 形式に対応',
+  'content.subtitleFile.remove': 'ファイルを削除',
+  'content.subtitleFile.encoding': '文字コード',
+  'content.subtitleFile.autoDetect': '自動検出',
+  'content.subtitleFile.dialogueStyles': '台詞のスタイル',
+  'content.subtitleFile.dialogueStylesHint':
+    'チェックしたスタイルだけが字幕として表示されます。画面内テキストや歌詞などはチェックを外せます',
+  'content.subtitleFile.load': '字幕を読み込む',
+  'content.subtitleFile.invalidType': '{extensions} 形式の字幕ファイルを選択してください',
+  'content.subtitleFile.detected': '{encoding} を検出',
+  'content.subtitleFile.preview': '{label}：「{preview}」',
+  'content.subtitleFile.noContent':
+    '{label}（字幕を解析できませんでした。別の文字コードを試してください）',
+  'content.subtitleFile.detectFailed': '文字コードを検出できませんでした。手動で選択してください',
+  'content.subtitleFile.styleLines': '{count} 行',
+  'content.subtitleFile.unsupported':
+    '対応していないファイル形式です。{extensions} ファイルを選択してください',
+  'content.subtitleFile.noDialogueStyle': '台詞のスタイルを 1 つ以上選択してください',
+  'content.subtitleFile.loaded': '{name} を読み込みました。字幕の単語を学習できます',
+  'content.subtitleFile.loadFailed': '字幕の読み込みに失敗しました: {error}',
+  'content.capture.exists': '{lemma} は保存済みです',
+  'content.capture.saved': '{word} ( {lemma} ) を保存しました',
+  'content.capture.failed': '保存に失敗しました: {error}',
+  'content.known.marked': '{word} ( {lemma} ) を習得済みにしました',
+  'content.known.exists': '{lemma} はすでに習得済みリストにあります',
+  'content.known.failed': '登録に失敗しました: {error}',
+  'content.screenshotPermission':
+    'スクリーンショットには追加の権限が必要です。拡張機能のアイコンをクリックして許可してください',
+
+  // 设置页
+  'options.pageTitle': 'Immersive Memorize - 設定',
+  'options.breadcrumb.settings': '設定',
+  'options.breadcrumb.learnedWords': '学習済みの単語',
+  'options.breadcrumb.review': '復習',
+  'options.breadcrumb.knownWords': '習得済みの単語',
+  'options.breadcrumb.dictionary': 'オフライン辞書',
+  'options.breadcrumb.libraries': '単語帳の管理',
+  'options.breadcrumb.libraryImport': '単語帳をインポート',
+  'options.breadcrumb.library': '単語帳',
+  'options.breadcrumb.activation': '起動時の動作',
+  'options.settingsLoadFailed': '設定の読み込みに失敗しました',
+  'options.overview.libraries.title': '単語帳の管理',
+  'options.overview.libraries.description': '学習する単語帳とレベルを選択・設定します',
+  'options.overview.libraries.current': '現在: {name}',
+  'options.overview.review.title': '復習',
+  'options.overview.review.description': '保存した単語カードを間隔反復で復習します',
+  'options.overview.knownWords.title': '習得済みの単語',
+  'options.overview.knownWords.description':
+    '学習が不要になった単語を管理します。検索、登録解除、Anki や単語リストからの一括インポートに対応',
+  'options.overview.dictionary.title': 'オフライン辞書',
+  'options.overview.dictionary.description':
+    'JMdict や Yomitan 辞書をインポートして、単語帳にない単語の読みと意味を表示します',
+  'options.overview.activation.title': '起動時の動作',
+  'options.overview.activation.description':
+    '拡張機能を自動または手動で有効にするサイトを設定します',
+  'options.overview.language.title': '言語',
+  'options.overview.language.ui': '表示言語',
+  'options.overview.language.auto': 'ブラウザに合わせる',
+  'options.overview.language.definition': '意味の言語',
+  'options.overview.language.definitionAuto': '表示言語と同じ',
+  'options.overview.language.definitionHint':
+    'カードと単語ポップアップでは、単語帳またはオフライン辞書にあるこの言語の意味を優先し、ない場合は他の言語を使います',
+  'options.hotkeys.title': 'ショートカットキー',
+  'options.hotkeys.capture': '保存キー:',
+  'options.hotkeys.hint': '入力欄をクリックして、ショートカットにする英字キーを押してください',
+  'options.hotkeys.study': '一文ずつ学習',
+  'options.hotkeys.autoPause': '未習得語を含む字幕の再生が終わったら自動で一時停止',
+  'options.hotkeys.studyHint':
+    '一文ごとの操作にはタイミング付きの字幕が必要です（カスタム字幕、ページの字幕トラック、またはエピソード全体の字幕を取得済みの Netflix）',
+  'options.hotkeys.targetCycle': '対象語を切り替え',
+  'options.hotkeys.markKnown': '習得済みにする',
+  'options.highlight.title': '未習得語のハイライト',
+  'options.highlight.all': '字幕中のすべての未習得語を表示',
+  'options.highlight.hint':
+    '有効にすると、各字幕の未習得語をすべてレベル別の色で表示します。切り替えキーを押すか単語をクリックして、保存キーで保存する単語を選べます',
+  'options.highlight.markKnownHint':
+    '習得済みキーを押すと、現在の対象語はハイライトされなくなり、単語帳の学習対象にも表示されません',
+  'options.screenshot.title': 'スクリーンショット',
+  'options.screenshot.enable': '単語カードにスクリーンショットを自動で追加',
+  'options.screenshot.hint': 'Netflix で学習するときに現在の画面をカードに保存します',
+  'options.screenshot.compatibility': '⚠️ 互換性について:',
+  'options.screenshot.blackScreen':
+    'スクリーンショットが黒くなる場合は、Chrome の設定で「ハードウェア アクセラレーション」をオフにしてみてください',
+  'options.csv.title': 'CSV エクスポート',
+  'options.csv.format': '形式:',
+  'options.csv.ankiHtml': 'Anki HTML（推奨）',
+  'options.csv.plainText': 'プレーンテキスト',
+  'options.csv.richText': 'リッチテキスト（ハイライトを保持）',
+  'options.csv.ankiHtmlHint': 'ルビを 漢字[読み] 形式に変換します。Anki へのインポート向け',
+  'options.csv.plainTextHint': 'HTML タグをすべて取り除きます',
+  'options.csv.richTextHint': 'ルビタグとハイライトを保持します。HTML に対応したツール向け',
+  'options.debug.title': 'デバッグ',
+  'options.debug.enable': 'デバッグモードを有効にする（コンソールに詳細ログを表示）',
+  'options.csv.plainTextShort': 'プレーンテキスト:',
+  'options.csv.richTextShort': 'リッチテキスト:',
+  'options.hotkeys.captureName': '保存キー',
+  'options.hotkeys.letterOnly': '英字キー (A-Z) を押してください',
+  'options.hotkeys.conflict': '{key} はすでに「{name}」に使われています',
+  'options.hotkeys.set': '「{name}」のキーを {key} に設定しました',
+  'options.overview.knownWords.summary': '全 {count} 語',
+  'options.overview.dictionary.summary': 'インポート済み: {titles}',
+  'options.overview.dictionary.none': '未インポート',
+  'options.overview.review.summary': '今日の復習: {due} 枚（新規 {new} 枚）',
+  'options.libraries.title': '単語帳を選択',
+  'options.libraries.description': '学習する単語帳を選び、その後レベルを設定します',
+  'options.libraries.selected': '選択中',
+  'options.libraries.importTitle': 'カスタム単語帳をインポート',
+  'options.libraries.importDescription':
+    'CSV、TSV、JSON ファイルから自分の単語リストをインポートします',
+  'options.libraries.selectedNotice': '{name} を選択しました',
+  'options.libraries.confirmDelete': '単語帳「{name}」を削除しますか？',
+  'options.libraries.deleted': '{name} を削除しました',
+  'options.libraryImport.description':
+    'CSV、TSV、JSON ファイルに対応しています。1 行目（または JSON オブジェクトのキー）を列名として使います',
+  'options.libraryImport.name': '単語帳の名前',
+  'options.libraryImport.mapping': '列の対応付け',
+  'options.libraryImport.mappingHint':
+    '単語の列は必須で、辞書形を入れてください。レベル／グループの列は、グループごとに単語を有効にするために使います',
+  'options.libraryImport.preview': 'プレビュー',
+  'options.libraryImport.submit': '単語帳をインポート',
+  'options.libraryImport.summary': '全 {count} 語、{levelCount} 個のレベル／グループ: {levels}',
+  'options.libraryImport.more': '{list} など',
+  'options.libraryImport.skipColumn': 'インポートしない',
+  'options.libraryImport.columnN': '{index} 列目',
+  'options.libraryImport.parseFailed': 'ファイルを解析できませんでした。形式を確認してください',
+  'options.libraryImport.empty': 'ファイルに単語が見つかりません',
+  'options.libraryImport.noEntries':
+    'インポートできる単語がありません。列の対応付けを確認してください',
+  'options.levels.description':
+    '学習するレベルを設定します。レベルをクリックすると単語を確認できます',
+  'options.levels.progress': '{percent}% 完了',
+  'options.levels.include': '学習時にこのレベルの単語を含める',
+
+  // 词汇库
+  'library.field.VocabKanji': '単語',
+  'library.field.VocabFurigana': '読み',
+  'library.field.VocabDefCN': '意味',
+  'library.field.Level': 'レベル／グループ',
+  'library.field.VocabPitch': 'アクセント',
+  'library.field.VocabPoS': '品詞',
+  'library.field.Frequency': '頻度',
+
+  // 设置页
+  'options.vocabList.title': '{level} の単語一覧',
+  'options.vocabList.summary': '全 {count} 語、学習済み {learned} 語',
+  'options.vocabList.learned': '学習済み',
+  'options.learned.otherLevel': 'その他',
+  'options.learned.unknownDate': '不明',
+  'options.learned.title': '学習済みの単語',
+  'options.learned.summary': '{count} 語を学習しました。この調子で続けましょう！',
+  'options.learned.export': 'Anki CSV をエクスポート',
+  'options.learned.clearAll': 'すべての単語カードを削除',
+  'options.learned.levelHeading': '{level}（{count} 語）',
+  'options.learned.viewScreenshot': 'スクリーンショットを表示',
+  'options.learned.learnedAt': '学習日: {date}',
+  'options.learned.source': '出典: {source}',
+  'options.learned.emptyTitle': 'まだ学習した単語がありません',
+  'options.learned.emptyHint':
+    'Netflix で日本語の作品を見ながら、ショートカットキーで学習を始めましょう！',
+  'options.known.source.subtitle': '字幕で登録',
+  'options.known.source.manual': '手動で追加',
+  'options.known.source.import': '一括インポート',
+  'options.known.title': '習得済みの単語',
+  'options.known.summary':
+    '全 {count} 語。これらの単語は字幕でハイライトされず、学習対象にもなりません',
+  'options.known.importTitle': '一括インポート',
+  'options.known.importDescription':
+    'Anki デッキや単語リストをインポートします。単語は辞書形に戻してから現在の単語帳と照合され、プレビューを確認した後で習得済みになります',
+  'options.known.format': 'ファイル形式',
+  'options.known.formatWordList': '1 行 1 語のリスト',
+  'options.known.formatAnki': 'Anki のテキスト書き出し (Notes in Plain Text)',
+  'options.known.column': '単語の列',
+  'options.known.header': '1 行目は見出し',
+  'options.known.inputPlaceholder': 'ファイルを選択するか、内容を貼り付けてください',
+  'options.known.preview': '照合結果をプレビュー',
+  'options.known.search': '単語・読み・意味を検索',
+  'options.known.noMatch': '一致する単語がありません',
+  'options.known.empty':
+    '習得済みの単語はまだありません。字幕でショートカットキーを押すか、単語ポップアップのボタンで登録できます',
+  'options.known.unmark': '習得済みを解除',
+  'options.known.unmarked': '{word} を習得済みリストから外しました',
+  'options.known.actionFailed': '操作に失敗しました',
+  'options.known.readFailed': 'ファイルの読み込みに失敗しました',
+  'options.known.noLibrary': '先に単語帳を選択してください',
+  'options.known.noEntries': 'インポートできる単語がありません。形式と列の設定を確認してください',
+  'options.known.matching': '照合中 {done}/{total}...',
+  'options.known.matchFailed': '照合に失敗しました。後でもう一度お試しください',
+  'options.known.previewLimit': '…全 {count} 件、先頭 {limit} 件のみ表示',
+  'options.known.matchedSummary': '一致 {matched} 件{alreadyKnown}、不一致 {unmatched} 件',
+  'options.known.alreadyKnown': '（{count} 語は登録済み）',
+  'options.known.matched': '一致',
+  'options.known.unmatched': '不一致（現在の単語帳にない、または辞書形を特定できない）',
+  'options.known.commit': '{count} 語を習得済みにする',
+  'options.known.imported': '習得済みの単語を {count} 語インポートしました',
+  'options.dictionary.formatYomitan': 'Yomitan 辞書',
+  'options.dictionary.title': 'オフライン辞書',
+  'options.dictionary.description':
+    '辞書をインポートすると、字幕中のどの単語でも単語ポップアップ・単語カード・エクスポートに読みと意味が表示されます',
+  'options.dictionary.importTitle': '辞書をインポート',
+  'options.dictionary.importDescription':
+    'JMdict / JMdict_e XML（.gz ファイルもそのまま選択可）と Yomitan 辞書 ZIP に対応しています。インポートは一度だけで、辞書はバックグラウンドで索引化されローカルに保存されます。インポート中はこのページを閉じてもかまいません',
+  'options.dictionary.imported': 'インポート済みの辞書',
+  'options.dictionary.empty':
+    '辞書はまだありません。単語ポップアップには単語帳の意味だけが表示されます',
+  'options.dictionary.entryCount': '{count} 項目',
+  'options.dictionary.importedFrom': '{date} に {fileName} からインポート',
+  'options.dictionary.lookup': '辞書を引く',
+  'options.dictionary.lookupPlaceholder': '辞書形を入力して Enter、例: 食べる',
+  'options.dictionary.importStarted': '辞書のインポートをバックグラウンドで開始しました',
+  'options.dictionary.importFailed': 'インポートに失敗しました: {error}',
+  'options.dictionary.confirmDelete': '辞書「{title}」を削除しますか？',
+  'options.dictionary.deleted': '{title} を削除しました',
+  'options.dictionary.notFound': '辞書に見つかりません',
+  'options.dictionary.lookupFailed': '検索に失敗しました',
+  'options.dictionary.status.importing': '{fileName} をインポート中: {count} 項目を書き込みました…',
+  'options.dictionary.status.interrupted':
+    '{fileName} のインポートが中断されました。もう一度インポートしてください',
+  'options.dictionary.status.error': '{fileName} のインポートに失敗しました: {error}',
+  'options.dictionary.status.done': '{fileName} のインポートが完了しました（{count} 項目）',
+  'options.dictionary.done': '辞書のインポートが完了しました（{count} 項目）',
+  'options.dictionary.failed': '辞書のインポートに失敗しました: {error}',
+  'options.export.noCards': 'エクスポートするカードがありません',
+  'options.export.done': 'カードを {count} 枚エクスポートしました（{format} 形式）',
+  'options.export.failed': 'エクスポートに失敗しました: {error}',
+  'options.cards.confirmClear': 'すべてのカードを削除しますか？この操作は元に戻せません。',
+  'options.cards.cleared': 'すべてのカードを削除しました',
+  'options.cards.clearFailed': '削除に失敗しました',
+
+  // 复习
+  'review.complete': '今日の復習は完了です',
+  'review.reviewedCount': '今回 {count} 枚のカードを復習しました',
+  'review.noneDue': '期限が来たカードはありません',
+  'review.rating.again': 'もう一度',
+  'review.rating.hard': '難しい',
+  'review.rating.good': '正解',
+  'review.rating.easy': '簡単',
+  'review.remaining': '残り {count} 枚',
+  'review.reviewed': '復習済み {count} 枚',
+  'review.screenshotAlt': 'スクリーンショット',
+  'review.hotkey': 'ショートカット: {key}',
+  'review.space': 'スペース',
+  'review.showAnswer': '答えを表示',
+  'review.gradeFailed': '復習結果の記録に失敗しました',
+  'review.interval.minutes': '10分未満',
+  'review.interval.days': '{count}日',
+  'review.interval.months': '{count}か月',
+  'review.interval.years': '{count}年',
+
+  // 设置页
+  'options.screenshot.loadFailed': 'スクリーンショットを読み込めません',
+  'options.screenshot.corrupted': '画像データが破損している可能性があります',
+  'options.activation.title': '起動時の動作',
+  'options.activation.description':
+    '拡張機能を自動で有効にするサイトを設定するか、すべてのサイトで有効にします',
+  'options.activation.global': '全体設定',
+  'options.activation.globalLabel': 'すべてのサイトで自動的に有効にする',
+  'options.activation.globalHint':
+    'アイコンをクリックしなくても、すべてのサイトで拡張機能を読み込みます',
+  'options.activation.sites': '自動で有効にするサイト',
+  'options.activation.addSite': 'サイトを追加',
+  'options.activation.sitesHint':
+    '以下のサイトで拡張機能を自動的に有効にします。ワイルドカードに対応しています。例: *://*.example.com/* は example.com のすべてのサブドメインに一致します',
+  'options.activation.empty': '自動で有効にするサイトはありません',
+  'options.activation.emptyHint': '「サイトを追加」をクリックして設定を始めます',
+  'options.activation.usage': '使い方',
+  'options.activation.autoLabel': '自動:',
+  'options.activation.autoHint':
+    '指定したサイトで拡張機能を自動的に読み込み、アイコンが青色になります',
+  'options.activation.manualLabel': '手動:',
+  'options.activation.manualHint':
+    'その他のサイトではアイコンが灰色になり、クリックすると有効になります',
+  'options.activation.patternLabel': 'URL パターン:',
+  'options.activation.patternHint': '* は任意の文字に一致します。例:',
+  'options.activation.patternNetflix': 'Netflix のすべてのページ',
+  'options.activation.patternPrime': 'Prime Video のすべてのページ',
+  'options.activation.patternHttps': 'example.com のすべての HTTPS ページ',
+  'options.activation.patternSubdomain': 'すべての video.xxx.com ドメイン',
+  'options.activation.globalEnabled': 'すべてのサイトで有効にしました',
+  'options.activation.globalDisabled': 'すべてのサイトでの自動有効化をオフにしました',
+  'options.activation.placeholder': '例: *://*.example.com/*',
+  'options.activation.confirmDelete': 'このサイトを削除しますか？',
+  'options.activation.deleted': 'サイトを削除しました',
+
+  // 释义语言
+  'definition.language.zh': '中国語',
+  'definition.language.en': '英語',
+  'definition.language.ja': '日本語',
+
+  // Anki 同步
+  'anki.connectFailed':
+    'AnkiConnect ({url}) に接続できません。Anki が起動していて AnkiConnect アドオンがインストールされているか確認してください',
+  'anki.httpError': 'AnkiConnect がエラーを返しました: HTTP {status}',
+  'anki.permissionDenied':
+    'Anki が接続を拒否しました。Anki に表示されるダイアログでこの拡張機能を許可してください',
+  'anki.noFieldMapping': '先にノートのフィールドに書き込むカードの内容を選択してください',
+  'anki.invalidScreenshot': 'スクリーンショットのデータ形式が無効です',
+  'anki.field.word': '単語',
+  'anki.field.reading': '読み',
+  'anki.field.definition': '意味',
+  'anki.field.sentence': '例文',
+  'anki.field.screenshot': 'スクリーンショット',
+  'anki.field.source': '出典',
+  'anki.field.timestamp': 'タイムスタンプ',
+  'anki.field.glosses': '辞書の意味',
+  'anki.field.level': 'レベル',
+
+  // 设置页
+  'options.breadcrumb.ankiSync': 'Anki 同期',
+  'options.overview.ankiSync.title': 'Anki 同期',
+  'options.overview.ankiSync.description':
+    'AnkiConnect で起動中の Anki にカードを直接追加します。CSV のインポートは不要です',
+  'options.overview.ankiSync.summary': '{total} 枚中 {synced} 枚を同期済み',
+  'options.anki.title': 'Anki 同期',
+  'options.anki.description':
+    'Anki に AnkiConnect アドオン（コード 2055492159）をインストールし、Anki を起動したままにするとカードをデッキに直接追加できます',
+  'options.anki.connection': '接続',
+  'options.anki.url': 'AnkiConnect の URL',
+  'options.anki.connect': '接続',
+  'options.anki.connecting': '接続中...',
+  'options.anki.connected': 'AnkiConnect に接続しました（バージョン {version}）',
+  'options.anki.notConnected':
+    '未接続です。「接続」をクリックしてデッキとノートタイプを読み込みます',
+  'options.anki.invalidUrl': 'AnkiConnect の URL が無効です',
+  'options.anki.permissionNeeded': '{origin} へのアクセス許可が必要です',
+  'options.anki.note': 'ノートの設定',
+  'options.anki.deck': 'デッキ',
+  'options.anki.deckHint': 'デッキが存在しない場合は自動的に作成されます',
+  'options.anki.model': 'ノートタイプ',
+  'options.anki.fields': 'フィールドの対応',
+  'options.anki.fieldsHint':
+    '例文の形式は CSV エクスポート形式の設定に従います。スクリーンショットはメディアファイルとして Anki にアップロードされます',
+  'options.anki.fieldsEmpty': '接続すると選択したノートタイプのフィールドが表示されます',
+  'options.anki.fieldEmpty': '（空欄）',
+  'options.anki.sync': '同期',
+  'options.anki.syncNew': '新しいカードを同期',
+  'options.anki.syncing': '同期中 {done}/{total}...',
+  'options.anki.syncHint':
+    'まだ同期していないカードのみ送信します。Anki にすでにあるノートはスキップされます',
+  'options.anki.resetSync': '同期履歴をリセット',
+  'options.anki.confirmReset':
+    '同期履歴をリセットしますか？次回の同期ですべてのカードが再送信されます',
+  'options.anki.resetDone': '同期履歴をリセットしました',
+  'options.anki.noNewCards': '同期する新しいカードはありません',
+  'options.anki.syncDone': '{added} 枚のカードを Anki に追加しました',
+  'options.anki.syncDuplicates': '、{count} 枚は既存',
+  'options.anki.syncFailedCount': '、{count} 枚は失敗',
+  'options.anki.syncFailed': '同期に失敗しました: {error}',
+  'options.learned.syncAnki': 'Anki に同期',
+  'options.learned.exportApkg': 'Anki デッキ (.apkg) をエクスポート',
+  'options.export.apkgExporting': '.apkg を作成中...',
+  'options.export.apkgDone': '{count} 枚のカードを Anki デッキパッケージにエクスポートしました',
+  'options.csv.mediaAsFiles':
+    'スクリーンショットを別ファイルにする（CSV と images フォルダーを ZIP で出力）',
+  'options.csv.mediaAsFilesHint':
+    'CSV には <img src="im_カードID.jpg"> の参照だけが残り、サイズが大幅に小さくなります。Anki にインポートした後、images フォルダーの画像を collection.media にコピーしてください',
+
+  // 导出
+  'export.field.word': '単語',
+  'export.field.reading': '読み',
+  'export.field.definition': '意味',
+  'export.field.glosses': '辞書の意味',
+  'export.field.sentence': '例文',
+  'export.field.sentenceFurigana': 'ふりがな付き例文（漢字[よみ]）',
+  'export.field.sentenceCloze': '穴埋め例文',
+  'export.field.screenshot': 'スクリーンショット',
+  'export.field.source': '出典',
+  'export.field.showTitle': '作品名',
+  'export.field.season': 'シーズン',
+  'export.field.episode': 'エピソード',
+  'export.field.episodeTitle': 'エピソードタイトル',
+  'export.field.level': 'レベル',
+  'export.field.timestamp': '再生位置',
+  'export.field.createdAt': '追加日時',
+
+  // 设置页
+  'options.overview.exportTemplates.title': 'エクスポートテンプレート',
+  'options.overview.exportTemplates.description':
+    'エクスポートする列・順序・区切り文字・文字コードを設定し、名前付きテンプレートとして保存します',
+  'options.breadcrumb.exportTemplates': 'エクスポートテンプレート',
+  'options.exportTemplates.title': 'エクスポートテンプレート',
+  'options.exportTemplates.description':
+    '列と順序を選び、プレビューを確認してからテンプレートでダウンロードします',
+  'options.exportTemplates.template': 'テンプレート',
+  'options.exportTemplates.name': '名前',
+  'options.exportTemplates.new': '新規作成',
+  'options.exportTemplates.copyName': '{name} のコピー',
+  'options.exportTemplates.confirmDelete': 'テンプレート「{name}」を削除しますか？',
+  'options.exportTemplates.columns': '列',
+  'options.exportTemplates.noColumns': '列がまだ選択されていません',
+  'options.exportTemplates.addColumn': '列を追加',
+  'options.exportTemplates.moveUp': '上へ',
+  'options.exportTemplates.moveDown': '下へ',
+  'options.exportTemplates.remove': '削除',
+  'options.exportTemplates.clozeHint':
+    '穴埋め例文は対象の単語を ____ に置き換え、ふりがな付き例文は Anki の 漢字[よみ] 形式を使います',
+  'options.exportTemplates.format': 'ファイル形式',
+  'options.exportTemplates.separator': '区切り文字',
+  'options.exportTemplates.separatorSemicolon': 'セミコロン (;)',
+  'options.exportTemplates.separatorComma': 'カンマ (,)',
+  'options.exportTemplates.separatorTab': 'タブ（TSV）',
+  'options.exportTemplates.separatorPipe': '縦線 (|)',
+  'options.exportTemplates.quoting': '引用符',
+  'options.exportTemplates.quotingAuto': '必要なときのみ',
+  'options.exportTemplates.quotingAlways': 'すべてのフィールド',
+  'options.exportTemplates.quotingNever': '使わない（改行は空白に置換）',
+  'options.exportTemplates.encoding': '文字コード',
+  'options.exportTemplates.encodingUtf8': 'UTF-8',
+  'options.exportTemplates.encodingUtf8Bom': 'UTF-8 BOM 付き（Excel）',
+  'options.exportTemplates.encodingUtf16': 'UTF-16 LE',
+  'options.exportTemplates.sentenceFormat': '例文の形式',
+  'options.exportTemplates.includeHeader': '1 行目に列名を出力',
+  'options.exportTemplates.preview': 'プレビュー（最初の {count} 枚）',
+  'options.exportTemplates.previewEmpty': 'プレビューできるカードがまだありません',
+  'options.exportTemplates.download': 'テンプレートでエクスポート',
+  'options.exportTemplates.done':
+    'テンプレート「{name}」で {count} 枚のカードをエクスポートしました',
+  'options.csv.ankiCloze': 'Anki 穴埋め（{{c1::対象語}}）',
+  'options.csv.ankiFurigana': 'Anki ふりがな（漢字[かんじ]）',
+  'options.csv.ankiClozeShort': '穴埋め:',
+  'options.csv.ankiFuriganaShort': 'ふりがな:',
+  'options.csv.ankiClozeHint':
+    'ハイライトされた対象語を {{c1::…}} で囲み、残りはプレーンテキストにします。Anki の「穴埋め」ノートタイプ向け',
+  'options.csv.ankiFuriganaHint':
+    '字幕のルビを優先し、その他の漢字は解析器の読みで補います。Anki テンプレートの {{furigana:フィールド}} で表示します',
+
+  // 导出
+  'export.format.json': 'JSON（完全なバックアップ、再インポート可）',
+  'export.format.jsonDescription':
+    'カードのすべてのフィールドとスクリーンショットを含みます。このページの「JSON をインポート」で復元できます',
+  'export.format.markdown': 'Markdown 学習ノート',
+  'export.format.markdownDescription':
+    '作品とエピソードごとに、読み・意味・例文（対象語は太字）をまとめます',
+  'export.format.quizlet': 'Quizlet（用語 / 定義）',
+  'export.format.quizletDescription':
+    '1 行 1 枚、用語と定義をタブで区切ります。Quizlet のインポート欄にそのまま貼り付けられます',
+  'export.format.sentenceCards': '文カード（Yomitan / Migaku）',
+  'export.format.sentenceCardsDescription':
+    'TSV の列は Yomitan の Anki フィールドに対応し、例文は 漢字[かんじ] のふりがなと穴埋めの分割付きです。スクリーンショットがある場合は images フォルダーと一緒に ZIP にまとめます',
+
+  // 设置页
+  'options.exporters.export': 'この形式でエクスポート',
+  'options.exporters.importJson': 'JSON をインポート',
+  'options.exporters.done': '{count} 枚のカードをエクスポートしました（{format}）',
+  'options.exporters.importDone':
+    '{added} 枚のカードをインポートし、既存の {skipped} 枚をスキップしました',
+  'options.exporters.importFailed': 'インポートに失敗しました: {error}',
+  'options.csv.includeGlosses': 'オフライン辞書の語義を出力する（末尾に Glosses 列を追加）',
+
+  // 词汇库
+  'library.jlpt.name': 'JLPT 日本語能力試験',
+  'library.jlpt.description': 'N5 から N1 までのすべての語彙',
+  'library.jlpt.loadFailed': '単語帳を読み込めませんでした。ページを再読み込みしてください',
+  'library.frequency.name': 'JLPT 高頻度コア語彙',
+  'library.frequency.description':
+    'JLPT の語彙を上位 1000・2000・5000・10000 語などの頻度帯に分け、よく使われる語から学習します',
+  'library.frequency.top': '上位 {count}',
+  'library.frequency.range': '{from}～{to}',
+  'library.frequency.rest': '{count} 以降',
+
+  // 导出
+  'export.screenshotPlaceholder': '[スクリーンショット]',
+  'export.clozeMissing':
+    '{count} 枚のカードで文中に対象語が見つからず、穴埋めを作成できませんでした',
+  'export.json.invalidJson': '有効な JSON ファイルではありません',
+  'export.json.notCardsFile': 'Immersive Memorize からエクスポートしたカードファイルではありません',
+
+  // 词典导入
+  'dictionary.invalidJMdict': '有効な JMdict XML ファイルではありません',
+  'dictionary.yomitanMissingIndex': '有効な Yomitan 辞書ではありません: index.json がありません',
+  'dictionary.yomitanNoTermBanks': 'Yomitan 辞書に項目ファイル (term_bank_*.json) がありません',
+  'dictionary.zip.corruptHeader': 'ZIP ファイルヘッダーが壊れています: {name}',
+  'dictionary.zip.unsupportedCompression': '対応していない ZIP 圧縮方式です ({method}): {name}',
+  'dictionary.zip.zip64': 'ZIP64 形式のアーカイブには対応していません',
+  'dictionary.zip.corruptDirectory': 'ZIP のセントラルディレクトリが壊れています',
+  'dictionary.zip.invalid': '有効な ZIP ファイルではありません',
+  'dictionary.stagedFileMissing': 'インポートする辞書ファイルが見つかりません',
+  'dictionary.noEntries': 'ファイルに項目が見つかりません',
+  'dictionary.importBusy': '別の辞書をインポート中です。完了してからもう一度お試しください',
+}
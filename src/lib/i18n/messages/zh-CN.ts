@@ -0,0 +1,573 @@
+/**
+ * 简体中文界面消息，也是消息 key 的来源
+ * {name} 形式为占位符，由 t() 的参数替换
+ */
+export const zhCN = {
+  // 通用
+  'common.unknownError': '未知错误',
+  'common.cancel': '取消',
+  'common.close': '关闭',
+  'common.delete': '删除',
+  'common.save': '保存',
+  'common.loading': '加载中...',
+  'common.settingsSaved': '设置已保存',
+  'common.saveFailed': '保存失败',
+  'common.deleteFailed': '删除失败',
+  'common.pressLetterKey': '点击输入框，然后按下您想要的字母键',
+  'common.pressAnyLetter': '按任意字母键...',
+  'common.listSeparator': '、',
+  'common.noDefinition': '暂无释义',
+  'common.readingLabel': '读音: {reading}',
+  'common.posLabel': '词性: {pos}',
+  'common.frequencyLabel': '频率: {frequency}',
+  'common.pitchLabel': '音调: {pitch}',
+  'common.wordCount': '{count} 个词汇',
+  'common.loadFailed': '加载失败',
+  'common.reloadHint': '请刷新页面重试',
+  'common.deleteCard': '删除卡片',
+  'common.importFailed': '导入失败',
+
+  // 弹出窗口
+  'popup.tab.cards': '记忆卡片',
+  'popup.tab.subtitle': '字幕设置',
+  'popup.settings': '设置',
+  'popup.stats.title': '查看详细统计',
+  'popup.stats.count': '{count} 张记忆卡片',
+  'popup.cards.loadFailed': '加载卡片失败',
+  'popup.cards.emptyTitle': '还没有保存任何卡片',
+  'popup.cards.emptyHint1': '在 Netflix 上观看日语内容时',
+  'popup.cards.emptyHint2': '按 {key} 键保存高亮词汇',
+  'popup.cards.reading': '读音: {reading}',
+  'popup.cards.delete': '删除卡片',
+  'popup.cards.confirmDelete': '确定要删除这张卡片吗？',
+  'popup.cards.deleted': '卡片已删除',
+  'popup.pageInfo': '第 {page} / {total} 页',
+  'popup.subtitle.custom': '自定义字幕',
+  'popup.subtitle.load': '加载自定义字幕',
+  'popup.subtitle.styles': '样式设置',
+  'popup.subtitle.fontSize': '字体大小',
+  'popup.subtitle.verticalPosition': '垂直位置',
+  'popup.subtitle.top': '上',
+  'popup.subtitle.bottom': '下',
+  'popup.subtitle.backgroundOpacity': '背景透明度',
+  'popup.subtitle.transparent': '透明',
+  'popup.subtitle.opaque': '不透明',
+  'popup.subtitle.timeOffset': '时间偏移',
+  'popup.subtitle.forceFullscreen': '强制全屏字幕定位',
+  'popup.subtitle.forceFullscreenHint':
+    '如果字幕位置不正确或无法显示，<br>可尝试启用此选项，字幕将显示在屏幕底部',
+  'popup.subtitle.reset': '重置为默认值',
+  'popup.subtitle.resetDone': '字幕样式已重置',
+  'popup.subtitle.fullscreenEnabled': '已启用全屏字幕模式',
+  'popup.subtitle.fullscreenDisabled': '已禁用全屏字幕模式',
+  'popup.selection.noUrl': '无法获取当前页面URL',
+  'popup.selection.permissionNeeded': '需要额外权限以在此网站使用',
+  'popup.selection.permissionDenied': '权限被拒绝，无法在此网站使用',
+  'popup.selection.permissionGranted': '权限已授予',
+  'popup.selection.starting': '正在启动视频选择...',
+  'popup.selection.failed': '启动失败：{error}',
+  'popup.selection.notVideoPage': '启动失败：请确保在视频页面上使用',
+
+  // 后台错误信息
+  'background.tabNotFound': '无法找到当前标签页',
+  'background.invalidTabId': '标签页ID无效',
+  'background.pageNotSupported': '当前页面不支持此功能',
+  'background.contentScriptNoResponse': '内容脚本未响应，请刷新页面后重试',
+  'background.startFailed': '启动失败：{error}',
+  'background.extensionNotSupported': '当前页面不支持扩展功能',
+  'background.internalError': '服务器内部错误',
+
+  // 查词弹窗
+  'wordPopup.surface': '字幕中: {word}',
+  'wordPopup.noDefinition': '词库中暂无释义',
+  'wordPopup.save': '保存为卡片',
+  'wordPopup.saving': '保存中...',
+  'wordPopup.saved': '已保存为卡片',
+  'wordPopup.markKnown': '标记为已掌握',
+  'wordPopup.marking': '标记中...',
+  'wordPopup.known': '已掌握',
+
+  // 字幕全文面板
+  'transcript.title': '字幕全文',
+  'transcript.titleWithName': '字幕全文 · {title}',
+  'transcript.collapse': '收起字幕全文',
+  'transcript.expand': '展开字幕全文',
+
+  // 逐句学习
+  'study.loopOff': '已关闭单句循环',
+  'study.loopOn': '已开启单句循环',
+  'study.hotkey.replay': '重播当前句',
+  'study.hotkey.loop': '单句循环',
+  'study.hotkey.previous': '上一句',
+  'study.hotkey.next': '下一句',
+
+  // 页面内提示与字幕文件面板
+  'content.trackCoverage': '已获取本集字幕 {entries} 句，生词 {targets} 个，词汇覆盖率 {percent}%',
+  'content.customLoaded': '已加载 {count} 条自定义字幕',
+  'content.customLoadFailed': '自定义字幕加载失败: {error}',
+  'content.switchedToSource': '已切换到{name}',
+  'content.noNativeSubtitles': '当前网站不支持原生字幕',
+  'content.noTargetWord': '当前无生词可学习',
+  'content.video.label': '视频 {index}',
+  'content.video.dimensions': '尺寸: {dimensions}',
+  'content.video.duration': '时长: {duration}',
+  'content.video.select': '选择此视频',
+  'content.video.unknownDuration': '未知',
+  'content.video.selectFailed': '视频选择失败: {error}',
+  'content.video.selectCancelled': '已取消视频选择',
+  'content.subtitleFile.prompt': '请选择字幕文件 ({extensions})',
+  'content.subtitleFile.title': '关联字幕文件',
+  'content.subtitleFile.videoDimensions': '视频尺寸: {dimensions}',
+  'content.subtitleFile.choose': '选择字幕文件',
+  'content.subtitleFile.dropHint': '点击选择或拖拽文件到此处',
+  'content.subtitleFile.supported': '支持 {extensions} 格式',
+  'content.subtitleFile.remove': '移除文件',
+  'content.subtitleFile.encoding': '文字编码',
+  'content.subtitleFile.autoDetect': '自动检测',
+  'content.subtitleFile.dialogueStyles': '对白样式',
+  'content.subtitleFile.dialogueStylesHint':
+    '仅勾选的样式会作为字幕显示，屏幕文字、歌词等样式可取消勾选',
+  'content.subtitleFile.load': '加载字幕',
+  'content.subtitleFile.invalidType': '请选择 {extensions} 格式的字幕文件',
+  'content.subtitleFile.detected': '检测到 {encoding}',
+  'content.subtitleFile.preview': '{label}：「{preview}」',
+  'content.subtitleFile.noContent': '{label}（未能解析出字幕内容，请尝试其他编码）',
+  'content.subtitleFile.detectFailed': '编码检测失败，请手动选择编码',
+  'content.subtitleFile.styleLines': '{count} 行',
+  'content.subtitleFile.unsupported': '不支持的文件格式，请选择 {extensions} 文件',
+  'content.subtitleFile.noDialogueStyle': '请至少选择一个对白样式',
+  'content.subtitleFile.loaded': '{name} 加载成功！现在可以学习字幕中的词汇了',
+  'content.subtitleFile.loadFailed': '字幕加载失败: {error}',
+  'content.capture.exists': '{lemma} 已存在',
+  'content.capture.saved': '{word} ( {lemma} ) 已学习',
+  'content.capture.failed': '保存失败: {error}',
+  'content.known.marked': '{word} ( {lemma} ) 已标记为已掌握',
+  'content.known.exists': '{lemma} 已在已掌握列表中',
+  'content.known.failed': '标记失败: {error}',
+  'content.screenshotPermission': '截图需要额外权限，请点击扩展图标授权',
+
+  // 设置页
+  'options.pageTitle': 'Immersive Memorize - 设置',
+  'options.breadcrumb.settings': '设置',
+  'options.breadcrumb.learnedWords': '已学词汇',
+  'options.breadcrumb.review': '复习',
+  'options.breadcrumb.knownWords': '已掌握词汇',
+  'options.breadcrumb.dictionary': '离线词典',
+  'options.breadcrumb.libraries': '词汇库管理',
+  'options.breadcrumb.libraryImport': '导入词库',
+  'options.breadcrumb.library': '词汇库',
+  'options.breadcrumb.activation': '插件启动行为',
+  'options.settingsLoadFailed': '加载设置失败',
+  'options.overview.libraries.title': '词汇库管理',
+  'options.overview.libraries.description': '选择和配置学习词汇库及等级设置',
+  'options.overview.libraries.current': '当前: {name}',
+  'options.overview.review.title': '复习',
+  'options.overview.review.description': '按间隔重复算法复习已保存的记忆卡片',
+  'options.overview.knownWords.title': '已掌握词汇',
+  'options.overview.knownWords.description':
+    '管理不再需要学习的词汇，支持搜索、取消标记与从 Anki 或词表批量导入',
+  'options.overview.dictionary.title': '离线词典',
+  'options.overview.dictionary.description':
+    '导入 JMdict 或 Yomitan 词典，为词汇库之外的词汇提供读音与释义',
+  'options.overview.activation.title': '插件启动行为',
+  'options.overview.activation.description': '配置插件在哪些网站自动启用或手动启用',
+  'options.overview.language.title': '语言',
+  'options.overview.language.ui': '界面语言',
+  'options.overview.language.auto': '跟随浏览器',
+  'options.overview.language.definition': '释义语言',
+  'options.overview.language.definitionAuto': '与界面语言相同',
+  'options.overview.language.definitionHint':
+    '保存卡片与查词弹窗优先使用该语言的释义（来自词汇库或离线词典），没有时使用其他语言的释义',
+  'options.hotkeys.title': '快捷键设置',
+  'options.hotkeys.capture': '捕获快捷键:',
+  'options.hotkeys.hint': '点击输入框，然后按下任意字母键作为快捷键',
+  'options.hotkeys.study': '逐句学习',
+  'options.hotkeys.autoPause': '含生词的字幕播放结束时自动暂停',
+  'options.hotkeys.studyHint':
+    '逐句控制需要带时间轴的字幕（自定义字幕、网页自带字幕轨道或已获取整集字幕的 Netflix）',
+  'options.hotkeys.targetCycle': '切换目标词',
+  'options.hotkeys.markKnown': '标记已掌握',
+  'options.highlight.title': '生词高亮',
+  'options.highlight.all': '显示字幕中的所有生词',
+  'options.highlight.hint':
+    '开启后按等级颜色标出每句字幕中的全部生词，按切换键或点击生词选择捕获快捷键要保存的词汇',
+  'options.highlight.markKnownHint':
+    '按标记已掌握键，当前目标词汇将不再高亮，也不会出现在词库的待学习列表中',
+  'options.screenshot.title': '截图功能',
+  'options.screenshot.enable': '启用学习卡片自动截图功能',
+  'options.screenshot.hint': '在Netflix学习时自动截取当前画面保存到学习卡片中',
+  'options.screenshot.compatibility': '⚠️ 兼容性提示：',
+  'options.screenshot.blackScreen': '如遇截图黑屏，可尝试在Chrome设置中关闭"硬件加速"功能来解决',
+  'options.csv.title': 'CSV导出设置',
+  'options.csv.format': '导出格式:',
+  'options.csv.ankiHtml': 'Anki HTML格式（推荐）',
+  'options.csv.plainText': '纯文本格式',
+  'options.csv.richText': '富文本格式（保留高亮）',
+  'options.csv.ankiHtmlHint': '转换Ruby为汉字[读音]格式，适合Anki导入',
+  'options.csv.plainTextHint': '移除所有HTML标签，纯文本内容',
+  'options.csv.richTextHint': '保留Ruby标签和高亮样式，适合支持HTML的系统',
+  'options.debug.title': '调试选项',
+  'options.debug.enable': '启用调试模式（在控制台显示详细日志）',
+  'options.csv.plainTextShort': '纯文本:',
+  'options.csv.richTextShort': '富文本:',
+  'options.hotkeys.captureName': '捕获快捷键',
+  'options.hotkeys.letterOnly': '请按字母键 (A-Z)',
+  'options.hotkeys.conflict': '{key} 已用于{name}',
+  'options.hotkeys.set': '{name}快捷键已设置为: {key}',
+  'options.overview.knownWords.summary': '共 {count} 个词汇',
+  'options.overview.dictionary.summary': '已导入: {titles}',
+  'options.overview.dictionary.none': '未导入',
+  'options.overview.review.summary': '今日待复习: {due} 张 (新卡片 {new} 张)',
+  'options.libraries.title': '选择词汇库',
+  'options.libraries.description': '选择要学习的词汇库，后续可配置具体等级',
+  'options.libraries.selected': '已选择',
+  'options.libraries.importTitle': '导入自定义词库',
+  'options.libraries.importDescription': '从 CSV、TSV 或 JSON 文件导入自己的词汇表',
+  'options.libraries.selectedNotice': '已选择 {name}',
+  'options.libraries.confirmDelete': '确定要删除词库「{name}」吗？',
+  'options.libraries.deleted': '已删除 {name}',
+  'options.libraryImport.description':
+    '支持 CSV、TSV 与 JSON 文件，第一行（或 JSON 对象的键）作为列名',
+  'options.libraryImport.name': '词库名称',
+  'options.libraryImport.mapping': '列映射',
+  'options.libraryImport.mappingHint':
+    '词汇列必填，请填写词汇原形；等级 / 分组列用于在词库中按组启用词汇',
+  'options.libraryImport.preview': '预览',
+  'options.libraryImport.submit': '导入词库',
+  'options.libraryImport.summary': '共 {count} 个词汇，{levelCount} 个等级 / 分组：{levels}',
+  'options.libraryImport.more': '{list} 等',
+  'options.libraryImport.skipColumn': '不导入',
+  'options.libraryImport.columnN': '第 {index} 列',
+  'options.libraryImport.parseFailed': '文件解析失败，请检查文件格式',
+  'options.libraryImport.empty': '文件中没有找到词汇',
+  'options.libraryImport.noEntries': '没有可导入的词汇，请检查列映射',
+  'options.levels.description': '配置要学习的等级，点击等级可查看词汇详情',
+  'options.levels.progress': '{percent}% 完成',
+  'options.levels.include': '在学习时包含此等级的词汇',
+
+  // 词汇库
+  'library.field.VocabKanji': '词汇',
+  'library.field.VocabFurigana': '读音',
+  'library.field.VocabDefCN': '释义',
+  'library.field.Level': '等级 / 分组',
+  'library.field.VocabPitch': '音调',
+  'library.field.VocabPoS': '词性',
+  'library.field.Frequency': '频率',
+
+  // 设置页
+  'options.vocabList.title': '{level} 词汇列表',
+  'options.vocabList.summary': '共 {count} 个词汇，已学 {learned} 个',
+  'options.vocabList.learned': '已学会',
+  'options.learned.otherLevel': '其他',
+  'options.learned.unknownDate': '未知',
+  'options.learned.title': '已学词汇',
+  'options.learned.summary': '你已经学会了 {count} 个词汇，继续加油！',
+  'options.learned.export': '导出 Anki CSV',
+  'options.learned.clearAll': '清空所有记忆卡片',
+  'options.learned.levelHeading': '{level} 等级 ({count} 个词汇)',
+  'options.learned.viewScreenshot': '查看截图',
+  'options.learned.learnedAt': '学习时间: {date}',
+  'options.learned.source': '来源: {source}',
+  'options.learned.emptyTitle': '还没有学会任何词汇',
+  'options.learned.emptyHint': '在 Netflix 上观看日语内容时按快捷键开始学习吧！',
+  'options.known.source.subtitle': '字幕中标记',
+  'options.known.source.manual': '手动添加',
+  'options.known.source.import': '批量导入',
+  'options.known.title': '已掌握词汇',
+  'options.known.summary': '共 {count} 个词汇，这些词汇不会在字幕中高亮，也不会作为学习目标',
+  'options.known.importTitle': '批量导入',
+  'options.known.importDescription':
+    '导入 Anki 卡组或词表，词汇会先还原为原形，再与当前词汇库匹配，确认预览后才会标记为已掌握',
+  'options.known.format': '文件格式',
+  'options.known.formatWordList': '逐行词表',
+  'options.known.formatAnki': 'Anki 纯文本导出 (Notes in Plain Text)',
+  'options.known.column': '词汇所在列',
+  'options.known.header': '第一行为标题',
+  'options.known.inputPlaceholder': '选择文件，或直接粘贴内容',
+  'options.known.preview': '预览匹配结果',
+  'options.known.search': '搜索词汇、读音或释义',
+  'options.known.noMatch': '没有匹配的词汇',
+  'options.known.empty': '还没有已掌握的词汇，在字幕中按快捷键或点击查词弹窗中的按钮即可标记',
+  'options.known.unmark': '取消已掌握',
+  'options.known.unmarked': '已将 {word} 移出已掌握列表',
+  'options.known.actionFailed': '操作失败',
+  'options.known.readFailed': '读取文件失败',
+  'options.known.noLibrary': '请先在词汇库管理中选择词汇库',
+  'options.known.noEntries': '没有找到可导入的词汇，请检查格式与列设置',
+  'options.known.matching': '正在匹配 {done}/{total}...',
+  'options.known.matchFailed': '匹配失败，请稍后重试',
+  'options.known.previewLimit': '…共 {count} 条，仅显示前 {limit} 条',
+  'options.known.matchedSummary': '匹配到 {matched} 条{alreadyKnown}，未匹配 {unmatched} 条',
+  'options.known.alreadyKnown': '（{count} 个已在列表中）',
+  'options.known.matched': '已匹配',
+  'options.known.unmatched': '未匹配（不在当前词汇库中或无法确定原形）',
+  'options.known.commit': '标记 {count} 个词汇为已掌握',
+  'options.known.imported': '已导入 {count} 个已掌握词汇',
+  'options.dictionary.formatYomitan': 'Yomitan 词典',
+  'options.dictionary.title': '离线词典',
+  'options.dictionary.description':
+    '导入完整词典后，字幕中任意词汇都能在查词弹窗、记忆卡片与导出中显示读音与释义',
+  'options.dictionary.importTitle': '导入词典',
+  'options.dictionary.importDescription':
+    '支持 JMdict / JMdict_e XML（可直接选择 .gz 压缩包）与 Yomitan 词典 ZIP。只需导入一次，词典会在后台建立索引并保存在本地，导入期间可以关闭此页面',
+  'options.dictionary.imported': '已导入的词典',
+  'options.dictionary.empty': '还没有导入词典，查词弹窗只会显示词汇库中的释义',
+  'options.dictionary.entryCount': '{count} 个词条',
+  'options.dictionary.importedFrom': '{date} 导入自 {fileName}',
+  'options.dictionary.lookup': '查词',
+  'options.dictionary.lookupPlaceholder': '输入词汇原形后按回车，例如 食べる',
+  'options.dictionary.importStarted': '词典已开始在后台导入',
+  'options.dictionary.importFailed': '导入失败: {error}',
+  'options.dictionary.confirmDelete': '确定要删除词典「{title}」吗？',
+  'options.dictionary.deleted': '已删除 {title}',
+  'options.dictionary.notFound': '词典中没有找到该词汇',
+  'options.dictionary.lookupFailed': '查询失败',
+  'options.dictionary.status.importing': '正在导入 {fileName}：已写入 {count} 个词条…',
+  'options.dictionary.status.interrupted': '{fileName} 的导入已中断，请重新导入',
+  'options.dictionary.status.error': '{fileName} 导入失败: {error}',
+  'options.dictionary.status.done': '{fileName} 导入完成，共 {count} 个词条',
+  'options.dictionary.done': '词典导入完成，共 {count} 个词条',
+  'options.dictionary.failed': '词典导入失败: {error}',
+  'options.export.noCards': '没有卡片可导出',
+  'options.export.done': '已导出 {count} 张卡片 ({format}格式)',
+  'options.export.failed': '导出失败: {error}',
+  'options.cards.confirmClear': '确定要删除所有卡片吗？此操作不可撤销。',
+  'options.cards.cleared': '所有卡片已清空',
+  'options.cards.clearFailed': '清空失败',
+
+  // 复习
+  'review.complete': '今日复习已完成',
+  'review.reviewedCount': '本次共复习 {count} 张卡片',
+  'review.noneDue': '当前没有到期的卡片',
+  'review.rating.again': '重来',
+  'review.rating.hard': '困难',
+  'review.rating.good': '良好',
+  'review.rating.easy': '简单',
+  'review.remaining': '剩余 {count} 张',
+  'review.reviewed': '已复习 {count} 张',
+  'review.screenshotAlt': '截图',
+  'review.hotkey': '快捷键: {key}',
+  'review.space': '空格',
+  'review.showAnswer': '显示答案',
+  'review.gradeFailed': '记录复习结果失败',
+  'review.interval.minutes': '<10分钟',
+  'review.interval.days': '{count}天',
+  'review.interval.months': '{count}个月',
+  'review.interval.years': '{count}年',
+
+  // 设置页
+  'options.screenshot.loadFailed': '截图加载失败',
+  'options.screenshot.corrupted': '图片数据可能已损坏',
+  'options.activation.title': '插件启动行为',
+  'options.activation.description': '配置插件在哪些网站自动启用，或设置全局自动启用',
+  'options.activation.global': '全局设置',
+  'options.activation.globalLabel': '在所有网站自动启用',
+  'options.activation.globalHint': '启用后，插件将在所有网站自动加载，无需手动点击',
+  'options.activation.sites': '自动启用的网站',
+  'options.activation.addSite': '添加网站',
+  'options.activation.sitesHint':
+    '插件将在以下网站自动启用。支持通配符，例如 *://*.example.com/* 匹配 example.com 的所有子域名',
+  'options.activation.empty': '暂无自动启用的网站',
+  'options.activation.emptyHint': '点击"添加网站"按钮开始配置',
+  'options.activation.usage': '使用说明',
+  'options.activation.autoLabel': '自动启用：',
+  'options.activation.autoHint': '插件会在指定网站自动加载，图标显示为蓝色',
+  'options.activation.manualLabel': '手动启用：',
+  'options.activation.manualHint': '在其他网站，图标显示为灰色，点击图标即可启用',
+  'options.activation.patternLabel': 'URL 模式：',
+  'options.activation.patternHint': '支持通配符 * 匹配任意字符，例如：',
+  'options.activation.patternNetflix': '匹配 Netflix 所有页面',
+  'options.activation.patternPrime': '匹配 Prime Video 所有页面',
+  'options.activation.patternHttps': '匹配 example.com 的所有 HTTPS 页面',
+  'options.activation.patternSubdomain': '匹配所有 video.xxx.com 域名',
+  'options.activation.globalEnabled': '已启用全局自动启用',
+  'options.activation.globalDisabled': '已禁用全局自动启用',
+  'options.activation.placeholder': '例如: *://*.example.com/*',
+  'options.activation.confirmDelete': '确定要删除这个网站配置吗？',
+  'options.activation.deleted': '网站配置已删除',
+
+  // 释义语言
+  'definition.language.zh': '中文',
+  'definition.language.en': '英文',
+  'definition.language.ja': '日文',
+
+  // Anki 同步
+  'anki.connectFailed': '无法连接 AnkiConnect ({url})，请确认 Anki 已运行并安装了 AnkiConnect 插件',
+  'anki.httpError': 'AnkiConnect 返回错误: HTTP {status}',
+  'anki.permissionDenied': 'Anki 拒绝了连接请求，请在 Anki 弹出的窗口中允许本扩展',
+  'anki.noFieldMapping': '请先为笔记字段选择要写入的卡片内容',
+  'anki.invalidScreenshot': '截图数据格式无效',
+  'anki.field.word': '词汇',
+  'anki.field.reading': '读音',
+  'anki.field.definition': '释义',
+  'anki.field.sentence': '例句',
+  'anki.field.screenshot': '截图',
+  'anki.field.source': '来源',
+  'anki.field.timestamp': '时间戳',
+  'anki.field.glosses': '词典释义',
+  'anki.field.level': '等级',
+
+  // 设置页
+  'options.breadcrumb.ankiSync': 'Anki 同步',
+  'options.overview.ankiSync.title': 'Anki 同步',
+  'options.overview.ankiSync.description':
+    '通过 AnkiConnect 将卡片直接添加到正在运行的 Anki，无需导入 CSV',
+  'options.overview.ankiSync.summary': '已同步 {synced} / {total} 张卡片',
+  'options.anki.title': 'Anki 同步',
+  'options.anki.description':
+    '在 Anki 中安装 AnkiConnect 插件（代码 2055492159）并保持 Anki 运行，即可将卡片直接添加到牌组',
+  'options.anki.connection': '连接',
+  'options.anki.url': 'AnkiConnect 地址',
+  'options.anki.connect': '连接',
+  'options.anki.connecting': '连接中...',
+  'options.anki.connected': '已连接 AnkiConnect (版本 {version})',
+  'options.anki.notConnected': '尚未连接，点击"连接"读取牌组与笔记类型',
+  'options.anki.invalidUrl': 'AnkiConnect 地址无效',
+  'options.anki.permissionNeeded': '需要授权访问 {origin}',
+  'options.anki.note': '笔记设置',
+  'options.anki.deck': '牌组',
+  'options.anki.deckHint': '牌组不存在时会自动创建',
+  'options.anki.model': '笔记类型',
+  'options.anki.fields': '字段映射',
+  'options.anki.fieldsHint': '句子的格式与 CSV 导出格式设置相同；截图会作为媒体文件上传到 Anki',
+  'options.anki.fieldsEmpty': '连接后显示所选笔记类型的字段',
+  'options.anki.fieldEmpty': '(留空)',
+  'options.anki.sync': '同步',
+  'options.anki.syncNew': '同步新卡片',
+  'options.anki.syncing': '同步中 {done}/{total}...',
+  'options.anki.syncHint': '只发送尚未同步的卡片；Anki 中已有的相同笔记会跳过',
+  'options.anki.resetSync': '重置同步记录',
+  'options.anki.confirmReset': '确定要重置同步记录吗？下次同步时将重新发送所有卡片',
+  'options.anki.resetDone': '同步记录已重置',
+  'options.anki.noNewCards': '没有需要同步的新卡片',
+  'options.anki.syncDone': '已添加 {added} 张卡片到 Anki',
+  'options.anki.syncDuplicates': '，{count} 张已存在',
+  'options.anki.syncFailedCount': '，{count} 张失败',
+  'options.anki.syncFailed': '同步失败: {error}',
+  'options.learned.syncAnki': '同步到 Anki',
+  'options.learned.exportApkg': '导出 Anki 牌组 (.apkg)',
+  'options.export.apkgExporting': '正在生成 .apkg...',
+  'options.export.apkgDone': '已导出 {count} 张卡片到 Anki 牌组包',
+  'options.csv.mediaAsFiles': '截图单独打包（导出为 ZIP：CSV + images 文件夹）',
+  'options.csv.mediaAsFilesHint':
+    'CSV 中只保留 <img src="im_卡片id.jpg"> 引用，文件大幅变小；导入 Anki 后将 images 文件夹中的图片复制到 collection.media',
+
+  // 导出
+  'export.field.word': '词汇',
+  'export.field.reading': '读音',
+  'export.field.definition': '释义',
+  'export.field.glosses': '词典释义',
+  'export.field.sentence': '句子',
+  'export.field.sentenceFurigana': '注音句子（汉字[读音]）',
+  'export.field.sentenceCloze': '挖空句子',
+  'export.field.screenshot': '截图',
+  'export.field.source': '来源',
+  'export.field.showTitle': '剧集名称',
+  'export.field.season': '季',
+  'export.field.episode': '集',
+  'export.field.episodeTitle': '集标题',
+  'export.field.level': '等级',
+  'export.field.timestamp': '时间点',
+  'export.field.createdAt': '添加时间',
+
+  // 设置页
+  'options.overview.exportTemplates.title': '导出模板',
+  'options.overview.exportTemplates.description':
+    '自定义导出的列、顺序、分隔符与编码，保存为命名模板',
+  'options.breadcrumb.exportTemplates': '导出模板',
+  'options.exportTemplates.title': '导出模板',
+  'options.exportTemplates.description': '选择要导出的列及顺序，预览后按模板下载',
+  'options.exportTemplates.template': '模板',
+  'options.exportTemplates.name': '名称',
+  'options.exportTemplates.new': '新建',
+  'options.exportTemplates.copyName': '{name} 副本',
+  'options.exportTemplates.confirmDelete': '确定要删除模板“{name}”吗？',
+  'options.exportTemplates.columns': '列',
+  'options.exportTemplates.noColumns': '还没有选择任何列',
+  'options.exportTemplates.addColumn': '添加列',
+  'options.exportTemplates.moveUp': '上移',
+  'options.exportTemplates.moveDown': '下移',
+  'options.exportTemplates.remove': '移除',
+  'options.exportTemplates.clozeHint':
+    '挖空句子将目标词替换为 ____，注音句子使用 Anki 的 汉字[读音] 格式',
+  'options.exportTemplates.format': '文件格式',
+  'options.exportTemplates.separator': '分隔符',
+  'options.exportTemplates.separatorSemicolon': '分号 (;)',
+  'options.exportTemplates.separatorComma': '逗号 (,)',
+  'options.exportTemplates.separatorTab': '制表符（TSV）',
+  'options.exportTemplates.separatorPipe': '竖线 (|)',
+  'options.exportTemplates.quoting': '引号',
+  'options.exportTemplates.quotingAuto': '仅在需要时',
+  'options.exportTemplates.quotingAlways': '所有字段',
+  'options.exportTemplates.quotingNever': '不使用（换行替换为空格）',
+  'options.exportTemplates.encoding': '编码',
+  'options.exportTemplates.encodingUtf8': 'UTF-8',
+  'options.exportTemplates.encodingUtf8Bom': 'UTF-8 带 BOM（Excel）',
+  'options.exportTemplates.encodingUtf16': 'UTF-16 LE',
+  'options.exportTemplates.sentenceFormat': '句子格式',
+  'options.exportTemplates.includeHeader': '第一行输出列名',
+  'options.exportTemplates.preview': '预览（前 {count} 张卡片）',
+  'options.exportTemplates.previewEmpty': '还没有卡片可预览',
+  'options.exportTemplates.download': '按模板导出',
+  'options.exportTemplates.done': '已按模板“{name}”导出 {count} 张卡片',
+  'options.csv.ankiCloze': 'Anki 挖空格式（{{c1::目标词}}）',
+  'options.csv.ankiFurigana': 'Anki 注音格式（漢字[かんじ]）',
+  'options.csv.ankiClozeShort': '挖空:',
+  'options.csv.ankiFuriganaShort': '注音:',
+  'options.csv.ankiClozeHint':
+    '高亮的目标词包裹为 {{c1::…}}，其余为纯文本，适合 Anki 的“填空题”笔记类型',
+  'options.csv.ankiFuriganaHint':
+    '优先使用字幕中的注音，其余汉字由日语分析器补充读音，配合 Anki 模板中的 {{furigana:字段}} 显示',
+
+  // 导出
+  'export.format.json': 'JSON（完整备份，可重新导入）',
+  'export.format.jsonDescription': '包含卡片的全部字段与截图，可在此页面通过“导入 JSON”恢复',
+  'export.format.markdown': 'Markdown 学习笔记',
+  'export.format.markdownDescription': '按剧集与集数分组，列出读音、释义与例句（目标词加粗）',
+  'export.format.quizlet': 'Quizlet（词语 / 释义）',
+  'export.format.quizletDescription':
+    '每行一张卡片，词语与释义以制表符分隔，可直接粘贴到 Quizlet 的导入窗口',
+  'export.format.sentenceCards': '句子卡片（Yomitan / Migaku）',
+  'export.format.sentenceCardsDescription':
+    'TSV 列名与 Yomitan 的 Anki 字段对应，句子带 漢字[かんじ] 注音并拆分挖空；有截图时与 images 文件夹一起打包为 ZIP',
+
+  // 设置页
+  'options.exporters.export': '导出为所选格式',
+  'options.exporters.importJson': '导入 JSON',
+  'options.exporters.done': '已导出 {count} 张卡片（{format}）',
+  'options.exporters.importDone': '已导入 {added} 张卡片，跳过 {skipped} 张已存在的卡片',
+  'options.exporters.importFailed': '导入失败: {error}',
+  'options.csv.includeGlosses': '导出离线词典释义（在最后增加 Glosses 列）',
+
+  // 词汇库
+  'library.jlpt.name': 'JLPT 日语能力考试',
+  'library.jlpt.description': '包含 N5 到 N1 的全部词汇',
+  'library.jlpt.loadFailed': '词库加载失败，请刷新页面重试',
+  'library.frequency.name': 'JLPT 高频核心词汇',
+  'library.frequency.description':
+    '按词频将 JLPT 词汇划分为前 1000、前 2000、前 5000、前 10000 等词频段，优先学习最常用的词汇',
+  'library.frequency.top': '前 {count}',
+  'library.frequency.range': '{from}-{to}',
+  'library.frequency.rest': '{count} 以后',
+
+  // 导出
+  'export.screenshotPlaceholder': '[截图]',
+  'export.clozeMissing': '{count} 张卡片的句子中找不到目标词，这些卡片没有生成挖空',
+  'export.json.invalidJson': '不是有效的 JSON 文件',
+  'export.json.notCardsFile': '不是 Immersive Memorize 导出的卡片文件',
+
+  // 词典导入
+  'dictionary.invalidJMdict': '不是有效的 JMdict XML 文件',
+  'dictionary.yomitanMissingIndex': '不是有效的 Yomitan 词典：缺少 index.json',
+  'dictionary.yomitanNoTermBanks': 'Yomitan 词典中没有词条文件 (term_bank_*.json)',
+  'dictionary.zip.corruptHeader': 'ZIP 文件头损坏: {name}',
+  'dictionary.zip.unsupportedCompression': '不支持的 ZIP 压缩方式 ({method}): {name}',
+  'dictionary.zip.zip64': '不支持 ZIP64 格式的压缩包',
+  'dictionary.zip.corruptDirectory': 'ZIP 中央目录损坏',
+  'dictionary.zip.invalid': '不是有效的 ZIP 文件',
+  'dictionary.stagedFileMissing': '找不到待导入的词典文件',
+  'dictionary.noEntries': '文件中没有找到词条',
+  'dictionary.importBusy': '已有词典正在导入，请等待完成后再试',
+}
+
+export type MessageKey = keyof typeof zhCN
@@ -0,0 +1,178 @@
+/**
+ * 已掌握词汇批量导入
+ * 解析 Anki "Notes in Plain Text" 导出、CSV 指定列或逐行词表，
+ * 经分词器还原为原形后与词库匹配，返回匹配与未匹配的预览结果
+ */
+
+import type { VocabEntry } from '@/types'
+import { analyze, type Word } from '@/lib/japanese-analyzer/remote-analyzer'
+import { parseDelimitedText, splitDelimitedRow } from '@/lib/delimited-text'
+
+export type KnownWordsImportFormat = 'word-list' | 'anki' | 'csv'
+
+export interface KnownWordsParseOptions {
+  format: KnownWordsImportFormat
+  column: number // 从 0 开始，逐行词表忽略此项
+  hasHeader: boolean // CSV 第一行是否为标题
+}
+
+export interface KnownWordsImportMatch {
+  entry: string // 文件中的原始内容
+  lemma: string // 匹配到的词库词汇
+}
+
+export interface KnownWordsImportPreview {
+  matched: KnownWordsImportMatch[]
+  unmatched: string[]
+}
+
+// Anki 导出文件头部 #separator: 的取值
+const ANKI_SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+  space: ' ',
+  colon: ':',
+}
+
+// 分词后不计入匹配的词性，与字幕处理中的不可学习词性一致
+const NON_CONTENT_POS = ['postposition', 'symbol', 'auxiliary_verb', 'other', 'TBD']
+
+// 同时发送的分析请求数
+const ANALYZE_BATCH_SIZE = 20
+
+export class KnownWordsImporter {
+  /**
+   * 从导入文本中提取词汇列表（已去重、去空）
+   */
+  parse(text: string, options: KnownWordsParseOptions): string[] {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/)
+    let fields: string[]
+
+    if (options.format === 'word-list') {
+      fields = lines
+    } else if (options.format === 'anki') {
+      fields = this.parseAnkiPlainText(lines, options.column)
+    } else {
+      const rows = parseDelimitedText(lines.join('\n'))
+      fields = (options.hasHeader ? rows.slice(1) : rows).map(row => row[options.column] || '')
+    }
+
+    const entries = fields.map(field => this.cleanEntry(field)).filter(entry => entry.length > 0)
+    return Array.from(new Set(entries))
+  }
+
+  /**
+   * 将词汇还原为原形并与词库匹配
+   * 词库中已有的词汇直接匹配，其余经分词器还原后只在恰好对应一个词库词汇时才算匹配
+   */
+  async match(
+    entries: string[],
+    vocab: VocabEntry[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<KnownWordsImportPreview> {
+    const vocabWords = new Set(vocab.map(entry => entry.VocabKanji))
+    const lemmas = new Map<string, string | null>()
+
+    const pending = entries.filter(entry => {
+      if (!vocabWords.has(entry)) return true
+      lemmas.set(entry, entry)
+      return false
+    })
+
+    let done = entries.length - pending.length
+    onProgress?.(done, entries.length)
+
+    for (let i = 0; i < pending.length; i += ANALYZE_BATCH_SIZE) {
+      const batch = pending.slice(i, i + ANALYZE_BATCH_SIZE)
+      await Promise.all(
+        batch.map(async entry => {
+          lemmas.set(entry, await this.findLemma(entry, vocabWords))
+        })
+      )
+      done += batch.length
+      onProgress?.(done, entries.length)
+    }
+
+    const preview: KnownWordsImportPreview = { matched: [], unmatched: [] }
+    for (const entry of entries) {
+      const lemma = lemmas.get(entry)
+      if (lemma) {
+        preview.matched.push({ entry, lemma })
+      } else {
+        preview.unmatched.push(entry)
+      }
+    }
+    return preview
+  }
+
+  private async findLemma(entry: string, vocabWords: Set<string>): Promise<string | null> {
+    let words: Word[]
+    try {
+      words = await analyze(entry)
+    } catch (error) {
+      console.warn(`[KnownWordsImporter] 分析失败: ${entry}`, error)
+      return null
+    }
+
+    const contentLemmas = words
+      .filter(word => !NON_CONTENT_POS.includes(word.part_of_speech))
+      .map(word => word.lemma)
+    // サ変动词（勉強する）会拆成名词与する，按名词匹配
+    if (contentLemmas.length > 1 && contentLemmas[contentLemmas.length - 1] === 'する') {
+      contentLemmas.pop()
+    }
+
+    const candidates = new Set(contentLemmas.filter(lemma => vocabWords.has(lemma)))
+    // 例句或词组会命中多个词汇，无法判断用户指的是哪一个
+    return candidates.size === 1 ? Array.from(candidates)[0] : null
+  }
+
+  /**
+   * Anki 纯文本导出：以 # 开头的文件头声明分隔符，字段可能带引号、HTML 与注音
+   */
+  private parseAnkiPlainText(lines: string[], column: number): string[] {
+    let delimiter = '\t'
+    const fields: string[] = []
+
+    for (const line of lines) {
+      const header = line.match(/^#([\w ]+):(.*)$/)
+      if (header) {
+        if (header[1] === 'separator') {
+          const value = header[2].trim()
+          delimiter = ANKI_SEPARATORS[value.toLowerCase()] || value || delimiter
+        }
+        continue
+      }
+      if (line.trim().length === 0) continue
+
+      fields.push(this.stripHtml(splitDelimitedRow(line, delimiter)[column] || ''))
+    }
+    return fields
+  }
+
+  private stripHtml(text: string): string {
+    return text
+      .replace(/<br\s*\/?>/gi, ' ')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&amp;/g, '&')
+  }
+
+  /**
+   * 去掉 Anki 注音（食[た]べる）与括号中的读音，只保留词汇本身
+   */
+  private cleanEntry(field: string): string {
+    let entry = field.trim()
+    if (/\[[^\]]*\]/.test(entry)) {
+      entry = entry.replace(/\[[^\]]*\]/g, '').replace(/\s+/g, '')
+    }
+    return entry.replace(/[（(][^）)]*[）)]/g, '').trim()
+  }
+}
+
+export const knownWordsImporter = new KnownWordsImporter()
@@ -0,0 +1,124 @@
+import type { ReviewRating, ReviewState } from '@/types'
+import { t } from '@/lib/i18n'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const RELEARN_DELAY_MS = 10 * 60 * 1000 // 答错后10分钟内再次出现
+
+/**
+ * 基于 SM-2 算法的间隔重复调度器
+ * 四档评分：重来 / 困难 / 良好 / 简单
+ */
+export class ReviewScheduler {
+  static readonly INITIAL_EASE = 2.5
+  static readonly MIN_EASE = 1.3
+
+  /**
+   * 为尚未复习过的卡片创建初始复习状态（立即到期）
+   */
+  createInitialState(cardId: number, now: Date = new Date()): ReviewState {
+    return {
+      cardId,
+      due: now.toISOString(),
+      interval: 0,
+      ease: ReviewScheduler.INITIAL_EASE,
+      repetitions: 0,
+      lapses: 0,
+    }
+  }
+
+  /**
+   * 根据评分计算下一次复习状态
+   */
+  schedule(state: ReviewState, rating: ReviewRating, now: Date = new Date()): ReviewState {
+    if (rating === 'again') {
+      return {
+        ...state,
+        due: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+        interval: 0,
+        ease: Math.max(ReviewScheduler.MIN_EASE, state.ease - 0.2),
+        repetitions: 0,
+        lapses: state.repetitions > 0 ? state.lapses + 1 : state.lapses,
+        lastReviewedAt: now.toISOString(),
+      }
+    }
+
+    const ease = this.nextEase(state.ease, rating)
+    const interval = this.nextInterval(state, rating, ease)
+
+    return {
+      ...state,
+      due: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+      interval,
+      ease,
+      repetitions: state.repetitions + 1,
+      lastReviewedAt: now.toISOString(),
+    }
+  }
+
+  /**
+   * 预览各评分对应的下次间隔（天），0 表示当天重来
+   */
+  previewIntervals(state: ReviewState): Record<ReviewRating, number> {
+    return {
+      again: 0,
+      hard: this.nextInterval(state, 'hard', this.nextEase(state.ease, 'hard')),
+      good: this.nextInterval(state, 'good', this.nextEase(state.ease, 'good')),
+      easy: this.nextInterval(state, 'easy', this.nextEase(state.ease, 'easy')),
+    }
+  }
+
+  /**
+   * 判断卡片是否已到期
+   */
+  isDue(state: ReviewState, now: Date = new Date()): boolean {
+    return new Date(state.due).getTime() <= now.getTime()
+  }
+
+  /**
+   * 将间隔格式化为简短的可读文本
+   */
+  static formatInterval(days: number): string {
+    if (days <= 0) return t('review.interval.minutes')
+    if (days < 30) return t('review.interval.days', { count: days })
+    if (days < 365) return t('review.interval.months', { count: Math.round(days / 30) })
+    return t('review.interval.years', { count: (days / 365).toFixed(1) })
+  }
+
+  private nextEase(ease: number, rating: ReviewRating): number {
+    switch (rating) {
+      case 'again':
+        return Math.max(ReviewScheduler.MIN_EASE, ease - 0.2)
+      case 'hard':
+        return Math.max(ReviewScheduler.MIN_EASE, ease - 0.15)
+      case 'easy':
+        return ease + 0.15
+      default:
+        return ease
+    }
+  }
+
+  private nextInterval(state: ReviewState, rating: ReviewRating, ease: number): number {
+    let interval: number
+
+    if (state.repetitions === 0) {
+      interval = rating === 'easy' ? 4 : 1
+    } else if (state.repetitions === 1) {
+      interval = rating === 'hard' ? 3 : rating === 'easy' ? 8 : 6
+    } else {
+      const base = Math.max(1, state.interval)
+      if (rating === 'hard') {
+        interval = base * 1.2
+      } else if (rating === 'easy') {
+        interval = base * ease * 1.3
+      } else {
+        interval = base * ease
+      }
+    }
+
+    // 保证间隔至少增长一天，避免长期停滞
+    const rounded = Math.round(interval)
+    return state.repetitions > 1 ? Math.max(rounded, state.interval + 1) : Math.max(1, rounded)
+  }
+}
+
+export const reviewScheduler = new ReviewScheduler()
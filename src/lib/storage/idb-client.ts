@@ -1,5 +1,17 @@
 import { openDB, type DBSchema, type IDBPDatabase } from 'idb'
-import type { FlashCardDB, ScreenshotDB, SettingDB, VocabCacheDB } from './types'
+import type {
+  DictionaryDB,
+  DictionaryEntryDB,
+  DictionaryFileDB,
+  FlashCardDB,
+  KnownWordDB,
+  ReviewDB,
+  ScreenshotDB,
+  SettingDB,
+  SubtitleTrackDB,
+  VocabCacheDB,
+  VocabLibraryDB
+} from './types'
 import { DB_NAME, DB_VERSION, STORES, INDEXES } from './types'
 
 // 数据库 Schema 定义
@@ -34,6 +46,47 @@ interface ImmersiveMemorizeDB extends DBSchema {
       [INDEXES.VOCAB_CACHE.BY_LEVEL]: string
     }
   }
+  [STORES.REVIEWS]: {
+    key: number
+    value: ReviewDB
+    indexes: {
+      [INDEXES.REVIEWS.BY_DUE]: string
+    }
+  }
+  [STORES.SUBTITLE_TRACKS]: {
+    key: string
+    value: SubtitleTrackDB
+    indexes: {
+      [INDEXES.SUBTITLE_TRACKS.BY_MEDIA_ID]: string
+    }
+  }
+  [STORES.KNOWN_WORDS]: {
+    key: string
+    value: KnownWordDB
+    indexes: {
+      [INDEXES.KNOWN_WORDS.BY_ADDED_AT]: string
+    }
+  }
+  [STORES.VOCAB_LIBRARIES]: {
+    key: string
+    value: VocabLibraryDB
+  }
+  [STORES.DICTIONARIES]: {
+    key: string
+    value: DictionaryDB
+  }
+  [STORES.DICTIONARY_ENTRIES]: {
+    key: string
+    value: DictionaryEntryDB
+    indexes: {
+      [INDEXES.DICTIONARY_ENTRIES.BY_TERM]: string
+      [INDEXES.DICTIONARY_ENTRIES.BY_READING]: string
+    }
+  }
+  [STORES.DICTIONARY_FILES]: {
+    key: string
+    value: DictionaryFileDB
+  }
 }
 
 class IDBClient {
@@ -79,6 +132,42 @@ class IDBClient {
             const vocabStore = db.createObjectStore(STORES.VOCAB_CACHE, { keyPath: 'word' })
             vocabStore.createIndex(INDEXES.VOCAB_CACHE.BY_LEVEL, 'level')
           }
+
+          // 创建 reviews store
+          if (!db.objectStoreNames.contains(STORES.REVIEWS)) {
+            const reviewsStore = db.createObjectStore(STORES.REVIEWS, { keyPath: 'cardId' })
+            reviewsStore.createIndex(INDEXES.REVIEWS.BY_DUE, 'due')
+          }
+
+          // 创建 subtitle_tracks store
+          if (!db.objectStoreNames.contains(STORES.SUBTITLE_TRACKS)) {
+            const tracksStore = db.createObjectStore(STORES.SUBTITLE_TRACKS, { keyPath: 'id' })
+            tracksStore.createIndex(INDEXES.SUBTITLE_TRACKS.BY_MEDIA_ID, 'mediaId')
+          }
+
+          // 创建 known_words store
+          if (!db.objectStoreNames.contains(STORES.KNOWN_WORDS)) {
+            const knownWordsStore = db.createObjectStore(STORES.KNOWN_WORDS, { keyPath: 'word' })
+            knownWordsStore.createIndex(INDEXES.KNOWN_WORDS.BY_ADDED_AT, 'addedAt')
+          }
+
+          // 创建 vocab_libraries store
+          if (!db.objectStoreNames.contains(STORES.VOCAB_LIBRARIES)) {
+            db.createObjectStore(STORES.VOCAB_LIBRARIES, { keyPath: 'id' })
+          }
+
+          // 创建离线词典相关 store，词条按每个写法与读音建立多值索引
+          if (!db.objectStoreNames.contains(STORES.DICTIONARIES)) {
+            db.createObjectStore(STORES.DICTIONARIES, { keyPath: 'id' })
+          }
+          if (!db.objectStoreNames.contains(STORES.DICTIONARY_ENTRIES)) {
+            const entriesStore = db.createObjectStore(STORES.DICTIONARY_ENTRIES, { keyPath: 'id' })
+            entriesStore.createIndex(INDEXES.DICTIONARY_ENTRIES.BY_TERM, 'terms', { multiEntry: true })
+            entriesStore.createIndex(INDEXES.DICTIONARY_ENTRIES.BY_READING, 'readings', { multiEntry: true })
+          }
+          if (!db.objectStoreNames.contains(STORES.DICTIONARY_FILES)) {
+            db.createObjectStore(STORES.DICTIONARY_FILES, { keyPath: 'id' })
+          }
         }
       })
       
@@ -130,11 +219,12 @@ class IDBClient {
     await this.initDB()
     if (!this.db) throw new Error('数据库未初始化')
     
-    const tx = this.db.transaction([STORES.FLASHCARDS, STORES.SCREENSHOTS], 'readwrite')
+    const tx = this.db.transaction([STORES.FLASHCARDS, STORES.SCREENSHOTS, STORES.REVIEWS], 'readwrite')
     
     await Promise.all([
       tx.objectStore(STORES.FLASHCARDS).delete(id),
-      tx.objectStore(STORES.SCREENSHOTS).delete(id)
+      tx.objectStore(STORES.SCREENSHOTS).delete(id),
+      tx.objectStore(STORES.REVIEWS).delete(id)
     ])
     
     await tx.done
@@ -183,6 +273,182 @@ class IDBClient {
     console.log('[IDBClient] 批量添加截图成功:', screenshots.length)
   }
 
+  // ===== Review 操作 =====
+  async getReview(cardId: number): Promise<ReviewDB | undefined> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    return await this.db.get(STORES.REVIEWS, cardId)
+  }
+
+  async getAllReviews(): Promise<ReviewDB[]> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    return await this.db.getAll(STORES.REVIEWS)
+  }
+
+  async putReview(review: ReviewDB): Promise<void> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    await this.db.put(STORES.REVIEWS, review)
+  }
+
+  // ===== Subtitle Track 操作 =====
+  async putSubtitleTrack(track: SubtitleTrackDB): Promise<void> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    await this.db.put(STORES.SUBTITLE_TRACKS, track)
+    console.log('[IDBClient] 保存字幕轨道成功:', track.id)
+  }
+
+  async getSubtitleTrack(id: string): Promise<SubtitleTrackDB | undefined> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    return await this.db.get(STORES.SUBTITLE_TRACKS, id)
+  }
+
+  // ===== Known Word 操作 =====
+  async getAllKnownWords(): Promise<KnownWordDB[]> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    return await this.db.getAll(STORES.KNOWN_WORDS)
+  }
+
+  async putKnownWords(words: KnownWordDB[]): Promise<void> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    const tx = this.db.transaction(STORES.KNOWN_WORDS, 'readwrite')
+    const store = tx.objectStore(STORES.KNOWN_WORDS)
+    
+    await Promise.all(words.map(word => store.put(word)))
+    await tx.done
+    
+    console.log('[IDBClient] 保存已掌握词汇成功:', words.length)
+  }
+
+  async deleteKnownWords(words: string[]): Promise<void> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    const tx = this.db.transaction(STORES.KNOWN_WORDS, 'readwrite')
+    const store = tx.objectStore(STORES.KNOWN_WORDS)
+    
+    await Promise.all(words.map(word => store.delete(word)))
+    await tx.done
+    
+    console.log('[IDBClient] 删除已掌握词汇成功:', words.length)
+  }
+
+  // ===== Vocab Library 操作 =====
+  async getAllVocabLibraries(): Promise<VocabLibraryDB[]> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    return await this.db.getAll(STORES.VOCAB_LIBRARIES)
+  }
+
+  async putVocabLibrary(library: VocabLibraryDB): Promise<void> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    await this.db.put(STORES.VOCAB_LIBRARIES, library)
+    console.log('[IDBClient] 保存自定义词库成功:', library.id)
+  }
+
+  async deleteVocabLibrary(id: string): Promise<void> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    await this.db.delete(STORES.VOCAB_LIBRARIES, id)
+    console.log('[IDBClient] 删除自定义词库成功:', id)
+  }
+
+  // ===== Dictionary 操作 =====
+  async getAllDictionaries(): Promise<DictionaryDB[]> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    return await this.db.getAll(STORES.DICTIONARIES)
+  }
+
+  async putDictionary(dictionary: DictionaryDB): Promise<void> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    await this.db.put(STORES.DICTIONARIES, dictionary)
+    console.log('[IDBClient] 保存词典成功:', dictionary.id)
+  }
+
+  /**
+   * 删除词典及其全部词条（词条 id 以 `${dictionaryId}:` 开头）
+   */
+  async deleteDictionary(id: string): Promise<void> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    const tx = this.db.transaction([STORES.DICTIONARIES, STORES.DICTIONARY_ENTRIES], 'readwrite')
+    
+    await Promise.all([
+      tx.objectStore(STORES.DICTIONARIES).delete(id),
+      tx.objectStore(STORES.DICTIONARY_ENTRIES).delete(IDBKeyRange.bound(`${id}:`, `${id}:\uffff`))
+    ])
+    
+    await tx.done
+    console.log('[IDBClient] 删除词典成功:', id)
+  }
+
+  async putDictionaryEntries(entries: DictionaryEntryDB[]): Promise<void> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    const tx = this.db.transaction(STORES.DICTIONARY_ENTRIES, 'readwrite')
+    const store = tx.objectStore(STORES.DICTIONARY_ENTRIES)
+    
+    await Promise.all(entries.map(entry => store.put(entry)))
+    await tx.done
+  }
+
+  async getDictionaryEntriesByTerm(term: string): Promise<DictionaryEntryDB[]> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    return await this.db.getAllFromIndex(STORES.DICTIONARY_ENTRIES, INDEXES.DICTIONARY_ENTRIES.BY_TERM, term)
+  }
+
+  async getDictionaryEntriesByReading(reading: string): Promise<DictionaryEntryDB[]> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    return await this.db.getAllFromIndex(STORES.DICTIONARY_ENTRIES, INDEXES.DICTIONARY_ENTRIES.BY_READING, reading)
+  }
+
+  async putDictionaryFile(file: DictionaryFileDB): Promise<void> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    await this.db.put(STORES.DICTIONARY_FILES, file)
+  }
+
+  async getDictionaryFile(id: string): Promise<DictionaryFileDB | undefined> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    return await this.db.get(STORES.DICTIONARY_FILES, id)
+  }
+
+  async deleteDictionaryFile(id: string): Promise<void> {
+    await this.initDB()
+    if (!this.db) throw new Error('数据库未初始化')
+    
+    await this.db.delete(STORES.DICTIONARY_FILES, id)
+  }
+
   // ===== Settings 操作 =====
   async setSetting(key: string, value: any): Promise<void> {
     await this.initDB()
@@ -225,12 +491,17 @@ class IDBClient {
     await this.initDB()
     if (!this.db) throw new Error('数据库未初始化')
     
-    const tx = this.db.transaction([STORES.FLASHCARDS, STORES.SCREENSHOTS, STORES.VOCAB_CACHE], 'readwrite')
+    const tx = this.db.transaction(
+      [STORES.FLASHCARDS, STORES.SCREENSHOTS, STORES.VOCAB_CACHE, STORES.REVIEWS, STORES.SUBTITLE_TRACKS],
+      'readwrite'
+    )
     
     await Promise.all([
       tx.objectStore(STORES.FLASHCARDS).clear(),
       tx.objectStore(STORES.SCREENSHOTS).clear(),
-      tx.objectStore(STORES.VOCAB_CACHE).clear()
+      tx.objectStore(STORES.VOCAB_CACHE).clear(),
+      tx.objectStore(STORES.REVIEWS).clear(),
+      tx.objectStore(STORES.SUBTITLE_TRACKS).clear()
     ])
     
     await tx.done
@@ -1,10 +1,30 @@
-import type { FlashCard } from '@/types'
+import type {
+  DefinitionLanguage,
+  DictionaryEntry,
+  DictionaryImportStatus,
+  DictionaryInfo,
+  FlashCard,
+  KnownWord,
+  ReviewItem,
+  ReviewRating,
+  ReviewState,
+  ReviewSummary,
+  SubtitleTrack,
+  VocabLibrary,
+} from '@/types'
 import type { FlashCardDB, ScreenshotDB, StorageMessage, StorageResponse } from './types'
 import { idbClient } from './idb-client'
+import { reviewScheduler } from '../review-scheduler'
+import { dictionaryImporter } from '../dictionary/dictionary-importer'
+import { toHiragana } from '../dictionary/common'
+import { getDictionaryLanguage } from '../definition-settings'
+import { t } from '../i18n'
 
 class StorageService {
   private isContentScript: boolean = false
   private isBackgroundScript: boolean = false
+  // 同一时间只允许一个词典导入任务
+  private isImportingDictionary: boolean = false
 
   constructor() {
     // 检测运行环境
@@ -127,8 +147,447 @@ class StorageService {
     }
   }
 
+  // ===== 复习 API =====
+
+  async getDueReviews(): Promise<ReviewItem[]> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('GET_DUE_REVIEWS')
+    }
+
+    try {
+      const now = new Date()
+      const states = await this.getReviewStates()
+      const cards = await idbClient.getAllCards()
+
+      const dueItems = cards
+        .map(card => ({ card, review: this.resolveReviewState(card, states, now) }))
+        .filter(item => reviewScheduler.isDue(item.review, now))
+        .sort((a, b) => a.review.due.localeCompare(b.review.due))
+
+      const cardsWithScreenshots = await this.attachScreenshotsToCards(
+        dueItems.map(item => item.card)
+      )
+      return cardsWithScreenshots.map((card, index) => ({ card, review: dueItems[index].review }))
+    } catch (error) {
+      console.error('[StorageService] 获取待复习卡片失败:', error)
+      throw new Error(`获取待复习卡片失败: ${error}`)
+    }
+  }
+
+  async getReviewSummary(): Promise<ReviewSummary> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('GET_REVIEW_SUMMARY')
+    }
+
+    try {
+      const now = new Date()
+      const states = await this.getReviewStates()
+      const cards = await idbClient.getAllCards()
+
+      let dueCount = 0
+      for (const card of cards) {
+        if (reviewScheduler.isDue(this.resolveReviewState(card, states, now), now)) {
+          dueCount++
+        }
+      }
+
+      return {
+        totalCount: cards.length,
+        dueCount,
+        newCount: cards.filter(card => !states.has(card.id)).length,
+      }
+    } catch (error) {
+      console.error('[StorageService] 获取复习统计失败:', error)
+      throw new Error(`获取复习统计失败: ${error}`)
+    }
+  }
+
+  async gradeCard(cardId: number, rating: ReviewRating): Promise<ReviewState> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('GRADE_CARD', { cardId, rating })
+    }
+
+    try {
+      const current =
+        (await idbClient.getReview(cardId)) || reviewScheduler.createInitialState(cardId)
+      const next = reviewScheduler.schedule(current, rating)
+      await idbClient.putReview(next)
+
+      console.log('[StorageService] 卡片复习完成:', cardId, rating, next.due)
+      return next
+    } catch (error) {
+      console.error('[StorageService] 记录复习结果失败:', error)
+      throw new Error(`记录复习结果失败: ${error}`)
+    }
+  }
+
+  /**
+   * 所有卡片的复习进度（从未复习过的卡片没有记录）
+   */
+  async getAllReviewStates(): Promise<ReviewState[]> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('GET_REVIEW_STATES')
+    }
+
+    try {
+      return await idbClient.getAllReviews()
+    } catch (error) {
+      console.error('[StorageService] 获取复习进度失败:', error)
+      throw new Error(`获取复习进度失败: ${error}`)
+    }
+  }
+
+  /**
+   * 写入复习进度（例如从导出文件恢复），同一卡片的已有进度会被覆盖
+   */
+  async saveReviewStates(states: ReviewState[]): Promise<void> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('SAVE_REVIEW_STATES', states)
+    }
+
+    try {
+      for (const state of states) {
+        await idbClient.putReview(state)
+      }
+      console.log('[StorageService] 保存复习进度成功:', states.length)
+    } catch (error) {
+      console.error('[StorageService] 保存复习进度失败:', error)
+      throw new Error(`保存复习进度失败: ${error}`)
+    }
+  }
+
+  // ===== 字幕轨道 API =====
+
+  async saveSubtitleTrack(track: SubtitleTrack): Promise<void> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('SAVE_SUBTITLE_TRACK', track)
+    }
+
+    try {
+      await idbClient.putSubtitleTrack(track)
+      console.log('[StorageService] 保存字幕轨道成功:', track.id, track.entries.length)
+    } catch (error) {
+      console.error('[StorageService] 保存字幕轨道失败:', error)
+      throw new Error(`保存字幕轨道失败: ${error}`)
+    }
+  }
+
+  async getSubtitleTrack(id: string): Promise<SubtitleTrack | null> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('GET_SUBTITLE_TRACK', id)
+    }
+
+    try {
+      return (await idbClient.getSubtitleTrack(id)) || null
+    } catch (error) {
+      console.error('[StorageService] 获取字幕轨道失败:', error)
+      throw new Error(`获取字幕轨道失败: ${error}`)
+    }
+  }
+
+  // ===== 已掌握词汇 API =====
+
+  async getKnownWords(): Promise<KnownWord[]> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('GET_KNOWN_WORDS')
+    }
+
+    try {
+      const words = await idbClient.getAllKnownWords()
+      return words.sort((a, b) => b.addedAt.localeCompare(a.addedAt))
+    } catch (error) {
+      console.error('[StorageService] 获取已掌握词汇失败:', error)
+      throw new Error(`获取已掌握词汇失败: ${error}`)
+    }
+  }
+
+  /**
+   * 添加已掌握词汇，返回新增数量（已存在的词汇会被跳过）
+   */
+  async addKnownWords(words: string[], source: KnownWord['source']): Promise<number> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('ADD_KNOWN_WORDS', { words, source })
+    }
+
+    try {
+      const existing = new Set((await idbClient.getAllKnownWords()).map(known => known.word))
+      const addedAt = new Date().toISOString()
+      const newWords = Array.from(new Set(words.map(word => word.trim())))
+        .filter(word => word && !existing.has(word))
+        .map(word => ({ word, source, addedAt }))
+
+      if (newWords.length > 0) {
+        await idbClient.putKnownWords(newWords)
+        await this.notifyKnownWordsChanged()
+      }
+
+      console.log('[StorageService] 添加已掌握词汇成功:', newWords.length)
+      return newWords.length
+    } catch (error) {
+      console.error('[StorageService] 添加已掌握词汇失败:', error)
+      throw new Error(`添加已掌握词汇失败: ${error}`)
+    }
+  }
+
+  async removeKnownWords(words: string[]): Promise<void> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('REMOVE_KNOWN_WORDS', words)
+    }
+
+    try {
+      await idbClient.deleteKnownWords(words)
+      await this.notifyKnownWordsChanged()
+      console.log('[StorageService] 移除已掌握词汇成功:', words.length)
+    } catch (error) {
+      console.error('[StorageService] 移除已掌握词汇失败:', error)
+      throw new Error(`移除已掌握词汇失败: ${error}`)
+    }
+  }
+
+  // ===== 自定义词库 API =====
+
+  async getCustomLibraries(): Promise<VocabLibrary[]> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('GET_CUSTOM_LIBRARIES')
+    }
+
+    try {
+      return await idbClient.getAllVocabLibraries()
+    } catch (error) {
+      console.error('[StorageService] 获取自定义词库失败:', error)
+      throw new Error(`获取自定义词库失败: ${error}`)
+    }
+  }
+
+  async saveCustomLibrary(library: VocabLibrary): Promise<void> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('SAVE_CUSTOM_LIBRARY', library)
+    }
+
+    try {
+      await idbClient.putVocabLibrary({ ...library, custom: true })
+      await this.notifyVocabLibrariesChanged()
+      console.log('[StorageService] 保存自定义词库成功:', library.name)
+    } catch (error) {
+      console.error('[StorageService] 保存自定义词库失败:', error)
+      throw new Error(`保存自定义词库失败: ${error}`)
+    }
+  }
+
+  async deleteCustomLibrary(id: string): Promise<void> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('DELETE_CUSTOM_LIBRARY', id)
+    }
+
+    try {
+      await idbClient.deleteVocabLibrary(id)
+      await this.notifyVocabLibrariesChanged()
+      console.log('[StorageService] 删除自定义词库成功:', id)
+    } catch (error) {
+      console.error('[StorageService] 删除自定义词库失败:', error)
+      throw new Error(`删除自定义词库失败: ${error}`)
+    }
+  }
+
+  // ===== 离线词典 API =====
+
+  async getDictionaries(): Promise<DictionaryInfo[]> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('GET_DICTIONARIES')
+    }
+
+    try {
+      const dictionaries = await idbClient.getAllDictionaries()
+      return dictionaries.sort((a, b) => a.importedAt.localeCompare(b.importedAt))
+    } catch (error) {
+      console.error('[StorageService] 获取词典失败:', error)
+      throw new Error(`获取词典失败: ${error}`)
+    }
+  }
+
+  /**
+   * 导入 JMdict XML（可为 .gz）或 Yomitan 词典 ZIP，只能在扩展页面调用
+   * 文件无法通过消息传递，先写入 IndexedDB 暂存，再由后台解析并建立索引；
+   * 导入进度通过 chrome.storage.local 中的 dictionaryImportStatus 通知
+   */
+  async importDictionary(file: File): Promise<void> {
+    if (!this.isContentScript) {
+      throw new Error('词典文件需在设置页中选择')
+    }
+
+    const fileId = `${Date.now()}`
+    await idbClient.putDictionaryFile({
+      id: fileId,
+      fileName: file.name,
+      file,
+      stagedAt: new Date().toISOString(),
+    })
+    return this.sendMessageToBackground('IMPORT_DICTIONARY', fileId)
+  }
+
+  async deleteDictionary(id: string): Promise<void> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('DELETE_DICTIONARY', id)
+    }
+
+    try {
+      await idbClient.deleteDictionary(id)
+      console.log('[StorageService] 删除词典成功:', id)
+    } catch (error) {
+      console.error('[StorageService] 删除词典失败:', error)
+      throw new Error(`删除词典失败: ${error}`)
+    }
+  }
+
+  /**
+   * 在已导入的词典中查找词汇，读音（可为片假名）与之一致的词条优先，
+   * 其次是释义语言与 language 一致的词典，最后按常用程度
+   */
+  async lookupDictionary(
+    word: string,
+    reading?: string,
+    language?: DefinitionLanguage
+  ): Promise<DictionaryEntry | null> {
+    if (this.isContentScript) {
+      return this.sendMessageToBackground('LOOKUP_DICTIONARY', { word, reading, language })
+    }
+
+    try {
+      const dictionaries = new Map(
+        (await idbClient.getAllDictionaries()).map(info => [info.id, info])
+      )
+      if (dictionaries.size === 0) return null
+
+      let entries = await idbClient.getDictionaryEntriesByTerm(word)
+      // 纯假名词汇（する、テレビ）没有汉字写法，按读音查找
+      if (entries.length === 0) {
+        entries = await idbClient.getDictionaryEntriesByReading(word)
+      }
+      // 排除尚未导入完成的词典中的词条
+      entries = entries.filter(entry => dictionaries.has(entry.dictionaryId))
+      if (entries.length === 0) return null
+
+      const hint = reading ? toHiragana(reading) : ''
+      const matchesReading = (entry: DictionaryEntry) =>
+        !!hint && entry.readings.some(entryReading => toHiragana(entryReading) === hint)
+      const matchesLanguage = (entry: DictionaryEntry) =>
+        !!language && getDictionaryLanguage(dictionaries.get(entry.dictionaryId)!) === language
+
+      return entries.sort(
+        (a, b) =>
+          Number(matchesReading(b)) - Number(matchesReading(a)) ||
+          Number(matchesLanguage(b)) - Number(matchesLanguage(a)) ||
+          b.score - a.score
+      )[0]
+    } catch (error) {
+      console.error('[StorageService] 查询词典失败:', error)
+      throw new Error(`查询词典失败: ${error}`)
+    }
+  }
+
+  /**
+   * 后台读取暂存的词典文件并分批写入词条，完成后才写入词典信息使其可被查询
+   */
+  private async indexStagedDictionary(fileId: string): Promise<void> {
+    const staged = await idbClient.getDictionaryFile(fileId)
+    if (!staged) {
+      throw new Error(t('dictionary.stagedFileMissing'))
+    }
+
+    // 上次导入被中断（例如浏览器关闭）时清理已写入的部分词条
+    const { dictionaryImportStatus } = await chrome.storage.local.get('dictionaryImportStatus')
+    if (dictionaryImportStatus?.state === 'importing') {
+      await idbClient.deleteDictionary(dictionaryImportStatus.dictionaryId)
+    }
+
+    const dictionaryId = `dict-${Date.now()}`
+    let processed = 0
+    const updateStatus = (status: Partial<DictionaryImportStatus>) =>
+      this.setDictionaryImportStatus({
+        state: 'importing',
+        dictionaryId,
+        fileName: staged.fileName,
+        processed,
+        ...status,
+      })
+
+    try {
+      await updateStatus({})
+
+      const parsed = await dictionaryImporter.read(staged.file, async entries => {
+        await idbClient.putDictionaryEntries(
+          entries.map((entry, index) => ({
+            ...entry,
+            id: `${dictionaryId}:${processed + index}`,
+            dictionaryId,
+          }))
+        )
+        processed += entries.length
+        await updateStatus({})
+      })
+
+      if (processed === 0) {
+        throw new Error(t('dictionary.noEntries'))
+      }
+
+      await idbClient.putDictionary({
+        id: dictionaryId,
+        title: parsed.title,
+        format: parsed.format,
+        language: parsed.language,
+        fileName: staged.fileName,
+        entryCount: processed,
+        importedAt: new Date().toISOString(),
+      })
+      await updateStatus({ state: 'done' })
+      console.log('[StorageService] 导入词典成功:', parsed.title, processed)
+    } catch (error) {
+      console.error('[StorageService] 导入词典失败:', error)
+      await idbClient.deleteDictionary(dictionaryId)
+      await updateStatus({
+        state: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      })
+    } finally {
+      await idbClient.deleteDictionaryFile(fileId)
+    }
+  }
+
   // ===== 辅助方法 =====
 
+  // 写入 storage 同时让 Service Worker 在长时间导入期间保持活动
+  private async setDictionaryImportStatus(
+    status: Omit<DictionaryImportStatus, 'updatedAt'>
+  ): Promise<void> {
+    await chrome.storage.local.set({ dictionaryImportStatus: { ...status, updatedAt: Date.now() } })
+  }
+
+  /**
+   * IndexedDB 的变化不会通知其他页面，通过更新 storage 中的时间戳让内容脚本刷新词表
+   */
+  private async notifyKnownWordsChanged(): Promise<void> {
+    await chrome.storage.local.set({ knownWordsUpdatedAt: Date.now() })
+  }
+
+  // 词库服务与内容脚本据此重新加载自定义词库
+  private async notifyVocabLibrariesChanged(): Promise<void> {
+    await chrome.storage.local.set({ vocabLibrariesUpdatedAt: Date.now() })
+  }
+
+  private async getReviewStates(): Promise<Map<number, ReviewState>> {
+    const reviews = await idbClient.getAllReviews()
+    return new Map(reviews.map(review => [review.cardId, review]))
+  }
+
+  private resolveReviewState(
+    card: FlashCardDB,
+    states: Map<number, ReviewState>,
+    now: Date
+  ): ReviewState {
+    // 从未复习过的卡片视为新卡片，立即到期
+    return states.get(card.id) || reviewScheduler.createInitialState(card.id, now)
+  }
+
   private async attachScreenshotsToCards(cards: FlashCardDB[]): Promise<FlashCard[]> {
     const result: FlashCard[] = []
 
@@ -196,6 +655,95 @@ class StorageService {
           data = true
           break
 
+        case 'GET_DUE_REVIEWS':
+          data = await this.getDueReviews()
+          break
+
+        case 'GET_REVIEW_SUMMARY':
+          data = await this.getReviewSummary()
+          break
+
+        case 'GRADE_CARD':
+          data = await this.gradeCard(message.payload.cardId, message.payload.rating)
+          break
+
+        case 'GET_REVIEW_STATES':
+          data = await this.getAllReviewStates()
+          break
+
+        case 'SAVE_REVIEW_STATES':
+          await this.saveReviewStates(message.payload)
+          data = true
+          break
+
+        case 'SAVE_SUBTITLE_TRACK':
+          await this.saveSubtitleTrack(message.payload)
+          data = true
+          break
+
+        case 'GET_SUBTITLE_TRACK':
+          data = await this.getSubtitleTrack(message.payload)
+          break
+
+        case 'GET_KNOWN_WORDS':
+          data = await this.getKnownWords()
+          break
+
+        case 'ADD_KNOWN_WORDS':
+          data = await this.addKnownWords(message.payload.words, message.payload.source)
+          break
+
+        case 'REMOVE_KNOWN_WORDS':
+          await this.removeKnownWords(message.payload)
+          data = true
+          break
+
+        case 'GET_CUSTOM_LIBRARIES':
+          data = await this.getCustomLibraries()
+          break
+
+        case 'SAVE_CUSTOM_LIBRARY':
+          await this.saveCustomLibrary(message.payload)
+          data = true
+          break
+
+        case 'DELETE_CUSTOM_LIBRARY':
+          await this.deleteCustomLibrary(message.payload)
+          data = true
+          break
+
+        case 'GET_DICTIONARIES':
+          data = await this.getDictionaries()
+          break
+
+        case 'IMPORT_DICTIONARY':
+          if (this.isImportingDictionary) {
+            await idbClient.deleteDictionaryFile(message.payload)
+            throw new Error(t('dictionary.importBusy'))
+          }
+          // 导入耗时较长，立即返回，进度通过 dictionaryImportStatus 通知
+          this.isImportingDictionary = true
+          this.indexStagedDictionary(message.payload)
+            .catch(error => console.error('[StorageService] 导入词典失败:', error))
+            .finally(() => {
+              this.isImportingDictionary = false
+            })
+          data = true
+          break
+
+        case 'DELETE_DICTIONARY':
+          await this.deleteDictionary(message.payload)
+          data = true
+          break
+
+        case 'LOOKUP_DICTIONARY':
+          data = await this.lookupDictionary(
+            message.payload.word,
+            message.payload.reading,
+            message.payload.language
+          )
+          break
+
         case 'MIGRATE_DATA':
           // 迁移逻辑会在 migration-manager 中处理
           data = true
@@ -1,4 +1,12 @@
-import type { FlashCard } from '@/types'
+import type {
+  DictionaryEntry,
+  DictionaryInfo,
+  FlashCard,
+  KnownWord,
+  ReviewState,
+  SubtitleTrack,
+  VocabLibrary
+} from '@/types'
 
 // IndexedDB 数据库结构
 export interface FlashCardDB extends Omit<FlashCard, 'screenshot'> {
@@ -12,6 +20,30 @@ export interface ScreenshotDB {
   createdAt: string
 }
 
+// 复习调度状态，与 flashcard 一一对应
+export type ReviewDB = ReviewState
+
+// 整集字幕轨道，按 id 覆盖保存
+export type SubtitleTrackDB = SubtitleTrack
+
+// 已掌握词汇，以原形为主键
+export type KnownWordDB = KnownWord
+
+// 用户导入的自定义词库，整库保存
+export type VocabLibraryDB = VocabLibrary
+
+// 已导入的离线词典及其词条
+export type DictionaryDB = DictionaryInfo
+export type DictionaryEntryDB = DictionaryEntry
+
+// 设置页选择的词典文件，暂存后由后台读取并建立索引
+export interface DictionaryFileDB {
+  id: string
+  fileName: string
+  file: Blob
+  stagedAt: string
+}
+
 export interface SettingDB {
   key: string     // 设置键名
   value: any      // 设置值
@@ -28,14 +60,21 @@ export interface VocabCacheDB {
 
 // 数据库配置
 export const DB_NAME = 'immersive-memorize-v2'
-export const DB_VERSION = 1
+export const DB_VERSION = 6
 
 // Object Store 名称
 export const STORES = {
   FLASHCARDS: 'flashcards',
   SCREENSHOTS: 'screenshots', 
   SETTINGS: 'settings',
-  VOCAB_CACHE: 'vocab_cache'
+  VOCAB_CACHE: 'vocab_cache',
+  REVIEWS: 'reviews',
+  SUBTITLE_TRACKS: 'subtitle_tracks',
+  KNOWN_WORDS: 'known_words',
+  VOCAB_LIBRARIES: 'vocab_libraries',
+  DICTIONARIES: 'dictionaries',
+  DICTIONARY_ENTRIES: 'dictionary_entries',
+  DICTIONARY_FILES: 'dictionary_files'
 } as const
 
 // 索引配置
@@ -53,13 +92,32 @@ export const INDEXES = {
   },
   VOCAB_CACHE: {
     BY_LEVEL: 'by-level'
+  },
+  REVIEWS: {
+    BY_DUE: 'by-due'
+  },
+  SUBTITLE_TRACKS: {
+    BY_MEDIA_ID: 'by-media-id'
+  },
+  KNOWN_WORDS: {
+    BY_ADDED_AT: 'by-added-at'
+  },
+  DICTIONARY_ENTRIES: {
+    BY_TERM: 'by-term',
+    BY_READING: 'by-reading'
   }
 } as const
 
 // 存储服务消息类型
 export interface StorageMessage {
   type: 'GET_CARDS' | 'ADD_CARD' | 'DELETE_CARD' | 'GET_CARDS_BY_LEVEL' | 
-        'GET_LEARNED_WORDS' | 'GET_SCREENSHOT' | 'CLEAR_ALL_DATA' | 'MIGRATE_DATA'
+        'GET_LEARNED_WORDS' | 'GET_SCREENSHOT' | 'CLEAR_ALL_DATA' | 'MIGRATE_DATA' |
+        'GET_DUE_REVIEWS' | 'GET_REVIEW_SUMMARY' | 'GRADE_CARD' |
+        'GET_REVIEW_STATES' | 'SAVE_REVIEW_STATES' |
+        'SAVE_SUBTITLE_TRACK' | 'GET_SUBTITLE_TRACK' |
+        'GET_KNOWN_WORDS' | 'ADD_KNOWN_WORDS' | 'REMOVE_KNOWN_WORDS' |
+        'GET_CUSTOM_LIBRARIES' | 'SAVE_CUSTOM_LIBRARY' | 'DELETE_CUSTOM_LIBRARY' |
+        'GET_DICTIONARIES' | 'IMPORT_DICTIONARY' | 'DELETE_DICTIONARY' | 'LOOKUP_DICTIONARY'
   payload?: any
 }
 
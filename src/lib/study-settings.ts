@@ -0,0 +1,24 @@
+import type { StudyHotkeys } from '@/types'
+import type { MessageKey } from '@/lib/i18n'
+
+export const DEFAULT_STUDY_HOTKEYS: StudyHotkeys = {
+  replay: 'r',
+  loop: 'l',
+  previous: 'a',
+  next: 'd',
+}
+
+// 快捷键名称的消息 key，显示时经 t() 翻译
+export const STUDY_HOTKEY_LABELS: Record<keyof StudyHotkeys, MessageKey> = {
+  replay: 'study.hotkey.replay',
+  loop: 'study.hotkey.loop',
+  previous: 'study.hotkey.previous',
+  next: 'study.hotkey.next',
+}
+
+/**
+ * 合并用户设置与默认快捷键（旧版本没有该设置）
+ */
+export function resolveStudyHotkeys(value?: Partial<StudyHotkeys>): StudyHotkeys {
+  return { ...DEFAULT_STUDY_HOTKEYS, ...value }
+}
@@ -0,0 +1,183 @@
+/**
+ * 自定义词库导入
+ * 解析 CSV / TSV / JSON 文件，按用户选择的列映射生成 VocabLibrary
+ */
+
+import type { VocabEntry, VocabLibrary } from '@/types'
+import { parseDelimitedText } from '@/lib/delimited-text'
+import type { MessageKey } from '@/lib/i18n'
+
+// 词频段由高频核心词库根据 Frequency 生成，不从表格导入
+export type VocabField = Exclude<keyof VocabEntry, 'FrequencyBand'>
+
+export interface VocabImportTable {
+  headers: string[]
+  rows: string[][]
+}
+
+// 每个 VocabEntry 字段对应的列序号，-1 表示不导入
+export type VocabColumnMapping = Record<VocabField, number>
+
+// 字段名称的消息 key，显示时经 t() 翻译
+export const VOCAB_FIELD_LABELS: Record<VocabField, MessageKey> = {
+  VocabKanji: 'library.field.VocabKanji',
+  VocabFurigana: 'library.field.VocabFurigana',
+  VocabDefCN: 'library.field.VocabDefCN',
+  Level: 'library.field.Level',
+  VocabPitch: 'library.field.VocabPitch',
+  VocabPoS: 'library.field.VocabPoS',
+  Frequency: 'library.field.Frequency',
+}
+
+// 自动匹配列名时使用的别名（小写）
+const FIELD_ALIASES: Record<VocabField, string[]> = {
+  VocabKanji: [
+    'vocabkanji',
+    'kanji',
+    'word',
+    'expression',
+    'term',
+    'vocab',
+    '単語',
+    '词汇',
+    '單詞',
+    '漢字',
+    '表記',
+  ],
+  VocabFurigana: ['vocabfurigana', 'furigana', 'reading', 'kana', '読み', '读音', 'かな'],
+  VocabDefCN: ['vocabdefcn', 'definition', 'meaning', 'gloss', '意味', '释义', '中文'],
+  Level: ['level', 'group', 'jlpt', 'tag', 'tags', '等级', '级别', '分组', 'レベル'],
+  VocabPitch: ['vocabpitch', 'pitch', 'accent', '音调', 'アクセント'],
+  VocabPoS: ['vocabpos', 'pos', 'part of speech', '词性', '品詞'],
+  Frequency: ['frequency', 'freq', 'rank', '频率', '頻度'],
+}
+
+// 没有映射等级列时所有词汇归入同一分组
+const DEFAULT_GROUP = '全部'
+const UNGROUPED = '未分级'
+const JLPT_ORDER = ['N5', 'N4', 'N3', 'N2', 'N1']
+
+export class VocabLibraryImporter {
+  /**
+   * 解析文件内容，第一行（或 JSON 对象的键）作为列名
+   */
+  parseTable(text: string, fileName: string): VocabImportTable {
+    if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(text)) {
+      return this.parseJSON(text)
+    }
+
+    const [headers = [], ...rows] = parseDelimitedText(
+      text,
+      /\.tsv$/i.test(fileName) ? '\t' : undefined
+    )
+    return { headers: headers.map(header => header.trim()), rows }
+  }
+
+  /**
+   * 根据列名猜测字段映射，找不到词汇列时使用第一列
+   */
+  guessMapping(headers: string[]): VocabColumnMapping {
+    const normalized = headers.map(header => header.trim().toLowerCase())
+    const mapping = {} as VocabColumnMapping
+
+    for (const field of Object.keys(FIELD_ALIASES) as VocabField[]) {
+      mapping[field] = normalized.findIndex(header => FIELD_ALIASES[field].includes(header))
+    }
+    if (mapping.VocabKanji === -1) mapping.VocabKanji = 0
+
+    return mapping
+  }
+
+  /**
+   * 按映射生成词条，跳过空词汇并按词汇去重（保留第一次出现）
+   */
+  buildEntries(table: VocabImportTable, mapping: VocabColumnMapping): VocabEntry[] {
+    const seen = new Set<string>()
+    const entries: VocabEntry[] = []
+    const cell = (row: string[], field: VocabField) =>
+      mapping[field] >= 0 ? (row[mapping[field]] || '').trim() : ''
+
+    for (const row of table.rows) {
+      const kanji = cell(row, 'VocabKanji')
+      if (!kanji || seen.has(kanji)) continue
+      seen.add(kanji)
+
+      entries.push({
+        VocabKanji: kanji,
+        VocabFurigana: cell(row, 'VocabFurigana'),
+        VocabDefCN: cell(row, 'VocabDefCN'),
+        VocabPitch: cell(row, 'VocabPitch'),
+        VocabPoS: cell(row, 'VocabPoS'),
+        Frequency: cell(row, 'Frequency'),
+        Level: mapping.Level >= 0 ? cell(row, 'Level') || UNGROUPED : DEFAULT_GROUP,
+      })
+    }
+    return entries
+  }
+
+  buildLibrary(name: string, fileName: string, entries: VocabEntry[]): VocabLibrary {
+    return {
+      id: `custom-${Date.now()}`,
+      name,
+      description: `自定义词库，导入自 ${fileName}`,
+      icon: '📝',
+      data: entries,
+      totalWords: entries.length,
+      levels: this.collectLevels(entries),
+      custom: true,
+    }
+  }
+
+  /**
+   * 等级按首次出现的顺序排列，JLPT 等级按 N5 → N1 排列
+   */
+  private collectLevels(entries: VocabEntry[]): string[] {
+    const levels = Array.from(new Set(entries.map(entry => entry.Level)))
+    if (levels.every(level => JLPT_ORDER.includes(level))) {
+      return JLPT_ORDER.filter(level => levels.includes(level))
+    }
+    return levels
+  }
+
+  /**
+   * 支持对象数组、二维数组，以及带 data 数组的对象（例如导出的 VocabLibrary）
+   */
+  private parseJSON(text: string): VocabImportTable {
+    const parsed = JSON.parse(text)
+    const items: unknown[] = Array.isArray(parsed) ? parsed : parsed?.data
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new Error('JSON 中没有找到词条数组')
+    }
+
+    if (Array.isArray(items[0])) {
+      const [headers, ...rows] = items as unknown[][]
+      return {
+        headers: headers.map(header => String(header ?? '')),
+        rows: rows.map(row => row.map(value => this.stringify(value))),
+      }
+    }
+
+    const headers: string[] = []
+    for (const item of items) {
+      if (!item || typeof item !== 'object') continue
+      for (const key of Object.keys(item)) {
+        if (!headers.includes(key)) headers.push(key)
+      }
+    }
+
+    return {
+      headers,
+      rows: items
+        .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+        .map(item => headers.map(header => this.stringify(item[header]))),
+    }
+  }
+
+  private stringify(value: unknown): string {
+    if (value === null || value === undefined) return ''
+    if (Array.isArray(value)) return value.map(item => this.stringify(item)).join('; ')
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  }
+}
+
+export const vocabLibraryImporter = new VocabLibraryImporter()
@@ -6,6 +6,8 @@ import type {
   FlashCard,
 } from '@/types'
 import { storageService } from './storage'
+import { t } from './i18n'
+import { buildFrequencyLibrary, getLibraryLevel } from './frequency-library'
 
 export class VocabLibraryManager {
   private libraries: VocabLibrary[] = []
@@ -39,15 +41,15 @@ export class VocabLibraryManager {
 
       const jlptLibrary: VocabLibrary = {
         id: 'jlpt',
-        name: 'JLPT 日语能力考试',
-        description: '包含 N5 到 N1 的全部词汇',
+        name: t('library.jlpt.name'),
+        description: t('library.jlpt.description'),
         icon: '📚',
         data: jlptData,
         totalWords: jlptData.length,
         levels: jlptLevels,
       }
 
-      this.libraries = [jlptLibrary]
+      this.libraries = [jlptLibrary, buildFrequencyLibrary(jlptData)]
       console.log(`[VocabLibrary] 成功加载JLPT词库: ${jlptData.length}个词汇`)
     } catch (error) {
       console.error('加载词库失败:', error)
@@ -55,8 +57,8 @@ export class VocabLibraryManager {
       this.libraries = [
         {
           id: 'jlpt',
-          name: 'JLPT 日语能力考试',
-          description: '词库加载失败，请刷新页面重试',
+          name: t('library.jlpt.name'),
+          description: t('library.jlpt.loadFailed'),
           icon: '⚠️',
           data: [],
           totalWords: 0,
@@ -64,6 +66,22 @@ export class VocabLibraryManager {
         },
       ]
     }
+
+    this.libraries.push(...(await this.loadCustomLibraries()))
+  }
+
+  /**
+   * 用户导入的自定义词库保存在 IndexedDB 中
+   */
+  private async loadCustomLibraries(): Promise<VocabLibrary[]> {
+    try {
+      const customLibraries = await storageService.getCustomLibraries()
+      console.log(`[VocabLibrary] 加载自定义词库: ${customLibraries.length}个`)
+      return customLibraries
+    } catch (error) {
+      console.error('加载自定义词库失败:', error)
+      return []
+    }
   }
 
   private async loadSettings(): Promise<void> {
@@ -71,7 +89,9 @@ export class VocabLibraryManager {
       const result = await chrome.storage.local.get(['vocabLibrarySettings'])
       if (result.vocabLibrarySettings) {
         this.settings = result.vocabLibrarySettings
-      } else {
+      }
+      // 首次使用或选中的自定义词库已被删除时回到 JLPT 词库
+      if (!result.vocabLibrarySettings || !this.getSelectedLibrary()) {
         // 初始化默认设置
         await this.initializeDefaultSettings()
       }
@@ -84,10 +104,22 @@ export class VocabLibraryManager {
     const jlptLibrary = this.libraries.find(lib => lib.id === 'jlpt')
     if (!jlptLibrary) return
 
+    this.settings = {
+      selectedLibraryId: 'jlpt',
+      levelSettings: this.buildLevelSettings(jlptLibrary),
+    }
+
+    await this.saveSettings()
+  }
+
+  /**
+   * 词库的所有等级默认启用
+   */
+  private buildLevelSettings(library: VocabLibrary): Record<string, LevelProgress> {
     const levelSettings: Record<string, LevelProgress> = {}
 
-    for (const level of jlptLibrary.levels) {
-      const wordsInLevel = jlptLibrary.data.filter(word => word.Level === level)
+    for (const level of library.levels) {
+      const wordsInLevel = library.data.filter(word => getLibraryLevel(word) === level)
       levelSettings[level] = {
         level,
         enabled: true,
@@ -96,12 +128,7 @@ export class VocabLibraryManager {
       }
     }
 
-    this.settings = {
-      selectedLibraryId: 'jlpt',
-      levelSettings,
-    }
-
-    await this.saveSettings()
+    return levelSettings
   }
 
   async saveSettings(): Promise<void> {
@@ -117,6 +144,11 @@ export class VocabLibraryManager {
   }
 
   async selectLibrary(libraryId: string): Promise<void> {
+    const library = this.libraries.find(lib => lib.id === libraryId)
+    // 不同词库的等级不同，切换词库时重新生成等级设置
+    if (library && libraryId !== this.settings.selectedLibraryId) {
+      this.settings.levelSettings = this.buildLevelSettings(library)
+    }
     this.settings.selectedLibraryId = libraryId
     await this.saveSettings()
   }
@@ -142,7 +174,21 @@ export class VocabLibraryManager {
   }
 
   private getLearnedWordsFromCards(cards: FlashCard[], level: string): string[] {
-    return cards.filter(card => card.level === level).map(card => card.word)
+    return this.filterCardsByLevel(cards, level).map(card => card.word)
+  }
+
+  /**
+   * 按当前词库的分组筛选卡片；卡片的 level 是 JLPT 等级，与词频段等分组不一定一致，
+   * 因此按词汇所在分组匹配
+   */
+  private filterCardsByLevel(cards: FlashCard[], level: string): FlashCard[] {
+    const library = this.getSelectedLibrary()
+    if (!library) return cards.filter(card => card.level === level)
+
+    const words = new Set(
+      library.data.filter(word => getLibraryLevel(word) === level).map(word => word.VocabKanji)
+    )
+    return cards.filter(card => words.has(card.word))
   }
 
   async updateProgressFromCards(): Promise<void> {
@@ -169,7 +215,7 @@ export class VocabLibraryManager {
     for (const [level, progress] of Object.entries(this.settings.levelSettings)) {
       if (progress.enabled) {
         const wordsInLevel = selectedLibrary.data
-          .filter(word => word.Level === level)
+          .filter(word => getLibraryLevel(word) === level)
           .filter(word => !learnedWords.has(word.VocabKanji))
           .map(word => word.VocabKanji)
 
@@ -182,7 +228,7 @@ export class VocabLibraryManager {
 
   async getLearnedWordsByLevel(level: string): Promise<FlashCard[]> {
     const cards = await this.getFlashCards()
-    return cards.filter(card => card.level === level)
+    return this.filterCardsByLevel(cards, level)
   }
 
   async getAllLearnedWords(): Promise<FlashCard[]> {
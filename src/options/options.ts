@@ -1,9 +1,76 @@
 import '../globals.css'
-import type { ExtensionSettings, FlashCard, VocabLibrary, ViewState, VocabEntry } from '@/types'
+import type {
+  AnkiCardField,
+  AnkiConnectSettings,
+  DefinitionLanguage,
+  DictionaryImportStatus,
+  DictionaryInfo,
+  ExportField,
+  ExportTemplate,
+  ExtensionSettings,
+  FlashCard,
+  KnownWord,
+  ReviewItem,
+  ReviewRating,
+  StudyHotkeys,
+  VocabLibrary,
+  ViewState,
+  VocabEntry,
+} from '@/types'
 import { VocabLibraryManager } from '@/lib/vocab-library'
-import { CSVFormatter } from '@/lib/csv-formatter'
+import { getLevelLabel, getLibraryLevel } from '@/lib/frequency-library'
+import { CSVFormatter, CSVExportFormat } from '@/lib/csv-formatter'
 import { storageService } from '@/lib/storage'
+import { encodingDetector } from '@/lib/encoding-detector'
+import {
+  knownWordsImporter,
+  type KnownWordsImportFormat,
+  type KnownWordsImportPreview,
+} from '@/lib/known-words-import'
+import {
+  VOCAB_FIELD_LABELS,
+  vocabLibraryImporter,
+  type VocabColumnMapping,
+  type VocabField,
+  type VocabImportTable,
+} from '@/lib/vocab-library-import'
 import { ScreenshotRenderer } from '@/lib/screenshot-renderer'
+import { BUILTIN_SITES } from '@/lib/builtin-sites'
+import { ReviewScheduler, reviewScheduler } from '@/lib/review-scheduler'
+import { STUDY_HOTKEY_LABELS, resolveStudyHotkeys } from '@/lib/study-settings'
+import { ANKI_CARD_FIELD_LABELS, AnkiConnectClient, ankiSync } from '@/lib/anki-connect'
+import { apkgExporter } from '@/lib/export/apkg-exporter'
+import { EXPORT_FIELD_LABELS, exportTemplateManager } from '@/lib/export/export-templates'
+import { exporterRegistry } from '@/lib/export/registry'
+import { jsonExporter } from '@/lib/export/json-exporter'
+import { i18n, t, UI_LANGUAGE_LABELS, type UILanguage, type UILanguageSetting } from '@/lib/i18n'
+import {
+  DEFINITION_LANGUAGE_LABELS,
+  DEFINITION_LANGUAGE_STORAGE_KEY,
+  getDictionaryLanguage,
+} from '@/lib/definition-settings'
+import {
+  DEFAULT_MARK_KNOWN_HOTKEY,
+  DEFAULT_TARGET_CYCLE_HOTKEY,
+  JLPT_LEVEL_COLORS,
+} from '@/lib/highlight-settings'
+
+// 词典导入进度超过该时长未更新时视为已中断
+const DICTIONARY_IMPORT_STALE_TIME = 60 * 1000
+
+// 单键设置项快捷键（切换目标词、标记已掌握）
+const SETTING_HOTKEYS = {
+  targetCycle: {
+    settingKey: 'targetCycleHotkey',
+    defaultKey: DEFAULT_TARGET_CYCLE_HOTKEY,
+    label: 'options.hotkeys.targetCycle',
+  },
+  markKnown: {
+    settingKey: 'markKnownHotkey',
+    defaultKey: DEFAULT_MARK_KNOWN_HOTKEY,
+    label: 'options.hotkeys.markKnown',
+  },
+} as const
 
 class OptionsManager {
   private vocabLibraryManager: VocabLibraryManager
@@ -14,9 +81,19 @@ class OptionsManager {
   private breadcrumbContainer!: HTMLElement
   private selectedLibrary: VocabLibrary | null = null
 
+  // 复习会话状态
+  private reviewQueue: ReviewItem[] = []
+  private reviewAnswerShown = false
+  private reviewedCount = 0
+  // 评分保存期间忽略新的输入，避免同一张卡片被重复评分
+  private reviewGrading = false
+
+  // 导出模板预览使用的卡片
+  private exportPreviewCards: FlashCard[] = []
+
   private viewState: ViewState = {
     mode: 'overview',
-    breadcrumb: ['设置'],
+    breadcrumb: [t('options.breadcrumb.settings')],
   }
 
   constructor() {
@@ -37,11 +114,36 @@ class OptionsManager {
     if (view === 'learned-words') {
       this.viewState = {
         mode: 'learned-words',
-        breadcrumb: ['设置', '已学词汇'],
+        breadcrumb: [t('options.breadcrumb.settings'), t('options.breadcrumb.learnedWords')],
         highlight: highlight || undefined, // 添加highlight参数支持
       }
+    } else if (view === 'review') {
+      this.viewState = {
+        mode: 'review',
+        breadcrumb: [t('options.breadcrumb.settings'), t('options.breadcrumb.review')],
+      }
+    } else if (view === 'known-words') {
+      this.viewState = {
+        mode: 'known-words',
+        breadcrumb: [t('options.breadcrumb.settings'), t('options.breadcrumb.knownWords')],
+      }
+    } else if (view === 'dictionary') {
+      this.viewState = {
+        mode: 'dictionary',
+        breadcrumb: [t('options.breadcrumb.settings'), t('options.breadcrumb.dictionary')],
+      }
     }
 
+    this.applyDocumentLanguage()
+    // 其他页面修改界面语言时同步切换（详情页在下次进入时更新）
+    i18n.onChange(() => {
+      this.applyDocumentLanguage()
+      if (this.viewState.mode === 'overview') {
+        this.viewState.breadcrumb = [t('options.breadcrumb.settings')]
+        this.renderView()
+      }
+    })
+
     // 然后初始化
     await this.vocabLibraryManager.init()
     // 确保从记忆卡片更新学习进度
@@ -51,9 +153,18 @@ class OptionsManager {
     await this.renderView()
   }
 
+  private applyDocumentLanguage(): void {
+    document.documentElement.lang = i18n.getLanguage()
+    document.title = t('options.pageTitle')
+  }
+
   private setupEventListeners(): void {
     // 大部分DOM事件监听器现在在各个render方法中设置
     // 这里只处理全局的、不依赖于特定DOM元素的监听器
+    document.addEventListener('keydown', e => this.handleReviewKeydown(e))
+    chrome.storage.onChanged.addListener(changes =>
+      this.handleDictionaryImportStatusChange(changes)
+    )
   }
 
   private async loadSettings(): Promise<void> {
@@ -68,7 +179,7 @@ class OptionsManager {
     } catch (error) {
       console.error('加载设置失败:', error)
       if (this.notification) {
-        this.showNotification('加载设置失败', 'error')
+        this.showNotification(t('options.settingsLoadFailed'), 'error')
       }
     }
   }
@@ -80,20 +191,32 @@ class OptionsManager {
         (document.getElementById('screenshot-checkbox') as HTMLInputElement)?.checked || false
       const csvFormatSelect = document.getElementById('csv-format-select') as HTMLSelectElement
       const csvExportFormat = csvFormatSelect?.value || 'anki-html'
+      const csvMediaAsFiles =
+        (document.getElementById('csv-media-files-checkbox') as HTMLInputElement)?.checked || false
+      const csvIncludeGlosses =
+        (document.getElementById('csv-glosses-checkbox') as HTMLInputElement)?.checked || false
+      const autoPauseOnTarget =
+        (document.getElementById('auto-pause-checkbox') as HTMLInputElement)?.checked || false
+      const highlightAllTargets =
+        (document.getElementById('highlight-all-checkbox') as HTMLInputElement)?.checked || false
 
       await chrome.storage.local.set({
         debugMode: debugMode,
         enableScreenshot: enableScreenshot,
         csvExportFormat: csvExportFormat,
+        csvMediaAsFiles: csvMediaAsFiles,
+        csvIncludeGlosses: csvIncludeGlosses,
+        autoPauseOnTarget: autoPauseOnTarget,
+        highlightAllTargets: highlightAllTargets,
       })
 
       if (this.notification) {
-        this.showNotification('设置已保存', 'success')
+        this.showNotification(t('common.settingsSaved'), 'success')
       }
     } catch (error) {
       console.error('保存设置失败:', error)
       if (this.notification) {
-        this.showNotification('保存失败', 'error')
+        this.showNotification(t('common.saveFailed'), 'error')
       }
     }
   }
@@ -151,6 +274,9 @@ class OptionsManager {
       case 'library-detail':
         this.renderLibraryDetail()
         break
+      case 'library-import':
+        this.renderLibraryImport()
+        break
       case 'level-detail':
         this.renderLevelDetail()
         break
@@ -160,9 +286,24 @@ class OptionsManager {
       case 'learned-words':
         await this.renderLearnedWords()
         break
+      case 'known-words':
+        await this.renderKnownWords()
+        break
+      case 'dictionary':
+        await this.renderDictionary()
+        break
       case 'activation-settings':
         await this.renderActivationSettings()
         break
+      case 'anki-sync':
+        await this.renderAnkiSync()
+        break
+      case 'export-templates':
+        await this.renderExportTemplates()
+        break
+      case 'review':
+        await this.startReviewSession()
+        break
     }
   }
 
@@ -191,27 +332,108 @@ class OptionsManager {
 
   private navigateBack(targetIndex: number): void {
     if (targetIndex === 0) {
-      this.viewState = { mode: 'overview', breadcrumb: ['设置'] }
-    } else if (targetIndex === 1 && this.viewState.libraryId) {
+      this.viewState = { mode: 'overview', breadcrumb: [t('options.breadcrumb.settings')] }
+    } else if (
+      targetIndex === 1 &&
+      (this.viewState.libraryId || this.viewState.mode === 'library-import')
+    ) {
       this.viewState = {
         mode: 'library-detail',
         libraryId: this.viewState.libraryId,
-        breadcrumb: ['设置', '词汇库管理'],
+        breadcrumb: [t('options.breadcrumb.settings'), t('options.breadcrumb.libraries')],
       }
     }
     this.renderView()
   }
 
   private renderOverview(): void {
+    const libraries = this.vocabLibraryManager.getLibraries()
+
     this.mainContent.innerHTML = `
       <div class="space-y-8">
         <!-- 词汇库管理卡片 -->
         <div class="bg-card rounded-lg border p-6 cursor-pointer hover:shadow-md transition-shadow" id="vocab-library-card">
           <div class="flex items-center justify-between">
             <div>
-              <h3 class="text-lg font-semibold mb-2">词汇库管理</h3>
-              <p class="text-muted-foreground">选择和配置学习词汇库及等级设置</p>
-              ${this.selectedLibrary ? `<p class="text-sm text-primary mt-1">当前: ${this.selectedLibrary.name}</p>` : ''}
+              <h3 class="text-lg font-semibold mb-2">${t('options.overview.libraries.title')}</h3>
+              <p class="text-muted-foreground">${t('options.overview.libraries.description')}</p>
+              ${this.selectedLibrary ? `<p class="text-sm text-primary mt-1">${t('options.overview.libraries.current', { name: this.escapeHtml(this.selectedLibrary.name) })}</p>` : ''}
+              ${
+                libraries.length > 1
+                  ? `<select id="overview-library-select" class="mt-3 h-9 rounded-md border border-input bg-background px-3 text-sm">
+                      ${libraries.map(library => `<option value="${library.id}" ${library.id === this.selectedLibrary?.id ? 'selected' : ''}>${this.escapeHtml(library.name)}</option>`).join('')}
+                    </select>`
+                  : ''
+              }
+            </div>
+            <svg class="w-6 h-6 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7" />
+            </svg>
+          </div>
+        </div>
+
+        <!-- 复习卡片 -->
+        <div class="bg-card rounded-lg border p-6 cursor-pointer hover:shadow-md transition-shadow" id="review-card">
+          <div class="flex items-center justify-between">
+            <div>
+              <h3 class="text-lg font-semibold mb-2">${t('options.overview.review.title')}</h3>
+              <p class="text-muted-foreground">${t('options.overview.review.description')}</p>
+              <p class="text-sm text-primary mt-1" id="review-due-summary"></p>
+            </div>
+            <svg class="w-6 h-6 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7" />
+            </svg>
+          </div>
+        </div>
+
+        <!-- 已掌握词汇卡片 -->
+        <div class="bg-card rounded-lg border p-6 cursor-pointer hover:shadow-md transition-shadow" id="known-words-card">
+          <div class="flex items-center justify-between">
+            <div>
+              <h3 class="text-lg font-semibold mb-2">${t('options.overview.knownWords.title')}</h3>
+              <p class="text-muted-foreground">${t('options.overview.knownWords.description')}</p>
+              <p class="text-sm text-primary mt-1" id="known-words-summary"></p>
+            </div>
+            <svg class="w-6 h-6 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7" />
+            </svg>
+          </div>
+        </div>
+
+        <!-- 离线词典卡片 -->
+        <div class="bg-card rounded-lg border p-6 cursor-pointer hover:shadow-md transition-shadow" id="dictionary-card">
+          <div class="flex items-center justify-between">
+            <div>
+              <h3 class="text-lg font-semibold mb-2">${t('options.overview.dictionary.title')}</h3>
+              <p class="text-muted-foreground">${t('options.overview.dictionary.description')}</p>
+              <p class="text-sm text-primary mt-1" id="dictionary-summary"></p>
+            </div>
+            <svg class="w-6 h-6 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7" />
+            </svg>
+          </div>
+        </div>
+
+        <!-- Anki 同步卡片 -->
+        <div class="bg-card rounded-lg border p-6 cursor-pointer hover:shadow-md transition-shadow" id="anki-sync-card">
+          <div class="flex items-center justify-between">
+            <div>
+              <h3 class="text-lg font-semibold mb-2">${t('options.overview.ankiSync.title')}</h3>
+              <p class="text-muted-foreground">${t('options.overview.ankiSync.description')}</p>
+              <p class="text-sm text-primary mt-1" id="anki-sync-summary"></p>
+            </div>
+            <svg class="w-6 h-6 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7" />
+            </svg>
+          </div>
+        </div>
+
+        <!-- 导出模板卡片 -->
+        <div class="bg-card rounded-lg border p-6 cursor-pointer hover:shadow-md transition-shadow" id="export-templates-card">
+          <div class="flex items-center justify-between">
+            <div>
+              <h3 class="text-lg font-semibold mb-2">${t('options.overview.exportTemplates.title')}</h3>
+              <p class="text-muted-foreground">${t('options.overview.exportTemplates.description')}</p>
             </div>
             <svg class="w-6 h-6 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7" />
@@ -223,8 +445,8 @@ class OptionsManager {
         <div class="bg-card rounded-lg border p-6 cursor-pointer hover:shadow-md transition-shadow" id="activation-behavior-card">
           <div class="flex items-center justify-between">
             <div>
-              <h3 class="text-lg font-semibold mb-2">插件启动行为</h3>
-              <p class="text-muted-foreground">配置插件在哪些网站自动启用或手动启用</p>
+              <h3 class="text-lg font-semibold mb-2">${t('options.overview.activation.title')}</h3>
+              <p class="text-muted-foreground">${t('options.overview.activation.description')}</p>
             </div>
             <svg class="w-6 h-6 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7" />
@@ -232,42 +454,133 @@ class OptionsManager {
           </div>
         </div>
 
+        <!-- 语言设置 -->
+        <div class="bg-card rounded-lg border p-6">
+          <h3 class="text-lg font-semibold mb-4">${t('options.overview.language.title')}</h3>
+          <div class="space-y-3">
+            <div class="flex items-center space-x-3">
+              <label for="ui-language-select" class="text-sm font-medium min-w-[80px]">${t('options.overview.language.ui')}</label>
+              <select id="ui-language-select" class="h-9 rounded-md border border-input bg-background px-3 text-sm">
+                <option value="auto">${t('options.overview.language.auto')}</option>
+                ${(Object.keys(UI_LANGUAGE_LABELS) as UILanguage[]).map(language => `<option value="${language}" ${language === i18n.getSetting() ? 'selected' : ''}>${UI_LANGUAGE_LABELS[language]}</option>`).join('')}
+              </select>
+            </div>
+            <div class="flex items-center space-x-3">
+              <label for="definition-language-select" class="text-sm font-medium min-w-[80px]">${t('options.overview.language.definition')}</label>
+              <select id="definition-language-select" class="h-9 rounded-md border border-input bg-background px-3 text-sm">
+                <option value="auto">${t('options.overview.language.definitionAuto')}</option>
+                ${(Object.keys(DEFINITION_LANGUAGE_LABELS) as DefinitionLanguage[]).map(language => `<option value="${language}">${t(DEFINITION_LANGUAGE_LABELS[language])}</option>`).join('')}
+              </select>
+            </div>
+            <p class="text-sm text-muted-foreground">${t('options.overview.language.definitionHint')}</p>
+          </div>
+        </div>
+
         <!-- 快捷键设置 -->
         <div class="bg-card rounded-lg border p-6">
-          <h3 class="text-lg font-semibold mb-4">快捷键设置</h3>
+          <h3 class="text-lg font-semibold mb-4">${t('options.hotkeys.title')}</h3>
           <div class="space-y-3">
             <div class="flex items-center space-x-3">
-              <label for="hotkey-input" class="text-sm font-medium min-w-[80px]">捕获快捷键:</label>
+              <label for="hotkey-input" class="text-sm font-medium min-w-[80px]">${t('options.hotkeys.capture')}</label>
               <input 
                 type="text" 
                 id="hotkey-input" 
                 maxlength="1" 
                 placeholder="S"
                 readonly
-                title="点击输入框，然后按下您想要的字母键"
+                title="${t('common.pressLetterKey')}"
                 class="w-16 h-10 text-center rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 font-mono font-bold cursor-pointer"
               >
             </div>
-            <p class="text-sm text-muted-foreground">点击输入框，然后按下任意字母键作为快捷键</p>
+            <p class="text-sm text-muted-foreground">${t('options.hotkeys.hint')}</p>
+          </div>
+
+          <h4 class="text-sm font-semibold mt-6 mb-3">${t('options.hotkeys.study')}</h4>
+          <div class="grid grid-cols-2 gap-3">
+            ${(Object.keys(STUDY_HOTKEY_LABELS) as (keyof StudyHotkeys)[])
+              .map(
+                action => `
+              <div class="flex items-center space-x-3">
+                <label for="study-hotkey-${action}" class="text-sm font-medium min-w-[80px]">${t(STUDY_HOTKEY_LABELS[action])}:</label>
+                <input
+                  type="text"
+                  id="study-hotkey-${action}"
+                  data-action="${action}"
+                  maxlength="1"
+                  readonly
+                  title="${t('common.pressLetterKey')}"
+                  class="study-hotkey-input w-16 h-10 text-center rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 font-mono font-bold cursor-pointer"
+                >
+              </div>`
+              )
+              .join('')}
+          </div>
+          <div class="flex items-center space-x-2 mt-4">
+            <input type="checkbox" id="auto-pause-checkbox" class="h-4 w-4 rounded border border-primary text-primary ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50">
+            <label for="auto-pause-checkbox" class="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">${t('options.hotkeys.autoPause')}</label>
+          </div>
+          <p class="text-sm text-muted-foreground mt-2">${t('options.hotkeys.studyHint')}</p>
+        </div>
+
+        <!-- 生词高亮设置 -->
+        <div class="bg-card rounded-lg border p-6">
+          <h3 class="text-lg font-semibold mb-4">${t('options.highlight.title')}</h3>
+          <div class="flex items-center space-x-2">
+            <input type="checkbox" id="highlight-all-checkbox" class="h-4 w-4 rounded border border-primary text-primary ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50">
+            <label for="highlight-all-checkbox" class="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">${t('options.highlight.all')}</label>
+          </div>
+          <div class="flex flex-wrap gap-3 mt-4">
+            ${Object.entries(JLPT_LEVEL_COLORS)
+              .map(
+                ([level, color]) => `
+              <span class="inline-flex items-center gap-1.5 text-sm">
+                <span class="inline-block w-3 h-3 rounded-full" style="background-color: ${color}"></span>${level}
+              </span>`
+              )
+              .join('')}
+          </div>
+          <div class="flex items-center space-x-3 mt-4">
+            <label for="target-cycle-hotkey-input" class="text-sm font-medium min-w-[80px]">${t('options.hotkeys.targetCycle')}:</label>
+            <input
+              type="text"
+              id="target-cycle-hotkey-input"
+              maxlength="1"
+              readonly
+              title="${t('common.pressLetterKey')}"
+              class="w-16 h-10 text-center rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 font-mono font-bold cursor-pointer"
+            >
+          </div>
+          <div class="flex items-center space-x-3 mt-3">
+            <label for="mark-known-hotkey-input" class="text-sm font-medium min-w-[80px]">${t('options.hotkeys.markKnown')}:</label>
+            <input
+              type="text"
+              id="mark-known-hotkey-input"
+              maxlength="1"
+              readonly
+              title="${t('common.pressLetterKey')}"
+              class="w-16 h-10 text-center rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 font-mono font-bold cursor-pointer"
+            >
           </div>
+          <p class="text-sm text-muted-foreground mt-2">${t('options.highlight.hint')}</p>
+          <p class="text-sm text-muted-foreground mt-1">${t('options.highlight.markKnownHint')}</p>
         </div>
 
         <!-- 截图功能设置 -->
         <div class="bg-card rounded-lg border p-6">
-          <h3 class="text-lg font-semibold mb-4">截图功能</h3>
+          <h3 class="text-lg font-semibold mb-4">${t('options.screenshot.title')}</h3>
           <div class="flex items-center space-x-2">
             <input type="checkbox" id="screenshot-checkbox" class="h-4 w-4 rounded border border-primary text-primary ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50">
-            <label for="screenshot-checkbox" class="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">启用学习卡片自动截图功能</label>
+            <label for="screenshot-checkbox" class="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">${t('options.screenshot.enable')}</label>
             <div class="screenshot-info-tooltip relative group">
               <svg class="w-4 h-4 text-muted-foreground hover:text-primary cursor-help" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"/>
               </svg>
               <div class="tooltip-content absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 bg-popover text-popover-foreground text-xs rounded border shadow-lg w-64 opacity-0 invisible transition-all z-50">
                 <div class="space-y-2">
-                  <p>在Netflix学习时自动截取当前画面保存到学习卡片中</p>
+                  <p>${t('options.screenshot.hint')}</p>
                   <div class="border-t border-border pt-2">
-                    <p class="text-yellow-600 font-medium">⚠️ 兼容性提示：</p>
-                    <p>如遇截图黑屏，可尝试在Chrome设置中关闭"硬件加速"功能来解决</p>
+                    <p class="text-yellow-600 font-medium">${t('options.screenshot.compatibility')}</p>
+                    <p>${t('options.screenshot.blackScreen')}</p>
                   </div>
                 </div>
               </div>
@@ -277,17 +590,19 @@ class OptionsManager {
 
         <!-- CSV导出格式设置 -->
         <div class="bg-card rounded-lg border p-6">
-          <h3 class="text-lg font-semibold mb-4">CSV导出设置</h3>
+          <h3 class="text-lg font-semibold mb-4">${t('options.csv.title')}</h3>
           <div class="space-y-3">
             <div class="flex items-center space-x-3">
-              <label for="csv-format-select" class="text-sm font-medium min-w-[80px]">导出格式:</label>
+              <label for="csv-format-select" class="text-sm font-medium min-w-[80px]">${t('options.csv.format')}</label>
               <select 
                 id="csv-format-select"
                 class="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
               >
-                <option value="anki-html">Anki HTML格式（推荐）</option>
-                <option value="plain-text">纯文本格式</option>
-                <option value="rich-text">富文本格式（保留高亮）</option>
+                <option value="anki-html">${t('options.csv.ankiHtml')}</option>
+                <option value="plain-text">${t('options.csv.plainText')}</option>
+                <option value="rich-text">${t('options.csv.richText')}</option>
+                <option value="anki-cloze">${t('options.csv.ankiCloze')}</option>
+                <option value="anki-furigana">${t('options.csv.ankiFurigana')}</option>
               </select>
               <div class="csv-format-info-tooltip relative group">
                 <svg class="w-4 h-4 text-muted-foreground hover:text-primary cursor-help" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -295,22 +610,33 @@ class OptionsManager {
                 </svg>
                 <div class="csv-format-tooltip-content absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 bg-popover text-popover-foreground text-xs rounded border shadow-lg w-72 opacity-0 invisible transition-all z-50">
                   <div class="space-y-2">
-                    <p><strong>Anki HTML:</strong> 转换Ruby为汉字[读音]格式，适合Anki导入</p>
-                    <p><strong>纯文本:</strong> 移除所有HTML标签，纯文本内容</p>
-                    <p><strong>富文本:</strong> 保留Ruby标签和高亮样式，适合支持HTML的系统</p>
+                    <p><strong>Anki HTML:</strong> ${t('options.csv.ankiHtmlHint')}</p>
+                    <p><strong>${t('options.csv.plainTextShort')}</strong> ${t('options.csv.plainTextHint')}</p>
+                    <p><strong>${t('options.csv.richTextShort')}</strong> ${t('options.csv.richTextHint')}</p>
+                    <p><strong>${t('options.csv.ankiClozeShort')}</strong> ${t('options.csv.ankiClozeHint')}</p>
+                    <p><strong>${t('options.csv.ankiFuriganaShort')}</strong> ${t('options.csv.ankiFuriganaHint')}</p>
                   </div>
                 </div>
               </div>
             </div>
+            <div class="flex items-center space-x-2">
+              <input type="checkbox" id="csv-media-files-checkbox" class="h-4 w-4 rounded border border-primary text-primary ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50">
+              <label for="csv-media-files-checkbox" class="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">${t('options.csv.mediaAsFiles')}</label>
+            </div>
+            <p class="text-xs text-muted-foreground">${this.escapeHtml(t('options.csv.mediaAsFilesHint'))}</p>
+            <div class="flex items-center space-x-2">
+              <input type="checkbox" id="csv-glosses-checkbox" class="h-4 w-4 rounded border border-primary text-primary ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50">
+              <label for="csv-glosses-checkbox" class="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">${t('options.csv.includeGlosses')}</label>
+            </div>
           </div>
         </div>
 
         <!-- 调试选项 -->
         <div class="bg-card rounded-lg border p-6">
-          <h3 class="text-lg font-semibold mb-4">调试选项</h3>
+          <h3 class="text-lg font-semibold mb-4">${t('options.debug.title')}</h3>
           <div class="flex items-center space-x-2">
             <input type="checkbox" id="debug-checkbox" checked class="h-4 w-4 rounded border border-primary text-primary ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50">
-            <label for="debug-checkbox" class="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">启用调试模式（在控制台显示详细日志）</label>
+            <label for="debug-checkbox" class="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">${t('options.debug.enable')}</label>
           </div>
         </div>
       </div>
@@ -321,10 +647,44 @@ class OptionsManager {
     this.debugCheckbox = document.getElementById('debug-checkbox') as HTMLInputElement
     const screenshotCheckbox = document.getElementById('screenshot-checkbox') as HTMLInputElement
     const csvFormatSelect = document.getElementById('csv-format-select') as HTMLSelectElement
+    const csvMediaFilesCheckbox = document.getElementById(
+      'csv-media-files-checkbox'
+    ) as HTMLInputElement
+    const csvGlossesCheckbox = document.getElementById('csv-glosses-checkbox') as HTMLInputElement
+    const autoPauseCheckbox = document.getElementById('auto-pause-checkbox') as HTMLInputElement
+    const highlightAllCheckbox = document.getElementById(
+      'highlight-all-checkbox'
+    ) as HTMLInputElement
+    const targetCycleHotkeyInput = document.getElementById(
+      'target-cycle-hotkey-input'
+    ) as HTMLInputElement
+    const markKnownHotkeyInput = document.getElementById(
+      'mark-known-hotkey-input'
+    ) as HTMLInputElement
+    const studyHotkeyInputs = Array.from(
+      document.querySelectorAll<HTMLInputElement>('.study-hotkey-input')
+    )
+    const uiLanguageSelect = document.getElementById('ui-language-select') as HTMLSelectElement
+    const definitionLanguageSelect = document.getElementById(
+      'definition-language-select'
+    ) as HTMLSelectElement
 
     // 设置当前值
     chrome.storage.local
-      .get(['captureHotkey', 'debugMode', 'enableScreenshot', 'csvExportFormat'])
+      .get([
+        'captureHotkey',
+        'debugMode',
+        'enableScreenshot',
+        'csvExportFormat',
+        'csvMediaAsFiles',
+        'csvIncludeGlosses',
+        'studyHotkeys',
+        'autoPauseOnTarget',
+        'highlightAllTargets',
+        'targetCycleHotkey',
+        'markKnownHotkey',
+        DEFINITION_LANGUAGE_STORAGE_KEY,
+      ])
       .then(result => {
         const hotkey = result.captureHotkey || 's'
         const debugMode = result.debugMode !== false
@@ -343,6 +703,37 @@ class OptionsManager {
         if (csvFormatSelect) {
           csvFormatSelect.value = csvFormat
         }
+        if (csvMediaFilesCheckbox) {
+          csvMediaFilesCheckbox.checked = result.csvMediaAsFiles || false
+        }
+        if (csvGlossesCheckbox) {
+          csvGlossesCheckbox.checked = result.csvIncludeGlosses || false
+        }
+        if (autoPauseCheckbox) {
+          autoPauseCheckbox.checked = result.autoPauseOnTarget || false
+        }
+        if (highlightAllCheckbox) {
+          highlightAllCheckbox.checked = result.highlightAllTargets || false
+        }
+        if (targetCycleHotkeyInput) {
+          targetCycleHotkeyInput.value = (
+            result.targetCycleHotkey || DEFAULT_TARGET_CYCLE_HOTKEY
+          ).toUpperCase()
+        }
+        if (markKnownHotkeyInput) {
+          markKnownHotkeyInput.value = (
+            result.markKnownHotkey || DEFAULT_MARK_KNOWN_HOTKEY
+          ).toUpperCase()
+        }
+
+        if (definitionLanguageSelect) {
+          definitionLanguageSelect.value = result[DEFINITION_LANGUAGE_STORAGE_KEY] || 'auto'
+        }
+
+        const studyHotkeys = resolveStudyHotkeys(result.studyHotkeys)
+        studyHotkeyInputs.forEach(input => {
+          input.value = studyHotkeys[input.dataset.action as keyof StudyHotkeys].toUpperCase()
+        })
       })
 
     // 绑定快捷键输入框的事件监听器
@@ -350,7 +741,7 @@ class OptionsManager {
       // 移除readonly属性当获得焦点时，添加回来当失去焦点时
       this.hotkeyInput.addEventListener('focus', () => {
         this.hotkeyInput.removeAttribute('readonly')
-        this.hotkeyInput.placeholder = '按任意字母键...'
+        this.hotkeyInput.placeholder = t('common.pressAnyLetter')
       })
 
       this.hotkeyInput.addEventListener('blur', () => {
@@ -365,6 +756,34 @@ class OptionsManager {
       this.hotkeyInput.addEventListener('input', e => e.preventDefault())
     }
 
+    // 绑定逐句学习快捷键输入框
+    studyHotkeyInputs.forEach(input => {
+      input.addEventListener('focus', () => input.removeAttribute('readonly'))
+      input.addEventListener('blur', () => input.setAttribute('readonly', 'true'))
+      input.addEventListener('keydown', e => this.handleStudyHotkeyInput(e, input))
+      input.addEventListener('input', e => e.preventDefault())
+    })
+
+    if (autoPauseCheckbox) {
+      autoPauseCheckbox.addEventListener('change', () => this.saveSettings())
+    }
+
+    if (highlightAllCheckbox) {
+      highlightAllCheckbox.addEventListener('change', () => this.saveSettings())
+    }
+
+    const settingHotkeyInputs: [HTMLInputElement | null, 'targetCycle' | 'markKnown'][] = [
+      [targetCycleHotkeyInput, 'targetCycle'],
+      [markKnownHotkeyInput, 'markKnown'],
+    ]
+    settingHotkeyInputs.forEach(([input, target]) => {
+      if (!input) return
+      input.addEventListener('focus', () => input.removeAttribute('readonly'))
+      input.addEventListener('blur', () => input.setAttribute('readonly', 'true'))
+      input.addEventListener('keydown', e => this.handleSettingHotkeyInput(e, input, target))
+      input.addEventListener('input', e => e.preventDefault())
+    })
+
     // 绑定调试选项的事件监听器
     if (this.debugCheckbox) {
       this.debugCheckbox.addEventListener('change', () => this.saveSettings())
@@ -379,6 +798,26 @@ class OptionsManager {
     if (csvFormatSelect) {
       csvFormatSelect.addEventListener('change', () => this.saveSettings())
     }
+    csvMediaFilesCheckbox?.addEventListener('change', () => this.saveSettings())
+    csvGlossesCheckbox?.addEventListener('change', () => this.saveSettings())
+
+    // 切换界面语言后由 i18n.onChange 重新渲染概览
+    uiLanguageSelect?.addEventListener('change', () => {
+      i18n.setSetting(uiLanguageSelect.value as UILanguageSetting).catch(error => {
+        console.error('保存界面语言失败:', error)
+        this.showNotification(t('common.saveFailed'), 'error')
+      })
+    })
+
+    definitionLanguageSelect?.addEventListener('change', () => {
+      chrome.storage.local
+        .set({ [DEFINITION_LANGUAGE_STORAGE_KEY]: definitionLanguageSelect.value })
+        .then(() => this.showNotification(t('common.settingsSaved'), 'success'))
+        .catch(error => {
+          console.error('保存释义语言失败:', error)
+          this.showNotification(t('common.saveFailed'), 'error')
+        })
+    })
 
     // 实现信息icon的悬浮提示功能
     this.initializeTooltip()
@@ -387,7 +826,115 @@ class OptionsManager {
     document.getElementById('vocab-library-card')?.addEventListener('click', () => {
       this.viewState = {
         mode: 'library-detail',
-        breadcrumb: ['设置', '词汇库管理'],
+        breadcrumb: [t('options.breadcrumb.settings'), t('options.breadcrumb.libraries')],
+      }
+      this.renderView()
+    })
+
+    // 在概览中直接切换词库（导入了自定义词库时显示）
+    const librarySelect = document.getElementById('overview-library-select') as HTMLSelectElement
+    librarySelect?.addEventListener('click', e => e.stopPropagation())
+    librarySelect?.addEventListener('change', async () => {
+      await this.selectLibrary(librarySelect.value)
+      await this.vocabLibraryManager.updateProgressFromCards()
+      this.renderOverview()
+    })
+
+    // 添加复习卡片点击事件
+    document.getElementById('review-card')?.addEventListener('click', () => {
+      this.viewState = {
+        mode: 'review',
+        breadcrumb: [t('options.breadcrumb.settings'), t('options.breadcrumb.review')],
+      }
+      this.renderView()
+    })
+
+    // 添加已掌握词汇卡片点击事件
+    document.getElementById('known-words-card')?.addEventListener('click', () => {
+      this.viewState = {
+        mode: 'known-words',
+        breadcrumb: [t('options.breadcrumb.settings'), t('options.breadcrumb.knownWords')],
+      }
+      this.renderView()
+    })
+
+    storageService
+      .getKnownWords()
+      .then(knownWords => {
+        const summaryElement = document.getElementById('known-words-summary')
+        if (summaryElement) {
+          summaryElement.textContent = t('options.overview.knownWords.summary', {
+            count: knownWords.length,
+          })
+        }
+      })
+      .catch(error => console.error('获取已掌握词汇失败:', error))
+
+    // 添加离线词典卡片点击事件
+    document.getElementById('dictionary-card')?.addEventListener('click', () => {
+      this.viewState = {
+        mode: 'dictionary',
+        breadcrumb: [t('options.breadcrumb.settings'), t('options.breadcrumb.dictionary')],
+      }
+      this.renderView()
+    })
+
+    storageService
+      .getDictionaries()
+      .then(dictionaries => {
+        const summaryElement = document.getElementById('dictionary-summary')
+        if (summaryElement) {
+          summaryElement.textContent =
+            dictionaries.length > 0
+              ? t('options.overview.dictionary.summary', {
+                  titles: dictionaries
+                    .map(dictionary => dictionary.title)
+                    .join(t('common.listSeparator')),
+                })
+              : t('options.overview.dictionary.none')
+        }
+      })
+      .catch(error => console.error('获取词典失败:', error))
+
+    storageService
+      .getReviewSummary()
+      .then(summary => {
+        const summaryElement = document.getElementById('review-due-summary')
+        if (summaryElement) {
+          summaryElement.textContent = t('options.overview.review.summary', {
+            due: summary.dueCount,
+            new: summary.newCount,
+          })
+        }
+      })
+      .catch(error => console.error('获取复习统计失败:', error))
+
+    // 添加 Anki 同步卡片点击事件
+    document.getElementById('anki-sync-card')?.addEventListener('click', () => {
+      this.viewState = {
+        mode: 'anki-sync',
+        breadcrumb: [t('options.breadcrumb.settings'), t('options.breadcrumb.ankiSync')],
+      }
+      this.renderView()
+    })
+
+    Promise.all([storageService.getAllCards(), ankiSync.getSyncedCards()])
+      .then(([cards, synced]) => {
+        const summaryElement = document.getElementById('anki-sync-summary')
+        if (summaryElement && cards.length > 0) {
+          summaryElement.textContent = t('options.overview.ankiSync.summary', {
+            synced: cards.filter(card => String(card.id) in synced).length,
+            total: cards.length,
+          })
+        }
+      })
+      .catch(error => console.error('获取 Anki 同步状态失败:', error))
+
+    // 添加导出模板卡片点击事件
+    document.getElementById('export-templates-card')?.addEventListener('click', () => {
+      this.viewState = {
+        mode: 'export-templates',
+        breadcrumb: [t('options.breadcrumb.settings'), t('options.breadcrumb.exportTemplates')],
       }
       this.renderView()
     })
@@ -396,7 +943,7 @@ class OptionsManager {
     document.getElementById('activation-behavior-card')?.addEventListener('click', () => {
       this.viewState = {
         mode: 'activation-settings',
-        breadcrumb: ['设置', '插件启动行为'],
+        breadcrumb: [t('options.breadcrumb.settings'), t('options.breadcrumb.activation')],
       }
       this.renderView()
     })
@@ -409,8 +956,8 @@ class OptionsManager {
     this.mainContent.innerHTML = `
       <div class="space-y-6">
         <div class="text-center py-4">
-          <h2 class="text-2xl font-bold mb-2">选择词汇库</h2>
-          <p class="text-muted-foreground">选择要学习的词汇库，后续可配置具体等级</p>
+          <h2 class="text-2xl font-bold mb-2">${t('options.libraries.title')}</h2>
+          <p class="text-muted-foreground">${t('options.libraries.description')}</p>
         </div>
 
         <div class="grid gap-4">
@@ -420,14 +967,15 @@ class OptionsManager {
             <div class="library-card ${library.id === selectedId ? 'selected' : ''}" data-library-id="${library.id}">
               <div class="flex items-center justify-between p-6 bg-card rounded-lg border cursor-pointer hover:shadow-md transition-all">
                 <div class="flex-1">
-                  <h3 class="text-lg font-semibold mb-2">${library.name}</h3>
-                  <p class="text-sm text-muted-foreground mb-2">${library.description}</p>
+                  <h3 class="text-lg font-semibold mb-2">${this.escapeHtml(library.name)}</h3>
+                  <p class="text-sm text-muted-foreground mb-2">${this.escapeHtml(library.description)}</p>
                   <div class="text-xs text-muted-foreground">
-                    ${library.totalWords} 个词汇 • ${library.levels.join(', ')}
+                    ${t('common.wordCount', { count: library.totalWords })} • ${library.levels.map(level => getLevelLabel(library, level)).join(', ')}
                   </div>
                 </div>
                 <div class="flex items-center gap-3">
-                  ${library.id === selectedId ? '<div class="text-primary font-medium">已选择</div>' : ''}
+                  ${library.id === selectedId ? `<div class="text-primary font-medium">${t('options.libraries.selected')}</div>` : ''}
+                  ${library.custom ? `<button class="delete-library-btn text-sm text-destructive hover:underline" data-library-id="${library.id}">${t('common.delete')}</button>` : ''}
                   <svg class="w-5 h-5 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7" />
                   </svg>
@@ -437,10 +985,40 @@ class OptionsManager {
           `
             )
             .join('')}
+
+          <!-- 导入自定义词库 -->
+          <div id="import-library-card" class="flex items-center justify-between p-6 bg-card rounded-lg border border-dashed cursor-pointer hover:shadow-md transition-all">
+            <div>
+              <h3 class="text-lg font-semibold mb-2">${t('options.libraries.importTitle')}</h3>
+              <p class="text-sm text-muted-foreground">${t('options.libraries.importDescription')}</p>
+            </div>
+            <svg class="w-5 h-5 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 4v16m8-8H4" />
+            </svg>
+          </div>
         </div>
       </div>
     `
 
+    document.getElementById('import-library-card')?.addEventListener('click', () => {
+      this.viewState = {
+        mode: 'library-import',
+        breadcrumb: [
+          t('options.breadcrumb.settings'),
+          t('options.breadcrumb.libraries'),
+          t('options.breadcrumb.libraryImport'),
+        ],
+      }
+      this.renderView()
+    })
+
+    this.mainContent.querySelectorAll('.delete-library-btn').forEach(btn => {
+      btn.addEventListener('click', async (e: Event) => {
+        e.stopPropagation()
+        await this.deleteCustomLibrary((e.currentTarget as HTMLElement).dataset.libraryId!)
+      })
+    })
+
     // 添加点击事件
     this.mainContent.querySelectorAll('.library-card').forEach(card => {
       card.addEventListener('click', async (e: Event) => {
@@ -451,7 +1029,11 @@ class OptionsManager {
         this.viewState = {
           mode: 'level-detail',
           libraryId: libraryId,
-          breadcrumb: ['设置', '词汇库管理', this.selectedLibrary?.name || '词汇库'],
+          breadcrumb: [
+            t('options.breadcrumb.settings'),
+            t('options.breadcrumb.libraries'),
+            this.selectedLibrary?.name || t('options.breadcrumb.library'),
+          ],
         }
         this.renderView()
       })
@@ -461,7 +1043,206 @@ class OptionsManager {
   private async selectLibrary(libraryId: string): Promise<void> {
     await this.vocabLibraryManager.selectLibrary(libraryId)
     this.selectedLibrary = this.vocabLibraryManager.getSelectedLibrary() || null
-    this.showNotification(`已选择 ${this.selectedLibrary?.name}`, 'success')
+    this.showNotification(
+      t('options.libraries.selectedNotice', { name: this.selectedLibrary?.name || '' }),
+      'success'
+    )
+  }
+
+  private async deleteCustomLibrary(libraryId: string): Promise<void> {
+    const library = this.vocabLibraryManager.getLibraries().find(lib => lib.id === libraryId)
+    if (!library || !confirm(t('options.libraries.confirmDelete', { name: library.name }))) return
+
+    try {
+      // 删除正在使用的词库时先切回 JLPT 词库
+      if (this.vocabLibraryManager.getSettings().selectedLibraryId === libraryId) {
+        await this.vocabLibraryManager.selectLibrary('jlpt')
+      }
+      await storageService.deleteCustomLibrary(libraryId)
+      await this.vocabLibraryManager.init()
+      await this.vocabLibraryManager.updateProgressFromCards()
+      this.selectedLibrary = this.vocabLibraryManager.getSelectedLibrary() || null
+      this.showNotification(t('options.libraries.deleted', { name: library.name }), 'success')
+      this.renderLibraryDetail()
+    } catch (error) {
+      console.error('删除词库失败:', error)
+      this.showNotification(t('common.deleteFailed'), 'error')
+    }
+  }
+
+  private renderLibraryImport(): void {
+    this.mainContent.innerHTML = `
+      <div class="space-y-6">
+        <div class="text-center py-4">
+          <h2 class="text-2xl font-bold mb-2">${t('options.libraries.importTitle')}</h2>
+          <p class="text-muted-foreground">${t('options.libraryImport.description')}</p>
+        </div>
+
+        <div class="bg-card rounded-lg border p-6 space-y-4">
+          <input type="file" id="library-import-file" accept=".csv,.tsv,.txt,.json" class="block w-full text-sm text-muted-foreground file:mr-3 file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-2 file:text-sm file:font-medium">
+
+          <div id="library-import-config" class="hidden space-y-6">
+            <div>
+              <label for="library-import-name" class="text-sm font-medium">${t('options.libraryImport.name')}</label>
+              <input type="text" id="library-import-name" class="flex h-10 w-full mt-1 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2">
+            </div>
+            <div>
+              <h3 class="text-sm font-semibold mb-1">${t('options.libraryImport.mapping')}</h3>
+              <p class="text-xs text-muted-foreground mb-3">${t('options.libraryImport.mappingHint')}</p>
+              <div id="library-import-mapping" class="grid gap-3 md:grid-cols-2"></div>
+            </div>
+            <div>
+              <h3 class="text-sm font-semibold mb-2">${t('options.libraryImport.preview')}</h3>
+              <div id="library-import-preview" class="overflow-x-auto"></div>
+            </div>
+            <div class="flex justify-end">
+              <button id="library-import-btn" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-4 py-2">${t('options.libraryImport.submit')}</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    `
+
+    const fileInput = document.getElementById('library-import-file') as HTMLInputElement
+    const config = document.getElementById('library-import-config')!
+    const nameInput = document.getElementById('library-import-name') as HTMLInputElement
+    const mappingContainer = document.getElementById('library-import-mapping')!
+    const previewContainer = document.getElementById('library-import-preview')!
+    const importButton = document.getElementById('library-import-btn') as HTMLButtonElement
+
+    let fileName = ''
+    let table: VocabImportTable = { headers: [], rows: [] }
+
+    const readMapping = (): VocabColumnMapping => {
+      const mapping = {} as VocabColumnMapping
+      mappingContainer.querySelectorAll<HTMLSelectElement>('select').forEach(select => {
+        mapping[select.dataset.field as VocabField] = parseInt(select.value)
+      })
+      return mapping
+    }
+
+    const updatePreview = () => {
+      const entries = vocabLibraryImporter.buildEntries(table, readMapping())
+      const levels = Array.from(new Set(entries.map(entry => entry.Level)))
+      const fields = Object.keys(VOCAB_FIELD_LABELS) as VocabField[]
+      const levelList =
+        levels.length > 10
+          ? t('options.libraryImport.more', {
+              list: levels.slice(0, 10).join(t('common.listSeparator')),
+            })
+          : levels.join(t('common.listSeparator'))
+
+      previewContainer.innerHTML = `
+        <p class="text-sm mb-3">${t('options.libraryImport.summary', { count: entries.length, levelCount: levels.length, levels: this.escapeHtml(levelList) })}</p>
+        <table class="w-full text-sm border-collapse">
+          <thead>
+            <tr class="border-b text-left text-muted-foreground">
+              ${fields.map(field => `<th class="py-2 pr-4 font-medium whitespace-nowrap">${t(VOCAB_FIELD_LABELS[field])}</th>`).join('')}
+            </tr>
+          </thead>
+          <tbody>
+            ${entries
+              .slice(0, 5)
+              .map(
+                entry => `
+              <tr class="border-b">
+                ${fields.map(field => `<td class="py-2 pr-4">${this.escapeHtml(entry[field])}</td>`).join('')}
+              </tr>`
+              )
+              .join('')}
+          </tbody>
+        </table>
+      `
+      importButton.disabled = entries.length === 0
+    }
+
+    const renderMapping = () => {
+      const mapping = vocabLibraryImporter.guessMapping(table.headers)
+      mappingContainer.innerHTML = (Object.keys(VOCAB_FIELD_LABELS) as VocabField[])
+        .map(
+          field => `
+          <div class="flex items-center space-x-3">
+            <label class="text-sm font-medium min-w-[80px]">${t(VOCAB_FIELD_LABELS[field])}:</label>
+            <select data-field="${field}" class="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2">
+              ${field === 'VocabKanji' ? '' : `<option value="-1">${t('options.libraryImport.skipColumn')}</option>`}
+              ${table.headers
+                .map(
+                  (header, index) =>
+                    `<option value="${index}" ${mapping[field] === index ? 'selected' : ''}>${this.escapeHtml(header || t('options.libraryImport.columnN', { index: index + 1 }))}</option>`
+                )
+                .join('')}
+            </select>
+          </div>
+        `
+        )
+        .join('')
+      mappingContainer
+        .querySelectorAll('select')
+        .forEach(select => select.addEventListener('change', updatePreview))
+    }
+
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0]
+      if (!file) return
+
+      try {
+        const { text } = encodingDetector.decode(await file.arrayBuffer())
+        table = vocabLibraryImporter.parseTable(text, file.name)
+      } catch (error) {
+        console.error('解析词库文件失败:', error)
+        config.classList.add('hidden')
+        this.showNotification(t('options.libraryImport.parseFailed'), 'error')
+        return
+      }
+
+      if (table.headers.length === 0 || table.rows.length === 0) {
+        config.classList.add('hidden')
+        this.showNotification(t('options.libraryImport.empty'), 'warning')
+        return
+      }
+
+      fileName = file.name
+      nameInput.value = file.name.replace(/\.[^.]+$/, '')
+      config.classList.remove('hidden')
+      renderMapping()
+      updatePreview()
+    })
+
+    importButton.addEventListener('click', async () => {
+      const entries = vocabLibraryImporter.buildEntries(table, readMapping())
+      if (entries.length === 0) {
+        this.showNotification(t('options.libraryImport.noEntries'), 'warning')
+        return
+      }
+
+      importButton.disabled = true
+      try {
+        const library = vocabLibraryImporter.buildLibrary(
+          nameInput.value.trim() || fileName,
+          fileName,
+          entries
+        )
+        await storageService.saveCustomLibrary(library)
+        await this.vocabLibraryManager.init()
+        await this.selectLibrary(library.id)
+        await this.vocabLibraryManager.updateProgressFromCards()
+
+        this.viewState = {
+          mode: 'level-detail',
+          libraryId: library.id,
+          breadcrumb: [
+            t('options.breadcrumb.settings'),
+            t('options.breadcrumb.libraries'),
+            library.name,
+          ],
+        }
+        this.renderView()
+      } catch (error) {
+        console.error('导入词库失败:', error)
+        this.showNotification(t('common.importFailed'), 'error')
+        importButton.disabled = false
+      }
+    })
   }
 
   private renderLevelDetail(): void {
@@ -473,7 +1254,7 @@ class OptionsManager {
       <div class="space-y-6">
         <div class="text-center py-4">
           <h2 class="text-2xl font-bold mb-2">${this.selectedLibrary.name}</h2>
-          <p class="text-muted-foreground">配置要学习的等级，点击等级可查看词汇详情</p>
+          <p class="text-muted-foreground">${t('options.levels.description')}</p>
         </div>
 
         <div class="grid gap-4">
@@ -484,16 +1265,16 @@ class OptionsManager {
               <div class="bg-card rounded-lg border p-6 hover:shadow-md transition-shadow">
                 <div class="flex items-center justify-between mb-4">
                   <div class="flex items-center space-x-4">
-                    <span class="font-semibold text-xl">${level.level}</span>
+                    <span class="font-semibold text-xl">${this.escapeHtml(getLevelLabel(this.selectedLibrary!, level.level))}</span>
                     <div class="text-sm text-muted-foreground">
-                      ${level.totalWords} 个词汇
+                      ${t('common.wordCount', { count: level.totalWords })}
                     </div>
                   </div>
                   
                   <div class="flex items-center gap-4">
                     <div class="text-right">
                       <div class="text-sm font-medium">${Math.round((level.progress * level.totalWords) / 100)}/${level.totalWords}</div>
-                      <div class="text-xs text-muted-foreground">${Math.round(level.progress)}% 完成</div>
+                      <div class="text-xs text-muted-foreground">${t('options.levels.progress', { percent: Math.round(level.progress) })}</div>
                     </div>
                     <button class="view-vocab-btn p-2 rounded-md hover:bg-accent transition-colors" data-level="${level.level}">
                       <svg class="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -515,7 +1296,7 @@ class OptionsManager {
                 <div class="text-xs text-muted-foreground">
                   <label class="flex items-center">
                     <input type="checkbox" ${level.enabled ? 'checked' : ''} class="level-checkbox mr-2 h-3 w-3" data-level="${level.level}">
-                    在学习时包含此等级的词汇
+                    ${t('options.levels.include')}
                   </label>
                 </div>
               </div>
@@ -546,7 +1327,12 @@ class OptionsManager {
           mode: 'vocab-list',
           libraryId: this.selectedLibrary!.id,
           level: level,
-          breadcrumb: ['设置', '词汇库管理', this.selectedLibrary!.name, level],
+          breadcrumb: [
+            t('options.breadcrumb.settings'),
+            t('options.breadcrumb.libraries'),
+            this.selectedLibrary!.name,
+            getLevelLabel(this.selectedLibrary!, level),
+          ],
         }
         this.renderView()
       })
@@ -560,7 +1346,7 @@ class OptionsManager {
     if (!levelProgress) return
 
     const vocabEntries = this.selectedLibrary.data.filter(
-      entry => entry.Level === this.viewState.level
+      entry => getLibraryLevel(entry) === this.viewState.level
     )
 
     // 获取该等级的已学词汇
@@ -574,8 +1360,8 @@ class OptionsManager {
     this.mainContent.innerHTML = `
       <div class="space-y-6">
         <div class="text-center py-4">
-          <h2 class="text-2xl font-bold mb-2">${this.viewState.level} 词汇列表</h2>
-          <p class="text-muted-foreground">共 ${vocabEntries.length} 个词汇，已学 ${learnedCount} 个</p>
+          <h2 class="text-2xl font-bold mb-2">${t('options.vocabList.title', { level: getLevelLabel(this.selectedLibrary, this.viewState.level) })}</h2>
+          <p class="text-muted-foreground">${t('options.vocabList.summary', { count: vocabEntries.length, learned: learnedCount })}</p>
           <div class="w-full bg-muted rounded-full h-2 mt-3 max-w-md mx-auto">
             <div 
               class="bg-primary h-2 rounded-full transition-all duration-300" 
@@ -598,21 +1384,21 @@ class OptionsManager {
           <div class="flex-1">
             <div class="flex items-center gap-3 mb-2">
               <div class="text-xl font-bold text-primary">${this.escapeHtml(vocab.VocabKanji)}</div>
-              ${isLearned ? '<div class="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">已学会</div>' : ''}
+              ${isLearned ? `<div class="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">${t('options.vocabList.learned')}</div>` : ''}
             </div>
             
             ${
               vocab.VocabFurigana && vocab.VocabFurigana !== vocab.VocabKanji
-                ? `<div class="text-sm text-muted-foreground mb-1">读音: ${this.escapeHtml(vocab.VocabFurigana)}</div>`
+                ? `<div class="text-sm text-muted-foreground mb-1">${t('common.readingLabel', { reading: this.escapeHtml(vocab.VocabFurigana) })}</div>`
                 : ''
             }
             
-            <div class="text-sm mb-2">${this.escapeHtml(vocab.VocabDefCN || '暂无释义')}</div>
+            <div class="text-sm mb-2">${this.escapeHtml(vocab.VocabDefCN || t('common.noDefinition'))}</div>
             
             <div class="flex items-center gap-4 text-xs text-muted-foreground">
-              ${vocab.VocabPoS ? `<span>词性: ${this.escapeHtml(vocab.VocabPoS)}</span>` : ''}
-              ${vocab.Frequency ? `<span>频率: ${this.escapeHtml(vocab.Frequency)}</span>` : ''}
-              ${vocab.VocabPitch ? `<span>音调: ${this.escapeHtml(vocab.VocabPitch)}</span>` : ''}
+              ${vocab.VocabPoS ? `<span>${t('common.posLabel', { pos: this.escapeHtml(vocab.VocabPoS) })}</span>` : ''}
+              ${vocab.Frequency ? `<span>${t('common.frequencyLabel', { frequency: this.escapeHtml(vocab.Frequency) })}</span>` : ''}
+              ${vocab.VocabPitch ? `<span>${t('common.pitchLabel', { pitch: this.escapeHtml(vocab.VocabPitch) })}</span>` : ''}
             </div>
           </div>
         </div>
@@ -641,8 +1427,8 @@ class OptionsManager {
             entry => entry.VocabKanji === card.word
           )
 
-          // 使用卡片的等级信息，如果没有则从词库查找
-          const level = card.level || vocabEntry?.Level
+          // 使用卡片的等级信息，如果没有则从词库查找；词库外的词汇（释义来自离线词典）归入"其他"
+          const level = card.level || vocabEntry?.Level || t('options.learned.otherLevel')
 
           if (level) {
             if (!wordsByLevel[level]) {
@@ -660,7 +1446,7 @@ class OptionsManager {
                 Frequency: '',
               },
               card: card,
-              learnedDate: card.createdAt || '未知',
+              learnedDate: card.createdAt || t('options.learned.unknownDate'),
             })
           }
         }
@@ -671,8 +1457,8 @@ class OptionsManager {
       this.mainContent.innerHTML = `
         <div class="space-y-6">
           <div class="text-center py-4">
-            <h2 class="text-2xl font-bold mb-2">已学词汇</h2>
-            <p class="text-muted-foreground">你已经学会了 ${totalLearnedWords} 个词汇，继续加油！</p>
+            <h2 class="text-2xl font-bold mb-2">${t('options.learned.title')}</h2>
+            <p class="text-muted-foreground">${t('options.learned.summary', { count: totalLearnedWords })}</p>
           </div>
 
           <!-- 统计信息 -->
@@ -699,16 +1485,46 @@ class OptionsManager {
               <svg class="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
               </svg>
-              导出 Anki CSV
+              ${t('options.learned.export')}
             </button>
-            <button id="clear-learned-words" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 border border-input bg-background hover:bg-accent hover:text-accent-foreground text-destructive h-10 px-4 py-2">
+            <button id="export-learned-apkg" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2">
               <svg class="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
               </svg>
-              清空所有记忆卡片
+              ${t('options.learned.exportApkg')}
             </button>
-          </div>
-
+            <button id="sync-learned-words" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2">
+              <svg class="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              ${t('options.learned.syncAnki')}
+            </button>
+            <button id="clear-learned-words" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 border border-input bg-background hover:bg-accent hover:text-accent-foreground text-destructive h-10 px-4 py-2">
+              <svg class="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+              ${t('options.learned.clearAll')}
+            </button>
+          </div>
+
+          <!-- 其他导出格式 -->
+          <div class="flex justify-center items-center gap-3 mb-2">
+            <select id="exporter-select" class="h-10 rounded-md border border-input bg-background px-3 text-sm">
+              ${exporterRegistry
+                .getAll()
+                .map(exporter => `<option value="${exporter.id}">${t(exporter.label)}</option>`)
+                .join('')}
+            </select>
+            <button id="exporter-export-btn" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors disabled:pointer-events-none disabled:opacity-50 border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2">
+              ${t('options.exporters.export')}
+            </button>
+            <label for="import-cards-json" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2 cursor-pointer">
+              ${t('options.exporters.importJson')}
+            </label>
+            <input type="file" id="import-cards-json" accept=".json" class="hidden">
+          </div>
+          <p id="exporter-description" class="text-center text-sm text-muted-foreground mb-6"></p>
+
           <!-- 按等级显示已学词汇 -->
           <div class="space-y-6">
             ${Object.keys(wordsByLevel)
@@ -719,7 +1535,7 @@ class OptionsManager {
               .map(
                 level => `
               <div class="bg-card rounded-lg border p-6">
-                <h3 class="text-lg font-semibold mb-4">${level} 等级 (${wordsByLevel[level].length} 个词汇)</h3>
+                <h3 class="text-lg font-semibold mb-4">${t('options.learned.levelHeading', { level, count: wordsByLevel[level].length })}</h3>
                 <div class="grid gap-4">
                   ${wordsByLevel[level]
                     .map(item => {
@@ -741,7 +1557,7 @@ class OptionsManager {
                               <button class="screenshot-icon-btn p-1 rounded hover:bg-accent transition-colors text-muted-foreground hover:text-primary" 
                                       data-screenshot="${this.escapeHtml(item.card.screenshot)}"
                                       data-card-id="${item.card.id}"
-                                      title="查看截图">
+                                      title="${t('options.learned.viewScreenshot')}">
                                 ${ScreenshotRenderer.createScreenshotIcon()}
                               </button>
                             `
@@ -752,16 +1568,22 @@ class OptionsManager {
                           ${
                             item.vocab.VocabFurigana &&
                             item.vocab.VocabFurigana !== item.vocab.VocabKanji
-                              ? `<div class="text-sm text-muted-foreground mb-1">读音: ${this.escapeHtml(item.vocab.VocabFurigana)}</div>`
+                              ? `<div class="text-sm text-muted-foreground mb-1">${t('common.readingLabel', { reading: this.escapeHtml(item.vocab.VocabFurigana) })}</div>`
                               : ''
                           }
                           
-                          <div class="text-sm text-foreground mb-2">${this.escapeHtml(item.vocab.VocabDefCN || '暂无释义')}</div>
+                          <div class="text-sm text-foreground mb-2">${this.escapeHtml(item.card.definition || item.vocab.VocabDefCN || t('common.noDefinition'))}</div>
+                          ${
+                            item.card.glosses &&
+                            item.card.glosses !== (item.card.definition || item.vocab.VocabDefCN)
+                              ? `<div class="text-sm text-muted-foreground mb-2 whitespace-pre-line">${this.escapeHtml(item.card.glosses)}</div>`
+                              : ''
+                          }
                           
                           <div class="text-xs text-muted-foreground mb-2 flex items-center gap-2">
-                            <span>学习时间: ${new Date(item.learnedDate).toLocaleDateString()}</span>
-                            ${item.vocab.VocabPoS ? `<span>•</span><span>词性: ${this.escapeHtml(item.vocab.VocabPoS)}</span>` : ''}
-                            ${item.vocab.Frequency ? `<span>•</span><span>频率: ${this.escapeHtml(item.vocab.Frequency)}</span>` : ''}
+                            <span>${t('options.learned.learnedAt', { date: new Date(item.learnedDate).toLocaleDateString() })}</span>
+                            ${item.vocab.VocabPoS ? `<span>•</span><span>${t('common.posLabel', { pos: this.escapeHtml(item.vocab.VocabPoS) })}</span>` : ''}
+                            ${item.vocab.Frequency ? `<span>•</span><span>${t('common.frequencyLabel', { frequency: this.escapeHtml(item.vocab.Frequency) })}</span>` : ''}
                           </div>
                           
                           ${
@@ -771,7 +1593,7 @@ class OptionsManager {
                               ${item.card.sentence}
                             </div>
                             <div class="text-xs text-muted-foreground mt-1">
-                              来源: ${this.escapeHtml(item.card.sourceTitle)} • ${this.formatTimestamp(item.card.timestamp)}
+                              ${t('options.learned.source', { source: this.escapeHtml(item.card.sourceTitle) })} • ${this.formatCardTimestamp(item.card)}
                             </div>
                           `
                               : ''
@@ -780,7 +1602,7 @@ class OptionsManager {
                         <button 
                           class="delete-learned-card-btn opacity-0 group-hover:opacity-100 transition-opacity inline-flex items-center justify-center rounded-md text-sm font-medium focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 hover:bg-destructive/10 text-destructive h-8 w-8" 
                           data-card-id="${item.card.id}"
-                          title="删除卡片"
+                          title="${t('common.deleteCard')}"
                         >
                           <svg class="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -798,130 +1620,1445 @@ class OptionsManager {
               .join('')}
           </div>
 
-          ${
-            totalLearnedWords === 0
-              ? `
-            <div class="text-center py-12 text-muted-foreground">
-              <div class="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
-                <svg class="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-              </div>
-              <p class="text-lg font-medium mb-2">还没有学会任何词汇</p>
-              <p class="text-sm">在 Netflix 上观看日语内容时按快捷键开始学习吧！</p>
-            </div>
-          `
-              : ''
-          }
+          ${
+            totalLearnedWords === 0
+              ? `
+            <div class="text-center py-12 text-muted-foreground">
+              <div class="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
+                <svg class="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              </div>
+              <p class="text-lg font-medium mb-2">${t('options.learned.emptyTitle')}</p>
+              <p class="text-sm">${t('options.learned.emptyHint')}</p>
+            </div>
+          `
+              : ''
+          }
+        </div>
+      `
+
+      // 添加事件监听器
+      document
+        .getElementById('export-learned-words')
+        ?.addEventListener('click', () => this.exportToAnki())
+      const apkgButton = document.getElementById('export-learned-apkg') as HTMLButtonElement
+      apkgButton?.addEventListener('click', () => this.exportApkg(apkgButton))
+      const syncButton = document.getElementById('sync-learned-words') as HTMLButtonElement
+      syncButton?.addEventListener('click', () => this.syncToAnki(syncButton))
+
+      const exporterSelect = document.getElementById('exporter-select') as HTMLSelectElement
+      const updateExporterDescription = () => {
+        const exporter = exporterRegistry.get(exporterSelect.value)
+        const descriptionElement = document.getElementById('exporter-description')
+        if (exporter && descriptionElement) descriptionElement.textContent = t(exporter.description)
+      }
+      exporterSelect?.addEventListener('change', updateExporterDescription)
+      updateExporterDescription()
+      const exporterButton = document.getElementById('exporter-export-btn') as HTMLButtonElement
+      exporterButton?.addEventListener('click', () =>
+        this.exportWithExporter(exporterSelect.value, exporterButton)
+      )
+      document.getElementById('import-cards-json')?.addEventListener('change', event => {
+        const input = event.target as HTMLInputElement
+        const file = input.files?.[0]
+        input.value = ''
+        if (file) this.importCardsJson(file)
+      })
+      document
+        .getElementById('clear-learned-words')
+        ?.addEventListener('click', () => this.clearAllCards())
+
+      // 为所有单个删除按钮添加事件监听器
+      this.mainContent.querySelectorAll('.delete-learned-card-btn').forEach(btn => {
+        btn.addEventListener('click', async (e: Event) => {
+          e.stopPropagation()
+          const cardId = parseInt((e.currentTarget as HTMLElement).dataset.cardId!)
+          await this.deleteLearnedCard(cardId)
+        })
+      })
+
+      // 为截图图标添加事件监听器
+      this.mainContent.querySelectorAll('.screenshot-icon-btn').forEach(btn => {
+        btn.addEventListener('mouseenter', (e: Event) => {
+          const target = e.currentTarget as HTMLElement
+          const screenshot = target.dataset.screenshot!
+          this.showScreenshotThumbnail(screenshot, target)
+        })
+
+        btn.addEventListener('mouseleave', () => {
+          this.hideScreenshotThumbnail()
+        })
+
+        btn.addEventListener('click', (e: Event) => {
+          e.stopPropagation()
+          const target = e.currentTarget as HTMLElement
+          const screenshot = target.dataset.screenshot!
+          this.showScreenshotModal(screenshot)
+        })
+      })
+
+      // 如果有高亮词汇，滚动到该位置
+      if (this.viewState.highlight) {
+        this.scrollToHighlightedWord()
+      }
+    } catch (error) {
+      console.error('渲染已学词汇失败:', error)
+      this.mainContent.innerHTML = `
+        <div class="text-center py-12 text-muted-foreground">
+          <p class="text-lg font-medium mb-2">${t('common.loadFailed')}</p>
+          <p class="text-sm">${t('common.reloadHint')}</p>
+        </div>
+      `
+    }
+  }
+
+  private async renderKnownWords(): Promise<void> {
+    try {
+      const knownWords = await storageService.getKnownWords()
+      const vocabMap = new Map(
+        (this.selectedLibrary?.data || []).map(entry => [entry.VocabKanji, entry])
+      )
+      const sourceLabels: Record<KnownWord['source'], string> = {
+        subtitle: t('options.known.source.subtitle'),
+        manual: t('options.known.source.manual'),
+        import: t('options.known.source.import'),
+      }
+
+      this.mainContent.innerHTML = `
+        <div class="space-y-6">
+          <div class="text-center py-4">
+            <h2 class="text-2xl font-bold mb-2">${t('options.known.title')}</h2>
+            <p class="text-muted-foreground">${t('options.known.summary', { count: knownWords.length })}</p>
+          </div>
+
+          <!-- 批量导入 -->
+          <div class="bg-card rounded-lg border p-6">
+            <h3 class="text-lg font-semibold mb-2">${t('options.known.importTitle')}</h3>
+            <p class="text-sm text-muted-foreground mb-4">${t('options.known.importDescription')}</p>
+            <div class="grid gap-3 md:grid-cols-3">
+              <div>
+                <label for="known-words-import-format" class="text-sm font-medium">${t('options.known.format')}</label>
+                <select id="known-words-import-format" class="flex h-10 w-full mt-1 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2">
+                  <option value="word-list">${t('options.known.formatWordList')}</option>
+                  <option value="anki">${t('options.known.formatAnki')}</option>
+                  <option value="csv">CSV / TSV</option>
+                </select>
+              </div>
+              <div id="known-words-import-column-field" class="hidden">
+                <label for="known-words-import-column" class="text-sm font-medium">${t('options.known.column')}</label>
+                <input type="number" id="known-words-import-column" min="1" value="1" class="flex h-10 w-full mt-1 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2">
+              </div>
+              <div id="known-words-import-header-field" class="hidden">
+                <div class="flex items-center space-x-2 h-10 mt-6">
+                  <input type="checkbox" id="known-words-import-header" checked class="h-4 w-4 rounded border border-primary text-primary">
+                  <label for="known-words-import-header" class="text-sm font-medium">${t('options.known.header')}</label>
+                </div>
+              </div>
+            </div>
+            <input type="file" id="known-words-import-file" accept=".txt,.csv,.tsv" class="block w-full mt-4 text-sm text-muted-foreground file:mr-3 file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-2 file:text-sm file:font-medium">
+            <textarea id="known-words-import-input" rows="6" placeholder="${t('options.known.inputPlaceholder')}&#10;食べる&#10;学校&#10;綺麗" class="w-full mt-3 font-mono rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"></textarea>
+            <div class="flex justify-end mt-3">
+              <button id="known-words-preview-btn" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-4 py-2">
+                ${t('options.known.preview')}
+              </button>
+            </div>
+            <div id="known-words-import-preview" class="mt-4"></div>
+          </div>
+
+          <!-- 词汇列表 -->
+          <div class="bg-card rounded-lg border p-6">
+            <input type="search" id="known-words-search" placeholder="${t('options.known.search')}" class="w-full h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2">
+            <div id="known-words-list" class="grid gap-3 mt-4"></div>
+          </div>
+        </div>
+      `
+
+      const list = document.getElementById('known-words-list')!
+      const searchInput = document.getElementById('known-words-search') as HTMLInputElement
+
+      const renderList = () => {
+        const query = searchInput.value.trim().toLowerCase()
+        const matched = knownWords.filter(item => {
+          if (!query) return true
+          const vocab = vocabMap.get(item.word)
+          return [item.word, vocab?.VocabFurigana, vocab?.VocabDefCN].some(text =>
+            text?.toLowerCase().includes(query)
+          )
+        })
+
+        if (matched.length === 0) {
+          list.innerHTML = `
+            <div class="text-center py-8 text-muted-foreground">
+              <p class="text-sm">${query ? t('options.known.noMatch') : t('options.known.empty')}</p>
+            </div>
+          `
+          return
+        }
+
+        list.innerHTML = matched
+          .map(item => {
+            const vocab = vocabMap.get(item.word)
+            return `
+            <div class="flex items-start justify-between gap-4 rounded-lg border p-4">
+              <div class="flex-1 min-w-0">
+                <div class="flex items-baseline gap-3">
+                  <span class="text-lg font-bold text-primary">${this.escapeHtml(item.word)}</span>
+                  ${vocab?.VocabFurigana ? `<span class="text-sm text-muted-foreground">${this.escapeHtml(vocab.VocabFurigana)}</span>` : ''}
+                  ${vocab?.Level ? `<span class="text-xs px-2 py-0.5 rounded bg-secondary">${this.escapeHtml(vocab.Level)}</span>` : ''}
+                </div>
+                ${vocab?.VocabDefCN ? `<div class="text-sm mt-1">${this.escapeHtml(vocab.VocabDefCN)}</div>` : ''}
+                <div class="text-xs text-muted-foreground mt-1">
+                  ${sourceLabels[item.source]} • ${new Date(item.addedAt).toLocaleDateString()}
+                </div>
+              </div>
+              <button class="unmark-known-btn inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors border border-input bg-background hover:bg-accent hover:text-accent-foreground h-9 px-3" data-word="${this.escapeHtml(item.word)}">
+                ${t('options.known.unmark')}
+              </button>
+            </div>
+          `
+          })
+          .join('')
+      }
+
+      renderList()
+      searchInput.addEventListener('input', renderList)
+
+      list.addEventListener('click', async (e: Event) => {
+        const button = (e.target as HTMLElement).closest<HTMLElement>('.unmark-known-btn')
+        const word = button?.dataset.word
+        if (!word) return
+
+        try {
+          await storageService.removeKnownWords([word])
+          this.showNotification(t('options.known.unmarked', { word }), 'success')
+          await this.renderView()
+        } catch (error) {
+          console.error('取消已掌握失败:', error)
+          this.showNotification(t('options.known.actionFailed'), 'error')
+        }
+      })
+
+      this.setupKnownWordsImport(new Set(knownWords.map(item => item.word)))
+    } catch (error) {
+      console.error('渲染已掌握词汇失败:', error)
+      this.mainContent.innerHTML = `
+        <div class="text-center py-12 text-muted-foreground">
+          <p class="text-lg font-medium mb-2">${t('common.loadFailed')}</p>
+          <p class="text-sm">${t('common.reloadHint')}</p>
+        </div>
+      `
+    }
+  }
+
+  /**
+   * 批量导入已掌握词汇：解析 → 还原原形并匹配词库 → 预览 → 确认导入
+   */
+  private setupKnownWordsImport(knownWords: Set<string>): void {
+    const formatSelect = document.getElementById('known-words-import-format') as HTMLSelectElement
+    const columnInput = document.getElementById('known-words-import-column') as HTMLInputElement
+    const headerCheckbox = document.getElementById('known-words-import-header') as HTMLInputElement
+    const fileInput = document.getElementById('known-words-import-file') as HTMLInputElement
+    const textInput = document.getElementById('known-words-import-input') as HTMLTextAreaElement
+    const previewButton = document.getElementById('known-words-preview-btn') as HTMLButtonElement
+    const previewContainer = document.getElementById('known-words-import-preview')!
+
+    // 输入变化后之前的预览不再有效
+    const resetPreview = () => {
+      previewContainer.innerHTML = ''
+    }
+
+    formatSelect.addEventListener('change', () => {
+      const format = formatSelect.value as KnownWordsImportFormat
+      document
+        .getElementById('known-words-import-column-field')
+        ?.classList.toggle('hidden', format === 'word-list')
+      document
+        .getElementById('known-words-import-header-field')
+        ?.classList.toggle('hidden', format !== 'csv')
+      resetPreview()
+    })
+    columnInput.addEventListener('input', resetPreview)
+    headerCheckbox.addEventListener('change', resetPreview)
+    textInput.addEventListener('input', resetPreview)
+
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0]
+      if (!file) return
+
+      try {
+        const { text } = encodingDetector.decode(await file.arrayBuffer())
+        textInput.value = text
+        // 根据文件内容猜测格式，用户仍可手动修改
+        if (/^#separator:/m.test(text) || /^#html:/m.test(text)) {
+          formatSelect.value = 'anki'
+        } else if (/\.(csv|tsv)$/i.test(file.name)) {
+          formatSelect.value = 'csv'
+        }
+        formatSelect.dispatchEvent(new Event('change'))
+      } catch (error) {
+        console.error('读取导入文件失败:', error)
+        this.showNotification(t('options.known.readFailed'), 'error')
+      }
+    })
+
+    previewButton.addEventListener('click', async () => {
+      if (!this.selectedLibrary) {
+        this.showNotification(t('options.known.noLibrary'), 'warning')
+        return
+      }
+
+      const entries = knownWordsImporter.parse(textInput.value, {
+        format: formatSelect.value as KnownWordsImportFormat,
+        column: Math.max(1, parseInt(columnInput.value) || 1) - 1,
+        hasHeader: headerCheckbox.checked,
+      })
+      if (entries.length === 0) {
+        this.showNotification(t('options.known.noEntries'), 'warning')
+        return
+      }
+
+      previewButton.disabled = true
+      try {
+        const preview = await knownWordsImporter.match(
+          entries,
+          this.selectedLibrary.data,
+          (done, total) => {
+            previewButton.textContent = t('options.known.matching', { done, total })
+          }
+        )
+        this.renderKnownWordsImportPreview(previewContainer, preview, knownWords)
+      } catch (error) {
+        console.error('匹配导入词汇失败:', error)
+        this.showNotification(t('options.known.matchFailed'), 'error')
+      } finally {
+        previewButton.disabled = false
+        previewButton.textContent = t('options.known.preview')
+      }
+    })
+  }
+
+  private renderKnownWordsImportPreview(
+    container: HTMLElement,
+    preview: KnownWordsImportPreview,
+    knownWords: Set<string>
+  ): void {
+    // 预览列表只显示前一部分，避免上千条时页面卡顿
+    const PREVIEW_LIMIT = 200
+    const newLemmas = Array.from(new Set(preview.matched.map(item => item.lemma))).filter(
+      lemma => !knownWords.has(lemma)
+    )
+    const alreadyKnown = new Set(preview.matched.map(item => item.lemma)).size - newLemmas.length
+    const moreText = (count: number) =>
+      count > PREVIEW_LIMIT
+        ? `<div class="text-xs text-muted-foreground mt-2">${t('options.known.previewLimit', { count, limit: PREVIEW_LIMIT })}</div>`
+        : ''
+
+    container.innerHTML = `
+      <div class="rounded-lg border p-4 space-y-4">
+        <p class="text-sm">
+          ${t('options.known.matchedSummary', {
+            matched: `<span class="font-semibold text-primary">${preview.matched.length}</span>`,
+            alreadyKnown:
+              alreadyKnown > 0 ? t('options.known.alreadyKnown', { count: alreadyKnown }) : '',
+            unmatched: `<span class="font-semibold">${preview.unmatched.length}</span>`,
+          })}
+        </p>
+        <div class="grid gap-4 md:grid-cols-2">
+          <div>
+            <h4 class="text-sm font-semibold mb-2">${t('options.known.matched')}</h4>
+            <div class="max-h-64 overflow-y-auto text-sm space-y-1">
+              ${preview.matched
+                .slice(0, PREVIEW_LIMIT)
+                .map(
+                  item => `
+                <div class="${knownWords.has(item.lemma) ? 'text-muted-foreground' : ''}">
+                  ${this.escapeHtml(item.entry)}${item.entry !== item.lemma ? ` → <span class="text-primary">${this.escapeHtml(item.lemma)}</span>` : ''}
+                </div>`
+                )
+                .join('')}
+            </div>
+            ${moreText(preview.matched.length)}
+          </div>
+          <div>
+            <h4 class="text-sm font-semibold mb-2">${t('options.known.unmatched')}</h4>
+            <div class="max-h-64 overflow-y-auto text-sm space-y-1 text-muted-foreground">
+              ${preview.unmatched
+                .slice(0, PREVIEW_LIMIT)
+                .map(entry => `<div>${this.escapeHtml(entry)}</div>`)
+                .join('')}
+            </div>
+            ${moreText(preview.unmatched.length)}
+          </div>
+        </div>
+        <div class="flex justify-end">
+          <button id="known-words-commit-btn" ${newLemmas.length === 0 ? 'disabled' : ''} class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-4 py-2">
+            ${t('options.known.commit', { count: newLemmas.length })}
+          </button>
+        </div>
+      </div>
+    `
+
+    document.getElementById('known-words-commit-btn')?.addEventListener('click', async () => {
+      try {
+        const added = await storageService.addKnownWords(newLemmas, 'import')
+        this.showNotification(t('options.known.imported', { count: added }), 'success')
+        await this.renderView()
+      } catch (error) {
+        console.error('导入已掌握词汇失败:', error)
+        this.showNotification(t('common.importFailed'), 'error')
+      }
+    })
+  }
+
+  private async renderDictionary(): Promise<void> {
+    try {
+      const dictionaries = await storageService.getDictionaries()
+      const formatLabels: Record<DictionaryInfo['format'], string> = {
+        jmdict: 'JMdict XML',
+        yomitan: t('options.dictionary.formatYomitan'),
+      }
+
+      this.mainContent.innerHTML = `
+        <div class="space-y-6">
+          <div class="text-center py-4">
+            <h2 class="text-2xl font-bold mb-2">${t('options.dictionary.title')}</h2>
+            <p class="text-muted-foreground">${t('options.dictionary.description')}</p>
+          </div>
+
+          <!-- 导入词典 -->
+          <div class="bg-card rounded-lg border p-6">
+            <h3 class="text-lg font-semibold mb-2">${t('options.dictionary.importTitle')}</h3>
+            <p class="text-sm text-muted-foreground mb-4">${t('options.dictionary.importDescription')}</p>
+            <input type="file" id="dictionary-import-file" accept=".xml,.gz,.zip" class="block w-full text-sm text-muted-foreground file:mr-3 file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-2 file:text-sm file:font-medium">
+            <p id="dictionary-import-status" class="text-sm mt-3"></p>
+          </div>
+
+          <!-- 已导入的词典 -->
+          <div class="bg-card rounded-lg border p-6">
+            <h3 class="text-lg font-semibold mb-4">${t('options.dictionary.imported')}</h3>
+            <div id="dictionary-list" class="grid gap-3">
+              ${
+                dictionaries.length === 0
+                  ? `<p class="text-sm text-muted-foreground text-center py-4">${t('options.dictionary.empty')}</p>`
+                  : dictionaries
+                      .map(
+                        dictionary => `
+                <div class="flex items-center justify-between gap-4 rounded-lg border p-4">
+                  <div class="min-w-0">
+                    <div class="font-semibold">${this.escapeHtml(dictionary.title)}</div>
+                    <div class="text-xs text-muted-foreground mt-1">
+                      ${formatLabels[dictionary.format]} • ${t(DEFINITION_LANGUAGE_LABELS[getDictionaryLanguage(dictionary)])} • ${t('options.dictionary.entryCount', { count: dictionary.entryCount.toLocaleString() })} • ${t('options.dictionary.importedFrom', { date: new Date(dictionary.importedAt).toLocaleDateString(), fileName: this.escapeHtml(dictionary.fileName) })}
+                    </div>
+                  </div>
+                  <button class="delete-dictionary-btn inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors border border-input bg-background hover:bg-accent text-destructive h-9 px-3" data-dictionary-id="${this.escapeHtml(dictionary.id)}">
+                    ${t('common.delete')}
+                  </button>
+                </div>
+              `
+                      )
+                      .join('')
+              }
+            </div>
+          </div>
+
+          <!-- 查词 -->
+          <div class="bg-card rounded-lg border p-6">
+            <h3 class="text-lg font-semibold mb-4">${t('options.dictionary.lookup')}</h3>
+            <input type="search" id="dictionary-lookup-input" placeholder="${t('options.dictionary.lookupPlaceholder')}" class="w-full h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2">
+            <div id="dictionary-lookup-result" class="mt-4"></div>
+          </div>
+        </div>
+      `
+
+      const { dictionaryImportStatus } = await chrome.storage.local.get('dictionaryImportStatus')
+      this.renderDictionaryImportStatus(dictionaryImportStatus)
+
+      const fileInput = document.getElementById('dictionary-import-file') as HTMLInputElement
+      fileInput.addEventListener('change', async () => {
+        const file = fileInput.files?.[0]
+        if (!file) return
+
+        try {
+          await storageService.importDictionary(file)
+          this.showNotification(t('options.dictionary.importStarted'), 'info')
+        } catch (error) {
+          console.error('导入词典失败:', error)
+          this.showNotification(
+            t('options.dictionary.importFailed', { error: (error as Error).message }),
+            'error'
+          )
+        }
+        fileInput.value = ''
+      })
+
+      this.mainContent.querySelectorAll<HTMLElement>('.delete-dictionary-btn').forEach(button => {
+        button.addEventListener('click', async () => {
+          const dictionary = dictionaries.find(item => item.id === button.dataset.dictionaryId)
+          if (
+            !dictionary ||
+            !confirm(t('options.dictionary.confirmDelete', { title: dictionary.title }))
+          )
+            return
+
+          try {
+            await storageService.deleteDictionary(dictionary.id)
+            this.showNotification(
+              t('options.dictionary.deleted', { title: dictionary.title }),
+              'success'
+            )
+            await this.renderView()
+          } catch (error) {
+            console.error('删除词典失败:', error)
+            this.showNotification(t('common.deleteFailed'), 'error')
+          }
+        })
+      })
+
+      const lookupInput = document.getElementById('dictionary-lookup-input') as HTMLInputElement
+      lookupInput.addEventListener('keydown', async (e: KeyboardEvent) => {
+        if (e.key !== 'Enter') return
+        const word = lookupInput.value.trim()
+        const result = document.getElementById('dictionary-lookup-result')!
+        if (!word) {
+          result.innerHTML = ''
+          return
+        }
+
+        try {
+          const entry = await storageService.lookupDictionary(word)
+          result.innerHTML = entry
+            ? `
+            <div class="rounded-lg border p-4 space-y-2">
+              <div class="flex items-baseline gap-3">
+                <span class="text-lg font-bold text-primary">${this.escapeHtml(entry.terms[0] || entry.readings[0])}</span>
+                <span class="text-sm text-muted-foreground">${this.escapeHtml(entry.readings.join(t('common.listSeparator')))}</span>
+              </div>
+              ${entry.senses
+                .map(
+                  (sense, index) => `
+                <div class="text-sm">
+                  <span class="text-muted-foreground">${index + 1}.</span>
+                  ${sense.partOfSpeech.length > 0 ? `<span class="text-xs text-muted-foreground">[${this.escapeHtml(sense.partOfSpeech.join(', '))}]</span>` : ''}
+                  ${this.escapeHtml(sense.glosses.join('; '))}
+                </div>`
+                )
+                .join('')}
+            </div>
+          `
+            : `<p class="text-sm text-muted-foreground">${t('options.dictionary.notFound')}</p>`
+        } catch (error) {
+          console.error('查询词典失败:', error)
+          result.innerHTML = `<p class="text-sm text-destructive">${t('options.dictionary.lookupFailed')}</p>`
+        }
+      })
+    } catch (error) {
+      console.error('渲染离线词典失败:', error)
+      this.mainContent.innerHTML = `
+        <div class="text-center py-12 text-muted-foreground">
+          <p class="text-lg font-medium mb-2">${t('common.loadFailed')}</p>
+          <p class="text-sm">${t('common.reloadHint')}</p>
+        </div>
+      `
+    }
+  }
+
+  private renderDictionaryImportStatus(status?: DictionaryImportStatus): void {
+    const statusElement = document.getElementById('dictionary-import-status')
+    const fileInput = document.getElementById('dictionary-import-file') as HTMLInputElement | null
+    if (!statusElement || !fileInput) return
+
+    // 后台长时间没有更新进度，说明导入被中断（例如浏览器关闭）
+    const isStale = Date.now() - (status?.updatedAt || 0) > DICTIONARY_IMPORT_STALE_TIME
+    const isImporting = status?.state === 'importing' && !isStale
+    fileInput.disabled = isImporting
+    statusElement.className = `text-sm mt-3 ${status?.state === 'error' ? 'text-destructive' : 'text-muted-foreground'}`
+
+    if (!status) {
+      statusElement.textContent = ''
+    } else if (isImporting) {
+      statusElement.textContent = t('options.dictionary.status.importing', {
+        fileName: status.fileName,
+        count: status.processed.toLocaleString(),
+      })
+    } else if (status.state === 'importing') {
+      statusElement.textContent = t('options.dictionary.status.interrupted', {
+        fileName: status.fileName,
+      })
+    } else if (status.state === 'error') {
+      statusElement.textContent = t('options.dictionary.status.error', {
+        fileName: status.fileName,
+        error: status.error || t('common.unknownError'),
+      })
+    } else {
+      statusElement.textContent = t('options.dictionary.status.done', {
+        fileName: status.fileName,
+        count: status.processed.toLocaleString(),
+      })
+    }
+  }
+
+  /**
+   * 后台导入词典时通过 storage 通知进度，停留在离线词典页面时实时显示
+   */
+  private handleDictionaryImportStatusChange(changes: {
+    [key: string]: chrome.storage.StorageChange
+  }): void {
+    const status: DictionaryImportStatus | undefined = changes.dictionaryImportStatus?.newValue
+    if (!status || this.viewState.mode !== 'dictionary') return
+
+    if (status.state === 'importing') {
+      this.renderDictionaryImportStatus(status)
+    } else if (status.state === 'done') {
+      this.showNotification(
+        t('options.dictionary.done', { count: status.processed.toLocaleString() }),
+        'success'
+      )
+      this.renderView()
+    } else {
+      this.showNotification(
+        t('options.dictionary.failed', { error: status.error || t('common.unknownError') }),
+        'error'
+      )
+      this.renderDictionaryImportStatus(status)
+    }
+  }
+
+  private async exportToAnki(): Promise<void> {
+    try {
+      const [savedCards, csvExportSettings] = await Promise.all([
+        storageService.getAllCards(),
+        chrome.storage.local.get(['csvExportFormat', 'csvMediaAsFiles', 'csvIncludeGlosses']),
+      ])
+      const userFormat = csvExportSettings.csvExportFormat || 'anki-html' // 使用用户设置的格式
+      const mediaAsFiles = csvExportSettings.csvMediaAsFiles || false
+
+      if (savedCards.length === 0) {
+        this.showNotification(t('options.export.noCards'), 'error')
+        return
+      }
+
+      // 使用新的CSV格式化器
+      const csvFormatter = new CSVFormatter()
+
+      // 根据用户设置创建导出选项
+      const exportOptions = CSVFormatter.createOptionsFromFormat(
+        userFormat,
+        mediaAsFiles,
+        csvExportSettings.csvIncludeGlosses || false
+      )
+
+      // 生成包含格式的文件名
+      const formatNames: Record<string, string> = {
+        'plain-text': 'plain',
+        'rich-text': 'rich',
+        'anki-cloze': 'cloze',
+        'anki-furigana': 'furigana',
+      }
+      const formatName = formatNames[userFormat] || 'anki'
+      const filename = `immersive-memorize-${formatName}-${new Date().toISOString().slice(0, 10)}`
+
+      if (mediaAsFiles) {
+        // 截图单独打包：CSV 与 images/ 文件夹一起导出为 ZIP
+        const zip = await csvFormatter.exportFlashCardsZip(savedCards, exportOptions)
+        this.downloadBlob(zip, `${filename}.zip`)
+      } else {
+        await csvFormatter.prepareReadings(savedCards, exportOptions.format)
+        const csvContent = csvFormatter.exportFlashCards(savedCards, exportOptions)
+
+        // 使用CSV格式化器的下载功能
+        csvFormatter.downloadCSV(csvContent, `${filename}.csv`)
+      }
+
+      const unclozable =
+        exportOptions.format === CSVExportFormat.ANKI_CLOZE
+          ? csvFormatter.getUnclozableCards(savedCards).length
+          : 0
+      this.showExportDone(
+        t('options.export.done', { count: savedCards.length, format: formatName }),
+        unclozable > 0 ? [t('export.clozeMissing', { count: unclozable })] : []
+      )
+    } catch (error) {
+      console.error('导出失败:', error)
+      this.showNotification(
+        t('options.export.failed', { error: (error as Error).message }),
+        'error'
+      )
+    }
+  }
+
+  /**
+   * 导出 Anki 牌组包，截图作为单独的媒体文件而不是内联在字段中
+   */
+  private async exportApkg(button: HTMLButtonElement): Promise<void> {
+    const originalContent = button.innerHTML
+
+    try {
+      const savedCards = await storageService.getAllCards()
+      if (savedCards.length === 0) {
+        this.showNotification(t('options.export.noCards'), 'error')
+        return
+      }
+
+      button.disabled = true
+      button.textContent = t('options.export.apkgExporting')
+      const blob = await apkgExporter.export(savedCards)
+      this.downloadBlob(blob, `immersive-memorize-${new Date().toISOString().slice(0, 10)}.apkg`)
+
+      this.showNotification(t('options.export.apkgDone', { count: savedCards.length }), 'success')
+    } catch (error) {
+      console.error('导出 .apkg 失败:', error)
+      this.showNotification(
+        t('options.export.failed', { error: (error as Error).message }),
+        'error'
+      )
+    } finally {
+      button.disabled = false
+      button.innerHTML = originalContent
+    }
+  }
+
+  /**
+   * 导出完成的提示，有需要注意的问题时改为警告并附上说明
+   */
+  private showExportDone(message: string, warnings: string[] = []): void {
+    if (warnings.length === 0) {
+      this.showNotification(message, 'success')
+    } else {
+      this.showNotification([message, ...warnings].join(' '), 'warning')
+    }
+  }
+
+  /**
+   * 使用注册表中的导出器导出全部卡片
+   */
+  private async exportWithExporter(exporterId: string, button: HTMLButtonElement): Promise<void> {
+    const exporter = exporterRegistry.get(exporterId)
+    if (!exporter) return
+
+    button.disabled = true
+    try {
+      const savedCards = await storageService.getAllCards()
+      if (savedCards.length === 0) {
+        this.showNotification(t('options.export.noCards'), 'error')
+        return
+      }
+
+      const { blob, extension, warnings } = await exporter.export(savedCards)
+      this.downloadBlob(
+        blob,
+        `immersive-memorize-${exporter.id}-${new Date().toISOString().slice(0, 10)}.${extension}`
+      )
+      this.showExportDone(
+        t('options.exporters.done', { count: savedCards.length, format: t(exporter.label) }),
+        warnings
+      )
+    } catch (error) {
+      console.error(`导出失败 (${exporter.id}):`, error)
+      this.showNotification(
+        t('options.export.failed', { error: (error as Error).message }),
+        'error'
+      )
+    } finally {
+      button.disabled = false
+    }
+  }
+
+  /**
+   * 导入 JSON 导出的卡片，已存在的卡片（相同 id）不会被覆盖
+   */
+  private async importCardsJson(file: File): Promise<void> {
+    try {
+      const cards = jsonExporter.parse(await file.text())
+      const existingIds = new Set((await storageService.getAllCards()).map(card => card.id))
+      const newCards = cards.filter(({ card }) => !existingIds.has(card.id))
+
+      for (const { card } of newCards) {
+        await storageService.addCard(card)
+      }
+      // 已存在的卡片保留本地的复习进度，只恢复新导入卡片的进度
+      await storageService.saveReviewStates(
+        newCards.flatMap(({ review }) => (review ? [review] : []))
+      )
+
+      this.showNotification(
+        t('options.exporters.importDone', {
+          added: newCards.length,
+          skipped: cards.length - newCards.length,
+        }),
+        'success'
+      )
+      await this.renderView()
+    } catch (error) {
+      console.error('导入卡片失败:', error)
+      this.showNotification(
+        t('options.exporters.importFailed', { error: (error as Error).message }),
+        'error'
+      )
+    }
+  }
+
+  private downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  private async renderExportTemplates(): Promise<void> {
+    const [templates, template, cards] = await Promise.all([
+      exportTemplateManager.getTemplates(),
+      exportTemplateManager.getActiveTemplate(),
+      storageService.getAllCards(),
+    ])
+    this.exportPreviewCards = cards
+
+    const inputClass =
+      'h-9 rounded-md border border-input bg-background px-3 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+    const outlineButtonClass =
+      'inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors disabled:pointer-events-none disabled:opacity-50 border border-input bg-background hover:bg-accent hover:text-accent-foreground h-9 px-4'
+    const checkboxClass =
+      'h-4 w-4 rounded border border-primary text-primary ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+    const option = (value: string, label: string, selected: string) =>
+      `<option value="${this.escapeHtml(value)}" ${value === selected ? 'selected' : ''}>${this.escapeHtml(label)}</option>`
+
+    this.mainContent.innerHTML = `
+      <div class="space-y-6">
+        <div class="text-center py-4">
+          <h2 class="text-2xl font-bold mb-2">${t('options.exportTemplates.title')}</h2>
+          <p class="text-muted-foreground">${t('options.exportTemplates.description')}</p>
+        </div>
+
+        <!-- 模板 -->
+        <div class="bg-card rounded-lg border p-6">
+          <div class="space-y-3">
+            <div class="flex items-center gap-3">
+              <label for="export-template-select" class="text-sm font-medium min-w-[120px]">${t('options.exportTemplates.template')}</label>
+              <select id="export-template-select" class="flex-1 ${inputClass}">
+                ${templates.map(item => option(item.id, item.name, template.id)).join('')}
+              </select>
+              <button id="export-template-new" class="${outlineButtonClass}">${t('options.exportTemplates.new')}</button>
+              <button id="export-template-delete" class="${outlineButtonClass}">${t('common.delete')}</button>
+            </div>
+            <div class="flex items-center gap-3">
+              <label for="export-template-name" class="text-sm font-medium min-w-[120px]">${t('options.exportTemplates.name')}</label>
+              <input type="text" id="export-template-name" value="${this.escapeHtml(template.name)}" class="flex-1 ${inputClass}">
+            </div>
+          </div>
+        </div>
+
+        <!-- 列 -->
+        <div class="bg-card rounded-lg border p-6">
+          <h3 class="text-lg font-semibold mb-4">${t('options.exportTemplates.columns')}</h3>
+          <div id="export-field-list" class="space-y-2"></div>
+          <div class="flex items-center gap-3 mt-4">
+            <select id="export-field-add-select" class="flex-1 ${inputClass}"></select>
+            <button id="export-field-add-btn" class="${outlineButtonClass}">${t('options.exportTemplates.addColumn')}</button>
+          </div>
+          <p class="text-sm text-muted-foreground mt-3">${t('options.exportTemplates.clozeHint')}</p>
+        </div>
+
+        <!-- 文件格式 -->
+        <div class="bg-card rounded-lg border p-6">
+          <h3 class="text-lg font-semibold mb-4">${t('options.exportTemplates.format')}</h3>
+          <div class="space-y-3">
+            <div class="flex items-center gap-3">
+              <label for="export-separator-select" class="text-sm font-medium min-w-[120px]">${t('options.exportTemplates.separator')}</label>
+              <select id="export-separator-select" class="flex-1 export-template-setting ${inputClass}">
+                ${option(';', t('options.exportTemplates.separatorSemicolon'), template.separator)}
+                ${option(',', t('options.exportTemplates.separatorComma'), template.separator)}
+                ${option('\t', t('options.exportTemplates.separatorTab'), template.separator)}
+                ${option('|', t('options.exportTemplates.separatorPipe'), template.separator)}
+              </select>
+            </div>
+            <div class="flex items-center gap-3">
+              <label for="export-quoting-select" class="text-sm font-medium min-w-[120px]">${t('options.exportTemplates.quoting')}</label>
+              <select id="export-quoting-select" class="flex-1 export-template-setting ${inputClass}">
+                ${option('auto', t('options.exportTemplates.quotingAuto'), template.quoting)}
+                ${option('always', t('options.exportTemplates.quotingAlways'), template.quoting)}
+                ${option('never', t('options.exportTemplates.quotingNever'), template.quoting)}
+              </select>
+            </div>
+            <div class="flex items-center gap-3">
+              <label for="export-encoding-select" class="text-sm font-medium min-w-[120px]">${t('options.exportTemplates.encoding')}</label>
+              <select id="export-encoding-select" class="flex-1 export-template-setting ${inputClass}">
+                ${option('utf-8', t('options.exportTemplates.encodingUtf8'), template.encoding)}
+                ${option('utf-8-bom', t('options.exportTemplates.encodingUtf8Bom'), template.encoding)}
+                ${option('utf-16le', t('options.exportTemplates.encodingUtf16'), template.encoding)}
+              </select>
+            </div>
+            <div class="flex items-center gap-3">
+              <label for="export-sentence-format-select" class="text-sm font-medium min-w-[120px]">${t('options.exportTemplates.sentenceFormat')}</label>
+              <select id="export-sentence-format-select" class="flex-1 export-template-setting ${inputClass}">
+                ${option('anki-html', t('options.csv.ankiHtml'), template.sentenceFormat)}
+                ${option('plain-text', t('options.csv.plainText'), template.sentenceFormat)}
+                ${option('rich-text', t('options.csv.richText'), template.sentenceFormat)}
+                ${option('anki-cloze', t('options.csv.ankiCloze'), template.sentenceFormat)}
+                ${option('anki-furigana', t('options.csv.ankiFurigana'), template.sentenceFormat)}
+              </select>
+            </div>
+            <div class="flex items-center space-x-2">
+              <input type="checkbox" id="export-header-checkbox" class="export-template-setting ${checkboxClass}" ${template.includeHeader ? 'checked' : ''}>
+              <label for="export-header-checkbox" class="text-sm font-medium leading-none">${t('options.exportTemplates.includeHeader')}</label>
+            </div>
+            <div class="flex items-center space-x-2">
+              <input type="checkbox" id="export-media-files-checkbox" class="export-template-setting ${checkboxClass}" ${template.mediaAsFiles ? 'checked' : ''}>
+              <label for="export-media-files-checkbox" class="text-sm font-medium leading-none">${t('options.csv.mediaAsFiles')}</label>
+            </div>
+          </div>
+        </div>
+
+        <!-- 预览 -->
+        <div class="bg-card rounded-lg border p-6">
+          <h3 class="text-lg font-semibold mb-4">${t('options.exportTemplates.preview', { count: Math.min(cards.length, 5) })}</h3>
+          <div id="export-preview" class="overflow-x-auto"></div>
+          <div class="flex gap-3 mt-4">
+            <button id="export-template-download" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-4 py-2">
+              ${t('options.exportTemplates.download')}
+            </button>
+          </div>
+        </div>
+      </div>
+    `
+
+    this.renderExportFieldList(template.fields)
+
+    document.getElementById('export-template-select')?.addEventListener('change', async event => {
+      await exportTemplateManager.setActiveTemplate((event.target as HTMLSelectElement).value)
+      this.renderExportTemplates()
+    })
+
+    document.getElementById('export-template-new')?.addEventListener('click', async () => {
+      const current = this.readExportTemplateForm()
+      const copy = exportTemplateManager.createTemplate(
+        t('options.exportTemplates.copyName', { name: current.name }),
+        current
+      )
+      await exportTemplateManager.saveTemplate(copy)
+      this.renderExportTemplates()
+    })
+
+    document.getElementById('export-template-delete')?.addEventListener('click', async () => {
+      const current = this.readExportTemplateForm()
+      if (!confirm(t('options.exportTemplates.confirmDelete', { name: current.name }))) return
+      await exportTemplateManager.deleteTemplate(current.id)
+      this.renderExportTemplates()
+    })
+
+    document.getElementById('export-template-name')?.addEventListener('change', async () => {
+      await this.saveExportTemplate()
+      const select = document.getElementById('export-template-select') as HTMLSelectElement
+      select.options[select.selectedIndex].textContent = this.readExportTemplateForm().name
+    })
+
+    document.querySelectorAll('.export-template-setting').forEach(element => {
+      element.addEventListener('change', () => this.saveExportTemplate())
+    })
+
+    document.getElementById('export-field-add-btn')?.addEventListener('click', () => {
+      const select = document.getElementById('export-field-add-select') as HTMLSelectElement
+      if (!select.value) return
+      this.renderExportFieldList([
+        ...this.readExportTemplateForm().fields,
+        select.value as ExportField,
+      ])
+      this.saveExportTemplate()
+    })
+
+    const downloadButton = document.getElementById('export-template-download') as HTMLButtonElement
+    downloadButton.addEventListener('click', () => this.exportWithTemplate(downloadButton))
+  }
+
+  /**
+   * 渲染已选列（可调整顺序或移除）与可添加的列，并刷新预览
+   */
+  private renderExportFieldList(fields: ExportField[]): void {
+    const container = document.getElementById('export-field-list')
+    const addSelect = document.getElementById('export-field-add-select') as HTMLSelectElement
+    if (!container || !addSelect) return
+
+    const iconButtonClass =
+      'inline-flex items-center justify-center rounded-md text-xs font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-8 px-2 disabled:pointer-events-none disabled:opacity-50'
+
+    container.innerHTML =
+      fields.length === 0
+        ? `<p class="text-sm text-muted-foreground">${t('options.exportTemplates.noColumns')}</p>`
+        : fields
+            .map(
+              (field, index) => `
+      <div class="flex items-center gap-3" data-field="${field}">
+        <span class="text-sm text-muted-foreground w-6 text-right">${index + 1}</span>
+        <span class="text-sm font-medium flex-1">${t(EXPORT_FIELD_LABELS[field])}</span>
+        <button class="export-field-action ${iconButtonClass}" data-action="up" data-index="${index}" ${index === 0 ? 'disabled' : ''} title="${t('options.exportTemplates.moveUp')}">↑</button>
+        <button class="export-field-action ${iconButtonClass}" data-action="down" data-index="${index}" ${index === fields.length - 1 ? 'disabled' : ''} title="${t('options.exportTemplates.moveDown')}">↓</button>
+        <button class="export-field-action ${iconButtonClass}" data-action="remove" data-index="${index}" title="${t('options.exportTemplates.remove')}">✕</button>
+      </div>
+    `
+            )
+            .join('')
+
+    addSelect.innerHTML = (Object.keys(EXPORT_FIELD_LABELS) as ExportField[])
+      .filter(field => !fields.includes(field))
+      .map(field => `<option value="${field}">${t(EXPORT_FIELD_LABELS[field])}</option>`)
+      .join('')
+
+    container.querySelectorAll<HTMLButtonElement>('.export-field-action').forEach(button => {
+      button.addEventListener('click', () => {
+        const index = Number(button.dataset.index)
+        const next = [...fields]
+        if (button.dataset.action === 'remove') {
+          next.splice(index, 1)
+        } else {
+          const target = button.dataset.action === 'up' ? index - 1 : index + 1
+          ;[next[index], next[target]] = [next[target], next[index]]
+        }
+        this.renderExportFieldList(next)
+        this.saveExportTemplate()
+      })
+    })
+
+    this.renderExportPreview()
+  }
+
+  private async renderExportPreview(): Promise<void> {
+    const container = document.getElementById('export-preview')
+    if (!container) return
+
+    if (this.exportPreviewCards.length === 0) {
+      container.innerHTML = `<p class="text-sm text-muted-foreground">${t('options.exportTemplates.previewEmpty')}</p>`
+      return
+    }
+
+    const preview = await exportTemplateManager.preview(
+      this.exportPreviewCards,
+      this.readExportTemplateForm()
+    )
+    // 内联截图等长内容截断显示
+    const cell = (value: string) => {
+      const text = value.length > 80 ? `${value.slice(0, 80)}…` : value
+      return `<td class="border px-2 py-1 align-top whitespace-nowrap">${this.escapeHtml(text)}</td>`
+    }
+
+    container.innerHTML = `
+      <table class="text-xs border-collapse">
+        <thead>
+          <tr>${preview.header.map(name => `<th class="border px-2 py-1 text-left bg-muted">${this.escapeHtml(name)}</th>`).join('')}</tr>
+        </thead>
+        <tbody>
+          ${preview.rows.map(row => `<tr>${row.map(cell).join('')}</tr>`).join('')}
+        </tbody>
+      </table>
+    `
+  }
+
+  /**
+   * 从导出模板页面读取当前模板
+   */
+  private readExportTemplateForm(): ExportTemplate {
+    const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value
+    const checked = (id: string) => (document.getElementById(id) as HTMLInputElement).checked
+
+    return {
+      id: value('export-template-select'),
+      name: value('export-template-name').trim() || t('options.exportTemplates.template'),
+      fields: Array.from(
+        document.querySelectorAll<HTMLElement>('#export-field-list [data-field]'),
+        element => element.dataset.field as ExportField
+      ),
+      separator: value('export-separator-select'),
+      quoting: value('export-quoting-select') as ExportTemplate['quoting'],
+      encoding: value('export-encoding-select') as ExportTemplate['encoding'],
+      includeHeader: checked('export-header-checkbox'),
+      sentenceFormat: value('export-sentence-format-select') as ExportTemplate['sentenceFormat'],
+      mediaAsFiles: checked('export-media-files-checkbox'),
+    }
+  }
+
+  private async saveExportTemplate(): Promise<void> {
+    try {
+      await exportTemplateManager.saveTemplate(this.readExportTemplateForm())
+      this.renderExportPreview()
+    } catch (error) {
+      console.error('保存导出模板失败:', error)
+      this.showNotification(t('common.saveFailed'), 'error')
+    }
+  }
+
+  private async exportWithTemplate(button: HTMLButtonElement): Promise<void> {
+    const template = this.readExportTemplateForm()
+    if (this.exportPreviewCards.length === 0) {
+      this.showNotification(t('options.export.noCards'), 'error')
+      return
+    }
+    if (template.fields.length === 0) {
+      this.showNotification(t('options.exportTemplates.noColumns'), 'error')
+      return
+    }
+
+    button.disabled = true
+    try {
+      const { blob, extension, warnings } = await exportTemplateManager.export(
+        this.exportPreviewCards,
+        template
+      )
+      const safeName = template.name.replace(/[\\/:*?"<>|\s]+/g, '-')
+      this.downloadBlob(
+        blob,
+        `immersive-memorize-${safeName}-${new Date().toISOString().slice(0, 10)}.${extension}`
+      )
+      this.showExportDone(
+        t('options.exportTemplates.done', {
+          name: template.name,
+          count: this.exportPreviewCards.length,
+        }),
+        warnings
+      )
+    } catch (error) {
+      console.error('按模板导出失败:', error)
+      this.showNotification(
+        t('options.export.failed', { error: (error as Error).message }),
+        'error'
+      )
+    } finally {
+      button.disabled = false
+    }
+  }
+
+  private async renderAnkiSync(): Promise<void> {
+    const settings = await ankiSync.getSettings()
+    const inputClass =
+      'h-9 rounded-md border border-input bg-background px-3 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+
+    this.mainContent.innerHTML = `
+      <div class="space-y-6">
+        <div class="text-center py-4">
+          <h2 class="text-2xl font-bold mb-2">${t('options.anki.title')}</h2>
+          <p class="text-muted-foreground">${t('options.anki.description')}</p>
+        </div>
+
+        <!-- 连接 -->
+        <div class="bg-card rounded-lg border p-6">
+          <h3 class="text-lg font-semibold mb-4">${t('options.anki.connection')}</h3>
+          <div class="flex items-center gap-3">
+            <label for="anki-url-input" class="text-sm font-medium min-w-[120px]">${t('options.anki.url')}</label>
+            <input type="text" id="anki-url-input" value="${this.escapeHtml(settings.url)}" class="flex-1 ${inputClass}">
+            <button id="anki-connect-btn" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-9 px-4">
+              ${t('options.anki.connect')}
+            </button>
+          </div>
+          <p id="anki-connection-status" class="text-sm text-muted-foreground mt-3">${t('options.anki.notConnected')}</p>
+        </div>
+
+        <!-- 笔记设置 -->
+        <div class="bg-card rounded-lg border p-6">
+          <h3 class="text-lg font-semibold mb-4">${t('options.anki.note')}</h3>
+          <div class="space-y-3">
+            <div class="flex items-center gap-3">
+              <label for="anki-deck-input" class="text-sm font-medium min-w-[120px]">${t('options.anki.deck')}</label>
+              <input type="text" id="anki-deck-input" list="anki-deck-list" value="${this.escapeHtml(settings.deckName)}" class="flex-1 ${inputClass}">
+              <datalist id="anki-deck-list"></datalist>
+            </div>
+            <p class="text-sm text-muted-foreground">${t('options.anki.deckHint')}</p>
+            <div class="flex items-center gap-3">
+              <label for="anki-model-select" class="text-sm font-medium min-w-[120px]">${t('options.anki.model')}</label>
+              <select id="anki-model-select" class="flex-1 ${inputClass}">
+                <option value="${this.escapeHtml(settings.modelName)}">${this.escapeHtml(settings.modelName)}</option>
+              </select>
+            </div>
+          </div>
+
+          <h4 class="text-sm font-semibold mt-6 mb-3">${t('options.anki.fields')}</h4>
+          <div id="anki-field-mapping" class="space-y-2"></div>
+          <p class="text-sm text-muted-foreground mt-3">${t('options.anki.fieldsHint')}</p>
         </div>
-      `
 
-      // 添加事件监听器
-      document
-        .getElementById('export-learned-words')
-        ?.addEventListener('click', () => this.exportToAnki())
-      document
-        .getElementById('clear-learned-words')
-        ?.addEventListener('click', () => this.clearAllCards())
+        <!-- 同步 -->
+        <div class="bg-card rounded-lg border p-6">
+          <h3 class="text-lg font-semibold mb-2">${t('options.anki.sync')}</h3>
+          <p class="text-sm text-muted-foreground mb-2">${t('options.anki.syncHint')}</p>
+          <p id="anki-sync-status" class="text-sm text-primary mb-4"></p>
+          <div class="flex gap-3">
+            <button id="anki-sync-btn" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-4 py-2">
+              ${t('options.anki.syncNew')}
+            </button>
+            <button id="anki-reset-sync-btn" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2">
+              ${t('options.anki.resetSync')}
+            </button>
+          </div>
+        </div>
+      </div>
+    `
 
-      // 为所有单个删除按钮添加事件监听器
-      this.mainContent.querySelectorAll('.delete-learned-card-btn').forEach(btn => {
-        btn.addEventListener('click', async (e: Event) => {
-          e.stopPropagation()
-          const cardId = parseInt((e.currentTarget as HTMLElement).dataset.cardId!)
-          await this.deleteLearnedCard(cardId)
-        })
-      })
+    this.renderAnkiFieldMapping(Object.keys(settings.fieldMapping), settings.fieldMapping)
+    this.renderAnkiSyncStatus()
 
-      // 为截图图标添加事件监听器
-      this.mainContent.querySelectorAll('.screenshot-icon-btn').forEach(btn => {
-        btn.addEventListener('mouseenter', (e: Event) => {
-          const target = e.currentTarget as HTMLElement
-          const screenshot = target.dataset.screenshot!
-          this.showScreenshotThumbnail(screenshot, target)
-        })
+    document.getElementById('anki-connect-btn')?.addEventListener('click', () => this.connectAnki())
+    document
+      .getElementById('anki-url-input')
+      ?.addEventListener('change', () => this.saveAnkiSettings())
+    document
+      .getElementById('anki-deck-input')
+      ?.addEventListener('change', () => this.saveAnkiSettings())
 
-        btn.addEventListener('mouseleave', () => {
-          this.hideScreenshotThumbnail()
-        })
+    const modelSelect = document.getElementById('anki-model-select') as HTMLSelectElement
+    modelSelect.addEventListener('change', async () => {
+      try {
+        const url = (document.getElementById('anki-url-input') as HTMLInputElement).value.trim()
+        await this.loadAnkiModelFields(new AnkiConnectClient(url), modelSelect.value, {})
+        await this.saveAnkiSettings()
+      } catch (error) {
+        console.error('读取笔记类型字段失败:', error)
+        this.showNotification((error as Error).message, 'error')
+      }
+    })
 
-        btn.addEventListener('click', (e: Event) => {
-          e.stopPropagation()
-          const target = e.currentTarget as HTMLElement
-          const screenshot = target.dataset.screenshot!
-          this.showScreenshotModal(screenshot)
-        })
-      })
+    const syncButton = document.getElementById('anki-sync-btn') as HTMLButtonElement
+    syncButton.addEventListener('click', () => this.syncToAnki(syncButton))
 
-      // 如果有高亮词汇，滚动到该位置
-      if (this.viewState.highlight) {
-        this.scrollToHighlightedWord()
+    document.getElementById('anki-reset-sync-btn')?.addEventListener('click', async () => {
+      if (!confirm(t('options.anki.confirmReset'))) return
+      await ankiSync.clearSyncedCards()
+      this.showNotification(t('options.anki.resetDone'), 'success')
+      this.renderAnkiSyncStatus()
+    })
+  }
+
+  private renderAnkiFieldMapping(
+    fieldNames: string[],
+    mapping: AnkiConnectSettings['fieldMapping']
+  ): void {
+    const container = document.getElementById('anki-field-mapping')
+    if (!container) return
+
+    if (fieldNames.length === 0) {
+      container.innerHTML = `<p class="text-sm text-muted-foreground">${t('options.anki.fieldsEmpty')}</p>`
+      return
+    }
+
+    container.innerHTML = fieldNames
+      .map(
+        name => `
+      <div class="flex items-center gap-3">
+        <span class="text-sm font-medium min-w-[120px] truncate">${this.escapeHtml(name)}</span>
+        <select class="anki-field-select flex-1 h-9 rounded-md border border-input bg-background px-3 text-sm" data-field="${this.escapeHtml(name)}">
+          <option value="">${t('options.anki.fieldEmpty')}</option>
+          ${(Object.keys(ANKI_CARD_FIELD_LABELS) as AnkiCardField[])
+            .map(
+              field =>
+                `<option value="${field}" ${mapping[name] === field ? 'selected' : ''}>${t(ANKI_CARD_FIELD_LABELS[field])}</option>`
+            )
+            .join('')}
+        </select>
+      </div>
+    `
+      )
+      .join('')
+
+    container.querySelectorAll('.anki-field-select').forEach(select => {
+      select.addEventListener('change', () => this.saveAnkiSettings())
+    })
+  }
+
+  private async renderAnkiSyncStatus(): Promise<void> {
+    try {
+      const [cards, synced] = await Promise.all([
+        storageService.getAllCards(),
+        ankiSync.getSyncedCards(),
+      ])
+      const statusElement = document.getElementById('anki-sync-status')
+      if (statusElement) {
+        statusElement.textContent = t('options.overview.ankiSync.summary', {
+          synced: cards.filter(card => String(card.id) in synced).length,
+          total: cards.length,
+        })
       }
     } catch (error) {
-      console.error('渲染已学词汇失败:', error)
-      this.mainContent.innerHTML = `
-        <div class="text-center py-12 text-muted-foreground">
-          <p class="text-lg font-medium mb-2">加载失败</p>
-          <p class="text-sm">请刷新页面重试</p>
-        </div>
-      `
+      console.error('获取 Anki 同步状态失败:', error)
     }
   }
 
-  private async exportToAnki(): Promise<void> {
+  /**
+   * 连接 AnkiConnect，读取牌组与笔记类型，并按所选笔记类型的字段生成映射
+   */
+  private async connectAnki(): Promise<void> {
+    const urlInput = document.getElementById('anki-url-input') as HTMLInputElement
+    const connectButton = document.getElementById('anki-connect-btn') as HTMLButtonElement
+    const statusElement = document.getElementById('anki-connection-status')!
+    const url = urlInput.value.trim()
+
+    if (!(await this.ensureAnkiPermission(url))) return
+
+    connectButton.disabled = true
+    statusElement.className = 'text-sm text-muted-foreground mt-3'
+    statusElement.textContent = t('options.anki.connecting')
+
+    try {
+      const client = new AnkiConnectClient(url)
+      await client.requestPermission()
+      const [version, deckNames, modelNames] = await Promise.all([
+        client.version(),
+        client.deckNames(),
+        client.modelNames(),
+      ])
+
+      const deckList = document.getElementById('anki-deck-list')!
+      deckList.innerHTML = deckNames
+        .map(deck => `<option value="${this.escapeHtml(deck)}"></option>`)
+        .join('')
+
+      const settings = await ankiSync.getSettings()
+      const modelSelect = document.getElementById('anki-model-select') as HTMLSelectElement
+      const modelName = modelNames.includes(settings.modelName) ? settings.modelName : modelNames[0]
+      modelSelect.innerHTML = modelNames
+        .map(
+          model =>
+            `<option value="${this.escapeHtml(model)}" ${model === modelName ? 'selected' : ''}>${this.escapeHtml(model)}</option>`
+        )
+        .join('')
+
+      await this.loadAnkiModelFields(
+        client,
+        modelName,
+        modelName === settings.modelName ? settings.fieldMapping : {}
+      )
+      await this.saveAnkiSettings()
+
+      statusElement.className = 'text-sm text-green-600 mt-3'
+      statusElement.textContent = t('options.anki.connected', { version })
+    } catch (error) {
+      console.error('连接 AnkiConnect 失败:', error)
+      statusElement.className = 'text-sm text-destructive mt-3'
+      statusElement.textContent = (error as Error).message
+    } finally {
+      connectButton.disabled = false
+    }
+  }
+
+  private async loadAnkiModelFields(
+    client: AnkiConnectClient,
+    modelName: string,
+    currentMapping: AnkiConnectSettings['fieldMapping']
+  ): Promise<void> {
+    const fieldNames = await client.modelFieldNames(modelName)
+    this.renderAnkiFieldMapping(fieldNames, ankiSync.guessFieldMapping(fieldNames, currentMapping))
+  }
+
+  /**
+   * 从 Anki 同步页面读取设置并保存
+   */
+  private async saveAnkiSettings(): Promise<void> {
+    const fieldMapping: AnkiConnectSettings['fieldMapping'] = {}
+    document.querySelectorAll<HTMLSelectElement>('.anki-field-select').forEach(select => {
+      fieldMapping[select.dataset.field!] = select.value as AnkiCardField | ''
+    })
+
+    try {
+      await ankiSync.saveSettings({
+        url: (document.getElementById('anki-url-input') as HTMLInputElement).value.trim(),
+        deckName: (document.getElementById('anki-deck-input') as HTMLInputElement).value.trim(),
+        modelName: (document.getElementById('anki-model-select') as HTMLSelectElement).value,
+        fieldMapping,
+      })
+    } catch (error) {
+      console.error('保存 Anki 同步设置失败:', error)
+      this.showNotification(t('common.saveFailed'), 'error')
+    }
+  }
+
+  /**
+   * AnkiConnect 默认地址已在 manifest 中声明，其他地址需向用户申请访问权限
+   */
+  private async ensureAnkiPermission(url: string): Promise<boolean> {
+    let origin: string
+    try {
+      origin = new URL(url).origin
+    } catch {
+      this.showNotification(t('options.anki.invalidUrl'), 'error')
+      return false
+    }
+
+    const origins = [`${origin}/*`]
+    if (await chrome.permissions.contains({ origins })) return true
+
+    this.showNotification(t('options.anki.permissionNeeded', { origin }), 'info')
+    return chrome.permissions.request({ origins })
+  }
+
+  /**
+   * 将尚未同步的卡片添加到 Anki，同步期间在按钮上显示进度
+   */
+  private async syncToAnki(button: HTMLButtonElement): Promise<void> {
+    const originalContent = button.innerHTML
+
     try {
+      const settings = await ankiSync.getSettings()
+      if (!(await this.ensureAnkiPermission(settings.url))) return
+
       const [savedCards, csvExportSettings] = await Promise.all([
         storageService.getAllCards(),
         chrome.storage.local.get(['csvExportFormat']),
       ])
-      const userFormat = csvExportSettings.csvExportFormat || 'anki-html' // 使用用户设置的格式
-
       if (savedCards.length === 0) {
-        this.showNotification('没有卡片可导出', 'error')
+        this.showNotification(t('options.export.noCards'), 'error')
         return
       }
 
-      // 使用新的CSV格式化器
-      const csvFormatter = new CSVFormatter()
-
-      // 根据用户设置创建导出选项
-      const exportOptions = CSVFormatter.createOptionsFromFormat(userFormat)
-
-      const csvContent = csvFormatter.exportFlashCards(savedCards, exportOptions)
-
-      // 生成包含格式的文件名
-      const formatName =
-        userFormat === 'plain-text' ? 'plain' : userFormat === 'rich-text' ? 'rich' : 'anki'
-      const filename = `immersive-memorize-${formatName}-${new Date().toISOString().slice(0, 10)}.csv`
+      button.disabled = true
+      const { format } = CSVFormatter.createOptionsFromFormat(
+        csvExportSettings.csvExportFormat || 'anki-html'
+      )
+      const result = await ankiSync.syncCards(savedCards, settings, format, (done, total) => {
+        button.textContent = t('options.anki.syncing', { done, total })
+      })
 
-      // 使用CSV格式化器的下载功能
-      csvFormatter.downloadCSV(csvContent, filename)
+      if (result.added + result.duplicates + result.failed === 0) {
+        this.showNotification(t('options.anki.noNewCards'), 'info')
+        return
+      }
 
-      this.showNotification(`已导出 ${savedCards.length} 张卡片 (${formatName}格式)`, 'success')
+      let message = t('options.anki.syncDone', { added: result.added })
+      if (result.duplicates > 0) {
+        message += t('options.anki.syncDuplicates', { count: result.duplicates })
+      }
+      if (result.failed > 0) {
+        message += t('options.anki.syncFailedCount', { count: result.failed })
+      }
+      this.showNotification(message, result.failed > 0 ? 'warning' : 'success')
     } catch (error) {
-      console.error('导出失败:', error)
-      this.showNotification(`导出失败: ${(error as Error).message}`, 'error')
+      console.error('同步到 Anki 失败:', error)
+      this.showNotification(
+        t('options.anki.syncFailed', { error: (error as Error).message }),
+        'error'
+      )
+    } finally {
+      button.disabled = false
+      button.innerHTML = originalContent
+      if (this.viewState.mode === 'anki-sync') this.renderAnkiSyncStatus()
     }
   }
 
   private async clearAllCards(): Promise<void> {
-    if (confirm('确定要删除所有卡片吗？此操作不可撤销。')) {
+    if (confirm(t('options.cards.confirmClear'))) {
       try {
         await storageService.clearAllData()
         // 更新学习进度（从记忆卡片推导）
         await this.vocabLibraryManager.updateProgressFromCards()
         // 重新渲染已学词汇页面
         await this.renderLearnedWords()
-        this.showNotification('所有卡片已清空', 'success')
+        this.showNotification(t('options.cards.cleared'), 'success')
       } catch (error) {
         console.error('清空失败:', error)
-        this.showNotification('清空失败', 'error')
+        this.showNotification(t('options.cards.clearFailed'), 'error')
       }
     }
   }
 
   private async deleteLearnedCard(cardId: number): Promise<void> {
-    if (confirm('确定要删除这张卡片吗？')) {
+    if (confirm(t('popup.cards.confirmDelete'))) {
       try {
         await storageService.deleteCard(cardId)
 
@@ -931,11 +3068,203 @@ class OptionsManager {
         // 重新渲染已学词汇页面
         await this.renderLearnedWords()
 
-        this.showNotification('卡片已删除', 'success')
+        this.showNotification(t('popup.cards.deleted'), 'success')
       } catch (error) {
         console.error('删除卡片失败:', error)
-        this.showNotification('删除失败', 'error')
+        this.showNotification(t('common.deleteFailed'), 'error')
+      }
+    }
+  }
+
+  private async startReviewSession(): Promise<void> {
+    try {
+      this.reviewQueue = await storageService.getDueReviews()
+      this.reviewAnswerShown = false
+      this.reviewedCount = 0
+      this.reviewGrading = false
+      this.renderReview()
+    } catch (error) {
+      console.error('加载复习队列失败:', error)
+      this.mainContent.innerHTML = `
+        <div class="text-center py-12 text-muted-foreground">
+          <p class="text-lg font-medium mb-2">${t('common.loadFailed')}</p>
+          <p class="text-sm">${t('common.reloadHint')}</p>
+        </div>
+      `
+    }
+  }
+
+  private renderReview(): void {
+    const current = this.reviewQueue[0]
+
+    if (!current) {
+      this.mainContent.innerHTML = `
+        <div class="text-center py-12 text-muted-foreground">
+          <div class="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
+            <svg class="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+          <p class="text-lg font-medium mb-2">${t('review.complete')}</p>
+          <p class="text-sm">${this.reviewedCount > 0 ? t('review.reviewedCount', { count: this.reviewedCount }) : t('review.noneDue')}</p>
+        </div>
+      `
+      return
+    }
+
+    const { card, review } = current
+    const intervals = reviewScheduler.previewIntervals(review)
+    const ratingButtons: { rating: ReviewRating; label: string; key: string; className: string }[] =
+      [
+        {
+          rating: 'again',
+          label: t('review.rating.again'),
+          key: '1',
+          className: 'text-destructive',
+        },
+        { rating: 'hard', label: t('review.rating.hard'), key: '2', className: 'text-yellow-600' },
+        { rating: 'good', label: t('review.rating.good'), key: '3', className: 'text-green-600' },
+        { rating: 'easy', label: t('review.rating.easy'), key: '4', className: 'text-blue-600' },
+      ]
+
+    this.mainContent.innerHTML = `
+      <div class="space-y-6 max-w-2xl mx-auto">
+        <div class="flex items-center justify-between text-sm text-muted-foreground">
+          <span>${t('review.remaining', { count: this.reviewQueue.length })}</span>
+          <span>${t('review.reviewed', { count: this.reviewedCount })}</span>
+        </div>
+
+        <div class="bg-card rounded-lg border p-6 space-y-4">
+          ${
+            ScreenshotRenderer.hasValidScreenshot(card.screenshot)
+              ? `<img src="${this.escapeHtml(card.screenshot)}" alt="${t('review.screenshotAlt')}" class="w-full rounded-md border" />`
+              : ''
+          }
+          <div class="text-xl leading-relaxed break-words text-center">${card.sentence}</div>
+
+          ${
+            this.reviewAnswerShown
+              ? `
+            <div class="border-t pt-4 text-center space-y-2">
+              <div class="text-2xl font-bold text-primary">${this.escapeHtml(card.word)}</div>
+              ${
+                card.reading && card.reading !== card.word
+                  ? `<div class="text-sm text-muted-foreground">${t('common.readingLabel', { reading: this.escapeHtml(card.reading) })}</div>`
+                  : ''
+              }
+              <div class="text-foreground">${this.escapeHtml(card.definition || t('common.noDefinition'))}</div>
+              ${
+                card.glosses && card.glosses !== card.definition
+                  ? `<div class="text-sm text-muted-foreground whitespace-pre-line">${this.escapeHtml(card.glosses)}</div>`
+                  : ''
+              }
+              <div class="text-xs text-muted-foreground">
+                ${t('options.learned.source', { source: this.escapeHtml(card.sourceTitle) })} • ${this.formatCardTimestamp(card)}
+              </div>
+            </div>
+          `
+              : ''
+          }
+        </div>
+
+        ${
+          this.reviewAnswerShown
+            ? `
+          <div class="grid grid-cols-4 gap-3">
+            ${ratingButtons
+              .map(
+                button => `
+              <button class="review-rating-btn inline-flex flex-col items-center justify-center rounded-md text-sm font-medium transition-colors border border-input bg-background hover:bg-accent h-16 px-4 py-2 ${button.className}" data-rating="${button.rating}" title="${t('review.hotkey', { key: button.key })}">
+                <span>${button.label}</span>
+                <span class="text-xs text-muted-foreground">${ReviewScheduler.formatInterval(intervals[button.rating])}</span>
+              </button>
+            `
+              )
+              .join('')}
+          </div>
+        `
+            : `
+          <div class="flex justify-center">
+            <button id="review-show-answer" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-6 py-2" title="${t('review.hotkey', { key: t('review.space') })}">
+              ${t('review.showAnswer')}
+            </button>
+          </div>
+        `
+        }
+      </div>
+    `
+
+    document.getElementById('review-show-answer')?.addEventListener('click', () => {
+      this.reviewAnswerShown = true
+      this.renderReview()
+    })
+
+    this.mainContent.querySelectorAll('.review-rating-btn').forEach(btn => {
+      btn.addEventListener('click', (e: Event) => {
+        const rating = (e.currentTarget as HTMLElement).dataset.rating as ReviewRating
+        this.gradeCurrentReview(rating)
+      })
+    })
+  }
+
+  private async gradeCurrentReview(rating: ReviewRating): Promise<void> {
+    const current = this.reviewQueue[0]
+    if (!current || this.reviewGrading) return
+
+    this.reviewGrading = true
+    this.mainContent.querySelectorAll<HTMLButtonElement>('.review-rating-btn').forEach(btn => {
+      btn.disabled = true
+    })
+
+    try {
+      const review = await storageService.gradeCard(current.card.id, rating)
+      this.reviewQueue.shift()
+      this.reviewedCount++
+
+      // 答错的卡片放回队尾，本次会话内再次复习
+      if (rating === 'again') {
+        this.reviewQueue.push({ card: current.card, review })
+      }
+
+      this.reviewAnswerShown = false
+      this.renderReview()
+    } catch (error) {
+      console.error('记录复习结果失败:', error)
+      this.showNotification(t('review.gradeFailed'), 'error')
+      this.mainContent.querySelectorAll<HTMLButtonElement>('.review-rating-btn').forEach(btn => {
+        btn.disabled = false
+      })
+    } finally {
+      this.reviewGrading = false
+    }
+  }
+
+  private handleReviewKeydown(e: KeyboardEvent): void {
+    if (this.viewState.mode !== 'review' || this.reviewQueue.length === 0 || this.reviewGrading)
+      return
+
+    const target = e.target as HTMLElement
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return
+
+    if (!this.reviewAnswerShown) {
+      if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault()
+        this.reviewAnswerShown = true
+        this.renderReview()
       }
+      return
+    }
+
+    const ratings: Record<string, ReviewRating> = {
+      '1': 'again',
+      '2': 'hard',
+      '3': 'good',
+      '4': 'easy',
+    }
+    const rating = ratings[e.key] || (e.key === ' ' ? 'good' : undefined)
+    if (rating) {
+      e.preventDefault()
+      this.gradeCurrentReview(rating)
     }
   }
 
@@ -959,6 +3288,32 @@ class OptionsManager {
     return `${mins}:${secs.toString().padStart(2, '0')}`
   }
 
+  /**
+   * 格式化卡片时间戳，有视频ID时生成跳转到对应时间点的链接
+   */
+  private formatCardTimestamp(card: FlashCard): string {
+    const label = this.formatTimestamp(card.timestamp)
+    const url = this.getCardVideoUrl(card)
+    if (!url) return label
+
+    return `<a href="${url}" target="_blank" rel="noopener noreferrer" class="underline hover:text-primary">${label}</a>`
+  }
+
+  /**
+   * 按卡片来源平台生成带时间点的视频链接，不支持的平台返回 null
+   */
+  private getCardVideoUrl(card: FlashCard): string | null {
+    if (!card.videoId) return null
+
+    // 早期版本只有 YouTube 卡片会记录 videoId，且未保存平台
+    switch (card.platform || 'youtube') {
+      case 'youtube':
+        return `https://www.youtube.com/watch?v=${encodeURIComponent(card.videoId)}&t=${Math.floor(card.timestamp)}s`
+      default:
+        return null
+    }
+  }
+
   private scrollToHighlightedWord(): void {
     // 使用setTimeout确保DOM已经渲染完成
     setTimeout(() => {
@@ -1051,7 +3406,7 @@ class OptionsManager {
             <svg class="w-6 h-6 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z"/>
             </svg>
-            截图加载失败
+            ${t('options.screenshot.loadFailed')}
           </div>
         `
         thumbnail.style.opacity = '1'
@@ -1136,8 +3491,8 @@ class OptionsManager {
             <svg class="w-16 h-16 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z"/>
             </svg>
-            <p class="text-lg font-medium">截图加载失败</p>
-            <p class="text-sm">图片数据可能已损坏</p>
+            <p class="text-lg font-medium">${t('options.screenshot.loadFailed')}</p>
+            <p class="text-sm">${t('options.screenshot.corrupted')}</p>
           </div>
         `
         modal.style.opacity = '1'
@@ -1217,51 +3572,187 @@ class OptionsManager {
     // 只允许字母键
     if (e.key.length === 1 && /[a-zA-Z]/.test(e.key)) {
       const newHotkey = e.key.toUpperCase()
-      this.hotkeyInput.value = newHotkey
-      this.hotkeyInput.blur()
 
-      // 立即保存设置
-      chrome.storage.local
-        .set({
-          captureHotkey: newHotkey.toLowerCase(),
-        })
-        .then(() => {
-          this.showNotification(`快捷键已设置为: ${newHotkey}`, 'success')
+      // 立即保存设置（不能与其他快捷键重复）
+      this.findHotkeyConflict(newHotkey.toLowerCase(), 'capture')
+        .then(conflict => {
+          if (conflict) {
+            this.showNotification(
+              t('options.hotkeys.conflict', { key: newHotkey, name: conflict }),
+              'warning'
+            )
+            return
+          }
+
+          this.hotkeyInput.value = newHotkey
+          this.hotkeyInput.blur()
+          return chrome.storage.local
+            .set({
+              captureHotkey: newHotkey.toLowerCase(),
+            })
+            .then(() => {
+              this.showNotification(
+                t('options.hotkeys.set', {
+                  name: t('options.hotkeys.captureName'),
+                  key: newHotkey,
+                }),
+                'success'
+              )
+            })
         })
         .catch(error => {
           console.error('保存快捷键失败:', error)
-          this.showNotification('保存失败', 'error')
+          this.showNotification(t('common.saveFailed'), 'error')
         })
     } else if (e.key === 'Escape') {
       this.hotkeyInput.blur()
     } else {
       // 给用户反馈不支持的按键
-      this.showNotification('请按字母键 (A-Z)', 'warning')
+      this.showNotification(t('options.hotkeys.letterOnly'), 'warning')
     }
   }
 
+  private async handleStudyHotkeyInput(e: KeyboardEvent, input: HTMLInputElement): Promise<void> {
+    e.preventDefault()
+    e.stopPropagation()
+
+    if (e.key === 'Escape') {
+      input.blur()
+      return
+    }
+    if (e.key.length !== 1 || !/[a-zA-Z]/.test(e.key)) {
+      this.showNotification(t('options.hotkeys.letterOnly'), 'warning')
+      return
+    }
+
+    const action = input.dataset.action as keyof StudyHotkeys
+    const newKey = e.key.toLowerCase()
+
+    try {
+      const conflict = await this.findHotkeyConflict(newKey, action)
+      if (conflict) {
+        this.showNotification(
+          t('options.hotkeys.conflict', { key: newKey.toUpperCase(), name: conflict }),
+          'warning'
+        )
+        return
+      }
+
+      const result = await chrome.storage.local.get(['studyHotkeys'])
+      const studyHotkeys = resolveStudyHotkeys(result.studyHotkeys)
+      await chrome.storage.local.set({ studyHotkeys: { ...studyHotkeys, [action]: newKey } })
+      input.value = newKey.toUpperCase()
+      input.blur()
+      this.showNotification(
+        t('options.hotkeys.set', { name: t(STUDY_HOTKEY_LABELS[action]), key: input.value }),
+        'success'
+      )
+    } catch (error) {
+      console.error('保存快捷键失败:', error)
+      this.showNotification(t('common.saveFailed'), 'error')
+    }
+  }
+
+  private async handleSettingHotkeyInput(
+    e: KeyboardEvent,
+    input: HTMLInputElement,
+    target: 'targetCycle' | 'markKnown'
+  ): Promise<void> {
+    e.preventDefault()
+    e.stopPropagation()
+
+    if (e.key === 'Escape') {
+      input.blur()
+      return
+    }
+    if (e.key.length !== 1 || !/[a-zA-Z]/.test(e.key)) {
+      this.showNotification(t('options.hotkeys.letterOnly'), 'warning')
+      return
+    }
+
+    const newKey = e.key.toLowerCase()
+
+    try {
+      const conflict = await this.findHotkeyConflict(newKey, target)
+      if (conflict) {
+        this.showNotification(
+          t('options.hotkeys.conflict', { key: newKey.toUpperCase(), name: conflict }),
+          'warning'
+        )
+        return
+      }
+
+      const { settingKey, label } = SETTING_HOTKEYS[target]
+      await chrome.storage.local.set({ [settingKey]: newKey })
+      input.value = newKey.toUpperCase()
+      input.blur()
+      this.showNotification(
+        t('options.hotkeys.set', { name: t(label), key: input.value }),
+        'success'
+      )
+    } catch (error) {
+      console.error('保存快捷键失败:', error)
+      this.showNotification(t('common.saveFailed'), 'error')
+    }
+  }
+
+  /**
+   * 检查按键是否已被其他快捷键占用，返回占用者名称
+   */
+  private async findHotkeyConflict(
+    key: string,
+    target: 'capture' | 'targetCycle' | 'markKnown' | keyof StudyHotkeys
+  ): Promise<string | null> {
+    const result = await chrome.storage.local.get([
+      'captureHotkey',
+      'studyHotkeys',
+      'targetCycleHotkey',
+      'markKnownHotkey',
+    ])
+    const hotkeys: [string, string, string][] = [
+      ['capture', result.captureHotkey || 's', t('options.hotkeys.captureName')],
+      ...Object.entries(SETTING_HOTKEYS).map(
+        ([name, { settingKey, defaultKey, label }]): [string, string, string] => [
+          name,
+          result[settingKey] || defaultKey,
+          t(label),
+        ]
+      ),
+      ...Object.entries(resolveStudyHotkeys(result.studyHotkeys)).map(
+        ([name, value]): [string, string, string] => [
+          name,
+          value,
+          t(STUDY_HOTKEY_LABELS[name as keyof StudyHotkeys]),
+        ]
+      ),
+    ]
+
+    const conflict = hotkeys.find(([name, value]) => name !== target && value === key)
+    return conflict ? conflict[2] : null
+  }
+
   private async renderActivationSettings(): Promise<void> {
     // Load current settings
     const result = await chrome.storage.local.get(['activationSettings'])
     const activationSettings = result.activationSettings || {
-      autoEnabledSites: ['*://*.netflix.com/*'],
+      autoEnabledSites: [...BUILTIN_SITES],
       globalAutoEnable: false,
     }
 
     this.mainContent.innerHTML = `
       <div class="space-y-6">
         <div class="text-center py-4">
-          <h2 class="text-2xl font-bold mb-2">插件启动行为</h2>
-          <p class="text-muted-foreground">配置插件在哪些网站自动启用，或设置全局自动启用</p>
+          <h2 class="text-2xl font-bold mb-2">${t('options.activation.title')}</h2>
+          <p class="text-muted-foreground">${t('options.activation.description')}</p>
         </div>
 
         <!-- Global Auto Enable Switch -->
         <div class="bg-card rounded-lg border p-6">
-          <h3 class="text-lg font-semibold mb-4">全局设置</h3>
+          <h3 class="text-lg font-semibold mb-4">${t('options.activation.global')}</h3>
           <div class="flex items-center justify-between">
             <div>
-              <div class="font-medium mb-1">在所有网站自动启用</div>
-              <div class="text-sm text-muted-foreground">启用后，插件将在所有网站自动加载，无需手动点击</div>
+              <div class="font-medium mb-1">${t('options.activation.globalLabel')}</div>
+              <div class="text-sm text-muted-foreground">${t('options.activation.globalHint')}</div>
             </div>
             <label class="relative inline-flex items-center cursor-pointer">
               <input type="checkbox" id="global-auto-enable" ${activationSettings.globalAutoEnable ? 'checked' : ''} class="sr-only peer">
@@ -1273,17 +3764,17 @@ class OptionsManager {
         <!-- Auto-enabled Sites List -->
         <div class="bg-card rounded-lg border p-6" id="sites-section" ${activationSettings.globalAutoEnable ? 'style="opacity: 0.5; pointer-events: none;"' : ''}>
           <div class="flex items-center justify-between mb-4">
-            <h3 class="text-lg font-semibold">自动启用的网站</h3>
+            <h3 class="text-lg font-semibold">${t('options.activation.sites')}</h3>
             <button id="add-site-btn" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-9 px-3">
               <svg class="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 4v16m8-8H4" />
               </svg>
-              添加网站
+              ${t('options.activation.addSite')}
             </button>
           </div>
           
           <p class="text-sm text-muted-foreground mb-4">
-            插件将在以下网站自动启用。支持通配符，例如 *://*.example.com/* 匹配 example.com 的所有子域名
+            ${t('options.activation.sitesHint')}
           </p>
 
           <div id="sites-list" class="space-y-3">
@@ -1314,8 +3805,8 @@ class OptionsManager {
                   <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 9l3 3 3-3" />
                 </svg>
               </div>
-              <p class="text-sm">暂无自动启用的网站</p>
-              <p class="text-xs mt-1">点击"添加网站"按钮开始配置</p>
+              <p class="text-sm">${t('options.activation.empty')}</p>
+              <p class="text-xs mt-1">${t('options.activation.emptyHint')}</p>
             </div>
           `
               : ''
@@ -1324,28 +3815,29 @@ class OptionsManager {
 
         <!-- Usage Instructions -->
         <div class="bg-card rounded-lg border p-6">
-          <h3 class="text-lg font-semibold mb-3">使用说明</h3>
+          <h3 class="text-lg font-semibold mb-3">${t('options.activation.usage')}</h3>
           <div class="space-y-2 text-sm text-muted-foreground">
             <div class="flex items-start gap-2">
               <div class="w-2 h-2 rounded-full bg-primary mt-2 flex-shrink-0"></div>
               <div>
-                <strong>自动启用：</strong>插件会在指定网站自动加载，图标显示为蓝色
+                <strong>${t('options.activation.autoLabel')}</strong>${t('options.activation.autoHint')}
               </div>
             </div>
             <div class="flex items-start gap-2">
               <div class="w-2 h-2 rounded-full bg-primary mt-2 flex-shrink-0"></div>
               <div>
-                <strong>手动启用：</strong>在其他网站，图标显示为灰色，点击图标即可启用
+                <strong>${t('options.activation.manualLabel')}</strong>${t('options.activation.manualHint')}
               </div>
             </div>
             <div class="flex items-start gap-2">
               <div class="w-2 h-2 rounded-full bg-primary mt-2 flex-shrink-0"></div>
               <div>
-                <strong>URL 模式：</strong>支持通配符 * 匹配任意字符，例如：
+                <strong>${t('options.activation.patternLabel')}</strong>${t('options.activation.patternHint')}
                 <ul class="ml-4 mt-1 space-y-1">
-                  <li>• <code class="bg-muted px-1 rounded">*://*.netflix.com/*</code> - 匹配 Netflix 所有页面</li>
-                  <li>• <code class="bg-muted px-1 rounded">https://example.com/*</code> - 匹配 example.com 的所有 HTTPS 页面</li>
-                  <li>• <code class="bg-muted px-1 rounded">*://video.*.com/*</code> - 匹配所有 video.xxx.com 域名</li>
+                  <li>• <code class="bg-muted px-1 rounded">*://*.netflix.com/*</code> - ${t('options.activation.patternNetflix')}</li>
+                  <li>• <code class="bg-muted px-1 rounded">*://*.primevideo.com/*</code> - ${t('options.activation.patternPrime')}</li>
+                  <li>• <code class="bg-muted px-1 rounded">https://example.com/*</code> - ${t('options.activation.patternHttps')}</li>
+                  <li>• <code class="bg-muted px-1 rounded">*://video.*.com/*</code> - ${t('options.activation.patternSubdomain')}</li>
                 </ul>
               </div>
             </div>
@@ -1379,7 +3871,10 @@ class OptionsManager {
 
       // Save settings
       await this.saveActivationSettings()
-      this.showNotification(enabled ? '已启用全局自动启用' : '已禁用全局自动启用', 'success')
+      this.showNotification(
+        enabled ? t('options.activation.globalEnabled') : t('options.activation.globalDisabled'),
+        'success'
+      )
     })
 
     // Add site button
@@ -1400,7 +3895,7 @@ class OptionsManager {
     newSiteRow.dataset.index = newIndex.toString()
     newSiteRow.innerHTML = `
       <input type="checkbox" checked class="site-enabled-checkbox h-4 w-4 rounded border border-primary text-primary ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2">
-      <input type="text" placeholder="例如: *://*.example.com/*" class="site-url-input flex-1 h-9 rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2">
+      <input type="text" placeholder="${t('options.activation.placeholder')}" class="site-url-input flex-1 h-9 rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2">
       <button class="delete-site-btn inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 hover:bg-destructive/10 text-destructive h-8 w-8">
         <svg class="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -1464,10 +3959,10 @@ class OptionsManager {
     const btn = e.target as HTMLElement
     const siteItem = btn.closest('.site-item') as HTMLElement
 
-    if (confirm('确定要删除这个网站配置吗？')) {
+    if (confirm(t('options.activation.confirmDelete'))) {
       siteItem.remove()
       await this.saveActivationSettings()
-      this.showNotification('网站配置已删除', 'success')
+      this.showNotification(t('options.activation.deleted'), 'success')
     }
   }
 
@@ -1504,7 +3999,7 @@ class OptionsManager {
         })
     } catch (error) {
       console.error('保存启动设置失败:', error)
-      this.showNotification('保存失败', 'error')
+      this.showNotification(t('common.saveFailed'), 'error')
     }
   }
 }
@@ -1598,6 +4093,8 @@ document.addEventListener('DOMContentLoaded', async () => {
     </style>
   `
 
+  // 界面语言需在创建 OptionsManager 之前确定（面包屑在构造时生成）
+  await i18n.init()
   const optionsManager = new OptionsManager()
   await optionsManager.init()
 })
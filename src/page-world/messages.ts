@@ -0,0 +1,26 @@
+/**
+ * 页面脚本（MAIN world）与内容脚本之间的 window.postMessage 协议
+ */
+
+// 页面脚本发出的消息来源标记
+export const PAGE_WORLD_SOURCE = 'immersive-memorize-page'
+// 内容脚本发出的消息来源标记
+export const CONTENT_SCRIPT_SOURCE = 'immersive-memorize-content'
+
+export interface NetflixTimedTextPayload {
+  movieId: string
+  language: string // BCP 47 语言代码，例如 'ja'
+  languageLabel: string // 播放器菜单中显示的名称
+  trackType: string // 'subtitles' | 'closedcaptions'
+  format: string // 字幕格式，例如 'imsc1.1'、'dfxp-ls-sdh'
+  content: string // 字幕文件全文
+}
+
+export type PageWorldMessage =
+  | {
+      source: typeof PAGE_WORLD_SOURCE
+      type: 'NETFLIX_TIMEDTEXT'
+      payload: NetflixTimedTextPayload
+    }
+  | { source: typeof CONTENT_SCRIPT_SOURCE; type: 'REQUEST_NETFLIX_TIMEDTEXT' }
+  | { source: typeof CONTENT_SCRIPT_SOURCE; type: 'SEEK_NETFLIX_PLAYER'; payload: { time: number } }
@@ -0,0 +1,171 @@
+/**
+ * Netflix 字幕轨道捕获脚本（运行于页面 MAIN world，document_start 注入）
+ * 播放器通过 JSON.parse 解析播放清单，其中 timedtexttracks 列出了每个字幕轨道的下载地址；
+ * 这里拦截清单并下载日语字幕全文，通过 postMessage 交给内容脚本存储与分析。
+ * 内容脚本注入较晚时可发送 REQUEST_NETFLIX_TIMEDTEXT 获取已缓存的轨道。
+ * 另外负责 SEEK_NETFLIX_PLAYER：Netflix 不允许直接修改 video.currentTime，需通过播放器 API 跳转。
+ */
+
+import {
+  CONTENT_SCRIPT_SOURCE,
+  PAGE_WORLD_SOURCE,
+  type NetflixTimedTextPayload,
+  type PageWorldMessage,
+} from './messages'
+
+interface NetflixDownloadable {
+  urls?: { url: string }[]
+  downloadUrls?: Record<string, string>
+}
+
+interface NetflixTimedTextTrack {
+  language?: string
+  languageDescription?: string
+  rawTrackType?: string
+  isNoneTrack?: boolean
+  isForcedNarrative?: boolean
+  ttDownloadables?: Record<string, NetflixDownloadable>
+}
+
+interface NetflixManifest {
+  result?: {
+    movieId?: number | string
+    timedtexttracks?: NetflixTimedTextTrack[]
+  }
+}
+
+// 按优先级排列的字幕格式，imsc1.1 保留了日语注音（ruby）
+const PREFERRED_FORMATS = ['imsc1.1', 'dfxp-ls-sdh', 'simplesdh', 'webvtt-lssdh-ios8']
+const TARGET_LANGUAGE = 'ja'
+
+const capturedTracks = new Map<string, NetflixTimedTextPayload>()
+const pendingMovies = new Set<string>()
+
+function postTrack(payload: NetflixTimedTextPayload): void {
+  const message: PageWorldMessage = {
+    source: PAGE_WORLD_SOURCE,
+    type: 'NETFLIX_TIMEDTEXT',
+    payload,
+  }
+  window.postMessage(message, window.location.origin)
+}
+
+/**
+ * 选择日语字幕轨道：优先普通字幕，其次听障字幕，排除强制字幕
+ */
+function selectTrack(tracks: NetflixTimedTextTrack[]): NetflixTimedTextTrack | null {
+  const candidates = tracks.filter(
+    track =>
+      !track.isNoneTrack &&
+      !track.isForcedNarrative &&
+      track.language?.toLowerCase().startsWith(TARGET_LANGUAGE) &&
+      track.ttDownloadables
+  )
+  return candidates.find(track => track.rawTrackType === 'subtitles') || candidates[0] || null
+}
+
+function selectDownload(track: NetflixTimedTextTrack): { format: string; url: string } | null {
+  for (const format of PREFERRED_FORMATS) {
+    const downloadable = track.ttDownloadables?.[format]
+    if (!downloadable) continue
+
+    const url = downloadable.urls?.[0]?.url || Object.values(downloadable.downloadUrls || {})[0]
+    if (url) return { format, url }
+  }
+  return null
+}
+
+async function captureTrack(movieId: string, tracks: NetflixTimedTextTrack[]): Promise<void> {
+  if (capturedTracks.has(movieId) || pendingMovies.has(movieId)) return
+
+  const track = selectTrack(tracks)
+  const download = track ? selectDownload(track) : null
+  if (!track || !download) return
+
+  pendingMovies.add(movieId)
+  try {
+    const response = await fetch(download.url)
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+
+    const payload: NetflixTimedTextPayload = {
+      movieId,
+      language: track.language || TARGET_LANGUAGE,
+      languageLabel: track.languageDescription || track.language || TARGET_LANGUAGE,
+      trackType: track.rawTrackType || 'subtitles',
+      format: download.format,
+      content: await response.text(),
+    }
+    capturedTracks.set(movieId, payload)
+    postTrack(payload)
+  } catch (error) {
+    console.warn('[ImmersiveMemorize] Netflix字幕轨道下载失败:', error)
+  } finally {
+    pendingMovies.delete(movieId)
+  }
+}
+
+function inspectParsedValue(value: unknown): void {
+  if (!value || typeof value !== 'object') return
+
+  const result = (value as NetflixManifest).result
+  if (!result || !Array.isArray(result.timedtexttracks) || result.movieId === undefined) return
+
+  void captureTrack(String(result.movieId), result.timedtexttracks)
+}
+
+interface NetflixVideoPlayer {
+  getAllPlayerSessionIds(): string[]
+  getVideoPlayerBySessionId(sessionId: string): { seek(milliseconds: number): void } | undefined
+}
+
+interface NetflixGlobal {
+  appContext?: {
+    state?: { playerApp?: { getAPI?: () => { videoPlayer?: NetflixVideoPlayer } } }
+  }
+}
+
+/**
+ * 通过 Netflix 播放器 API 跳转到指定时间（秒）
+ */
+function seekPlayer(time: number): void {
+  const netflix = (window as unknown as { netflix?: NetflixGlobal }).netflix
+  const videoPlayer = netflix?.appContext?.state?.playerApp?.getAPI?.()?.videoPlayer
+  const sessionId = videoPlayer?.getAllPlayerSessionIds()[0]
+  if (!videoPlayer || !sessionId) {
+    console.warn('[ImmersiveMemorize] 未找到Netflix播放器，无法跳转')
+    return
+  }
+
+  videoPlayer.getVideoPlayerBySessionId(sessionId)?.seek(Math.round(time * 1000))
+}
+
+const originalParse = JSON.parse
+JSON.parse = function (
+  text: string,
+  reviver?: (this: unknown, key: string, value: unknown) => unknown
+) {
+  const value = originalParse.call(this, text, reviver)
+  try {
+    inspectParsedValue(value)
+  } catch {
+    // 捕获失败不能影响播放器
+  }
+  return value
+}
+
+window.addEventListener('message', event => {
+  if (event.source !== window) return
+
+  const message = event.data as PageWorldMessage | undefined
+  if (message?.source !== CONTENT_SCRIPT_SOURCE) return
+
+  if (message.type === 'SEEK_NETFLIX_PLAYER') {
+    seekPlayer(message.payload.time)
+    return
+  }
+
+  // 只回传当前播放的剧集，避免把之前看过的剧集误认为当前剧集
+  const movieId = window.location.pathname.match(/\/watch\/(\d+)/)?.[1]
+  const payload = movieId ? capturedTracks.get(movieId) : undefined
+  if (payload) postTrack(payload)
+})
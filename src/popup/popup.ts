@@ -3,6 +3,8 @@ import './popup-styles.css'
 import type { FlashCard } from '@/types'
 import { VocabLibraryManager } from '@/lib/vocab-library'
 import { storageService } from '@/lib/storage'
+import { i18n, t } from '@/lib/i18n'
+import { isBuiltinSite } from '@/lib/builtin-sites'
 
 class PopupManager {
   // UI Elements
@@ -124,7 +126,7 @@ class PopupManager {
       this.updatePagination()
     } catch (error) {
       console.error('加载卡片失败:', error)
-      this.showNotification('加载卡片失败', 'error')
+      this.showNotification(t('popup.cards.loadFailed'), 'error')
     }
   }
 
@@ -141,9 +143,9 @@ class PopupManager {
               <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.746 0 3.332.477 4.5 1.253v13C19.832 18.477 18.246 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
             </svg>
           </div>
-          <p class="text-lg font-medium mb-2">还没有保存任何卡片</p>
-          <p class="text-sm">在 Netflix 上观看日语内容时</p>
-          <p class="text-sm">按 <kbd class="px-2 py-1 bg-muted rounded text-xs font-mono">S</kbd> 键保存高亮词汇</p>
+          <p class="text-lg font-medium mb-2">${t('popup.cards.emptyTitle')}</p>
+          <p class="text-sm">${t('popup.cards.emptyHint1')}</p>
+          <p class="text-sm">${t('popup.cards.emptyHint2', { key: '<kbd class="px-2 py-1 bg-muted rounded text-xs font-mono">S</kbd>' })}</p>
         </div>
       `
       return
@@ -166,7 +168,7 @@ class PopupManager {
             
             ${
               card.reading && card.reading !== card.word
-                ? `<div class="text-sm text-muted-foreground mb-1">读音: ${this.escapeHtml(card.reading)}</div>`
+                ? `<div class="text-sm text-muted-foreground mb-1">${t('popup.cards.reading', { reading: this.escapeHtml(card.reading) })}</div>`
                 : ''
             }
             
@@ -176,6 +178,12 @@ class PopupManager {
                 : ''
             }
             
+            ${
+              card.glosses && card.glosses !== card.definition
+                ? `<div class="text-sm text-muted-foreground mb-2 whitespace-pre-line">${this.escapeHtml(card.glosses)}</div>`
+                : ''
+            }
+            
             <div class="text-xs text-muted-foreground mb-2 flex items-center gap-2">
               <span>${this.escapeHtml(card.sourceTitle)}</span>
               <span>•</span>
@@ -189,7 +197,7 @@ class PopupManager {
           <button 
             class="delete-card-btn opacity-0 group-hover:opacity-100 transition-opacity inline-flex items-center justify-center rounded-md text-sm font-medium focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 hover:bg-destructive/10 text-destructive h-8 w-8" 
             data-card-id="${card.id}"
-            title="删除卡片"
+            title="${t('popup.cards.delete')}"
           >
             <svg class="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -231,7 +239,7 @@ class PopupManager {
       this.prevPageBtn.style.display = 'none'
       this.nextPageBtn.style.display = 'none'
     } else {
-      this.pageInfo.textContent = `第 ${this.currentPage} / ${totalPages} 页`
+      this.pageInfo.textContent = t('popup.pageInfo', { page: this.currentPage, total: totalPages })
       this.prevPageBtn.style.display = 'inline-flex'
       this.nextPageBtn.style.display = 'inline-flex'
     }
@@ -249,7 +257,7 @@ class PopupManager {
   }
 
   async deleteCard(cardId: number): Promise<void> {
-    if (confirm('确定要删除这张卡片吗？')) {
+    if (confirm(t('popup.cards.confirmDelete'))) {
       try {
         await storageService.deleteCard(cardId)
         this.savedCards = this.savedCards.filter(card => card.id !== cardId)
@@ -266,10 +274,10 @@ class PopupManager {
         this.renderCards()
         this.updatePagination()
 
-        this.showNotification('卡片已删除', 'success')
+        this.showNotification(t('popup.cards.deleted'), 'success')
       } catch (error) {
         console.error('删除卡片失败:', error)
-        this.showNotification('删除失败', 'error')
+        this.showNotification(t('common.deleteFailed'), 'error')
       }
     }
   }
@@ -332,27 +340,27 @@ class PopupManager {
       const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true })
       
       if (!activeTab?.url) {
-        this.showNotification('无法获取当前页面URL', 'error')
+        this.showNotification(t('popup.selection.noUrl'), 'error')
         return
       }
 
-      // 检查是否为Netflix，如果不是则请求可选权限
-      if (!activeTab.url.includes('netflix.com')) {
+      // 检查是否为内置支持的流媒体网站（Netflix、Prime Video），如果不是则请求可选权限
+      if (!isBuiltinSite(activeTab.url)) {
         const hasPermission = await chrome.permissions.contains({
           origins: ['*://*/*']
         })
 
         if (!hasPermission) {
-          this.showNotification('需要额外权限以在此网站使用', 'info')
+          this.showNotification(t('popup.selection.permissionNeeded'), 'info')
           const granted = await chrome.permissions.request({
             origins: ['*://*/*']
           })
 
           if (!granted) {
-            this.showNotification('权限被拒绝，无法在此网站使用', 'error')
+            this.showNotification(t('popup.selection.permissionDenied'), 'error')
             return
           }
-          this.showNotification('权限已授予', 'success')
+          this.showNotification(t('popup.selection.permissionGranted'), 'success')
         }
       }
 
@@ -362,15 +370,18 @@ class PopupManager {
       })
 
       if (response?.success) {
-        this.showNotification('正在启动视频选择...', 'info')
+        this.showNotification(t('popup.selection.starting'), 'info')
         // 关闭popup，让用户专注于页面上的操作
         window.close()
       } else {
-        this.showNotification('启动失败：' + (response?.error || '未知错误'), 'error')
+        this.showNotification(
+          t('popup.selection.failed', { error: response?.error || t('common.unknownError') }),
+          'error'
+        )
       }
     } catch (error) {
       console.error('Failed to initiate video selection:', error)
-      this.showNotification('启动失败：请确保在视频页面上使用', 'error')
+      this.showNotification(t('popup.selection.notVideoPage'), 'error')
     }
   }
 
@@ -560,7 +571,7 @@ class PopupManager {
     this.updateStyleUI()
     await this.saveSubtitleStyles()
     this.applySubtitleStyles()
-    this.showNotification('字幕样式已重置', 'success')
+    this.showNotification(t('popup.subtitle.resetDone'), 'success')
   }
 
   /**
@@ -608,7 +619,9 @@ class PopupManager {
     }
 
     this.showNotification(
-      this.forceFullscreenMode ? '已启用全屏字幕模式' : '已禁用全屏字幕模式',
+      this.forceFullscreenMode
+        ? t('popup.subtitle.fullscreenEnabled')
+        : t('popup.subtitle.fullscreenDisabled'),
       'success'
     )
   }
@@ -622,6 +635,9 @@ document.addEventListener('DOMContentLoaded', async () => {
     console.error('Error sending activation message:', err)
   })
 
+  await i18n.init()
+  document.documentElement.lang = i18n.getLanguage()
+
   // 创建新的NavBar + Tab架构UI
   const container = document.querySelector('.container')!
   container.innerHTML = `
@@ -639,19 +655,19 @@ document.addEventListener('DOMContentLoaded', async () => {
             <svg class="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.746 0 3.332.477 4.5 1.253v13C19.832 18.477 18.246 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
             </svg>
-            记忆卡片
+            ${t('popup.tab.cards')}
           </button>
           <button id="subtitle-tab" class="tab-button inline-flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium transition-colors hover:bg-accent/50 text-muted-foreground">
             <svg class="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
               <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
-            字幕设置
+            ${t('popup.tab.subtitle')}
           </button>
         </div>
         
         <!-- Settings Button -->
-        <button id="settings-button" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 hover:bg-accent hover:text-accent-foreground h-9 w-9" title="设置">
+        <button id="settings-button" class="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 hover:bg-accent hover:text-accent-foreground h-9 w-9" title="${t('popup.settings')}">
           <svg class="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
             <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
@@ -665,8 +681,8 @@ document.addEventListener('DOMContentLoaded', async () => {
         <div id="cards-view" class="tab-view space-y-4">
           <!-- Cards Stats Header -->
           <div class="text-center">
-            <button id="cards-stats-button" class="inline-flex items-center px-3 py-1 rounded-full bg-primary/10 text-primary text-sm font-medium hover:bg-primary/20 transition-colors cursor-pointer" title="查看详细统计">
-              <span id="total-cards">0</span> 张记忆卡片
+            <button id="cards-stats-button" class="inline-flex items-center px-3 py-1 rounded-full bg-primary/10 text-primary text-sm font-medium hover:bg-primary/20 transition-colors cursor-pointer" title="${t('popup.stats.title')}">
+              ${t('popup.stats.count', { count: '<span id="total-cards">0</span>' })}
               <svg class="h-3 w-3 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7" />
               </svg>
@@ -699,24 +715,24 @@ document.addEventListener('DOMContentLoaded', async () => {
           <!-- Custom Subtitle Loading -->
           <div class="space-y-4">
             <div class="border rounded-lg p-4">
-              <h3 class="font-medium mb-3">自定义字幕</h3>
+              <h3 class="font-medium mb-3">${t('popup.subtitle.custom')}</h3>
               <button id="custom-subtitle-button" class="inline-flex items-center justify-center gap-2 rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-10 w-full">
                 <svg class="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
                   <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                加载自定义字幕
+                ${t('popup.subtitle.load')}
               </button>
             </div>
             
             <!-- Subtitle Style Settings -->
             <div id="subtitle-style-settings" class="relative border rounded-lg p-4">
-              <h3 class="font-medium mb-4">样式设置</h3>
+              <h3 class="font-medium mb-4">${t('popup.subtitle.styles')}</h3>
               
               <div class="space-y-4">
                 <!-- Font Size -->
                 <div>
-                  <label class="text-sm font-medium mb-2 block">字体大小</label>
+                  <label class="text-sm font-medium mb-2 block">${t('popup.subtitle.fontSize')}</label>
                   <div class="flex items-center gap-3">
                     <span class="text-xs text-muted-foreground">12px</span>
                     <input type="range" id="font-size-slider" min="12" max="36" value="16" 
@@ -728,31 +744,31 @@ document.addEventListener('DOMContentLoaded', async () => {
                 
                 <!-- Vertical Position -->
                 <div>
-                  <label class="text-sm font-medium mb-2 block">垂直位置</label>
+                  <label class="text-sm font-medium mb-2 block">${t('popup.subtitle.verticalPosition')}</label>
                   <div class="flex items-center gap-3">
-                    <span class="text-xs text-muted-foreground">上</span>
+                    <span class="text-xs text-muted-foreground">${t('popup.subtitle.top')}</span>
                     <input type="range" id="vertical-position-slider" min="20" max="200" value="60" 
                            class="flex-1 h-2 bg-secondary rounded-lg appearance-none cursor-pointer slider">
-                    <span class="text-xs text-muted-foreground">下</span>
+                    <span class="text-xs text-muted-foreground">${t('popup.subtitle.bottom')}</span>
                     <span id="vertical-position-value" class="text-sm font-medium w-12 text-center">60px</span>
                   </div>
                 </div>
                 
                 <!-- Background Opacity -->
                 <div>
-                  <label class="text-sm font-medium mb-2 block">背景透明度</label>
+                  <label class="text-sm font-medium mb-2 block">${t('popup.subtitle.backgroundOpacity')}</label>
                   <div class="flex items-center gap-3">
-                    <span class="text-xs text-muted-foreground">透明</span>
+                    <span class="text-xs text-muted-foreground">${t('popup.subtitle.transparent')}</span>
                     <input type="range" id="background-opacity-slider" min="0" max="100" value="50" 
                            class="flex-1 h-2 bg-secondary rounded-lg appearance-none cursor-pointer slider">
-                    <span class="text-xs text-muted-foreground">不透明</span>
+                    <span class="text-xs text-muted-foreground">${t('popup.subtitle.opaque')}</span>
                     <span id="background-opacity-value" class="text-sm font-medium w-10 text-center">50%</span>
                   </div>
                 </div>
                 
                 <!-- Time Offset -->
                 <div>
-                  <label class="text-sm font-medium mb-2 block">时间偏移</label>
+                  <label class="text-sm font-medium mb-2 block">${t('popup.subtitle.timeOffset')}</label>
                   <div class="flex items-center gap-3">
                     <span class="text-xs text-muted-foreground">-15s</span>
                     <input type="range" id="time-offset-slider" min="-15" max="15" step="0.1" value="0" 
@@ -768,13 +784,13 @@ document.addEventListener('DOMContentLoaded', async () => {
                   <label class="flex items-center gap-3 cursor-pointer group">
                     <input type="checkbox" id="force-fullscreen-checkbox" class="rounded border-input text-primary focus:ring-ring focus:ring-offset-background">
                     <div class="flex items-center gap-1.5">
-                      <span class="text-sm font-medium">强制全屏字幕定位</span>
+                      <span class="text-sm font-medium">${t('popup.subtitle.forceFullscreen')}</span>
                       <div class="relative group/tooltip">
                         <svg class="h-4 w-4 text-muted-foreground hover:text-foreground cursor-help" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                         </svg>
                         <div class="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 text-xs text-white bg-gray-900 rounded-md whitespace-nowrap opacity-0 group-hover/tooltip:opacity-100 transition-opacity duration-200 pointer-events-none z-50">
-                          如果字幕位置不正确或无法显示，<br>可尝试启用此选项，字幕将显示在屏幕底部
+                          ${t('popup.subtitle.forceFullscreenHint')}
                         </div>
                       </div>
                     </div>
@@ -787,7 +803,7 @@ document.addEventListener('DOMContentLoaded', async () => {
                     <svg class="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
                     </svg>
-                    重置为默认值
+                    ${t('popup.subtitle.reset')}
                   </button>
                 </div>
               </div>
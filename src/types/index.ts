@@ -13,11 +13,112 @@ export interface FlashCard {
   level?: string // JLPT level (N5, N4, N3, N2, N1)
   definition?: string // Word definition
   reading?: string // Word reading (furigana)
+  glosses?: string // 离线词典（JMdict / Yomitan）中的释义
   // Netflix详细信息
   showTitle?: string // 剧集名称
   seasonNumber?: string // 季数
   episodeNumber?: string // 集数
   episodeTitle?: string // 集标题
+  // 视频来源信息
+  platform?: string // 视频所属平台（如 youtube），旧卡片缺省时视为 YouTube
+  videoId?: string // 视频ID，配合platform与timestamp生成跳转链接
+}
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy'
+
+export interface ReviewState {
+  cardId: number // 关联到 flashcard.id
+  due: string // 下次复习时间 (ISO)
+  interval: number // 当前复习间隔（天）
+  ease: number // 难度系数 (SM-2 EF)
+  repetitions: number // 连续答对次数
+  lapses: number // 遗忘次数
+  lastReviewedAt?: string
+}
+
+export interface ReviewItem {
+  card: FlashCard
+  review: ReviewState
+}
+
+export interface ReviewSummary {
+  totalCount: number
+  dueCount: number
+  newCount: number
+}
+
+export interface SubtitleTrackEntry {
+  startTime: number // 秒
+  endTime: number // 秒
+  text: string
+}
+
+export interface VocabCoverage {
+  totalOccurrences: number // 可学习词汇出现总次数
+  targetOccurrences: number // 其中未掌握目标词的出现次数
+  coverage: number // 已覆盖比例 (0-1)
+  targetWords: { lemma: string; count: number }[] // 按出现次数降序
+  analyzedAt: string
+}
+
+// 整集字幕轨道（例如从 Netflix 播放清单捕获）
+export interface SubtitleTrack {
+  id: string // `${platform}:${mediaId}:${language}`
+  platform: string
+  mediaId: string
+  language: string
+  languageLabel: string
+  title: string
+  entries: SubtitleTrackEntry[]
+  capturedAt: string
+  coverage?: VocabCoverage
+}
+
+// 用户标记为已掌握的词汇：不生成卡片，也不再作为目标词汇高亮
+export interface KnownWord {
+  word: string // 词汇原形 (lemma)
+  source: 'subtitle' | 'manual' | 'import' // 字幕中标记 / 设置页添加 / 批量导入
+  addedAt: string
+}
+
+// 离线词典中的一个义项
+export interface DictionarySense {
+  partOfSpeech: string[]
+  glosses: string[]
+}
+
+// 从 JMdict XML 或 Yomitan 词典导入的词条
+export interface DictionaryEntry {
+  id: string // `${dictionaryId}:${序号}`
+  dictionaryId: string
+  terms: string[] // 汉字写法，纯假名词条为空
+  readings: string[]
+  senses: DictionarySense[]
+  score: number // 常用程度，同一词汇有多个词条时优先显示分数高的
+}
+
+// 释义语言，auto 表示与界面语言相同
+export type DefinitionLanguage = 'zh' | 'en' | 'ja'
+export type DefinitionLanguageSetting = DefinitionLanguage | 'auto'
+
+export interface DictionaryInfo {
+  id: string
+  title: string
+  format: 'jmdict' | 'yomitan'
+  language?: DefinitionLanguage // 释义语言，旧版本导入的词典没有该字段
+  fileName: string
+  entryCount: number
+  importedAt: string
+}
+
+// 后台导入词典的进度，保存在 chrome.storage.local 供设置页显示
+export interface DictionaryImportStatus {
+  state: 'importing' | 'done' | 'error'
+  dictionaryId: string
+  fileName: string
+  processed: number // 已写入的词条数
+  error?: string
+  updatedAt: number
 }
 
 export interface VocabEntry {
@@ -27,7 +128,8 @@ export interface VocabEntry {
   VocabPitch: string
   VocabPoS: string
   Frequency: string
-  Level: string
+  Level: string // JLPT 等级，或自定义词库的分组
+  FrequencyBand?: string // 词频段，仅高频核心词库使用，作为该词库的分组
 }
 
 export interface VocabLibrary {
@@ -38,6 +140,7 @@ export interface VocabLibrary {
   data: VocabEntry[]
   totalWords: number
   levels: string[]
+  custom?: boolean // 用户导入的词库，保存在 IndexedDB 中
 }
 
 export interface LevelProgress {
@@ -52,14 +155,89 @@ export interface VocabLibrarySettings {
   levelSettings: Record<string, LevelProgress>
 }
 
+// 逐句学习快捷键（单个字母，小写）
+export interface StudyHotkeys {
+  replay: string // 重播当前句
+  loop: string // 单句循环开关
+  previous: string // 上一句
+  next: string // 下一句
+}
+
+// 同步到 Anki 时可写入笔记字段的卡片内容
+export type AnkiCardField =
+  | 'word'
+  | 'reading'
+  | 'definition'
+  | 'sentence'
+  | 'screenshot'
+  | 'source'
+  | 'timestamp'
+  | 'glosses'
+  | 'level'
+
+// 通过 AnkiConnect 直接同步卡片的设置
+export interface AnkiConnectSettings {
+  url: string // AnkiConnect 地址，默认 http://127.0.0.1:8765
+  deckName: string
+  modelName: string // 笔记类型
+  fieldMapping: Record<string, AnkiCardField | ''> // 笔记字段 → 卡片内容，空字符串表示留空
+}
+
+// 导出模板中可选的列
+export type ExportField =
+  | 'word'
+  | 'reading'
+  | 'definition'
+  | 'glosses'
+  | 'sentence' // 按模板的句子格式输出
+  | 'sentenceFurigana' // 注音句子：汉字[读音]
+  | 'sentenceCloze' // 挖空句子：目标词替换为空白
+  | 'screenshot'
+  | 'source'
+  | 'showTitle'
+  | 'season'
+  | 'episode'
+  | 'episodeTitle'
+  | 'level'
+  | 'timestamp'
+  | 'createdAt'
+
+export type ExportQuoting = 'auto' | 'always' | 'never'
+export type ExportEncoding = 'utf-8' | 'utf-8-bom' | 'utf-16le'
+
+// 用户自定义的导出模板（命名预设）
+export interface ExportTemplate {
+  id: string
+  name: string
+  fields: ExportField[] // 按列顺序
+  separator: string
+  quoting: ExportQuoting // auto：仅在包含分隔符、引号或换行时加引号
+  encoding: ExportEncoding
+  includeHeader: boolean
+  sentenceFormat: 'plain-text' | 'anki-html' | 'rich-text' | 'anki-cloze' | 'anki-furigana'
+  mediaAsFiles: boolean // 截图单独打包为 ZIP
+}
+
 export interface ExtensionSettings {
   jlptWordlist: string[]
   captureHotkey: string
+  studyHotkeys: StudyHotkeys
+  autoPauseOnTarget: boolean // 含生词的字幕结束时自动暂停
+  highlightAllTargets: boolean // 显示字幕中的所有生词（按 JLPT 等级着色）
+  targetCycleHotkey: string // 在多个高亮生词之间切换捕获目标
+  markKnownHotkey: string // 将当前目标词汇标记为已掌握
+  uiLanguage: 'zh-CN' | 'en' | 'ja' | 'auto' // 界面语言
+  definitionLanguage: DefinitionLanguageSetting // 卡片与查词弹窗优先使用的释义语言
   debugMode: boolean
   enableScreenshot: boolean // 新增：截图功能开关，默认false
   savedCards: FlashCard[]
   vocabLibrarySettings: VocabLibrarySettings
-  csvExportFormat: 'plain-text' | 'anki-html' | 'rich-text' // CSV导出格式设置
+  csvExportFormat: 'plain-text' | 'anki-html' | 'rich-text' | 'anki-cloze' | 'anki-furigana' // CSV导出格式设置
+  csvMediaAsFiles?: boolean // CSV导出时截图单独打包为ZIP
+  csvIncludeGlosses?: boolean // CSV导出时增加离线词典释义列
+  ankiConnectSettings: AnkiConnectSettings
+  exportTemplates: ExportTemplate[]
+  activeExportTemplateId: string
 }
 
 export interface NotificationType {
@@ -70,10 +248,16 @@ export interface NotificationType {
 export type ViewMode =
   | 'overview'
   | 'library-detail'
+  | 'library-import'
   | 'level-detail'
   | 'vocab-list'
   | 'learned-words'
+  | 'known-words'
+  | 'dictionary'
   | 'activation-settings'
+  | 'anki-sync'
+  | 'export-templates'
+  | 'review'
 
 export interface ViewState {
   mode: ViewMode
@@ -8,7 +8,8 @@ module.exports = {
     'content-script': './src/content-script/index.ts',
     'popup/popup': './src/popup/popup.ts',
     'options/options': './src/options/options.ts',
-    'background': './src/background.ts'
+    'background': './src/background.ts',
+    'netflix-timedtext-hook': './src/page-world/netflix-timedtext-hook.ts'
   },
   output: {
     path: path.resolve(__dirname, 'dist'),